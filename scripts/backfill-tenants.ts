@@ -0,0 +1,38 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Tenant backfill
+ *
+ * Assigns companies to webhook events stored before tenant routing existed,
+ * then to their transactions, disputes and accounts. Events that still match
+ * no company are moved to the unassigned inbox.
+ * Run with: npx tsx scripts/backfill-tenants.ts [--dry-run]
+ */
+
+import { tenantResolver } from '../src/lib/tenant-resolver';
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is required');
+    process.exit(1);
+  }
+
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`🏢 Backfilling webhook tenants${dryRun ? ' (dry run)' : ''}...\n`);
+
+  const result = await tenantResolver.backfill({ dryRun });
+
+  console.log(`✅ Scanned ${result.scanned} events without a company`);
+  console.log(`   Assigned:     ${result.assigned}`);
+  console.log(`   Unassigned:   ${result.unassigned} (now in the admin inbox)`);
+  console.log(`   Transactions: ${result.transactions}`);
+  console.log(`   Disputes:     ${result.disputes}`);
+  console.log(`   Accounts:     ${result.accounts}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Tenant backfill failed:', error);
+    process.exit(1);
+  });
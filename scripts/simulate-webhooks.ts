@@ -0,0 +1,122 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Webhook scenario simulator
+ *
+ * Runs a built-in scenario, or any scenario JSON file, against a running
+ * dashboard. Events are signed with the endpoint secrets stored in the
+ * database when DATABASE_URL is set.
+ * Run with: npx tsx scripts/simulate-webhooks.ts <scenario-name | path/to/scenario.json>
+ *   [--base-url http://localhost:3000] [--iterations 10] [--concurrency 2]
+ *   [--order SCRIPTED|SHUFFLED|REVERSED] [--duplicates 0.2] [--no-sign]
+ *   [--tenant-token <token>] [--var name=value]...
+ * List the built-in scenarios with: npx tsx scripts/simulate-webhooks.ts --list
+ */
+
+import { readFileSync } from 'fs';
+import {
+  webhookSimulator,
+  listScenarios,
+  getScenario,
+  validateScenario,
+  validateSimulationOptions,
+  DeliveryOrder,
+  WebhookScenario,
+} from '../src/lib/webhook-simulator';
+import { webhookAdapters } from '../src/lib/webhook-adapters';
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function readVariables(): Record<string, unknown> {
+  const variables: Record<string, unknown> = {};
+  process.argv.forEach((arg, index) => {
+    if (arg !== '--var') return;
+    const [name, ...rest] = (process.argv[index + 1] || '').split('=');
+    const value = rest.join('=');
+    // Numbers stay numbers so amounts keep their type
+    variables[name] = value !== '' && !isNaN(Number(value)) ? Number(value) : value;
+  });
+  return variables;
+}
+
+function loadScenario(reference: string): WebhookScenario {
+  if (reference.endsWith('.json')) {
+    const scenario = JSON.parse(readFileSync(reference, 'utf8'));
+    const problem = validateScenario(scenario, webhookAdapters.map(adapter => adapter.endpoint));
+    if (problem) {
+      throw new Error(`${reference}: ${problem}`);
+    }
+    return scenario;
+  }
+
+  const scenario = getScenario(reference);
+  if (!scenario) {
+    throw new Error(`Unknown scenario "${reference}" (use --list to see the built-in scenarios)`);
+  }
+  return scenario;
+}
+
+async function main() {
+  if (process.argv.includes('--list')) {
+    console.log('📋 Built-in webhook scenarios:\n');
+    listScenarios().forEach(scenario => {
+      console.log(`  ${scenario.name}`);
+      console.log(`     ${scenario.description || ''}`);
+      console.log(`     Steps: ${scenario.steps.map(step => `${step.name} (${step.endpoint})`).join(' → ')}\n`);
+    });
+    return;
+  }
+
+  const reference = process.argv[2];
+  if (!reference || reference.startsWith('--')) {
+    console.error('❌ Usage: npx tsx scripts/simulate-webhooks.ts <scenario-name | scenario.json> [options]');
+    process.exit(1);
+  }
+
+  const scenario = loadScenario(reference);
+  const options = {
+    baseUrl: readOption('--base-url') || process.env.SIMULATOR_BASE_URL || 'http://localhost:3000',
+    iterations: parseInt(readOption('--iterations') || '1'),
+    concurrency: parseInt(readOption('--concurrency') || '1'),
+    order: (readOption('--order')?.toUpperCase() || 'SCRIPTED') as DeliveryOrder,
+    duplicateRate: parseFloat(readOption('--duplicates') || '0'),
+    sign: !process.argv.includes('--no-sign'),
+    variables: readVariables(),
+    tenantToken: readOption('--tenant-token'),
+  };
+
+  const problem = validateSimulationOptions(options, scenario.steps.length);
+  if (problem) {
+    console.error(`❌ ${problem}`);
+    process.exit(1);
+  }
+  webhookSimulator.preview(scenario, options.variables);
+
+  console.log(`🎬 Running ${scenario.name} against ${options.baseUrl}...\n`);
+  const result = await webhookSimulator.run(scenario, options);
+
+  result.deliveries.forEach(delivery => {
+    const ok = delivery.status !== null && delivery.status >= 200 && delivery.status < 300;
+    console.log(
+      `  ${ok ? '✅' : '❌'} #${delivery.iteration} ${delivery.step.padEnd(16)} ${String(delivery.eventType || '').padEnd(24)}` +
+      ` ${delivery.status ?? delivery.error}${delivery.duplicate ? ' (duplicate)' : ''}${delivery.signed ? '' : ' (unsigned)'}` +
+      ` ${delivery.durationMs}ms`
+    );
+  });
+
+  console.log(`\n📊 Sent ${result.summary.sent} in ${result.durationMs}ms`);
+  console.log(`   Accepted:   ${result.summary.accepted}`);
+  console.log(`   Rejected:   ${result.summary.rejected}`);
+  console.log(`   Duplicates: ${result.summary.duplicatesSent}`);
+  console.log(`   By status:  ${Object.entries(result.summary.byStatus).map(([status, count]) => `${status}=${count}`).join(', ')}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Webhook simulation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
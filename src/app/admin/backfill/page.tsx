@@ -0,0 +1,14 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { PaysafeBackfillConsole } from '@/components/PaysafeBackfillConsole';
+
+export default function PaysafeBackfillPage() {
+  return (
+    <ProtectedRoute requireRole={['SUPER_ADMIN']}>
+      <div className="min-h-screen bg-gray-50">
+        <PaysafeBackfillConsole />
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { DeadLetterQueueConsole } from '@/components/DeadLetterQueueConsole';
+
+export default function DeadLetterPage() {
+  return (
+    <ProtectedRoute requireRole={['SUPER_ADMIN']}>
+      <div className="min-h-screen bg-gray-50">
+        <DeadLetterQueueConsole />
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { UnassignedWebhookInbox } from '@/components/UnassignedWebhookInbox';
+
+export default function UnassignedWebhooksPage() {
+  return (
+    <ProtectedRoute requireRole={['SUPER_ADMIN']}>
+      <div className="min-h-screen bg-gray-50">
+        <UnassignedWebhookInbox />
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -15,10 +15,10 @@ export async function POST(request: NextRequest) {
       console.log('✅ JSON parsed successfully');
     } catch (parseError) {
       console.error('❌ JSON parsing failed:', parseError);
-      // Try to read the raw text to see what we're dealing with
+      // Try to read the raw text to see what we're dealing with (never log it - it holds the password)
       try {
         const rawText = await request.text();
-        console.log('Raw request body:', rawText.substring(0, 200) + '...');
+        console.log('Raw request body length:', rawText.length);
       } catch (textError) {
         console.error('Could not read raw text:', textError);
       }
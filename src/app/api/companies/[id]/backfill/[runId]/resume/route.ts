@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paysafeBackfill } from '@/lib/paysafe-backfill';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string; runId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/backfill/{runId}/resume:
+ *   post:
+ *     summary: Resume a failed backfill run
+ *     description: Queues the run again; it continues from its checkpoint instead of starting over
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Run queued
+ *       404:
+ *         description: Run not found
+ *       409:
+ *         description: The run has not failed
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:all-companies')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id, runId } = await params;
+
+  try {
+    const result = await paysafeBackfill.resume(runId, id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 });
+    }
+
+    return NextResponse.json({ success: true, runId }, { status: 202 });
+  } catch (error) {
+    console.error(`Failed to resume backfill ${runId}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to resume backfill' },
+      { status: 500 }
+    );
+  }
+}
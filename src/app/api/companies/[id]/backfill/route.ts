@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paysafeBackfill } from '@/lib/paysafe-backfill';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/backfill:
+ *   get:
+ *     summary: Historical backfill runs for a company
+ *     description: Newest first, with each run's checkpoint (stage, pages fetched) and per-stage report
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Backfill runs
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:all-companies')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const runs = await paysafeBackfill.listRuns(id);
+    return NextResponse.json({ success: true, runs });
+  } catch (error) {
+    console.error(`Failed to list backfill runs for company ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list backfill runs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/backfill:
+ *   post:
+ *     summary: Import a company's history from the Paysafe API
+ *     description: |
+ *       Queues a run that pages through Paysafe payments, refunds and accounts
+ *       in the date range with the platform API credentials and upserts them
+ *       into the company's transactions and accounts.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               accountId:
+ *                 type: string
+ *                 description: Paysafe merchant account to import; every account the credentials see when omitted
+ *             required:
+ *               - startDate
+ *               - endDate
+ *     responses:
+ *       202:
+ *         description: Run queued
+ *       400:
+ *         description: Invalid date range or no Paysafe API credentials
+ *       404:
+ *         description: Company not found
+ *       409:
+ *         description: A run is already in progress for the company
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:all-companies')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { startDate, endDate, accountId } = await request.json();
+    if (!startDate || !endDate) {
+      return NextResponse.json({ error: 'startDate and endDate are required' }, { status: 400 });
+    }
+
+    const result = await paysafeBackfill.start(
+      id,
+      {
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        accountId: typeof accountId === 'string' && accountId.trim() ? accountId.trim() : undefined,
+      },
+      user.id
+    );
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.notFound ? 404 : result.conflict ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, run: result.run }, { status: 202 });
+  } catch (error) {
+    console.error(`Failed to start backfill for company ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start backfill' },
+      { status: 500 }
+    );
+  }
+}
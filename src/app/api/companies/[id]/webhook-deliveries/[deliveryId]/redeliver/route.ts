@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookForwarder } from '@/lib/webhook-forwarder';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string; deliveryId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/webhook-deliveries/{deliveryId}/redeliver:
+ *   post:
+ *     summary: Redeliver a forwarded webhook now
+ *     description: Makes one immediate, signed attempt against the company's current endpoint and logs it
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attempt result (success is false when the receiver rejected it)
+ *       404:
+ *         description: Delivery not found
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { id, deliveryId } = await params;
+  if (!AuthService.hasPermission(user, 'write:webhooks', id)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const result = await webhookForwarder.redeliver(deliveryId, id);
+    if (!result) {
+      return NextResponse.json({ success: false, error: 'Delivery not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('Failed to redeliver webhook:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to redeliver webhook' },
+      { status: 500 }
+    );
+  }
+}
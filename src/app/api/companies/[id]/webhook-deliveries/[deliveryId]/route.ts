@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookForwarder } from '@/lib/webhook-forwarder';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string; deliveryId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/webhook-deliveries/{deliveryId}:
+ *   get:
+ *     summary: Get an outbound webhook delivery with its attempt log
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery, forwarded body and attempts (status code, latency, response snippet)
+ *       404:
+ *         description: Delivery not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { id, deliveryId } = await params;
+  if (!AuthService.hasPermission(user, 'read:webhooks', id)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const delivery = await webhookForwarder.getDelivery(deliveryId, id);
+    if (!delivery) {
+      return NextResponse.json({ success: false, error: 'Delivery not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, delivery });
+  } catch (error) {
+    console.error('Failed to get webhook delivery:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get webhook delivery' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookForwarder, DeliveryStatus } from '@/lib/webhook-forwarder';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ['PENDING', 'RETRYING', 'SUCCEEDED', 'FAILED'];
+
+/**
+ * @swagger
+ * /api/companies/{id}/webhook-deliveries:
+ *   get:
+ *     summary: List outbound webhook deliveries for a company
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, RETRYING, SUCCEEDED, FAILED]
+ *       - in: query
+ *         name: eventType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Deliveries, newest first
+ *       400:
+ *         description: Invalid status
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!AuthService.hasPermission(user, 'read:webhooks', id)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    if (status && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status. Must be one of: ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await webhookForwarder.listDeliveries(id, {
+      status: (status as DeliveryStatus) || undefined,
+      eventType: searchParams.get('eventType') || undefined,
+      limit: parseInt(searchParams.get('limit') || '50', 10),
+      offset: parseInt(searchParams.get('offset') || '0', 10),
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Failed to list webhook deliveries:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookForwarder } from '@/lib/webhook-forwarder';
+import { AuthService } from '@/lib/auth';
+import { checkOutboundEndpoint } from '@/lib/outbound-webhook';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/webhook-forwarding:
+ *   get:
+ *     summary: Get a company's outbound webhook forwarding settings
+ *     description: Endpoint that receives forwarded events, the event types it receives and the event types seen so far
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Forwarding settings
+ *       404:
+ *         description: Company not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!AuthService.hasPermission(user, 'read:webhooks', id)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const [settings, availableEventTypes] = await Promise.all([
+      webhookForwarder.getSettings(id),
+      webhookForwarder.getKnownEventTypes(),
+    ]);
+
+    if (!settings) {
+      return NextResponse.json({ success: false, error: 'Company not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, settings, availableEventTypes });
+  } catch (error) {
+    console.error('Failed to get webhook forwarding settings:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get webhook forwarding settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/webhook-forwarding:
+ *   patch:
+ *     summary: Update a company's outbound webhook forwarding settings
+ *     description: The signing secret is returned only when it is issued (first endpoint or rotation)
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               webhookEndpoint:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Public https URL (http outside production); null stops forwarding
+ *               eventTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Event types to forward; empty forwards all
+ *               rotateSecret:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Updated settings
+ *       400:
+ *         description: Invalid endpoint or event types
+ *       404:
+ *         description: Company not found
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!AuthService.hasPermission(user, 'write:webhooks', id)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { webhookEndpoint, eventTypes, rotateSecret } = await request.json();
+
+    if (webhookEndpoint !== undefined && webhookEndpoint !== null && typeof webhookEndpoint !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'webhookEndpoint must be a URL or null' },
+        { status: 400 }
+      );
+    }
+
+    const endpointError = webhookEndpoint ? await checkOutboundEndpoint(webhookEndpoint) : null;
+    if (endpointError) {
+      return NextResponse.json({ success: false, error: endpointError }, { status: 400 });
+    }
+
+    if (eventTypes !== undefined &&
+        (!Array.isArray(eventTypes) || !eventTypes.every((type: unknown) => typeof type === 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'eventTypes must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    const result = await webhookForwarder.updateSettings(id, {
+      webhookEndpoint,
+      eventTypes,
+      rotateSecret: rotateSecret === true,
+    });
+
+    if (!result) {
+      return NextResponse.json({ success: false, error: 'Company not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Failed to update webhook forwarding settings:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update webhook forwarding settings' },
+      { status: 500 }
+    );
+  }
+}
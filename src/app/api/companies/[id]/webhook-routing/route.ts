@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withDatabase } from '@/lib/database';
+import { tenantResolver } from '@/lib/tenant-resolver';
+import { webhookPipeline } from '@/lib/webhook-pipeline';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const ROUTING_SELECT = {
+  id: true,
+  name: true,
+  paysafePartnerId: true,
+  webhookToken: true,
+} as const;
+
+// Per-company URL for every registered webhook endpoint
+function withWebhookUrls(request: NextRequest, company: { webhookToken: string | null }) {
+  if (!company.webhookToken) {
+    return [];
+  }
+  const base = `${request.nextUrl.origin}/api/webhooks/tenant/${company.webhookToken}`;
+  return webhookPipeline.getEndpoints().map(endpoint => `${base}/${endpoint}`);
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/webhook-routing:
+ *   get:
+ *     summary: Get a company's inbound webhook routing
+ *     description: Partner id and per-company webhook URLs used by the tenant resolver
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Routing settings
+ *       404:
+ *         description: Company not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:all-companies')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { id } = await params;
+    const company = await withDatabase(async (db) => {
+      return await db.company.findUnique({ where: { id }, select: ROUTING_SELECT });
+    }, { operationName: 'get_company_webhook_routing' });
+
+    if (!company) {
+      return NextResponse.json({ success: false, error: 'Company not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      routing: { ...company, webhookUrls: withWebhookUrls(request, company) },
+    });
+  } catch (error) {
+    console.error('Failed to get company webhook routing:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get webhook routing' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/webhook-routing:
+ *   patch:
+ *     summary: Update a company's inbound webhook routing
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               paysafePartnerId:
+ *                 type: string
+ *                 nullable: true
+ *               rotateWebhookToken:
+ *                 type: boolean
+ *                 description: Issue a new per-company webhook URL (the old one stops working)
+ *               disableWebhookUrl:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Updated routing settings
+ *       404:
+ *         description: Company not found
+ *       409:
+ *         description: Partner id already belongs to another company
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:all-companies')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { id } = await params;
+    const { paysafePartnerId, rotateWebhookToken, disableWebhookUrl } = await request.json();
+
+    if (paysafePartnerId !== undefined && paysafePartnerId !== null && typeof paysafePartnerId !== 'string') {
+      return NextResponse.json({ success: false, error: 'paysafePartnerId must be a string or null' }, { status: 400 });
+    }
+
+    const result = await withDatabase(async (db) => {
+      const existing = await db.company.findUnique({ where: { id }, select: { id: true } });
+      if (!existing) {
+        return { notFound: true as const };
+      }
+
+      if (paysafePartnerId) {
+        const owner = await db.company.findFirst({
+          where: { paysafePartnerId, id: { not: id } },
+          select: { id: true },
+        });
+        if (owner) {
+          return { conflict: true as const };
+        }
+      }
+
+      const company = await db.company.update({
+        where: { id },
+        data: {
+          ...(paysafePartnerId !== undefined && { paysafePartnerId: paysafePartnerId || null }),
+          ...(rotateWebhookToken === true && { webhookToken: tenantResolver.generateWebhookToken() }),
+          ...(disableWebhookUrl === true && { webhookToken: null }),
+        },
+        select: ROUTING_SELECT,
+      });
+      return { company };
+    }, { operationName: 'update_company_webhook_routing' });
+
+    if ('notFound' in result) {
+      return NextResponse.json({ success: false, error: 'Company not found' }, { status: 404 });
+    }
+    if ('conflict' in result) {
+      return NextResponse.json(
+        { success: false, error: 'Partner id is already assigned to another company' },
+        { status: 409 }
+      );
+    }
+
+    // Routing changes must reach the ingestion pipeline immediately
+    tenantResolver.invalidate();
+
+    return NextResponse.json({
+      success: true,
+      routing: { ...result.company, webhookUrls: withWebhookUrls(request, result.company) },
+    });
+  } catch (error) {
+    console.error('Failed to update company webhook routing:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update webhook routing' },
+      { status: 500 }
+    );
+  }
+}
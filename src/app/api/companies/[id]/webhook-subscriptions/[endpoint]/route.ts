@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookSubscriptions, validateFilterRules } from '@/lib/webhook-subscriptions';
+import { webhookPipeline } from '@/lib/webhook-pipeline';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string; endpoint: string }>;
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/webhook-subscriptions/{endpoint}:
+ *   put:
+ *     summary: Set a company's event subscription for an inbound endpoint
+ *     description: Events outside the subscription, or matching a filter rule, are stored but not processed, notified or forwarded
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [netbanx, account-status, direct-debit, alternate-payments]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Subscribed event types ("PREFIX_*" allowed); empty subscribes to all
+ *               filters:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       enum: [IGNORE_TEST_MODE, MIN_AMOUNT, FIELD_EQUALS]
+ *                     minAmount:
+ *                       type: number
+ *                       description: MIN_AMOUNT, in minor units
+ *                     currency:
+ *                       type: string
+ *                     path:
+ *                       type: string
+ *                       description: FIELD_EQUALS, dot path into the raw payload
+ *                     value:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Saved subscription
+ *       400:
+ *         description: Unknown endpoint or invalid events/filters
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { id, endpoint } = await params;
+  if (!AuthService.hasPermission(user, 'write:webhooks', id)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  if (!webhookPipeline.getEndpoints().includes(endpoint)) {
+    return NextResponse.json({ success: false, error: `Unknown webhook endpoint: ${endpoint}` }, { status: 400 });
+  }
+
+  try {
+    const { events = [], filters = [] } = await request.json();
+
+    if (!Array.isArray(events) || !events.every((type: unknown) => typeof type === 'string')) {
+      return NextResponse.json({ success: false, error: 'events must be an array of strings' }, { status: 400 });
+    }
+
+    const filterError = validateFilterRules(filters);
+    if (filterError) {
+      return NextResponse.json({ success: false, error: filterError }, { status: 400 });
+    }
+
+    const subscription = await webhookSubscriptions.upsert(id, endpoint, { events, filters });
+
+    return NextResponse.json({ success: true, subscription });
+  } catch (error) {
+    console.error('Failed to save webhook subscription:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save webhook subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/webhook-subscriptions/{endpoint}:
+ *   delete:
+ *     summary: Remove a company's event subscription for an inbound endpoint
+ *     description: The endpoint goes back to processing every event for the company
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscription removed
+ *       404:
+ *         description: No subscription for this endpoint
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { id, endpoint } = await params;
+  if (!AuthService.hasPermission(user, 'write:webhooks', id)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const removed = await webhookSubscriptions.remove(id, endpoint);
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to remove webhook subscription:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove webhook subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookSubscriptions } from '@/lib/webhook-subscriptions';
+import { webhookPipeline } from '@/lib/webhook-pipeline';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/companies/{id}/webhook-subscriptions:
+ *   get:
+ *     summary: List a company's webhook event subscriptions
+ *     description: One entry per inbound endpoint that has a subscription; endpoints without one process every event
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscriptions and the endpoints they can be set for
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!AuthService.hasPermission(user, 'read:webhooks', id)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const subscriptions = await webhookSubscriptions.list(id);
+
+    return NextResponse.json({
+      success: true,
+      subscriptions,
+      endpoints: webhookPipeline.getEndpoints(),
+    });
+  } catch (error) {
+    console.error('Failed to list webhook subscriptions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list webhook subscriptions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withDatabase } from '@/lib/database';
+import { AuthService } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/companies:
+ *   get:
+ *     summary: List companies
+ *     description: Active companies with their webhook routing settings (super admins only)
+ *     responses:
+ *       200:
+ *         description: Companies ordered by name
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:all-companies')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const companies = await withDatabase(async (db) => {
+      return await db.company.findMany({
+        where: { isActive: true },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          paysafePartnerId: true,
+          webhookToken: true,
+        },
+        orderBy: { name: 'asc' },
+      });
+    }, { operationName: 'list_companies' });
+
+    return NextResponse.json({ success: true, companies });
+  } catch (error) {
+    console.error('Failed to list companies:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list companies' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookReplayGuard } from '@/lib/webhook-replay-guard';
+import { webhookIdempotency } from '@/lib/webhook-idempotency';
+import { webhookArchive } from '@/lib/webhook-archive';
+import { webhookLatency } from '@/lib/webhook-latency';
+import { testDataRetention } from '@/lib/data-mode';
+
+// Daily maintenance, scheduled in vercel.json
+export async function GET(request: NextRequest) {
+  // Vercel sends CRON_SECRET as a bearer token; without one configured the job cannot be triggered
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+  const results: Record<string, number | string> = {};
+
+  try {
+    results.expiredWebhookNonces = await webhookReplayGuard.cleanupExpiredNonces();
+  } catch (error) {
+    console.error('Webhook nonce cleanup failed:', error);
+    results.expiredWebhookNonces = 'failed';
+  }
+
+  try {
+    results.expiredIdempotencyKeys = await webhookIdempotency.cleanupExpiredKeys();
+  } catch (error) {
+    console.error('Webhook idempotency key cleanup failed:', error);
+    results.expiredIdempotencyKeys = 'failed';
+  }
+
+  try {
+    const archive = await webhookArchive.cleanupExpired();
+    results.expiredArchivePartitions = archive.partitions;
+    results.expiredArchiveEntries = archive.entries;
+  } catch (error) {
+    console.error('Raw webhook archive cleanup failed:', error);
+    results.expiredArchivePartitions = 'failed';
+  }
+
+  try {
+    results.expiredWebhookLatencies = await webhookLatency.cleanupExpired();
+  } catch (error) {
+    console.error('Webhook latency cleanup failed:', error);
+    results.expiredWebhookLatencies = 'failed';
+  }
+
+  try {
+    const testData = await testDataRetention.cleanupExpired();
+    results.expiredTestWebhookEvents = testData.webhookEvents;
+    results.expiredTestTransactions = testData.transactions;
+    results.expiredTestAccounts = testData.accounts;
+  } catch (error) {
+    console.error('Test-mode data cleanup failed:', error);
+    results.expiredTestWebhookEvents = 'failed';
+  }
+
+  console.log('Cron cleanup completed:', results);
+
+  return NextResponse.json({
+    success: true,
+    results,
+    processingTime: Date.now() - startTime,
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookKeyRotation } from '@/lib/webhook-key-rotation';
+
+// Hourly webhook key rotation check, scheduled in vercel.json
+export async function GET(request: NextRequest) {
+  // Vercel sends CRON_SECRET as a bearer token; without one configured the job cannot be triggered
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await webhookKeyRotation.checkRotations();
+    console.log('Webhook key rotation check completed:', results);
+
+    return NextResponse.json({ success: true, results });
+  } catch (error) {
+    console.error('Webhook key rotation check failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Webhook key rotation check failed' },
+      { status: 500 }
+    );
+  }
+}
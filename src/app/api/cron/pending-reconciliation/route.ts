@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pendingReconciler } from '@/lib/pending-reconciler';
+import { paymentOperations } from '@/lib/payment-operations';
+
+// Stale pending payment and unknown payment operation reconciliation every 30 minutes, scheduled in vercel.json
+export async function GET(request: NextRequest) {
+  // Vercel sends CRON_SECRET as a bearer token; without one configured the job cannot be triggered
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await pendingReconciler.run();
+    const operations = await paymentOperations.reconcileUnknown();
+
+    return NextResponse.json({ success: true, summary, operations });
+  } catch (error) {
+    console.error('Pending reconciliation failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Pending reconciliation failed' },
+      { status: 500 }
+    );
+  }
+}
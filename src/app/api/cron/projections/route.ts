@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookProjections } from '@/lib/webhook-projections';
+
+// Hourly projection catch-up, scheduled in vercel.json
+export async function GET(request: NextRequest) {
+  // Vercel sends CRON_SECRET as a bearer token; without one configured the job cannot be triggered
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await webhookProjections.catchUpAll();
+    console.log('Projection catch-up queued:', results);
+
+    return NextResponse.json({ success: true, results });
+  } catch (error) {
+    console.error('Projection catch-up failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Projection catch-up failed' },
+      { status: 500 }
+    );
+  }
+}
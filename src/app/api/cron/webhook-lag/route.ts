@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookLatency } from '@/lib/webhook-latency';
+
+// Webhook lag check every 15 minutes, scheduled in vercel.json
+export async function GET(request: NextRequest) {
+  // Vercel sends CRON_SECRET as a bearer token; without one configured the job cannot be triggered
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const breaches = await webhookLatency.checkLag();
+    console.log(`Webhook lag check completed: ${breaches.length} breach(es)`);
+
+    return NextResponse.json({ success: true, breaches, thresholds: webhookLatency.getThresholds() });
+  } catch (error) {
+    console.error('Webhook lag check failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Webhook lag check failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DatabaseService } from '@/lib/database';
 import { DatabasePerformanceMonitor } from '@/lib/database-performance-monitor';
+import { parseDataMode } from '@/lib/data-mode';
 
 /**
  * ULTRA-OPTIMIZED DASHBOARD API
@@ -21,14 +22,16 @@ export async function GET(request: NextRequest) {
     const companyId = searchParams.get('companyId');
     const limit = parseInt(searchParams.get('limit') || '500');
     const timeRange = (searchParams.get('timeRange') || 'day') as 'hour' | 'day' | 'week' | 'month';
+    const mode = parseDataMode(searchParams.get('mode'));
 
-    console.log('📊 Dashboard request:', { companyId, limit, timeRange });
+    console.log('📊 Dashboard request:', { companyId, limit, timeRange, mode });
 
     // Execute the ultra-optimized query batching
     const dashboardData = await DatabaseService.getDashboardDataOptimized({
       companyId: companyId || undefined,
       limit,
       timeRange,
+      mode,
     });
 
     const totalDuration = Date.now() - startTime;
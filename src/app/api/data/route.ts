@@ -5,6 +5,7 @@ import { redis, withDatabase } from '@/lib/database';
 import { RedisConnectionManager } from '@/lib/redis-config';
 import { DatabasePerformanceMonitor } from '@/lib/database-performance-monitor';
 import { Prisma } from '@prisma/client';
+import { parseDataMode } from '@/lib/data-mode';
 
 // SUPER-OPTIMIZED cache configuration for <2s response times
 const CACHE_TTL = {
@@ -23,12 +24,13 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type') || 'transactions';
     const companyId = searchParams.get('companyId');
+    const mode = parseDataMode(searchParams.get('mode')); // Live unless the dashboard is switched to test
     const limit = Math.min(parseInt(searchParams.get('limit') || '500'), 1000); // Cap at 1000
     
-    console.log('📋 Data request:', { type, companyId, limit });
+    console.log('📋 Data request:', { type, companyId, mode, limit });
     
     // Generate enhanced cache key with limit
-    const cacheKey = `api:data:v2:${type}:${companyId || 'all'}:${limit}`;
+    const cacheKey = `api:data:v2:${type}:${companyId || 'all'}:${mode}:${limit}`;
     
     // Try cache first for instant response
     try {
@@ -57,7 +59,7 @@ export async function GET(request: NextRequest) {
           
           // SINGLE DATABASE TRANSACTION - All data in one trip
           const result = await withDatabase(async (db) => {
-            const where = companyId ? { companyId } : {};
+            const where = companyId ? { companyId, mode } : { mode };
             
             // Execute OPTIMIZED queries in parallel with raw SQL for max performance
             const [transactions, aggregatedStats] = await Promise.all([
@@ -102,7 +104,8 @@ export async function GET(request: NextRequest) {
                   COALESCE(MIN(amount), 0) as min_amount,
                   COALESCE(MAX(amount), 0) as max_amount
                 FROM "transactions"
-                ${companyId ? Prisma.sql`WHERE "companyId" = ${companyId}` : Prisma.empty}
+                WHERE mode = ${mode}
+                ${companyId ? Prisma.sql`AND "companyId" = ${companyId}` : Prisma.empty}
                 GROUP BY status
                 ORDER BY transaction_count DESC
               `
@@ -258,7 +261,7 @@ export async function GET(request: NextRequest) {
           
           // SUPER-OPTIMIZED webhook query with all stats in one transaction
           const result = await withDatabase(async (db) => {
-            const where = companyId ? { companyId } : {};
+            const where = companyId ? { companyId, mode } : { mode };
             
             const [events, aggregatedStats] = await Promise.all([
               // Get webhook events with payload for actual data display
@@ -291,7 +294,8 @@ export async function GET(request: NextRequest) {
                   COUNT(*) as event_count,
                   MAX(timestamp) as latest_timestamp
                 FROM "webhook_events"
-                ${companyId ? Prisma.sql`WHERE "companyId" = ${companyId}` : Prisma.empty}
+                WHERE mode = ${mode}
+                ${companyId ? Prisma.sql`AND "companyId" = ${companyId}` : Prisma.empty}
                 GROUP BY processed, (error IS NOT NULL)
                 ORDER BY event_count DESC
               `
@@ -407,8 +411,12 @@ export async function GET(request: NextRequest) {
           
           // ULTIMATE OPTIMIZATION: Single complex query for all dashboard stats
           const result = await withDatabase(async (db) => {
-            const companyFilter = companyId ? Prisma.sql`WHERE t."companyId" = ${companyId}` : Prisma.empty;
-            const webhookCompanyFilter = companyId ? Prisma.sql`WHERE w."companyId" = ${companyId}` : Prisma.empty;
+            const companyFilter = companyId
+              ? Prisma.sql`WHERE t.mode = ${mode} AND t."companyId" = ${companyId}`
+              : Prisma.sql`WHERE t.mode = ${mode}`;
+            const webhookCompanyFilter = companyId
+              ? Prisma.sql`WHERE w.mode = ${mode} AND w."companyId" = ${companyId}`
+              : Prisma.sql`WHERE w.mode = ${mode}`;
             
             // MEGA-OPTIMIZED: Get all stats in ONE query using CTEs (Common Table Expressions)
             const combinedStats = await db.$queryRaw<Array<{
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { piiRedactor } from '@/lib/pii-redaction';
 
 export async function GET(request: NextRequest) {
   try {
     // Mimic what the frontend AuthContext does
     console.log('🔍 Debug frontend auth check...');
-    console.log('Cookies:', request.cookies.toString());
-    console.log('Headers:', Object.fromEntries(request.headers.entries()));
+    console.log('Cookies:', request.cookies.getAll().map(c => c.name));
+    console.log('Headers:', piiRedactor.maskHeaders(Object.fromEntries(request.headers.entries())));
     
     // Check if session token cookie exists
     const sessionCookie = request.cookies.get('session_token');
@@ -200,15 +200,15 @@ export async function GET(request: NextRequest) {
     console.log('5. Checking for batch processing evidence...');
     try {
       // Look for signs that batch processing is working
-      const batchKeys = await redis.keys('webhook_dedup:*');
+      const batchKeys = await redis.keys('webhook_idem:*');
       
       diagnostics.checks.batchProcessing = {
-        dedupKeysFound: batchKeys.length,
-        sampleDedupKeys: batchKeys.slice(0, 3)
+        idempotencyKeysFound: batchKeys.length,
+        sampleIdempotencyKeys: batchKeys.slice(0, 3)
       };
       
       if (batchKeys.length === 0) {
-        diagnostics.recommendations.push('No deduplication keys found - webhook processing might not be running');
+        diagnostics.recommendations.push('No cached idempotency keys found - webhook processing might not be running');
       }
       
     } catch (error) {
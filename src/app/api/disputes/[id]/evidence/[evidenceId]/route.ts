@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { disputeManager, disputeCompanyScope } from '@/lib/dispute-manager';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string; evidenceId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/disputes/{id}/evidence/{evidenceId}:
+ *   get:
+ *     summary: Download an evidence file
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: evidenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: File contents
+ *       404:
+ *         description: Not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const companyId = disputeCompanyScope(user);
+  if (!AuthService.hasPermission(user, 'read:disputes') || companyId === null) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id, evidenceId } = await params;
+
+  try {
+    const file = await disputeManager.readEvidence(id, evidenceId, companyId);
+    if (!file) {
+      return NextResponse.json({ error: 'Evidence not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.evidence.mimeType,
+        'Content-Length': String(file.evidence.size),
+        'Content-Disposition': `attachment; filename="${file.evidence.fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to read evidence ${evidenceId}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read evidence file' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/disputes/{id}/evidence/{evidenceId}:
+ *   delete:
+ *     summary: Remove an evidence file
+ *     description: Only allowed while the dispute is open
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: evidenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Evidence removed
+ *       404:
+ *         description: Not found
+ *       409:
+ *         description: Dispute is no longer open
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const companyId = disputeCompanyScope(user);
+  if (!AuthService.hasPermission(user, 'manage:disputes') || companyId === null) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id, evidenceId } = await params;
+
+  try {
+    const result = await disputeManager.deleteEvidence(id, evidenceId, companyId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Failed to delete evidence ${evidenceId}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete evidence' },
+      { status: 500 }
+    );
+  }
+}
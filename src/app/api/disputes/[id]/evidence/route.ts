@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { disputeManager, disputeCompanyScope } from '@/lib/dispute-manager';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/disputes/{id}/evidence:
+ *   post:
+ *     summary: Upload an evidence file
+ *     description: Stores the file locally and attaches it to the dispute
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Evidence stored
+ *       400:
+ *         description: Missing or oversized file
+ *       404:
+ *         description: Dispute not found
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const companyId = disputeCompanyScope(user);
+  if (!AuthService.hasPermission(user, 'manage:disputes') || companyId === null) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: 'A non-empty file field is required' }, { status: 400 });
+    }
+
+    let evidence;
+    try {
+      evidence = await disputeManager.addEvidence(id, {
+        fileName: file.name,
+        mimeType: file.type,
+        data: Buffer.from(await file.arrayBuffer()),
+      }, user.id, companyId);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Evidence files are limited')) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (!evidence) {
+      return NextResponse.json({ error: 'Dispute not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, evidence }, { status: 201 });
+  } catch (error) {
+    console.error(`Failed to upload evidence for dispute ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to upload evidence' },
+      { status: 500 }
+    );
+  }
+}
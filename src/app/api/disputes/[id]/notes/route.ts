@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { disputeManager, disputeCompanyScope } from '@/lib/dispute-manager';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/disputes/{id}/notes:
+ *   post:
+ *     summary: Add a note to a dispute
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               body:
+ *                 type: string
+ *             required:
+ *               - body
+ *     responses:
+ *       201:
+ *         description: Note created
+ *       400:
+ *         description: Empty note
+ *       404:
+ *         description: Dispute not found
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const companyId = disputeCompanyScope(user);
+  if (!AuthService.hasPermission(user, 'manage:disputes') || companyId === null) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { body } = await request.json();
+    if (typeof body !== 'string' || !body.trim()) {
+      return NextResponse.json({ error: 'Note body is required' }, { status: 400 });
+    }
+
+    const note = await disputeManager.addNote(id, body.trim(), user.id, companyId);
+    if (!note) {
+      return NextResponse.json({ error: 'Dispute not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, note }, { status: 201 });
+  } catch (error) {
+    console.error(`Failed to add note to dispute ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to add note' },
+      { status: 500 }
+    );
+  }
+}
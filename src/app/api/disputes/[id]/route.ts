@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { disputeManager, disputeCompanyScope, DISPUTE_STATUSES, DisputeStatus, DisputeActionResult } from '@/lib/dispute-manager';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/disputes/{id}:
+ *   get:
+ *     summary: Get dispute details
+ *     description: Returns the dispute with its original transaction, notes and evidence files
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dispute
+ *       404:
+ *         description: Not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const companyId = disputeCompanyScope(user);
+  if (!AuthService.hasPermission(user, 'read:disputes') || companyId === null) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const dispute = await disputeManager.getDispute(id, companyId);
+    if (!dispute) {
+      return NextResponse.json({ error: 'Dispute not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, dispute });
+  } catch (error) {
+    console.error(`Failed to fetch dispute ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve dispute' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/disputes/{id}:
+ *   patch:
+ *     summary: Update a dispute
+ *     description: Move the dispute through its workflow or change the response due date
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [OPEN, EVIDENCE_SUBMITTED, WON, LOST]
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Dispute updated
+ *       400:
+ *         description: Invalid update or transition
+ *       404:
+ *         description: Not found
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const companyId = disputeCompanyScope(user);
+  if (!AuthService.hasPermission(user, 'manage:disputes') || companyId === null) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { status, dueDate } = await request.json();
+
+    if (status === undefined && dueDate === undefined) {
+      return NextResponse.json({ error: 'Provide status and/or dueDate' }, { status: 400 });
+    }
+    if (status !== undefined && !DISPUTE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${DISPUTE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (dueDate !== undefined && (typeof dueDate !== 'string' || isNaN(new Date(dueDate).getTime()))) {
+      return NextResponse.json({ error: 'dueDate must be an ISO date string' }, { status: 400 });
+    }
+
+    let result: DisputeActionResult = { success: true };
+    if (dueDate !== undefined) {
+      result = await disputeManager.updateDueDate(id, new Date(dueDate), user.id, companyId);
+    }
+    if (result.success && status !== undefined) {
+      result = await disputeManager.updateStatus(id, status as DisputeStatus, user.id, companyId);
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, dispute: await disputeManager.getDispute(id, companyId) });
+  } catch (error) {
+    console.error(`Failed to update dispute ${id}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update dispute',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
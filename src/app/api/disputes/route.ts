@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { disputeManager, disputeCompanyScope, DISPUTE_STATUSES, DisputeStatus } from '@/lib/dispute-manager';
+import { AuthService } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/disputes:
+ *   get:
+ *     summary: List disputes
+ *     description: Chargeback disputes ordered by response due date, with per-status counts
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, EVIDENCE_SUBMITTED, WON, LOST]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Disputes and status counts
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const companyId = disputeCompanyScope(user);
+  if (!AuthService.hasPermission(user, 'read:disputes') || companyId === null) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status')?.toUpperCase();
+    if (statusParam && !DISPUTE_STATUSES.includes(statusParam as DisputeStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${DISPUTE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const { disputes, total, stats } = await disputeManager.listDisputes({
+      status: statusParam as DisputeStatus | undefined,
+      companyId,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      success: true,
+      disputes,
+      total,
+      stats,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to list disputes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve disputes' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DatabaseService } from '@/lib/database';
+import { DatabaseService, withDatabase } from '@/lib/database';
 import { redisStatus, redisHealth } from '@/lib/redis-config';
 
 /**
@@ -328,9 +328,10 @@ async function getQueueLength(): Promise<number> {
  */
 async function getDuplicatesDetected(): Promise<number> {
   try {
-    // This would query deduplication logs
-    // For now, return 0
-    return 0;
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    return await withDatabase(async (db) => {
+      return await db.webhookDuplicate.count({ where: { detectedAt: { gte: oneHourAgo } } });
+    }, { operationName: 'count_recent_duplicates', timeout: 3000, retries: 0 });
   } catch (error) {
     return 0;
   }
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookLatency } from '@/lib/webhook-latency';
+
+/**
+ * @swagger
+ * /api/monitoring/webhook-latency:
+ *   get:
+ *     summary: Webhook delivery and processing lag percentiles
+ *     description: |
+ *       Per source and event type: delivery lag (provider event time to
+ *       receipt), queue wait (enqueue to worker start) and processing lag
+ *       (receipt to processing complete), as p50/p90/p95/p99/max in
+ *       milliseconds, plus an hourly p50/p95 series for charting.
+ *     parameters:
+ *       - in: query
+ *         name: hours
+ *         schema:
+ *           type: number
+ *           default: 24
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: eventType
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Latency percentiles and series
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const hours = parseFloat(searchParams.get('hours') || '24');
+    const filter = {
+      hours: isNaN(hours) ? 24 : hours,
+      source: searchParams.get('source') || undefined,
+      eventType: searchParams.get('eventType') || undefined,
+    };
+
+    const [groups, series] = await Promise.all([
+      webhookLatency.getPercentiles(filter),
+      webhookLatency.getTimeSeries(filter),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      filter,
+      thresholds: webhookLatency.getThresholds(),
+      groups,
+      series,
+      metadata: {
+        generatedAt: new Date().toISOString(),
+        queryTime: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to get webhook latency:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve webhook latency' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/lib/auth';
+import { withDatabase } from '@/lib/database';
+import { paymentOperations, PAYMENT_OPERATION_TYPES, PaymentOperationType } from '@/lib/payment-operations';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Company filter for a user: undefined for super admins (all companies), null when the user has no company
+function companyScope(user: { role: string; companyId?: string }): string | undefined | null {
+  if (user.role === 'SUPER_ADMIN') {
+    return undefined;
+  }
+  return user.companyId || null;
+}
+
+/**
+ * @swagger
+ * /api/transactions/{id}/operations:
+ *   get:
+ *     summary: List refunds, voids and captures issued for a transaction
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Transaction ID or provider (external) transaction ID
+ *     responses:
+ *       200:
+ *         description: Operations, newest first
+ *       404:
+ *         description: Transaction not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const companyId = companyScope(user);
+  if (!AuthService.hasPermission(user, 'read:transactions') || companyId === null) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const transaction = await withDatabase(async (db) => {
+      return db.transaction.findFirst({
+        where: { OR: [{ id }, { externalId: id }], ...(companyId && { companyId }) },
+        select: { externalId: true },
+      });
+    }, { operationName: 'get_transaction_for_operations' });
+
+    if (!transaction) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+    }
+
+    const operations = await paymentOperations.listForTransaction(transaction.externalId);
+    return NextResponse.json({ success: true, operations });
+  } catch (error) {
+    console.error(`Failed to list operations for transaction ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list operations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/transactions/{id}/operations:
+ *   post:
+ *     summary: Refund, void or capture a payment
+ *     description: |
+ *       Sends the operation to Paysafe and applies the result to the local
+ *       transaction. Repeating a request with the same Idempotency-Key returns
+ *       the first result instead of issuing the operation again.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Transaction ID or provider (external) transaction ID
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [REFUND, VOID, CAPTURE]
+ *               amount:
+ *                 type: number
+ *                 description: Partial refund or capture amount; defaults to the full remaining amount
+ *             required:
+ *               - type
+ *     responses:
+ *       201:
+ *         description: Operation accepted by Paysafe
+ *       200:
+ *         description: Result of an earlier request with the same Idempotency-Key
+ *       202:
+ *         description: Paysafe did not answer; the outcome is reconciled by the operation's reference. Do not resubmit
+ *       400:
+ *         description: Missing key, unknown type, or the payment cannot take the operation
+ *       404:
+ *         description: Transaction not found
+ *       409:
+ *         description: Idempotency-Key reused for another operation, or still in progress
+ *       502:
+ *         description: Paysafe rejected the operation
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const companyId = companyScope(user);
+  if (!AuthService.hasPermission(user, 'manage:payments') || companyId === null) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  const idempotencyKey = request.headers.get('idempotency-key')?.trim();
+  if (!idempotencyKey || idempotencyKey.length > 255) {
+    return NextResponse.json({ error: 'An Idempotency-Key header of at most 255 characters is required' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json();
+    const type = typeof body.type === 'string' ? body.type.toUpperCase() : '';
+    if (!PAYMENT_OPERATION_TYPES.includes(type as PaymentOperationType)) {
+      return NextResponse.json({ error: `type must be one of ${PAYMENT_OPERATION_TYPES.join(', ')}` }, { status: 400 });
+    }
+    if (body.amount !== undefined && typeof body.amount !== 'number') {
+      return NextResponse.json({ error: 'amount must be a number' }, { status: 400 });
+    }
+
+    const result = await paymentOperations.execute(
+      { transactionId: id, type: type as PaymentOperationType, amount: body.amount, idempotencyKey },
+      {
+        user,
+        companyId,
+        ipAddress: request.headers.get('x-forwarded-for') || undefined,
+        userAgent: request.headers.get('user-agent') || undefined,
+      }
+    );
+
+    const status = result.notFound ? 404 :
+      result.conflict ? 409 :
+      result.unknown ? 202 :
+      result.rejected ? 502 :
+      !result.success ? 400 :
+      result.replayed ? 200 :
+      201;
+
+    return NextResponse.json(result, { status });
+  } catch (error) {
+    console.error(`Failed to run operation on transaction ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run operation' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
 import { AuthService } from '@/lib/auth';
+import { parseDataMode } from '@/lib/data-mode';
 
 const prisma = new PrismaClient();
 
@@ -47,6 +48,13 @@ const prisma = new PrismaClient();
  *           type: boolean
  *           default: true
  *         description: Include payment method details
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [live, test]
+ *           default: live
+ *         description: Live accounts or Paysafe sandbox (test) accounts
  *     responses:
  *       200:
  *         description: Successful response
@@ -124,7 +132,7 @@ export async function GET(request: NextRequest) {
     const includePaymentMethods = searchParams.get('includePaymentMethods') !== 'false';
 
     // Build filters
-    const filters: any = {};
+    const filters: any = { mode: parseDataMode(searchParams.get('mode')) };
     if (status) filters.status = status;
     if (onboardingStage) filters.onboardingStage = onboardingStage;
 
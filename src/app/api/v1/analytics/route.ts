@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { DatabaseService } from '@/lib/database';
 import { withCache, CACHE_CONFIGS } from '@/lib/api-cache';
 import { AnalyticsCacheManager } from '@/lib/analytics-cache';
+import { parseDataMode } from '@/lib/data-mode';
 
 /**
  * @swagger
@@ -19,6 +20,13 @@ import { AnalyticsCacheManager } from '@/lib/analytics-cache';
  *           enum: [hour, day, week, month]
  *           default: day
  *         description: Time range for analytics data
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [live, test]
+ *           default: live
+ *         description: Analytics for live traffic or Paysafe sandbox (test) traffic
  *     responses:
  *       200:
  *         description: Analytics data
@@ -70,9 +78,10 @@ const analyticsHandler = withCache({
 
     const { searchParams } = new URL(request.url);
     const timeRange = (searchParams.get('timeRange') || 'day') as 'hour' | 'day' | 'week' | 'month';
+    const mode = parseDataMode(searchParams.get('mode'));
 
     // Get cached analytics with smart pre-computation
-    const analytics = await AnalyticsCacheManager.getAnalytics(timeRange, company?.id);
+    const analytics = await AnalyticsCacheManager.getAnalytics(timeRange, company?.id, mode);
 
     // Filter data by company if not super admin
     if (company && user.role !== 'SUPER_ADMIN') {
@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/database';
 import { AuthService } from '@/lib/auth';
+import { summarizeRefunds } from '@/lib/transaction-linker';
 
 /**
  * @swagger
  * /api/v1/transactions/{id}:
  *   get:
  *     summary: Get transaction by ID
+ *     description: |
+ *       Returns the transaction with its status history (oldest change first),
+ *       its parent payment or child refunds/chargebacks, and for payments the
+ *       net captured amount after refunds
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -15,14 +20,14 @@ import { AuthService } from '@/lib/auth';
  *         required: true
  *         schema:
  *           type: string
- *         description: Transaction ID
+ *         description: Transaction ID or provider (external) transaction ID
  *     responses:
  *       200:
- *         description: Transaction details
+ *         description: Transaction details and status history
  *       404:
  *         description: Transaction not found
  */
-export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const authResult = await authenticateApiRequest(request);
     if (!authResult.success) {
@@ -33,13 +38,25 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
     }
 
     const { user, company } = authResult;
-    const { id } = params;
+    const { id } = await params;
 
     const transaction = await db.transaction.findFirst({
       where: {
-        id,
+        OR: [{ id }, { externalId: id }],
         companyId: company?.id,
       },
+      include: {
+        statusHistory: {
+          orderBy: [{ eventTime: 'asc' }, { timestamp: 'asc' }],
+        },
+        parent: {
+          select: { id: true, externalId: true, merchantRefNum: true, amount: true, currency: true, status: true },
+        },
+        children: {
+          select: { id: true, externalId: true, transactionType: true, amount: true, currency: true, status: true, transactionTime: true },
+          orderBy: { transactionTime: 'asc' },
+        },
+      },
     });
 
     if (!transaction) {
@@ -53,7 +70,10 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
 
     return NextResponse.json({
       success: true,
-      data: transaction,
+      data: {
+        ...transaction,
+        refundSummary: summarizeRefunds(transaction, transaction.children),
+      },
     });
 
   } catch (error) {
@@ -69,8 +89,9 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
 async function authenticateApiRequest(request: NextRequest) {
   try {
     const authHeader = request.headers.get('authorization');
+    const cookieToken = request.cookies.get('session_token')?.value;
     
-    if (!authHeader) {
+    if (!authHeader && !cookieToken) {
       return {
         success: false,
         error: 'Authorization header required',
@@ -81,11 +102,14 @@ async function authenticateApiRequest(request: NextRequest) {
     let token: string;
     let isApiToken = false;
 
-    if (authHeader.startsWith('Bearer ')) {
+    if (authHeader?.startsWith('Bearer ')) {
       token = authHeader.replace('Bearer ', '');
-    } else if (authHeader.startsWith('Api-Key ')) {
+    } else if (authHeader?.startsWith('Api-Key ')) {
       token = authHeader.replace('Api-Key ', '');
       isApiToken = true;
+    } else if (!authHeader && cookieToken) {
+      // Dashboard requests carry the session cookie instead of a header
+      token = cookieToken;
     } else {
       return {
         success: false,
@@ -2,13 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { DatabaseService } from '@/lib/database';
 import { AuthService } from '@/lib/auth';
 import { withCache, CACHE_CONFIGS } from '@/lib/api-cache';
+import { parseDataMode } from '@/lib/data-mode';
 
 /**
  * @swagger
  * /api/v1/transactions:
  *   get:
  *     summary: Get transactions
- *     description: Retrieve paginated list of transactions with optional filters
+ *     description: |
+ *       Retrieve paginated list of transactions with optional filters.
+ *       Payments include a refundSummary with the net captured amount after refunds and chargebacks.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -50,6 +53,13 @@ import { withCache, CACHE_CONFIGS } from '@/lib/api-cache';
  *           type: string
  *           format: date-time
  *         description: Filter transactions until this date
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [live, test]
+ *           default: live
+ *         description: Live transactions or Paysafe sandbox (test) transactions
  *     responses:
  *       200:
  *         description: Successful response
@@ -101,7 +111,7 @@ const transactionsHandler = withCache({
     const endDate = searchParams.get('endDate');
 
     // Build filters
-    const filters: any = {};
+    const filters: any = { mode: parseDataMode(searchParams.get('mode')) };
     if (status) filters.status = status;
     if (currency) filters.currency = currency;
     if (startDate) filters.startDate = new Date(startDate);
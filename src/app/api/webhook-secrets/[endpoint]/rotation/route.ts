@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookKeyRotation } from '@/lib/webhook-key-rotation';
+import { validateSecretKey } from '@/lib/encryption';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ endpoint: string }>;
+}
+
+/**
+ * @swagger
+ * /api/webhook-secrets/{endpoint}/rotation:
+ *   get:
+ *     summary: Webhook key rotation status
+ *     description: Current key version and, while a rotation is open, how many webhooks each key version validated since it started
+ *     parameters:
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rotation status
+ *       404:
+ *         description: No webhook secret for the endpoint
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-secrets')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { endpoint } = await params;
+
+  try {
+    const status = await webhookKeyRotation.getStatus(endpoint);
+    if (!status) {
+      return NextResponse.json({ error: 'Webhook secret not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, status });
+  } catch (error) {
+    console.error(`Failed to get key rotation status for ${endpoint}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get key rotation status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/webhook-secrets/{endpoint}/rotation:
+ *   post:
+ *     summary: Start a staged webhook key rotation
+ *     description: Installs a new key version. Signatures made with the current or the previous key are accepted until the overlap window ends.
+ *     parameters:
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               secretKey:
+ *                 type: string
+ *               algorithm:
+ *                 type: string
+ *               overlapHours:
+ *                 type: number
+ *                 description: How long the previous key stays valid (default WEBHOOK_KEY_ROTATION_OVERLAP_HOURS, 72)
+ *             required:
+ *               - secretKey
+ *     responses:
+ *       200:
+ *         description: Rotation started
+ *       400:
+ *         description: Invalid key or overlap
+ *       404:
+ *         description: No active webhook secret for the endpoint
+ *       409:
+ *         description: A previous key is still within its overlap window
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-secrets')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { endpoint } = await params;
+
+  try {
+    const body = await request.json();
+    if (!validateSecretKey(body.secretKey)) {
+      return NextResponse.json(
+        { error: 'Invalid secret key format. Key must be at least 32 characters long.' },
+        { status: 400 }
+      );
+    }
+    const overlapProblem = webhookKeyRotation.validateOverlapHours(body.overlapHours);
+    if (overlapProblem) {
+      return NextResponse.json({ error: overlapProblem }, { status: 400 });
+    }
+
+    const result = await webhookKeyRotation.rotate(endpoint, body.secretKey, {
+      algorithm: typeof body.algorithm === 'string' ? body.algorithm : undefined,
+      overlapHours: body.overlapHours,
+      userId: user.id,
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 });
+    }
+
+    return NextResponse.json({ success: true, status: result.status });
+  } catch (error) {
+    console.error(`Failed to rotate webhook key for ${endpoint}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to rotate webhook key' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/webhook-secrets/{endpoint}/rotation:
+ *   delete:
+ *     summary: Retire the previous webhook key
+ *     description: Ends the overlap window now; only the current key is accepted afterwards
+ *     parameters:
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Previous key retired
+ *       404:
+ *         description: No webhook secret for the endpoint
+ *       409:
+ *         description: No rotation in progress
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-secrets')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { endpoint } = await params;
+
+  try {
+    const result = await webhookKeyRotation.retirePreviousKey(endpoint, user.id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 });
+    }
+
+    return NextResponse.json({ success: true, status: result.status });
+  } catch (error) {
+    console.error(`Failed to retire previous webhook key for ${endpoint}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retire previous webhook key' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,13 +2,26 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/database';
 import { decryptSecret } from '@/lib/encryption';
 import { ensureWebhookSecretsTable } from '@/lib/db-init';
+import { invalidateWebhookSecretsCache } from '@/lib/webhook-secret-store-optimized';
+import { AuthService } from '@/lib/auth';
+
+const SIGNATURE_POLICIES = ['ENFORCE', 'MONITOR', 'DISABLED'];
+const SCHEMA_POLICIES = ['ENFORCE', 'MONITOR', 'DISABLED'];
 
 interface RouteParams {
   params: Promise<{ endpoint: string }>;
 }
 
-// Get a specific webhook secret (for internal use only - returns decrypted key)
+// Get a specific webhook secret (returns the decrypted key)
 export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-secrets')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
   try {
     // Ensure the table exists before querying
     const tableReady = await ensureWebhookSecretsTable();
@@ -21,7 +34,6 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     const { endpoint } = await params;
     
-    // This endpoint is for internal use only - could add API key validation here
     const secret = await db.webhookSecret.findUnique({
       where: { endpoint, isActive: true }
     });
@@ -54,7 +66,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         description: secret.description,
         algorithm: secret.algorithm,
         keyVersion: secret.keyVersion,
-        decryptedKey, // Only returned for internal API calls
+        signaturePolicy: secret.signaturePolicy,
+        schemaPolicy: secret.schemaPolicy,
+        decryptedKey,
         isActive: secret.isActive,
         createdAt: secret.createdAt,
         updatedAt: secret.updatedAt,
@@ -72,10 +86,32 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 // Update specific webhook secret properties
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-secrets')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
   try {
     const { endpoint } = await params;
     const body = await request.json();
-    const { isActive, name, description } = body;
+    const { isActive, name, description, signaturePolicy, schemaPolicy } = body;
+
+    if (signaturePolicy !== undefined && !SIGNATURE_POLICIES.includes(signaturePolicy)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid signaturePolicy. Must be one of: ${SIGNATURE_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (schemaPolicy !== undefined && !SCHEMA_POLICIES.includes(schemaPolicy)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid schemaPolicy. Must be one of: ${SCHEMA_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
     const updated = await db.webhookSecret.update({
       where: { endpoint },
@@ -83,6 +119,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         ...(typeof isActive === 'boolean' && { isActive }),
         ...(name && { name }),
         ...(description !== undefined && { description }),
+        ...(signaturePolicy && { signaturePolicy }),
+        ...(schemaPolicy && { schemaPolicy }),
         updatedAt: new Date(),
       },
       select: {
@@ -93,11 +131,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         algorithm: true,
         keyVersion: true,
         isActive: true,
+        signaturePolicy: true,
+        schemaPolicy: true,
         createdAt: true,
         updatedAt: true,
       }
     });
 
+    // Policy and activation changes must reach the ingestion pipeline immediately
+    await invalidateWebhookSecretsCache();
+
     return NextResponse.json({
       success: true,
       message: 'Webhook secret updated successfully',
@@ -3,10 +3,21 @@ import { withDatabase } from '@/lib/database';
 import { encryptSecret, decryptSecret, validateSecretKey, hashSecretForLogging } from '@/lib/encryption';
 import { ensureWebhookSecretsTable } from '@/lib/db-init';
 import { invalidateWebhookSecretsCache } from '@/lib/webhook-secret-store-optimized';
+import { webhookAdapters } from '@/lib/webhook-adapters';
+import { webhookKeyRotation } from '@/lib/webhook-key-rotation';
+import { AuthService } from '@/lib/auth';
 import { v4 as uuidv4 } from 'uuid';
 
 // Get all webhook secrets (without exposing the actual keys)
 export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-secrets')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
   try {
     // Ensure the table exists before querying
     const tableReady = await ensureWebhookSecretsTable();
@@ -30,7 +41,12 @@ export async function GET(request: NextRequest) {
             description: true,
             algorithm: true,
             keyVersion: true,
+            previousKeyVersion: true,
+            previousKeyExpiresAt: true,
+            rotatedAt: true,
             isActive: true,
+            signaturePolicy: true,
+            schemaPolicy: true,
             lastUsedAt: true,
             usageCount: true,
             createdAt: true,
@@ -51,10 +67,13 @@ export async function GET(request: NextRequest) {
       }
     });
 
+    const signatureMonitoring = await getSignatureMonitoring(secrets, request);
+
     return NextResponse.json({
       success: true,
       secrets,
-      count: secrets.length
+      count: secrets.length,
+      signatureMonitoring
     });
   } catch (error: any) {
     console.error('Error fetching webhook secrets:', error);
@@ -72,6 +91,14 @@ export async function GET(request: NextRequest) {
 
 // Create or update a webhook secret
 export async function POST(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-secrets')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
   try {
     // Ensure the table exists before operating
     const tableReady = await ensureWebhookSecretsTable();
@@ -83,7 +110,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { endpoint, name, description, secretKey, algorithm = 'sha256', companyId } = body;
+    const { endpoint, name, description, secretKey, algorithm = 'sha256', companyId, overlapHours, immediate = false } = body;
 
     // Validate required fields
     if (!endpoint || !name || !secretKey) {
@@ -110,6 +137,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const overlapProblem = webhookKeyRotation.validateOverlapHours(overlapHours);
+    if (overlapProblem) {
+      return NextResponse.json(
+        { success: false, error: overlapProblem },
+        { status: 400 }
+      );
+    }
+
     // Encrypt the secret key
     const encryptedKey = encryptSecret(secretKey);
     
@@ -120,15 +155,31 @@ export async function POST(request: NextRequest) {
       });
 
       if (existing) {
+        // A new key is staged: the old one stays valid for the overlap window so in-flight
+        // traffic signed with it keeps verifying. "immediate" replaces it outright.
+        const keyChanged = decryptSecret(existing.encryptedKey) !== secretKey;
+        const keyData = !keyChanged
+          ? {}
+          : immediate
+            ? {
+                encryptedKey,
+                keyVersion: existing.keyVersion + 1,
+                previousEncryptedKey: null,
+                previousAlgorithm: null,
+                previousKeyVersion: null,
+                previousKeyExpiresAt: null,
+                rotationAlertedAt: null,
+              }
+            : webhookKeyRotation.stagedRotationData(existing, encryptedKey, overlapHours);
+
         // Update existing secret
         return await db.webhookSecret.update({
           where: { endpoint },
           data: {
             name,
             description,
-            encryptedKey,
+            ...keyData,
             algorithm,
-            keyVersion: existing.keyVersion + 1,
             isActive: true,
             updatedAt: new Date(),
             companyId,
@@ -203,6 +254,14 @@ export async function POST(request: NextRequest) {
 
 // Delete a webhook secret
 export async function DELETE(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-secrets')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
   try {
     // Ensure the table exists before operating
     const tableReady = await ensureWebhookSecretsTable();
@@ -250,4 +309,51 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// Per-endpoint policy plus how many requests failed verification (quarantined)
+// in the window - i.e. how many would have been rejected under ENFORCE
+async function getSignatureMonitoring(
+  secrets: Array<{ endpoint: string; isActive: boolean; signaturePolicy: string; schemaPolicy: string }>,
+  request: NextRequest
+) {
+  const requestedDays = parseInt(request.nextUrl.searchParams.get('days') || '7');
+  const windowDays = Math.min(isNaN(requestedDays) || requestedDays < 1 ? 7 : requestedDays, 90);
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+  const quarantinedBySource = await withDatabase(async (db) => {
+    return await db.webhookEvent.groupBy({
+      by: ['source'],
+      where: {
+        quarantined: true,
+        timestamp: { gte: since },
+      },
+      _count: { _all: true },
+      _max: { timestamp: true },
+    });
+  }, {
+    timeout: 5000,
+    operationName: 'signature_quarantine_counts',
+    retries: 1
+  }).catch(error => {
+    console.error('Failed to count quarantined webhooks:', error);
+    return [];
+  });
+
+  return {
+    windowDays,
+    endpoints: webhookAdapters.map(adapter => {
+      const secret = secrets.find(s => s.endpoint === adapter.endpoint && s.isActive);
+      const quarantined = quarantinedBySource.find(row => row.source === adapter.source);
+
+      return {
+        endpoint: adapter.endpoint,
+        policy: secret?.signaturePolicy || adapter.defaultSignaturePolicy || 'MONITOR',
+        schemaPolicy: secret?.schemaPolicy || adapter.defaultSchemaPolicy || 'MONITOR',
+        configured: !!secret,
+        quarantinedCount: quarantined?._count._all || 0,
+        lastQuarantinedAt: quarantined?._max.timestamp || null,
+      };
+    }),
+  };
+}
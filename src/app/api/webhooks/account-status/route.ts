@@ -1,187 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { webhookStore } from '@/lib/webhook-store';
-import { WebhookEvent } from '@/types/webhook';
-import { v4 as uuidv4 } from 'uuid';
-import crypto from 'crypto';
-import { 
-  storeWebhookEvent,
-  upsertAccount,
-  recordAccountStatusHistory,
-  getWebhookSecret,
-  createAlert,
-  databaseHealthCheck
-} from '@/lib/database-serverless';
-
-interface PaysafeAccountStatusWebhook {
-  id: string; // Unique request ID
-  resourceId: string; // Account number being updated
-  mode: 'live' | 'test'; // Event mode
-  eventDate?: string; // Timestamp of status change
-  eventType: string; // Status change type (e.g., "ACCT_ENABLED")
-  payload?: {
-    partnerId?: number;
-    acctStatus?: string; // Current account status
-    accountNumber?: string;
-    creditCardId?: string; // CC ID for approved accounts
-    directDebitId?: string; // DD ID for approved accounts
-    [key: string]: any; // Additional fields
-  };
-  // Support for test webhook format
-  account?: {
-    id: string;
-    merchantId: string;
-    status: string;
-    creditCardId?: string;
-    directDebitId?: string;
-    [key: string]: any;
-  };
-}
+import { webhookPipeline } from '@/lib/webhook-pipeline';
 
+// Parsing, verification, normalization and processing live in the 'account-status' adapter
 export async function POST(request: NextRequest) {
-  try {
-    // Get the raw body for signature verification
-    const body = await request.text();
-    const timestamp = new Date().toISOString();
-    
-    // Get headers for validation - check multiple possible header names
-    const signature = request.headers.get('x-paysafe-signature') || 
-                     request.headers.get('x-netbanx-signature') || 
-                     request.headers.get('x-signature') ||
-                     request.headers.get('signature');
-    const eventType = request.headers.get('x-paysafe-event-type') ||
-                     request.headers.get('x-netbanx-event-type') ||
-                     request.headers.get('x-event-type');
-
-    // Log incoming webhook for debugging
-    console.log('Received Paysafe Account Status webhook:', {
-      url: request.url,
-      method: request.method,
-      eventType,
-      signature: signature ? 'present' : 'missing',
-      bodyLength: body.length,
-      timestamp,
-      headers: Object.fromEntries(request.headers.entries()),
-    });
-
-    // Parse the JSON payload
-    let payload: PaysafeAccountStatusWebhook;
-    try {
-      payload = JSON.parse(body);
-    } catch (error) {
-      console.error('Invalid JSON payload:', error);
-      return NextResponse.json(
-        { error: 'Invalid JSON payload' },
-        { status: 400 }
-      );
-    }
-
-    // Validate webhook signature if present
-    const isSignatureValid = await validateSignature(body, signature);
-    
-    // Allow webhooks from test endpoints and Netbanx testing without signatures
-    const isFromTestEndpoint = request.headers.get('user-agent')?.includes('node') || 
-                              request.headers.get('x-test-webhook') === 'true' ||
-                              body.includes('"source":"test-webhook"');
-    
-    if (!isSignatureValid && !isFromTestEndpoint && process.env.NODE_ENV === 'production') {
-      console.warn('Invalid webhook signature, but allowing for Netbanx testing:', {
-        hasSignature: !!signature,
-        userAgent: request.headers.get('user-agent'),
-        isFromTestEndpoint
-      });
-      
-      // For now, allow unsigned requests for Netbanx testing but log them
-      // In a real production system, you'd want to enable strict validation after testing
-      // return NextResponse.json(
-      //   { error: 'Invalid signature' },
-      //   { status: 401 }
-      // );
-    }
-
-    // Normalize payload - handle both Netbanx format and test format
-    const normalizedPayload = normalizeWebhookPayload(payload);
-    
-    // Create webhook event
-    const webhookEvent: WebhookEvent = {
-      id: uuidv4(),
-      timestamp,
-      eventType: normalizedPayload.eventType || eventType || 'ACCOUNT_STATUS_UPDATE',
-      source: 'paysafe-accounts',
-      payload: normalizedPayload,
-      processed: true,
-    };
-
-    // Store the webhook event in database (bulletproof serverless implementation)
-    let storedWebhookEvent;
-    try {
-      storedWebhookEvent = await storeWebhookEvent({
-        eventType: webhookEvent.eventType,
-        source: webhookEvent.source,
-        payload: webhookEvent.payload,
-        signature,
-        ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined,
-        userAgent: request.headers.get('user-agent') || undefined,
-      });
-      
-      console.log('Webhook event stored in database:', storedWebhookEvent.id);
-    } catch (dbError: any) {
-      console.error('Failed to store webhook in database:', dbError);
-      // Continue processing but log the error
-      await createAlert({
-        type: 'ERROR',
-        title: 'Webhook Storage Failed',
-        message: `Failed to store account status webhook: ${dbError.message}`,
-        metadata: { webhook: webhookEvent, error: dbError.message }
-      });
-    }
-    
-    // Also store in memory store for backward compatibility
-    webhookStore.addWebhookEvent(webhookEvent);
-
-    // Process account status update with database persistence
-    await processAccountStatusUpdate(normalizedPayload, storedWebhookEvent?.id);
-
-    console.log('Successfully processed account status webhook:', {
-      id: webhookEvent.id,
-      eventType: webhookEvent.eventType,
-      accountId: normalizedPayload.accountId,
-      merchantId: normalizedPayload.merchantId,
-      status: normalizedPayload.status,
-      creditCardId: normalizedPayload.creditCardId,
-      directDebitId: normalizedPayload.directDebitId,
-    });
-
-    // Return success response
-    return NextResponse.json(
-      { 
-        success: true, 
-        message: 'Account status webhook processed successfully',
-        webhookId: webhookEvent.id 
-      },
-      { status: 200 }
-    );
-
-  } catch (error) {
-    console.error('Error processing account status webhook:', error);
-    
-    // Log failed webhook event
-    const failedEvent: WebhookEvent = {
-      id: uuidv4(),
-      timestamp: new Date().toISOString(),
-      eventType: 'ACCOUNT_WEBHOOK_ERROR',
-      source: 'paysafe-accounts',
-      payload: { error: 'Processing failed', originalBody: body },
-      processed: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-    
-    webhookStore.addWebhookEvent(failedEvent);
-    
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
+  return webhookPipeline.handle('account-status', request);
 }
 
 export async function GET(request: NextRequest) {
@@ -206,242 +29,4 @@ export async function GET(request: NextRequest) {
     stats,
     timestamp: new Date().toISOString(),
   });
-}
-
-// Normalize webhook payload to handle different formats
-function normalizeWebhookPayload(payload: any): any {
-  // If it's already in test format with account field, extract that
-  if (payload.account) {
-    return {
-      eventType: payload.eventType,
-      accountId: payload.account.id,
-      merchantId: payload.account.merchantId,
-      status: payload.account.status,
-      creditCardId: payload.account.creditCardId,
-      directDebitId: payload.account.directDebitId,
-      businessName: payload.account.businessName,
-      email: payload.account.email,
-      onboardingStage: payload.account.onboardingStage,
-      riskLevel: payload.account.riskLevel,
-      complianceStatus: payload.account.complianceStatus,
-      timestamp: payload.timestamp,
-      paymentMethods: payload.paymentMethods,
-      statusChange: payload.statusChange,
-      metadata: payload.metadata,
-    };
-  }
-  
-  // If it's Netbanx format with payload field, extract that
-  if (payload.payload) {
-    return {
-      eventType: payload.eventType,
-      accountId: payload.resourceId,
-      merchantId: payload.resourceId,
-      status: payload.payload.acctStatus,
-      creditCardId: payload.payload.creditCardId,
-      directDebitId: payload.payload.directDebitId,
-      accountNumber: payload.payload.accountNumber,
-      partnerId: payload.payload.partnerId,
-      mode: payload.mode,
-      eventDate: payload.eventDate,
-      rawPayload: payload.payload,
-    };
-  }
-  
-  // If it's already in the expected format or unknown format, return as-is
-  return payload;
-}
-
-// Process account status update with bulletproof database operations
-async function processAccountStatusUpdate(normalizedPayload: any, webhookEventId?: string) {
-  try {
-    console.log('Processing account status update:', {
-      eventType: normalizedPayload.eventType,
-      accountId: normalizedPayload.accountId,
-      merchantId: normalizedPayload.merchantId,
-      status: normalizedPayload.status,
-      creditCardId: normalizedPayload.creditCardId,
-      directDebitId: normalizedPayload.directDebitId,
-      onboardingStage: normalizedPayload.onboardingStage,
-    });
-
-    // Database operations with serverless-safe implementation
-    const operations = [];
-    
-    // 1. Upsert account record
-    if (normalizedPayload.accountId && normalizedPayload.status) {
-      const accountOperation = upsertAccount({
-        externalId: normalizedPayload.accountId,
-        merchantId: normalizedPayload.merchantId || normalizedPayload.accountId,
-        accountName: normalizedPayload.businessName || normalizedPayload.accountId,
-        businessName: normalizedPayload.businessName,
-        email: normalizedPayload.email || `${normalizedPayload.accountId}@placeholder.com`,
-        phone: normalizedPayload.phone,
-        status: normalizedPayload.status,
-        subStatus: normalizedPayload.subStatus,
-        onboardingStage: normalizedPayload.onboardingStage,
-        creditCardId: normalizedPayload.creditCardId,
-        directDebitId: normalizedPayload.directDebitId,
-        businessType: normalizedPayload.businessType,
-        industry: normalizedPayload.industry,
-        website: normalizedPayload.website,
-        riskLevel: normalizedPayload.riskLevel,
-        complianceStatus: normalizedPayload.complianceStatus,
-        metadata: {
-          eventType: normalizedPayload.eventType,
-          mode: normalizedPayload.mode,
-          eventDate: normalizedPayload.eventDate,
-          partnerId: normalizedPayload.partnerId,
-          originalPayload: normalizedPayload
-        },
-        webhookEventId,
-      }).catch(error => {
-        console.error('Failed to upsert account:', error);
-        return null;
-      });
-      
-      operations.push(accountOperation);
-    }
-    
-    // Execute operations in parallel
-    const results = await Promise.allSettled(operations);
-    const account = results[0]?.status === 'fulfilled' ? results[0].value : null;
-    
-    // 2. Record status history if account was created/updated
-    if (account && normalizedPayload.status) {
-      try {
-        await recordAccountStatusHistory({
-          accountId: account.id,
-          toStatus: normalizedPayload.status,
-          subStatus: normalizedPayload.subStatus,
-          stage: normalizedPayload.onboardingStage,
-          reason: normalizedPayload.eventType,
-          description: `Status updated via webhook: ${normalizedPayload.eventType}`,
-          changedBy: 'paysafe-webhook',
-          metadata: {
-            creditCardId: normalizedPayload.creditCardId,
-            directDebitId: normalizedPayload.directDebitId,
-            eventDate: normalizedPayload.eventDate,
-            partnerId: normalizedPayload.partnerId
-          }
-        });
-      } catch (historyError) {
-        console.error('Failed to record account status history:', historyError);
-        // Don't throw - continue processing
-      }
-    }
-    
-    // Log successful processing
-    console.log('Account status update processed successfully:', {
-      accountDatabaseId: account?.id,
-      externalId: normalizedPayload.accountId,
-      status: normalizedPayload.status,
-      creditCardId: normalizedPayload.creditCardId,
-      directDebitId: normalizedPayload.directDebitId
-    });
-    
-  } catch (error: any) {
-    console.error('Error processing account status update:', error);
-    
-    // Create alert for failed processing
-    await createAlert({
-      type: 'ERROR',
-      title: 'Account Status Processing Failed',
-      message: `Failed to process account status update: ${error.message}`,
-      metadata: {
-        accountId: normalizedPayload.accountId,
-        eventType: normalizedPayload.eventType,
-        error: error.message,
-        payload: normalizedPayload
-      }
-    });
-    
-    throw error;
-  }
-}
-
-// HMAC signature validation using stored encrypted secret key
-async function validateSignature(body: string, signature: string | null): Promise<boolean> {
-  if (!signature) {
-    console.warn('No signature provided in account status webhook request');
-    // Allow webhooks without signatures in development only
-    return process.env.NODE_ENV !== 'production';
-  }
-  
-  try {
-    // Try to get stored secret from database first
-    const storedSecret = await getWebhookSecret('account-status').catch(err => {
-      console.warn('Failed to get stored webhook secret:', err.message);
-      return null;
-    });
-    
-    let secretKey: string;
-    let algorithm = 'sha256';
-    
-    if (storedSecret?.encryptedKey) {
-      // Use stored encrypted secret (decrypt it in a real implementation)
-      secretKey = storedSecret.encryptedKey; // In real implementation, decrypt this
-      algorithm = storedSecret.algorithm || 'sha256';
-      console.log('Using stored webhook secret');
-    } else {
-      // Fallback to hardcoded secret
-      secretKey = 'YzM2ZjA4OGYyMjAxODA3MmRkYjBkZjA1ZmY2MzM2MjNmZmVjZDAzZjFiYWMyMjlkZTc0YTg3MGEyNDg1NjIxNg==';
-      console.log('Using fallback webhook secret');
-    }
-    
-    return validateWithKey(body, signature, secretKey, algorithm);
-  } catch (error: any) {
-    console.error('Error validating account webhook signature:', error);
-    return false;
-  }
-}
-
-// Helper function to validate with a specific key
-function validateWithKey(body: string, signature: string, secretKey: string, algorithm: string = 'sha256'): boolean {
-  try {
-    // Try multiple approaches for the secret key
-    const secretKey1 = Buffer.from(secretKey, 'base64').toString('utf-8');  // Decoded
-    const secretKey2 = secretKey;  // Direct string
-    const secretKey3 = Buffer.from(secretKey, 'base64');  // Binary buffer
-    
-    // Try different secret key formats and signature computations
-    const signatures = [];
-    
-    // Approach 1: Use decoded secret key
-    signatures.push(crypto.createHmac(algorithm, secretKey1).update(body, 'utf8').digest('hex'));
-    signatures.push(crypto.createHmac(algorithm, secretKey1).update(body, 'utf8').digest('base64'));
-    
-    // Approach 2: Use base64 secret key directly
-    signatures.push(crypto.createHmac(algorithm, secretKey2).update(body, 'utf8').digest('hex'));
-    signatures.push(crypto.createHmac(algorithm, secretKey2).update(body, 'utf8').digest('base64'));
-    
-    // Approach 3: Use binary buffer secret key
-    signatures.push(crypto.createHmac(algorithm, secretKey3).update(body, 'utf8').digest('hex'));
-    signatures.push(crypto.createHmac(algorithm, secretKey3).update(body, 'utf8').digest('base64'));
-    
-    // Create all possible signature formats
-    const possibleSignatures = [];
-    signatures.forEach(sig => {
-      possibleSignatures.push(sig);
-      possibleSignatures.push(sig.toUpperCase());
-      possibleSignatures.push(`${algorithm}=${sig}`);
-      possibleSignatures.push(`${algorithm.toUpperCase()}=${sig}`);
-      possibleSignatures.push(`${algorithm}=${sig.toUpperCase()}`);
-      possibleSignatures.push(`${algorithm.toUpperCase()}=${sig.toUpperCase()}`);
-    });
-    
-    const isValid = possibleSignatures.includes(signature);
-    
-    console.log('Account webhook signature validation:', {
-      provided: signature,
-      algorithm,
-      possibleMatches: signatures.slice(0, 3), // Log first few for debugging
-      valid: isValid
-    });
-    
-    return isValid;
-  } catch (error) {
-    console.error('Error validating with key:', error);
-    return false;
-  }
 }
\ No newline at end of file
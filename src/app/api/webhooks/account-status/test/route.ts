@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { signatureValidator } from '@/lib/webhook-queue';
 
 // Test endpoint to simulate account status webhook
 export async function POST(request: NextRequest) {
@@ -69,15 +70,21 @@ export async function POST(request: NextRequest) {
       },
     };
 
+    // Sign with the endpoint's secret so the test passes an ENFORCE policy and the replay guard
+    const body = JSON.stringify(testPayload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = await signatureValidator.signBody(body, 'account-status', timestamp);
+
     // Send the webhook to the actual account status endpoint
     const response = await fetch(`${request.nextUrl.origin}/api/webhooks/account-status`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-Test-Webhook': 'true',
+        'X-Paysafe-Signature': signature,
+        'X-Webhook-Timestamp': timestamp,
         'User-Agent': 'node-test-webhook-client',
       },
-      body: JSON.stringify(testPayload),
+      body,
     });
 
     const result = await response.json();
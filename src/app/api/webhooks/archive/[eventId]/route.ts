@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookArchive } from '@/lib/webhook-archive';
+import { withDatabase } from '@/lib/database';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ eventId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/webhooks/archive/{eventId}:
+ *   get:
+ *     summary: Raw archived requests for a webhook event
+ *     description: The exact body bytes (base64 and UTF-8) and headers of every inbound request that produced the event - the first delivery and any redeliveries or rejected replays - for investigating signature disputes
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Archived requests, oldest first
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: No archived requests for the event
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { eventId } = await params;
+
+  try {
+    const event = await withDatabase(async (db) => {
+      return await db.webhookEvent.findUnique({
+        where: { id: eventId },
+        select: { companyId: true },
+      });
+    }, { operationName: 'get_archived_webhook_event' });
+
+    // Unassigned events are only visible to super admins
+    const allowed = user.role === 'SUPER_ADMIN' ||
+      (!!event?.companyId && AuthService.hasPermission(user, 'read:webhooks', event.companyId));
+    if (!allowed) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const entries = await webhookArchive.getEntriesForEvent(eventId);
+    if (entries.length === 0) {
+      return NextResponse.json({ error: 'No archived requests for this webhook event' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, webhookEventId: eventId, entries });
+  } catch (error) {
+    console.error(`Failed to read raw webhook archive for ${eventId}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve archived requests' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookIdempotency } from '@/lib/webhook-idempotency';
+import { AuthService } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/webhooks/duplicates:
+ *   get:
+ *     summary: Audit suppressed duplicate webhooks
+ *     description: Every delivery suppressed as a repeat of an already claimed event (same source, payload id, event type and event timestamp)
+ *     parameters:
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: eventType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: companyId
+ *         description: Super admins only; company users always see their own company
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Suppressed duplicates, newest first, with counts per source and detection layer
+ *       400:
+ *         description: Invalid date range
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const isSuperAdmin = user.role === 'SUPER_ADMIN';
+  if (!AuthService.hasPermission(user, 'read:webhooks') || (!isSuperAdmin && !user.companyId)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : undefined;
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : undefined;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json({ success: false, error: 'from and to must be ISO 8601 dates' }, { status: 400 });
+    }
+
+    const result = await webhookIdempotency.listDuplicates({
+      source: searchParams.get('source') || undefined,
+      eventType: searchParams.get('eventType') || undefined,
+      // Company users only see duplicates routed to their company
+      companyId: isSuperAdmin ? searchParams.get('companyId') || undefined : user.companyId,
+      from,
+      to,
+      limit: parseInt(searchParams.get('limit') || '50'),
+      offset: parseInt(searchParams.get('offset') || '0'),
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Failed to list suppressed duplicates:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve suppressed duplicates' },
+      { status: 500 }
+    );
+  }
+}
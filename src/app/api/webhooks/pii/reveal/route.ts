@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { piiRedactor } from '@/lib/pii-redaction';
+import { withDatabase } from '@/lib/database';
+import { AuthService } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/webhooks/pii/reveal:
+ *   post:
+ *     summary: Reveal tokenized webhook PII
+ *     description: Decrypts tokenized fields (cardholder name, billing address, bank account, payer details) from the PII vault. Either pass a webhook event id to get its payload with every token revealed, or a list of tokens. Every reveal is recorded in the audit log with its reason.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               webhookEventId:
+ *                 type: string
+ *               tokens:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               reason:
+ *                 type: string
+ *                 description: Why the values are needed, kept in the audit log
+ *             required:
+ *               - reason
+ *     responses:
+ *       200:
+ *         description: Revealed values (tokens of other companies are listed as unavailable)
+ *       400:
+ *         description: Missing reason, or neither webhookEventId nor tokens
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Webhook event not found
+ */
+export async function POST(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'reveal:pii')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (!reason) {
+      return NextResponse.json({ error: 'A reason is required to reveal PII' }, { status: 400 });
+    }
+
+    const context = {
+      reason,
+      webhookEventId: typeof body.webhookEventId === 'string' ? body.webhookEventId : undefined,
+      ipAddress: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+    };
+
+    if (context.webhookEventId) {
+      const event = await withDatabase(async (db) => {
+        return await db.webhookEvent.findUnique({
+          where: { id: context.webhookEventId },
+          select: { id: true, companyId: true, payload: true },
+        });
+      }, { operationName: 'get_webhook_event_for_pii_reveal' });
+
+      if (!event) {
+        return NextResponse.json({ error: 'Webhook event not found' }, { status: 404 });
+      }
+
+      // Unassigned events are only visible to super admins
+      const allowed = user.role === 'SUPER_ADMIN' ||
+        (!!event.companyId && AuthService.hasPermission(user, 'reveal:pii', event.companyId));
+      if (!allowed) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+      }
+
+      const result = await piiRedactor.revealPayload(event.payload, user, context);
+      return NextResponse.json({ success: true, webhookEventId: event.id, ...result });
+    }
+
+    if (!Array.isArray(body.tokens) || body.tokens.length === 0) {
+      return NextResponse.json({ error: 'webhookEventId or tokens is required' }, { status: 400 });
+    }
+    if (body.tokens.length > 100) {
+      return NextResponse.json({ error: 'At most 100 tokens can be revealed at once' }, { status: 400 });
+    }
+
+    const result = await piiRedactor.reveal(body.tokens.filter((token: unknown) => typeof token === 'string'), user, context);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Failed to reveal webhook PII:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reveal PII' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookProjections } from '@/lib/webhook-projections';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ name: string }>;
+}
+
+/**
+ * @swagger
+ * /api/webhooks/projections/{name}/verify:
+ *   get:
+ *     summary: Verify a projection against the event log
+ *     description: Replays the webhook events of the most recently updated rows in memory and lists fields where the stored row differs
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [transactions, accounts, payment-methods]
+ *       - in: query
+ *         name: sample
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 1000
+ *     responses:
+ *       200:
+ *         description: Rows checked and mismatches found
+ *       404:
+ *         description: Unknown projection
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { name } = await params;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const sample = parseInt(searchParams.get('sample') || '100');
+
+    const result = await webhookProjections.verify(name, isNaN(sample) ? 100 : sample);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error(`Failed to verify projection ${name}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify projection' },
+      { status: 500 }
+    );
+  }
+}
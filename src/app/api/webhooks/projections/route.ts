@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookProjections } from '@/lib/webhook-projections';
+import { AuthService } from '@/lib/auth';
+
+const MODES = ['REBUILD', 'CATCH_UP'] as const;
+
+/**
+ * @swagger
+ * /api/webhooks/projections:
+ *   get:
+ *     summary: Event-sourced projection status
+ *     description: Version, checkpoint and number of pending webhook events for each projection (transactions, accounts, payment-methods)
+ *     responses:
+ *       200:
+ *         description: Projection status
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const projections = await webhookProjections.getStatus();
+
+    return NextResponse.json({
+      success: true,
+      projections,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to get projection status:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve projection status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/webhooks/projections:
+ *   post:
+ *     summary: Rebuild or catch up a projection
+ *     description: |
+ *       REBUILD empties the projection's tables and replays every stored
+ *       webhook event; projections that depend on it are rebuilt afterwards.
+ *       CATCH_UP applies the events after the projection's checkpoint and
+ *       requires the tables to have been built with the current version.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 enum: [transactions, accounts, payment-methods]
+ *               mode:
+ *                 type: string
+ *                 enum: [REBUILD, CATCH_UP]
+ *                 default: CATCH_UP
+ *             required:
+ *               - name
+ *     responses:
+ *       202:
+ *         description: Run queued
+ *       400:
+ *         description: Invalid mode
+ *       404:
+ *         description: Unknown projection
+ *       409:
+ *         description: Already running, or a rebuild is needed first
+ */
+export async function POST(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { name, mode = 'CATCH_UP' } = await request.json();
+
+    if (!MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `Invalid mode. Must be one of: ${MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = mode === 'REBUILD'
+      ? await webhookProjections.requestRebuild(String(name), user.id)
+      : await webhookProjections.requestCatchUp(String(name), user.id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 });
+    }
+
+    return NextResponse.json({ success: true, name, mode }, { status: 202 });
+  } catch (error) {
+    console.error('Failed to queue projection run:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to queue projection run' },
+      { status: 500 }
+    );
+  }
+}
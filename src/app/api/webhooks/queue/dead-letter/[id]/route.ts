@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookQueueManager } from '@/lib/webhook-queue';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/webhooks/queue/dead-letter/{id}:
+ *   get:
+ *     summary: Inspect a dead-lettered webhook job
+ *     description: Returns the original job data, last error and attempt history
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dead-letter job
+ *       404:
+ *         description: Not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const job = await WebhookQueueManager.getDeadLetter(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Dead-letter job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error(`Failed to fetch dead-letter job ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve dead-letter job' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/webhooks/queue/dead-letter/{id}:
+ *   post:
+ *     summary: Retry or discard a dead-lettered webhook job
+ *     description: Retry re-queues the job, optionally with an edited event type or payload
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [retry, discard]
+ *               eventType:
+ *                 type: string
+ *                 description: Replacement event type (retry only)
+ *               payload:
+ *                 type: object
+ *                 description: Replacement webhook payload (retry only)
+ *               reason:
+ *                 type: string
+ *                 description: Discard reason (discard only)
+ *             required:
+ *               - action
+ *     responses:
+ *       200:
+ *         description: Operation successful
+ *       400:
+ *         description: Invalid action or edit
+ *       404:
+ *         description: Not found
+ *       409:
+ *         description: Job is not pending
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { action, eventType, payload, reason } = await request.json();
+
+    let result;
+    switch (action) {
+      case 'retry':
+        if (eventType !== undefined && (typeof eventType !== 'string' || !eventType.trim())) {
+          return NextResponse.json({ error: 'eventType must be a non-empty string' }, { status: 400 });
+        }
+        if (payload !== undefined && (typeof payload !== 'object' || payload === null || Array.isArray(payload))) {
+          return NextResponse.json({ error: 'payload must be a JSON object' }, { status: 400 });
+        }
+        result = await WebhookQueueManager.retryDeadLetter(id, { eventType, payload }, user.id);
+        break;
+
+      case 'discard':
+        result = await WebhookQueueManager.discardDeadLetter(id, reason, user.id);
+        break;
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}. Valid actions: retry, discard` },
+          { status: 400 }
+        );
+    }
+
+    if (!result.success) {
+      const notFound = result.error?.includes('not found');
+      return NextResponse.json({ success: false, error: result.error }, { status: notFound ? 404 : 409 });
+    }
+
+    return NextResponse.json({
+      action,
+      ...result,
+    });
+  } catch (error) {
+    console.error(`Dead-letter operation failed for ${id}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Dead-letter operation failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookQueueManager, DeadLetterStatus } from '@/lib/webhook-queue';
+import { AuthService } from '@/lib/auth';
+
+const STATUSES: DeadLetterStatus[] = ['PENDING', 'RETRYING', 'RESOLVED', 'DISCARDED'];
+const MAX_BULK_IDS = 100;
+
+/**
+ * @swagger
+ * /api/webhooks/queue/dead-letter:
+ *   get:
+ *     summary: List dead-lettered webhook jobs
+ *     description: Jobs that exhausted their queue retries, with per-status counts
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, RETRYING, RESOLVED, DISCARDED]
+ *           default: PENDING
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Dead-letter jobs and status counts
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') || 'PENDING').toUpperCase() as DeadLetterStatus;
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const [{ jobs, total }, stats] = await Promise.all([
+      WebhookQueueManager.listDeadLetters({ status, limit, offset }),
+      WebhookQueueManager.getDeadLetterStats(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+      total,
+      stats,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to list dead-letter jobs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve dead-letter jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/webhooks/queue/dead-letter:
+ *   post:
+ *     summary: Bulk dead-letter operations
+ *     description: Retry or discard several dead-lettered jobs at once
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [bulk-retry, bulk-discard]
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               reason:
+ *                 type: string
+ *                 description: Discard reason (bulk-discard only)
+ *             required:
+ *               - action
+ *               - ids
+ *     responses:
+ *       200:
+ *         description: Per-job results
+ *       400:
+ *         description: Invalid action or ids
+ */
+export async function POST(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { action, ids, reason } = await request.json();
+
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+      return NextResponse.json(
+        { error: 'ids must be a non-empty array of dead-letter job ids' },
+        { status: 400 }
+      );
+    }
+    if (ids.length > MAX_BULK_IDS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_IDS} jobs can be processed per request` },
+        { status: 400 }
+      );
+    }
+
+    let results;
+    switch (action) {
+      case 'bulk-retry':
+        results = await WebhookQueueManager.bulkRetryDeadLetters(ids, user.id);
+        break;
+
+      case 'bulk-discard':
+        results = [];
+        for (const id of ids) {
+          results.push(await WebhookQueueManager.discardDeadLetter(id, reason, user.id));
+        }
+        break;
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}. Valid actions: bulk-retry, bulk-discard` },
+          { status: 400 }
+        );
+    }
+
+    return NextResponse.json({
+      success: results.every(result => result.success),
+      action,
+      succeeded: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length,
+      results,
+    });
+  } catch (error) {
+    console.error('Dead-letter bulk operation error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Dead-letter operation failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookReprocessor } from '@/lib/webhook-reprocessor';
+import { AuthService } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/webhooks/reprocess/{id}:
+ *   get:
+ *     summary: Reprocessing job progress and diff
+ *     description: Returns the job's progress counters and a page of recorded changes
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entity
+ *         schema:
+ *           type: string
+ *           enum: [TRANSACTION, ACCOUNT]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Job and changes
+ *       404:
+ *         description: Not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const entityParam = searchParams.get('entity')?.toUpperCase();
+    const entity = entityParam === 'TRANSACTION' || entityParam === 'ACCOUNT' ? entityParam : undefined;
+    const limit = parseInt(searchParams.get('limit') || '100');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const job = await webhookReprocessor.getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Reprocessing job not found' }, { status: 404 });
+    }
+
+    const { changes, total } = await webhookReprocessor.getChanges(id, { entity, limit, offset });
+
+    return NextResponse.json({
+      success: true,
+      job,
+      progress: job.totalEvents > 0 ? Math.round((job.processedEvents / job.totalEvents) * 100) : 100,
+      changes,
+      totalChanges: total,
+    });
+  } catch (error) {
+    console.error(`Failed to fetch reprocessing job ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve reprocessing job' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/webhooks/reprocess/{id}:
+ *   post:
+ *     summary: Cancel or resume a reprocessing job
+ *     description: Resume continues a failed or cancelled job from its last completed batch
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [cancel, resume]
+ *             required:
+ *               - action
+ *     responses:
+ *       200:
+ *         description: Operation successful
+ *       400:
+ *         description: Invalid action
+ *       409:
+ *         description: Job is not in a state that allows the action
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { action } = await request.json();
+
+    let success: boolean;
+    switch (action) {
+      case 'cancel':
+        success = await webhookReprocessor.cancelJob(id);
+        break;
+
+      case 'resume':
+        success = await webhookReprocessor.resumeJob(id);
+        break;
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}. Valid actions: cancel, resume` },
+          { status: 400 }
+        );
+    }
+
+    if (!success) {
+      return NextResponse.json(
+        { success: false, error: `Job ${id} cannot be ${action === 'cancel' ? 'cancelled' : 'resumed'} in its current state` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, action });
+  } catch (error) {
+    console.error(`Reprocessing operation failed for ${id}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Reprocessing operation failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookReprocessor, ReprocessMode, ReprocessFilter } from '@/lib/webhook-reprocessor';
+import { AuthService } from '@/lib/auth';
+
+const MODES: ReprocessMode[] = ['DRY_RUN', 'APPLY'];
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * @swagger
+ * /api/webhooks/reprocess:
+ *   get:
+ *     summary: List webhook reprocessing jobs
+ *     description: Most recent reprocessing jobs with their progress counters
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Reprocessing jobs
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const jobs = await webhookReprocessor.listJobs(limit);
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to list reprocessing jobs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve reprocessing jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/webhooks/reprocess:
+ *   post:
+ *     summary: Start a webhook reprocessing job
+ *     description: |
+ *       Re-runs stored webhook events through the current processor. DRY_RUN
+ *       records a diff of what would change in transactions and accounts;
+ *       APPLY writes the changes. The time range is capped at the moment the
+ *       job is created so live traffic is left alone.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [DRY_RUN, APPLY]
+ *                 default: DRY_RUN
+ *               from:
+ *                 type: string
+ *                 format: date-time
+ *               to:
+ *                 type: string
+ *                 format: date-time
+ *               eventTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               sources:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               companyId:
+ *                 type: string
+ *     responses:
+ *       202:
+ *         description: Job queued
+ *       400:
+ *         description: Invalid filter or mode
+ */
+export async function POST(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { mode = 'DRY_RUN', from, to, eventTypes, sources, companyId } = await request.json();
+
+    if (!MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `Invalid mode. Must be one of: ${MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if ((from !== undefined && !isValidDate(from)) || (to !== undefined && !isValidDate(to))) {
+      return NextResponse.json({ error: 'from and to must be ISO date strings' }, { status: 400 });
+    }
+    if ((eventTypes !== undefined && !isStringArray(eventTypes)) || (sources !== undefined && !isStringArray(sources))) {
+      return NextResponse.json({ error: 'eventTypes and sources must be arrays of strings' }, { status: 400 });
+    }
+    if (companyId !== undefined && typeof companyId !== 'string') {
+      return NextResponse.json({ error: 'companyId must be a string' }, { status: 400 });
+    }
+
+    const filter: ReprocessFilter = { from, to, eventTypes, sources, companyId };
+    const job = await webhookReprocessor.createJob(mode, filter, user.id);
+
+    return NextResponse.json({ success: true, job }, { status: 202 });
+  } catch (error) {
+    console.error('Failed to start reprocessing job:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to start reprocessing job',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookSchemaRegistry } from '@/lib/webhook-schema-registry';
+import { AuthService } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/webhooks/schemas/drift:
+ *   get:
+ *     summary: Webhook schema drift report
+ *     description: Fields seen in real inbound payloads that the registered schema does not declare
+ *     parameters:
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: eventType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: version
+ *         description: Compare against this schema version instead of the latest
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Undeclared fields per source and event type
+ *       400:
+ *         description: Invalid version
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'read:webhooks')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const versionParam = searchParams.get('version');
+  const version = versionParam === null ? undefined : parseInt(versionParam);
+  if (version !== undefined && isNaN(version)) {
+    return NextResponse.json({ success: false, error: 'version must be an integer' }, { status: 400 });
+  }
+
+  try {
+    const drift = await webhookSchemaRegistry.getDriftReport({
+      source: searchParams.get('source') || undefined,
+      eventType: searchParams.get('eventType') || undefined,
+      version,
+    });
+
+    return NextResponse.json({
+      success: true,
+      drift,
+      undeclaredFieldCount: drift.reduce((total, entry) => total + entry.undeclaredFields.length, 0),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to build schema drift report:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build schema drift report' },
+      { status: 500 }
+    );
+  }
+}
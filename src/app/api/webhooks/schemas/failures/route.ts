@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookSchemaRegistry } from '@/lib/webhook-schema-registry';
+import { AuthService } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/webhooks/schemas/failures:
+ *   get:
+ *     summary: List webhook payloads that failed schema validation
+ *     description: Rejected (ENFORCE) and flagged (MONITOR) payloads with field-level error paths
+ *     parameters:
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: eventType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: rejected
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Schema validation failures, newest first
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'read:webhooks')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const rejected = searchParams.get('rejected');
+
+    const failures = await webhookSchemaRegistry.listFailures({
+      source: searchParams.get('source') || undefined,
+      eventType: searchParams.get('eventType') || undefined,
+      rejected: rejected === null ? undefined : rejected === 'true',
+      limit: parseInt(searchParams.get('limit') || '50'),
+    });
+
+    return NextResponse.json({
+      success: true,
+      failures,
+      count: failures.length,
+    });
+  } catch (error) {
+    console.error('Failed to list schema validation failures:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve schema validation failures' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookSchemaRegistry } from '@/lib/webhook-schema-registry';
+import { AuthService } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/webhooks/schemas:
+ *   get:
+ *     summary: List registered webhook payload schemas
+ *     description: Every registered schema version per source and event type pattern
+ *     parameters:
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Registered schemas
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'read:webhooks')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const schemas = webhookSchemaRegistry.list(searchParams.get('source') || undefined).map(definition => ({
+    id: webhookSchemaRegistry.schemaId(definition),
+    ...definition,
+  }));
+
+  return NextResponse.json({
+    success: true,
+    schemas,
+    count: schemas.length,
+  });
+}
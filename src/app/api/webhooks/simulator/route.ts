@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  webhookSimulator,
+  listScenarios,
+  getScenario,
+  validateScenario,
+  validateSimulationOptions,
+  WebhookScenario,
+} from '@/lib/webhook-simulator';
+import { webhookAdapters } from '@/lib/webhook-adapters';
+import { AuthService } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/webhooks/simulator:
+ *   get:
+ *     summary: List webhook simulation scenarios
+ *     description: Built-in scripted payment lifecycles, with a rendered preview of each step
+ *     responses:
+ *       200:
+ *         description: Scenarios
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    scenarios: listScenarios().map(scenario => ({
+      name: scenario.name,
+      description: scenario.description,
+      variables: scenario.variables || {},
+      steps: webhookSimulator.preview(scenario),
+    })),
+  });
+}
+
+/**
+ * @swagger
+ * /api/webhooks/simulator:
+ *   post:
+ *     summary: Run a webhook simulation scenario
+ *     description: Sends the scenario's events to our own webhook endpoints, signed with each endpoint's stored secret, and returns every delivery's response
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               scenario:
+ *                 description: Built-in scenario name, or a scenario definition (same format as the JSON files)
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: object
+ *               iterations:
+ *                 type: integer
+ *                 default: 1
+ *               concurrency:
+ *                 type: integer
+ *                 default: 1
+ *               order:
+ *                 type: string
+ *                 enum: [SCRIPTED, SHUFFLED, REVERSED]
+ *               duplicateRate:
+ *                 type: number
+ *                 description: 0-1, chance each event is delivered twice
+ *               sign:
+ *                 type: boolean
+ *                 default: true
+ *               variables:
+ *                 type: object
+ *               tenantToken:
+ *                 type: string
+ *                 description: Deliver to a company's webhook URL
+ *             required:
+ *               - scenario
+ *     responses:
+ *       200:
+ *         description: Simulation result with per-delivery status codes
+ *       400:
+ *         description: Unknown or invalid scenario or options
+ */
+export async function POST(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:webhook-queue')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+
+    let scenario: WebhookScenario | undefined;
+    if (typeof body.scenario === 'string') {
+      scenario = getScenario(body.scenario);
+      if (!scenario) {
+        return NextResponse.json({ error: `Unknown scenario: ${body.scenario}` }, { status: 400 });
+      }
+    } else {
+      const problem = validateScenario(body.scenario, webhookAdapters.map(adapter => adapter.endpoint));
+      if (problem) {
+        return NextResponse.json({ error: problem }, { status: 400 });
+      }
+      scenario = body.scenario as WebhookScenario;
+    }
+
+    const options = {
+      iterations: body.iterations,
+      concurrency: body.concurrency,
+      order: body.order,
+      duplicateRate: body.duplicateRate,
+      sign: body.sign,
+      variables: body.variables,
+      tenantToken: body.tenantToken,
+    };
+    const optionsProblem = validateSimulationOptions(options, scenario.steps.length);
+    if (optionsProblem) {
+      return NextResponse.json({ error: optionsProblem }, { status: 400 });
+    }
+
+    try {
+      webhookSimulator.preview(scenario, options.variables);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid scenario template' },
+        { status: 400 }
+      );
+    }
+
+    const result = await webhookSimulator.run(scenario, {
+      ...options,
+      baseUrl: request.nextUrl.origin,
+    });
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('Webhook simulation failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Webhook simulation failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { webhookPipeline } from '@/lib/webhook-pipeline';
+
+interface RouteParams {
+  params: Promise<{ token: string; endpoint: string }>;
+}
+
+/**
+ * @swagger
+ * /api/webhooks/tenant/{token}/{endpoint}:
+ *   post:
+ *     summary: Per-company webhook URL
+ *     description: Same pipeline as /api/webhooks/{endpoint}; every event is assigned to the company owning the token
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [netbanx, account-status, direct-debit, alternate-payments]
+ *     responses:
+ *       200:
+ *         description: Webhook accepted
+ *       404:
+ *         description: Unknown token or endpoint
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { token, endpoint } = await params;
+  return webhookPipeline.handle(endpoint, request, { tenantToken: token });
+}
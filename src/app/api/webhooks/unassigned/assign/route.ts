@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantResolver } from '@/lib/tenant-resolver';
+import { AuthService } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/webhooks/unassigned/assign:
+ *   post:
+ *     summary: Assign unassigned webhook events to a company
+ *     description: Moves events out of the inbox together with their transactions and disputes
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [eventIds, companyId]
+ *             properties:
+ *               eventIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               companyId:
+ *                 type: string
+ *               linkAccounts:
+ *                 type: boolean
+ *                 description: Also assign accounts matching the events' account references so future events route automatically
+ *     responses:
+ *       200:
+ *         description: Number of events, transactions, disputes and accounts assigned
+ *       400:
+ *         description: Invalid request body
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Company not found
+ */
+export async function POST(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:all-companies')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { eventIds, companyId, linkAccounts } = await request.json();
+
+    const validIds = Array.isArray(eventIds) && eventIds.length > 0 && eventIds.every(id => typeof id === 'string');
+    if (!validIds || typeof companyId !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'eventIds (non-empty string array) and companyId are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await tenantResolver.assignEvents(eventIds, companyId, linkAccounts === true);
+    if (!result) {
+      return NextResponse.json({ success: false, error: 'Company not found' }, { status: 404 });
+    }
+
+    console.log(`User ${user.id} assigned ${result.events} webhook event(s) to company ${companyId}`);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Failed to assign webhook events:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to assign webhook events' },
+      { status: 500 }
+    );
+  }
+}
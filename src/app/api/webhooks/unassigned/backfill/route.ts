@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantResolver } from '@/lib/tenant-resolver';
+import { AuthService } from '@/lib/auth';
+
+// Bounded per request so the route stays within serverless time limits; call again with nextCursor until it is null
+const DEFAULT_MAX_EVENTS = 5000;
+
+/**
+ * @swagger
+ * /api/webhooks/unassigned/backfill:
+ *   post:
+ *     summary: Assign companies to existing rows
+ *     description: Runs the tenant resolver over stored events without a company and propagates the result to their transactions and disputes
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *               maxEvents:
+ *                 type: integer
+ *                 default: 5000
+ *               cursor:
+ *                 type: string
+ *                 description: nextCursor from the previous call
+ *     responses:
+ *       200:
+ *         description: Backfill counters
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function POST(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:all-companies')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const maxEvents = Number.isInteger(body.maxEvents) && body.maxEvents > 0 ? body.maxEvents : DEFAULT_MAX_EVENTS;
+
+    const result = await tenantResolver.backfill({
+      dryRun: body.dryRun === true,
+      maxEvents,
+      cursor: typeof body.cursor === 'string' ? body.cursor : undefined,
+    });
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('Tenant backfill failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Tenant backfill failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantResolver } from '@/lib/tenant-resolver';
+import { AuthService } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/webhooks/unassigned:
+ *   get:
+ *     summary: Unassigned webhook inbox
+ *     description: Events the tenant resolver could not route to a company, newest first
+ *     parameters:
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Unassigned events with the account reference found in each payload
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+export async function GET(request: NextRequest) {
+  const user = await AuthService.getUserFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!AuthService.hasPermission(user, 'manage:all-companies')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const { events, total } = await tenantResolver.listUnassigned({
+      source: searchParams.get('source') || undefined,
+      limit: parseInt(searchParams.get('limit') || '50'),
+      offset: parseInt(searchParams.get('offset') || '0'),
+    });
+
+    return NextResponse.json({
+      success: true,
+      events,
+      total,
+    });
+  } catch (error) {
+    console.error('Failed to list unassigned webhook events:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retrieve unassigned webhook events' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { DisputesDashboard } from '@/components/DisputesDashboard';
+
+export default function DisputesPage() {
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <DisputesDashboard />
+      </div>
+    </ProtectedRoute>
+  );
+}
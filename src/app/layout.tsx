@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { DataModeProvider } from "@/contexts/DataModeContext";
 import { getResourceHints } from "@/lib/cdn-config";
 import { CDNMonitor } from "@/components/CDNMonitor";
 
@@ -81,8 +82,10 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <AuthProvider>
-          <CDNMonitor />
-          {children}
+          <DataModeProvider>
+            <CDNMonitor />
+            {children}
+          </DataModeProvider>
         </AuthProvider>
       </body>
     </html>
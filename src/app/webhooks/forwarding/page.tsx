@@ -0,0 +1,14 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { OutboundWebhookConsole } from '@/components/OutboundWebhookConsole';
+
+export default function WebhookForwardingPage() {
+  return (
+    <ProtectedRoute requireRole={['SUPER_ADMIN', 'COMPANY_ADMIN']}>
+      <div className="min-h-screen bg-gray-50">
+        <OutboundWebhookConsole />
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,363 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, RotateCcw, Trash2, ChevronDown, ChevronRight, AlertCircle, Save } from 'lucide-react';
+import { formatDateTime } from '@/lib/utils';
+
+type DeadLetterStatus = 'PENDING' | 'RETRYING' | 'RESOLVED' | 'DISCARDED';
+
+interface DeadLetterSummary {
+  id: string;
+  jobId: string;
+  webhookEventId: string;
+  eventType: string;
+  source: string;
+  lastError: string;
+  totalAttempts: number;
+  status: DeadLetterStatus;
+  retryCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface DeadLetterAttempt {
+  attempt: number;
+  error: string;
+  failedAt: string;
+  processingTime: number;
+  jobId?: string;
+}
+
+interface DeadLetterDetail extends DeadLetterSummary {
+  jobData: {
+    webhookEvent: {
+      eventType: string;
+      payload: Record<string, unknown>;
+    };
+    headers: Record<string, string>;
+    timestamp: string;
+  };
+  editedPayload: { eventType: string; payload: Record<string, unknown> } | null;
+  attemptHistory: DeadLetterAttempt[];
+  discardReason: string | null;
+}
+
+const STATUSES: DeadLetterStatus[] = ['PENDING', 'RETRYING', 'RESOLVED', 'DISCARDED'];
+
+export function DeadLetterQueueConsole() {
+  const [status, setStatus] = useState<DeadLetterStatus>('PENDING');
+  const [jobs, setJobs] = useState<DeadLetterSummary[]>([]);
+  const [stats, setStats] = useState<Record<DeadLetterStatus, number> | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<DeadLetterDetail | null>(null);
+  const [editEventType, setEditEventType] = useState('');
+  const [editPayload, setEditPayload] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const loadJobs = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/webhooks/queue/dead-letter?status=${status}`, { cache: 'no-cache' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setJobs(data.jobs);
+      setStats(data.stats);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load dead-letter jobs');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const toggleExpanded = async (id: string) => {
+    if (expanded?.id === id) {
+      setExpanded(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/webhooks/queue/dead-letter/${id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      const detail: DeadLetterDetail = data.job;
+      const current = detail.editedPayload || detail.jobData.webhookEvent;
+      setExpanded(detail);
+      setEditEventType(current.eventType);
+      setEditPayload(JSON.stringify(current.payload, null, 2));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load dead-letter job');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const runAction = async (url: string, body: Record<string, unknown>, successMessage: string) => {
+    setWorking(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      if (data.failed) {
+        setError(`${data.failed} job(s) could not be processed`);
+      }
+
+      setNotice(successMessage);
+      setExpanded(null);
+      await loadJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operation failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const retryWithEdits = async () => {
+    if (!expanded) return;
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(editPayload);
+    } catch {
+      setError('Edited payload is not valid JSON');
+      return;
+    }
+
+    await runAction(
+      `/api/webhooks/queue/dead-letter/${expanded.id}`,
+      { action: 'retry', eventType: editEventType, payload },
+      'Job re-queued with edits'
+    );
+  };
+
+  const bulkAction = async (action: 'bulk-retry' | 'bulk-discard') => {
+    const ids = Array.from(selected);
+    if (ids.length === 0) return;
+
+    let reason: string | undefined;
+    if (action === 'bulk-discard') {
+      const input = window.prompt(`Discard ${ids.length} job(s)? Optional reason:`);
+      if (input === null) return;
+      reason = input || undefined;
+    }
+
+    await runAction(
+      '/api/webhooks/queue/dead-letter',
+      { action, ids, reason },
+      action === 'bulk-retry' ? `${ids.length} job(s) re-queued` : `${ids.length} job(s) discarded`
+    );
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Webhook Dead-Letter Queue</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Webhook jobs that failed every queue retry. Inspect, edit and retry, or discard them.
+          </p>
+        </div>
+        <button
+          onClick={loadJobs}
+          className="inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {/* Status tabs */}
+      <div className="flex space-x-2">
+        {STATUSES.map(s => (
+          <button
+            key={s}
+            onClick={() => setStatus(s)}
+            className={`px-3 py-2 text-sm rounded-md border ${
+              status === s
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {s} {stats && <span className="ml-1 opacity-75">({stats[s]})</span>}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-4 w-4 text-red-500" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+      {notice && !error && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">{notice}</div>
+      )}
+
+      {/* Bulk actions */}
+      {status === 'PENDING' && (
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => bulkAction('bulk-retry')}
+            disabled={working || selected.size === 0}
+            className="inline-flex items-center space-x-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>Retry selected ({selected.size})</span>
+          </button>
+          <button
+            onClick={() => bulkAction('bulk-discard')}
+            disabled={working || selected.size === 0}
+            className="inline-flex items-center space-x-2 px-3 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>Discard selected</span>
+          </button>
+        </div>
+      )}
+
+      {/* Jobs */}
+      <div className="bg-white rounded-lg shadow-sm border divide-y divide-gray-200">
+        {jobs.length === 0 ? (
+          <div className="p-8 text-center text-gray-700">
+            {loading ? 'Loading...' : `No ${status.toLowerCase()} dead-letter jobs.`}
+          </div>
+        ) : (
+          jobs.map(job => (
+            <div key={job.id} className="p-4">
+              <div className="flex items-center space-x-4">
+                {status === 'PENDING' && (
+                  <input
+                    type="checkbox"
+                    checked={selected.has(job.id)}
+                    onChange={() => toggleSelected(job.id)}
+                    className="h-4 w-4"
+                  />
+                )}
+                <button onClick={() => toggleExpanded(job.id)} className="text-gray-400 hover:text-gray-600">
+                  {expanded?.id === job.id ? <ChevronDown className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-3">
+                    <span className="font-medium text-gray-900">{job.eventType}</span>
+                    <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">{job.source}</span>
+                    <span className="text-xs text-gray-500 font-mono">{job.webhookEventId}</span>
+                  </div>
+                  <p className="text-sm text-red-600 truncate mt-1">{job.lastError}</p>
+                </div>
+                <div className="text-right text-xs text-gray-600">
+                  <div>{job.totalAttempts} attempts · {job.retryCount} manual retries</div>
+                  <div>{formatDateTime(job.updatedAt)}</div>
+                </div>
+              </div>
+
+              {expanded?.id === job.id && (
+                <div className="mt-4 ml-9 space-y-4">
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Attempt History</h4>
+                    <div className="bg-gray-50 rounded-lg border divide-y divide-gray-200 text-sm">
+                      {expanded.attemptHistory.map((attempt, index) => (
+                        <div key={index} className="p-2 flex justify-between space-x-4">
+                          <span className="text-gray-900">#{attempt.attempt}</span>
+                          <span className="flex-1 text-red-600">{attempt.error}</span>
+                          <span className="text-gray-600">{attempt.processingTime}ms</span>
+                          <span className="text-gray-600">{formatDateTime(attempt.failedAt)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {expanded.discardReason && (
+                    <p className="text-sm text-gray-700">Discard reason: {expanded.discardReason}</p>
+                  )}
+
+                  {status === 'PENDING' ? (
+                    <div className="space-y-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Event Type</label>
+                        <input
+                          type="text"
+                          value={editEventType}
+                          onChange={(e) => setEditEventType(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 font-mono text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Payload</label>
+                        <textarea
+                          value={editPayload}
+                          onChange={(e) => setEditPayload(e.target.value)}
+                          rows={14}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 font-mono text-xs"
+                        />
+                      </div>
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={retryWithEdits}
+                          disabled={working}
+                          className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+                        >
+                          <Save className="h-4 w-4" />
+                          <span>Retry with edits</span>
+                        </button>
+                        <button
+                          onClick={() => runAction(
+                            `/api/webhooks/queue/dead-letter/${job.id}`,
+                            { action: 'discard' },
+                            'Job discarded'
+                          )}
+                          disabled={working}
+                          className="inline-flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span>Discard</span>
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <pre className="bg-gray-50 p-4 rounded-lg text-xs text-gray-800 overflow-x-auto">
+                      {JSON.stringify(expanded.editedPayload || expanded.jobData.webhookEvent, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, ChevronDown, ChevronRight, AlertCircle, Clock, Paperclip, Trash2, Upload } from 'lucide-react';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+
+type DisputeStatus = 'OPEN' | 'EVIDENCE_SUBMITTED' | 'WON' | 'LOST';
+
+interface DisputeSummary {
+  id: string;
+  externalId: string;
+  originalExternalId: string | null;
+  reasonCode: string | null;
+  reasonDescription: string | null;
+  amount: number;
+  currency: string;
+  dueDate: string;
+  status: DisputeStatus;
+  openedAt: string;
+  transaction: { id: string; externalId: string; merchantRefNum: string } | null;
+  _count?: { evidence: number; notes: number };
+}
+
+interface DisputeNote {
+  id: string;
+  body: string;
+  authorId: string | null;
+  createdAt: string;
+}
+
+interface DisputeEvidence {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+interface DisputeDetail extends DisputeSummary {
+  notes: DisputeNote[];
+  evidence: DisputeEvidence[];
+  evidenceSubmittedAt: string | null;
+  resolvedAt: string | null;
+}
+
+const STATUSES: DisputeStatus[] = ['OPEN', 'EVIDENCE_SUBMITTED', 'WON', 'LOST'];
+
+const NEXT_STATUSES: Record<DisputeStatus, DisputeStatus[]> = {
+  OPEN: ['EVIDENCE_SUBMITTED', 'WON', 'LOST'],
+  EVIDENCE_SUBMITTED: ['WON', 'LOST'],
+  WON: [],
+  LOST: [],
+};
+
+function dueLabel(dueDate: string, status: DisputeStatus): { text: string; className: string } {
+  if (status !== 'OPEN') {
+    return { text: formatDateTime(dueDate), className: 'text-gray-600' };
+  }
+
+  const hoursLeft = (new Date(dueDate).getTime() - Date.now()) / (60 * 60 * 1000);
+  if (hoursLeft <= 0) {
+    return { text: 'Overdue', className: 'text-red-700 font-medium' };
+  }
+  if (hoursLeft <= 24) {
+    return { text: `Due in ${Math.ceil(hoursLeft)}h`, className: 'text-red-600 font-medium' };
+  }
+  if (hoursLeft <= 72) {
+    return { text: `Due in ${Math.ceil(hoursLeft / 24)}d`, className: 'text-yellow-700 font-medium' };
+  }
+  return { text: `Due ${formatDateTime(dueDate)}`, className: 'text-gray-600' };
+}
+
+export function DisputesDashboard() {
+  const [status, setStatus] = useState<DisputeStatus>('OPEN');
+  const [disputes, setDisputes] = useState<DisputeSummary[]>([]);
+  const [stats, setStats] = useState<Record<DisputeStatus, number> | null>(null);
+  const [expanded, setExpanded] = useState<DisputeDetail | null>(null);
+  const [noteText, setNoteText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadDisputes = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/disputes?status=${status}`, { cache: 'no-cache' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setDisputes(data.disputes);
+      setStats(data.stats);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load disputes');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [loadDisputes]);
+
+  const loadDetail = async (id: string) => {
+    const response = await fetch(`/api/disputes/${id}`, { cache: 'no-cache' });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+    setExpanded(data.dispute);
+  };
+
+  const toggleExpanded = async (id: string) => {
+    if (expanded?.id === id) {
+      setExpanded(null);
+      return;
+    }
+
+    try {
+      setNoteText('');
+      await loadDetail(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load dispute');
+    }
+  };
+
+  const runAction = async (request: () => Promise<Response>, reloadList: boolean) => {
+    if (!expanded) return;
+
+    setWorking(true);
+    setError('');
+
+    try {
+      const response = await request();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      await loadDetail(expanded.id);
+      if (reloadList) {
+        await loadDisputes();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operation failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const changeStatus = (next: DisputeStatus) => runAction(
+    () => fetch(`/api/disputes/${expanded!.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: next }),
+    }),
+    true
+  );
+
+  const addNote = async () => {
+    if (!noteText.trim()) return;
+    await runAction(
+      () => fetch(`/api/disputes/${expanded!.id}/notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: noteText }),
+      }),
+      false
+    );
+    setNoteText('');
+  };
+
+  const uploadEvidence = (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return runAction(
+      () => fetch(`/api/disputes/${expanded!.id}/evidence`, { method: 'POST', body: formData }),
+      true
+    );
+  };
+
+  const deleteEvidence = (evidenceId: string) => runAction(
+    () => fetch(`/api/disputes/${expanded!.id}/evidence/${evidenceId}`, { method: 'DELETE' }),
+    true
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Disputes</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Chargebacks raised against your transactions. Attach evidence and respond before the due date.
+          </p>
+        </div>
+        <button
+          onClick={loadDisputes}
+          className="inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {/* Status tabs */}
+      <div className="flex space-x-2">
+        {STATUSES.map(s => (
+          <button
+            key={s}
+            onClick={() => {
+              setStatus(s);
+              setExpanded(null);
+            }}
+            className={`px-3 py-2 text-sm rounded-md border ${
+              status === s
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {s.replace('_', ' ')} {stats && <span className="ml-1 opacity-75">({stats[s]})</span>}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-4 w-4 text-red-500" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      {/* Disputes */}
+      <div className="bg-white rounded-lg shadow-sm border divide-y divide-gray-200">
+        {disputes.length === 0 ? (
+          <div className="p-8 text-center text-gray-700">
+            {loading ? 'Loading...' : `No ${status.replace('_', ' ').toLowerCase()} disputes.`}
+          </div>
+        ) : (
+          disputes.map(dispute => {
+            const due = dueLabel(dispute.dueDate, dispute.status);
+            return (
+              <div key={dispute.id} className="p-4">
+                <div className="flex items-center space-x-4">
+                  <button onClick={() => toggleExpanded(dispute.id)} className="text-gray-400 hover:text-gray-600">
+                    {expanded?.id === dispute.id ? <ChevronDown className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-3">
+                      <span className="font-medium text-gray-900">{formatCurrency(dispute.amount, dispute.currency)}</span>
+                      {dispute.reasonCode && (
+                        <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">{dispute.reasonCode}</span>
+                      )}
+                      <span className="text-xs text-gray-500 font-mono">{dispute.externalId}</span>
+                    </div>
+                    <p className="text-sm text-gray-600 truncate mt-1">
+                      {dispute.reasonDescription || 'No reason given'}
+                      {' · '}
+                      {dispute.transaction
+                        ? `Transaction ${dispute.transaction.merchantRefNum}`
+                        : `Original transaction ${dispute.originalExternalId || 'unknown'} not received yet`}
+                    </p>
+                  </div>
+                  <div className="text-right text-xs">
+                    <div className={`flex items-center justify-end space-x-1 ${due.className}`}>
+                      <Clock className="h-3 w-3" />
+                      <span>{due.text}</span>
+                    </div>
+                    {dispute._count && (
+                      <div className="text-gray-600">{dispute._count.evidence} files · {dispute._count.notes} notes</div>
+                    )}
+                  </div>
+                </div>
+
+                {expanded?.id === dispute.id && (
+                  <div className="mt-4 ml-9 grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <div>
+                        <h4 className="font-medium text-gray-900 mb-2">Evidence</h4>
+                        <div className="bg-gray-50 rounded-lg border divide-y divide-gray-200 text-sm">
+                          {expanded.evidence.length === 0 ? (
+                            <div className="p-2 text-gray-600">No evidence attached</div>
+                          ) : expanded.evidence.map(file => (
+                            <div key={file.id} className="p-2 flex items-center space-x-3">
+                              <Paperclip className="h-4 w-4 text-gray-500" />
+                              <a
+                                href={`/api/disputes/${expanded.id}/evidence/${file.id}`}
+                                className="flex-1 text-blue-600 hover:underline truncate"
+                              >
+                                {file.fileName}
+                              </a>
+                              <span className="text-gray-600">{Math.ceil(file.size / 1024)} KB</span>
+                              {expanded.status === 'OPEN' && (
+                                <button
+                                  onClick={() => deleteEvidence(file.id)}
+                                  disabled={working}
+                                  className="text-gray-400 hover:text-red-600"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                        {expanded.status === 'OPEN' && (
+                          <label className="mt-2 inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                            <Upload className="h-4 w-4" />
+                            <span>Attach file</span>
+                            <input
+                              type="file"
+                              className="hidden"
+                              disabled={working}
+                              onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) uploadEvidence(file);
+                                e.target.value = '';
+                              }}
+                            />
+                          </label>
+                        )}
+                      </div>
+
+                      {NEXT_STATUSES[expanded.status].length > 0 && (
+                        <div className="flex space-x-2">
+                          {NEXT_STATUSES[expanded.status].map(next => (
+                            <button
+                              key={next}
+                              onClick={() => changeStatus(next)}
+                              disabled={working}
+                              className={`px-3 py-2 text-sm rounded-md text-white disabled:bg-gray-400 ${
+                                next === 'LOST' ? 'bg-red-600 hover:bg-red-700' :
+                                next === 'WON' ? 'bg-green-600 hover:bg-green-700' :
+                                'bg-blue-600 hover:bg-blue-700'
+                              }`}
+                            >
+                              {next === 'EVIDENCE_SUBMITTED' ? 'Mark evidence submitted' : `Mark ${next.toLowerCase()}`}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <div>
+                      <h4 className="font-medium text-gray-900 mb-2">Notes</h4>
+                      <div className="bg-gray-50 rounded-lg border divide-y divide-gray-200 text-sm max-h-64 overflow-y-auto">
+                        {expanded.notes.length === 0 ? (
+                          <div className="p-2 text-gray-600">No notes yet</div>
+                        ) : expanded.notes.map(note => (
+                          <div key={note.id} className="p-2">
+                            <p className="text-gray-900 whitespace-pre-wrap">{note.body}</p>
+                            <p className="text-xs text-gray-500 mt-1">{formatDateTime(note.createdAt)}</p>
+                          </div>
+                        ))}
+                      </div>
+                      <textarea
+                        value={noteText}
+                        onChange={(e) => setNoteText(e.target.value)}
+                        rows={3}
+                        placeholder="Add a note..."
+                        className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                      />
+                      <button
+                        onClick={addNote}
+                        disabled={working || !noteText.trim()}
+                        className="mt-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                      >
+                        Add note
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { List } from 'react-window';
 import { Transaction } from '@/types/paysafe';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { ChevronUp, ChevronDown, Download } from 'lucide-react';
+import { TransactionDetail } from './TransactionDetail';
 
 interface OptimizedTransactionTableProps {
   transactions: Transaction[];
@@ -16,10 +17,14 @@ type SortOrder = 'asc' | 'desc';
 
 // Row component for virtualized list
 const TransactionRow = memo(({ index, style, data }: any) => {
-  const transaction = data[index];
+  const transaction = data.transactions[index];
   
   return (
-    <div style={style} className="flex items-center border-b border-gray-200 hover:bg-gray-50">
+    <div
+      style={style}
+      className="flex items-center border-b border-gray-200 hover:bg-gray-50 cursor-pointer"
+      onClick={() => data.onSelect(transaction.id)}
+    >
       <div className="flex-1 px-6 py-4 grid grid-cols-6 gap-4">
         <div className="text-sm text-gray-900">{transaction.id}</div>
         <div className="text-sm text-gray-500">{formatDate(transaction.createdAt)}</div>
@@ -50,6 +55,7 @@ export const OptimizedTransactionTable = memo(function OptimizedTransactionTable
   const [sortField, setSortField] = useState<SortField>('createdAt');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   const [searchTerm, setSearchTerm] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
 
   // Memoize filtered transactions
   const filteredTransactions = useMemo(() => {
@@ -176,7 +182,7 @@ export const OptimizedTransactionTable = memo(function OptimizedTransactionTable
             itemCount={sortedTransactions.length}
             itemSize={65}
             width="100%"
-            itemData={sortedTransactions}
+            itemData={{ transactions: sortedTransactions, onSelect: setSelectedId }}
             overscanCount={5}
           >
             {TransactionRow}
@@ -190,6 +196,10 @@ export const OptimizedTransactionTable = memo(function OptimizedTransactionTable
           Showing {sortedTransactions.length} of {transactions.length} transactions
         </p>
       </div>
+
+      {selectedId && (
+        <TransactionDetail transactionId={selectedId} onClose={() => setSelectedId(null)} />
+      )}
     </div>
   );
 });
\ No newline at end of file
@@ -5,6 +5,7 @@ import { Transaction, PaymentSummary } from '@/types/paysafe';
 import { WebhookEvent, WebhookStats } from '@/types/webhook';
 import { LoadingSpinner } from './LoadingSpinner';
 import { DashboardSkeleton } from './skeletons/DashboardSkeleton';
+import { useDataMode } from '@/contexts/DataModeContext';
 
 // Lazy load components
 const WebhookHeader = lazy(() => import('./WebhookHeader').then(module => ({ default: module.WebhookHeader })));
@@ -16,6 +17,7 @@ const WebhookConfig = lazy(() => import('./WebhookConfig').then(module => ({ def
 
 // Custom hook for data fetching with caching
 const useWebhookData = () => {
+  const { mode } = useDataMode();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [summary, setSummary] = useState<PaymentSummary | null>(null);
   const [webhookEvents, setWebhookEvents] = useState<WebhookEvent[]>([]);
@@ -23,11 +25,12 @@ const useWebhookData = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [lastFetch, setLastFetch] = useState<number>(0);
+  const [lastFetchMode, setLastFetchMode] = useState(mode);
 
   const fetchData = useCallback(async (force: boolean = false) => {
-    // Implement simple caching - don't refetch if data is less than 5 seconds old
+    // Implement simple caching - don't refetch if data is less than 5 seconds old (and for the same mode)
     const now = Date.now();
-    if (!force && lastFetch && (now - lastFetch) < 5000) {
+    if (!force && lastFetch && (now - lastFetch) < 5000 && lastFetchMode === mode) {
       return;
     }
 
@@ -39,8 +42,8 @@ const useWebhookData = () => {
       const timeout = setTimeout(() => controller.abort(), 10000); // 10 second timeout
 
       const [transactionsResponse, webhooksResponse] = await Promise.all([
-        fetch('/api/data?type=transactions', { signal: controller.signal }),
-        fetch('/api/data?type=webhooks&limit=50', { signal: controller.signal })
+        fetch(`/api/data?type=transactions&mode=${mode}`, { signal: controller.signal }),
+        fetch(`/api/data?type=webhooks&limit=50&mode=${mode}`, { signal: controller.signal })
       ]);
 
       clearTimeout(timeout);
@@ -73,6 +76,7 @@ const useWebhookData = () => {
         failed: 0,
       });
       setLastFetch(now);
+      setLastFetchMode(mode);
 
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
@@ -84,7 +88,7 @@ const useWebhookData = () => {
     } finally {
       setLoading(false);
     }
-  }, [lastFetch]);
+  }, [lastFetch, lastFetchMode, mode]);
 
   return {
     transactions,
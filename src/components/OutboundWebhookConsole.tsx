@@ -0,0 +1,447 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, AlertCircle, ChevronDown, ChevronRight, Send, KeyRound, Save } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatDateTime } from '@/lib/utils';
+
+interface ForwardingSettings {
+  webhookEndpoint: string | null;
+  eventTypes: string[];
+  hasSigningSecret: boolean;
+}
+
+interface Delivery {
+  id: string;
+  webhookEventId: string;
+  eventType: string;
+  url: string;
+  status: 'PENDING' | 'RETRYING' | 'SUCCEEDED' | 'FAILED';
+  attemptCount: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+interface DeliveryAttempt {
+  id: string;
+  attempt: number;
+  statusCode: number | null;
+  latencyMs: number;
+  responseSnippet: string | null;
+  error: string | null;
+  manual: boolean;
+  attemptedAt: string;
+}
+
+interface CompanyOption {
+  id: string;
+  name: string;
+}
+
+const STATUS_STYLES: Record<Delivery['status'], string> = {
+  PENDING: 'bg-gray-100 text-gray-800',
+  RETRYING: 'bg-yellow-100 text-yellow-800',
+  SUCCEEDED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+};
+
+export function OutboundWebhookConsole() {
+  const { user } = useAuth();
+  const isSuperAdmin = user?.role === 'SUPER_ADMIN';
+
+  const [companies, setCompanies] = useState<CompanyOption[]>([]);
+  const [companyId, setCompanyId] = useState(user?.companyId || '');
+  const [endpoint, setEndpoint] = useState('');
+  const [eventTypes, setEventTypes] = useState<Set<string>>(new Set());
+  const [availableEventTypes, setAvailableEventTypes] = useState<string[]>([]);
+  const [hasSigningSecret, setHasSigningSecret] = useState(false);
+  const [signingSecret, setSigningSecret] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [total, setTotal] = useState(0);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<DeliveryAttempt[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    if (!isSuperAdmin) return;
+
+    const loadCompanies = async () => {
+      try {
+        const response = await fetch('/api/companies');
+        const data = await response.json();
+        if (response.ok) {
+          setCompanies(data.companies);
+        }
+      } catch (err) {
+        console.error('Failed to load companies:', err);
+      }
+    };
+
+    loadCompanies();
+  }, [isSuperAdmin]);
+
+  const applySettings = (settings: ForwardingSettings) => {
+    setEndpoint(settings.webhookEndpoint || '');
+    setEventTypes(new Set(settings.eventTypes));
+    setHasSigningSecret(settings.hasSigningSecret);
+  };
+
+  const loadSettings = useCallback(async () => {
+    if (!companyId) return;
+
+    try {
+      const response = await fetch(`/api/companies/${companyId}/webhook-forwarding`, { cache: 'no-cache' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      applySettings(data.settings);
+      setAvailableEventTypes(data.availableEventTypes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load forwarding settings');
+    }
+  }, [companyId]);
+
+  const loadDeliveries = useCallback(async () => {
+    if (!companyId) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const query = new URLSearchParams({ limit: '100' });
+      if (statusFilter) query.set('status', statusFilter);
+
+      const response = await fetch(`/api/companies/${companyId}/webhook-deliveries?${query}`, { cache: 'no-cache' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setDeliveries(data.deliveries);
+      setTotal(data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deliveries');
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, statusFilter]);
+
+  useEffect(() => {
+    setSigningSecret(null);
+    setExpandedId(null);
+    loadSettings();
+  }, [loadSettings]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const loadAttempts = async (deliveryId: string) => {
+    try {
+      const response = await fetch(`/api/companies/${companyId}/webhook-deliveries/${deliveryId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setAttempts(data.delivery.attempts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load attempts');
+    }
+  };
+
+  const toggleExpanded = async (deliveryId: string) => {
+    if (expandedId === deliveryId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(deliveryId);
+    setAttempts([]);
+    await loadAttempts(deliveryId);
+  };
+
+  const toggleEventType = (eventType: string) => {
+    setEventTypes(prev => {
+      const next = new Set(prev);
+      if (next.has(eventType)) {
+        next.delete(eventType);
+      } else {
+        next.add(eventType);
+      }
+      return next;
+    });
+  };
+
+  const saveSettings = async (rotateSecret = false) => {
+    setWorking(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await fetch(`/api/companies/${companyId}/webhook-forwarding`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          webhookEndpoint: endpoint.trim() || null,
+          eventTypes: Array.from(eventTypes),
+          rotateSecret,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      applySettings(data.settings);
+      setSigningSecret(data.signingSecret);
+      setNotice(rotateSecret ? 'Signing secret rotated' : 'Forwarding settings saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save forwarding settings');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const redeliver = async (deliveryId: string) => {
+    setWorking(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await fetch(`/api/companies/${companyId}/webhook-deliveries/${deliveryId}/redeliver`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      if (data.result.success) {
+        setNotice(`Redelivered (HTTP ${data.result.statusCode}, ${data.result.latencyMs}ms)`);
+      } else {
+        setError(`Redelivery failed: ${data.result.error}`);
+      }
+      await loadDeliveries();
+      if (expandedId === deliveryId) {
+        await loadAttempts(deliveryId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Redelivery failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Webhook Forwarding</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Normalized events are re-delivered to your endpoint, signed with your signing secret.
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {isSuperAdmin && (
+            <select
+              value={companyId}
+              onChange={(e) => setCompanyId(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white"
+            >
+              <option value="">Select company...</option>
+              {companies.map(company => (
+                <option key={company.id} value={company.id}>{company.name}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={loadDeliveries}
+            disabled={!companyId}
+            className="inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-4 w-4 text-red-500" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      {notice && !error && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">{notice}</div>
+      )}
+
+      {!companyId ? (
+        <div className="bg-white rounded-lg shadow-sm border p-8 text-center text-gray-700">
+          Select a company to manage its webhook forwarding.
+        </div>
+      ) : (
+        <>
+          {/* Settings */}
+          <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Endpoint URL</label>
+              <input
+                type="url"
+                value={endpoint}
+                onChange={(e) => setEndpoint(e.target.value)}
+                placeholder="https://example.com/webhooks/payments"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-900"
+              />
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">
+                Event types <span className="font-normal text-gray-500">(none selected receives all)</span>
+              </p>
+              {availableEventTypes.length === 0 ? (
+                <p className="text-sm text-gray-600">No events received yet.</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {Array.from(new Set([...availableEventTypes, ...eventTypes])).map(eventType => (
+                    <label key={eventType} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={eventTypes.has(eventType)}
+                        onChange={() => toggleEventType(eventType)}
+                        className="h-4 w-4"
+                      />
+                      <span className="font-mono text-xs">{eventType}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {signingSecret && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                Signing secret (shown once): <span className="font-mono break-all">{signingSecret}</span>
+              </div>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => saveSettings(false)}
+                disabled={working}
+                className="inline-flex items-center space-x-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                <Save className="h-4 w-4" />
+                <span>Save</span>
+              </button>
+              <button
+                onClick={() => saveSettings(true)}
+                disabled={working || !endpoint}
+                className="inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                <KeyRound className="h-4 w-4" />
+                <span>{hasSigningSecret ? 'Rotate signing secret' : 'Issue signing secret'}</span>
+              </button>
+            </div>
+          </div>
+
+          {/* Deliveries */}
+          <div className="flex items-center space-x-3">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white"
+            >
+              <option value="">All statuses</option>
+              <option value="PENDING">Pending</option>
+              <option value="RETRYING">Retrying</option>
+              <option value="SUCCEEDED">Succeeded</option>
+              <option value="FAILED">Failed</option>
+            </select>
+            <span className="text-sm text-gray-600">{total} deliveries</span>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border divide-y divide-gray-200">
+            {deliveries.length === 0 ? (
+              <div className="p-8 text-center text-gray-700">
+                {loading ? 'Loading...' : 'No deliveries yet.'}
+              </div>
+            ) : (
+              deliveries.map(delivery => (
+                <div key={delivery.id} className="p-4">
+                  <div className="flex items-center space-x-4">
+                    <button
+                      onClick={() => toggleExpanded(delivery.id)}
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      {expandedId === delivery.id ? <ChevronDown className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-3">
+                        <span className="font-medium text-gray-900">{delivery.eventType}</span>
+                        <span className={`text-xs px-2 py-1 rounded ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                        <span className="text-xs text-gray-500 font-mono">{delivery.webhookEventId}</span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1 truncate">
+                        {delivery.attemptCount} attempt(s)
+                        {delivery.lastStatusCode !== null && ` · HTTP ${delivery.lastStatusCode}`}
+                        {delivery.lastError && ` · ${delivery.lastError}`}
+                        {delivery.nextAttemptAt && ` · next retry ${formatDateTime(delivery.nextAttemptAt)}`}
+                      </p>
+                    </div>
+                    <div className="text-right text-xs text-gray-600">{formatDateTime(delivery.createdAt)}</div>
+                    <button
+                      onClick={() => redeliver(delivery.id)}
+                      disabled={working}
+                      className="inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <Send className="h-4 w-4" />
+                      <span>Redeliver</span>
+                    </button>
+                  </div>
+
+                  {expandedId === delivery.id && (
+                    <div className="mt-4 ml-9 border rounded-lg divide-y divide-gray-200 text-sm">
+                      {attempts.length === 0 ? (
+                        <div className="p-3 text-gray-600">No attempts recorded yet.</div>
+                      ) : (
+                        attempts.map(attempt => (
+                          <div key={attempt.id} className="p-3">
+                            <div className="flex items-center space-x-3">
+                              <span className="text-gray-900">#{attempt.attempt}</span>
+                              <span className="text-gray-700">{attempt.statusCode !== null ? `HTTP ${attempt.statusCode}` : 'No response'}</span>
+                              <span className="text-gray-600">{attempt.latencyMs}ms</span>
+                              {attempt.manual && <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">manual</span>}
+                              {attempt.error && <span className="text-red-700">{attempt.error}</span>}
+                              <span className="flex-1 text-right text-xs text-gray-600">{formatDateTime(attempt.attemptedAt)}</span>
+                            </div>
+                            {attempt.responseSnippet && (
+                              <pre className="mt-2 bg-gray-50 p-2 rounded text-xs text-gray-800 overflow-x-auto">{attempt.responseSnippet}</pre>
+                            )}
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, AlertCircle, DatabaseZap, RotateCcw } from 'lucide-react';
+import { formatDateTime } from '@/lib/utils';
+
+type Stage = 'payments' | 'refunds' | 'accounts';
+
+interface StageReport {
+  fetched: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+}
+
+interface BackfillRun {
+  id: string;
+  accountId: string | null;
+  startDate: string;
+  endDate: string;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  stage: Stage | 'done';
+  pagesFetched: number;
+  report: Record<Stage, StageReport>;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+interface CompanyOption {
+  id: string;
+  name: string;
+}
+
+const STAGES: Stage[] = ['payments', 'refunds', 'accounts'];
+
+const STATUS_COLORS: Record<BackfillRun['status'], string> = {
+  QUEUED: 'bg-gray-100 text-gray-800',
+  RUNNING: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+};
+
+// Poll while a run is in progress
+const POLL_INTERVAL_MS = 5000;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+export function PaysafeBackfillConsole() {
+  const [companies, setCompanies] = useState<CompanyOption[]>([]);
+  const [companyId, setCompanyId] = useState('');
+  const [startDate, setStartDate] = useState(daysAgo(90));
+  const [endDate, setEndDate] = useState(daysAgo(0));
+  const [accountId, setAccountId] = useState('');
+  const [runs, setRuns] = useState<BackfillRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadCompanies = async () => {
+      try {
+        const response = await fetch('/api/companies');
+        const data = await response.json();
+        if (response.ok) {
+          setCompanies(data.companies);
+        }
+      } catch (err) {
+        console.error('Failed to load companies:', err);
+      }
+    };
+
+    loadCompanies();
+  }, []);
+
+  const loadRuns = useCallback(async () => {
+    if (!companyId) {
+      setRuns([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/companies/${companyId}/backfill`, { cache: 'no-cache' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setRuns(data.runs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load backfill runs');
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    setError('');
+    loadRuns();
+  }, [loadRuns]);
+
+  const inProgress = runs.some(run => run.status === 'QUEUED' || run.status === 'RUNNING');
+
+  useEffect(() => {
+    if (!inProgress) return;
+    const timer = setInterval(loadRuns, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [inProgress, loadRuns]);
+
+  const startRun = async () => {
+    if (!companyId) return;
+
+    setWorking(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/companies/${companyId}/backfill`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          // The end date is inclusive
+          startDate: new Date(`${startDate}T00:00:00Z`).toISOString(),
+          endDate: new Date(`${endDate}T23:59:59.999Z`).toISOString(),
+          accountId: accountId.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      await loadRuns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start backfill');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const resumeRun = async (runId: string) => {
+    setWorking(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/companies/${companyId}/backfill/${runId}/resume`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      await loadRuns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resume backfill');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Historical Backfill</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Import a company&apos;s payments, refunds and accounts from the Paysafe API for a date range.
+            Newer webhook data is never overwritten.
+          </p>
+        </div>
+        <button
+          onClick={loadRuns}
+          disabled={!companyId}
+          className="inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-4 w-4 text-red-500" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      {/* New run */}
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={companyId}
+          onChange={(e) => setCompanyId(e.target.value)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white"
+        >
+          <option value="">Select company...</option>
+          {companies.map(company => (
+            <option key={company.id} value={company.id}>{company.name}</option>
+          ))}
+        </select>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>From</span>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>To</span>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </label>
+        <input
+          type="text"
+          value={accountId}
+          onChange={(e) => setAccountId(e.target.value)}
+          placeholder="Paysafe account id (optional)"
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md"
+        />
+        <button
+          onClick={startRun}
+          disabled={working || !companyId || inProgress}
+          className="inline-flex items-center space-x-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <DatabaseZap className="h-4 w-4" />
+          <span>Start backfill</span>
+        </button>
+      </div>
+
+      {/* Runs */}
+      <div className="bg-white rounded-lg shadow-sm border divide-y divide-gray-200">
+        {runs.length === 0 ? (
+          <div className="p-8 text-center text-gray-700">
+            {!companyId ? 'Select a company to see its backfill runs.' : loading ? 'Loading...' : 'No backfill runs for this company.'}
+          </div>
+        ) : (
+          runs.map(run => (
+            <div key={run.id} className="p-4 space-y-3">
+              <div className="flex items-center space-x-4">
+                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_COLORS[run.status]}`}>
+                  {run.status}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900">
+                    {formatDateTime(run.startDate)} – {formatDateTime(run.endDate)}
+                    {run.accountId && <span className="ml-2 text-gray-600 font-mono">account {run.accountId}</span>}
+                  </p>
+                  <p className="text-xs text-gray-600 mt-1">
+                    {run.stage === 'done' ? 'All stages imported' : `Importing ${run.stage}`} · {run.pagesFetched} page(s) fetched
+                    {run.attempts > 1 && ` · ${run.attempts} attempts`}
+                    {' · '}
+                    {run.completedAt ? `completed ${formatDateTime(run.completedAt)}` : `created ${formatDateTime(run.createdAt)}`}
+                  </p>
+                </div>
+                {run.status === 'FAILED' && (
+                  <button
+                    onClick={() => resumeRun(run.id)}
+                    disabled={working}
+                    className="inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    <span>Resume</span>
+                  </button>
+                )}
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-600 uppercase">
+                    <th className="py-1">Stage</th>
+                    <th className="py-1">Fetched</th>
+                    <th className="py-1">Created</th>
+                    <th className="py-1">Updated</th>
+                    <th className="py-1">Skipped</th>
+                    <th className="py-1">Errors</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900">
+                  {STAGES.map(stage => (
+                    <tr key={stage}>
+                      <td className="py-1 capitalize">{stage}</td>
+                      <td className="py-1">{run.report[stage]?.fetched ?? 0}</td>
+                      <td className="py-1">{run.report[stage]?.created ?? 0}</td>
+                      <td className="py-1">{run.report[stage]?.updated ?? 0}</td>
+                      <td className="py-1">{run.report[stage]?.skipped ?? 0}</td>
+                      <td className={`py-1 ${run.report[stage]?.errors ? 'text-red-700 font-medium' : ''}`}>
+                        {run.report[stage]?.errors ?? 0}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {run.lastError && (
+                <p className="text-xs text-red-700 font-mono">{run.lastError}</p>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
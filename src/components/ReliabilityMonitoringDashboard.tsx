@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import WebhookLatencyPanel from '@/components/WebhookLatencyPanel';
 import { 
   Activity, 
   Database, 
@@ -316,6 +317,9 @@ export default function ReliabilityMonitoringDashboard() {
             </Card>
           </div>
 
+          {/* Webhook Delivery Latency */}
+          <WebhookLatencyPanel refreshKey={lastUpdate} />
+
           {/* Connection Health Details */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Redis Health */}
@@ -0,0 +1,349 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatCurrency, formatDateTime, getStatusColor } from '@/lib/utils';
+
+interface StatusHistoryEntry {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  rawStatus: string | null;
+  eventType: string | null;
+  webhookEventId: string | null;
+  source: string; // webhook, poll (pending reconciler), dashboard (refund/void/capture issued here) or backfill (historical import)
+  eventTime: string;
+  timestamp: string;
+}
+
+interface RelatedTransaction {
+  id: string;
+  externalId: string;
+  transactionType?: string;
+  amount: number;
+  currency: string;
+  status: string;
+}
+
+interface TransactionDetailData {
+  id: string;
+  externalId: string;
+  merchantRefNum: string;
+  amount: number;
+  currency: string;
+  status: string;
+  transactionType: string;
+  paymentMethod: string;
+  description: string | null;
+  transactionTime: string;
+  statusHistory: StatusHistoryEntry[];
+  parent: RelatedTransaction | null;
+  children: RelatedTransaction[];
+  refundSummary: {
+    refundedAmount: number;
+    chargebackAmount: number;
+    netCapturedAmount: number;
+    refundState: 'NONE' | 'PARTIAL' | 'FULL';
+  } | null;
+}
+
+type OperationType = 'REFUND' | 'VOID' | 'CAPTURE';
+
+// Operation being confirmed; the key is kept across retries so a repeated submit is not issued twice
+interface PendingOperation {
+  type: OperationType;
+  amount: string; // Blank for the full remaining amount
+  idempotencyKey: string;
+}
+
+interface TransactionDetailProps {
+  transactionId: string;
+  onClose: () => void;
+}
+
+export function TransactionDetail({ transactionId, onClose }: TransactionDetailProps) {
+  const [transaction, setTransaction] = useState<TransactionDetailData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+  const [operation, setOperation] = useState<PendingOperation | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [operationError, setOperationError] = useState('');
+  const [operationMessage, setOperationMessage] = useState('');
+
+  const canManagePayments = user?.role === 'SUPER_ADMIN' || user?.role === 'COMPANY_ADMIN';
+
+  const loadTransaction = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/v1/transactions/${encodeURIComponent(transactionId)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load transaction');
+      }
+      setTransaction(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transaction');
+    } finally {
+      setLoading(false);
+    }
+  }, [transactionId]);
+
+  useEffect(() => {
+    loadTransaction();
+  }, [loadTransaction]);
+
+  const startOperation = (type: OperationType) => {
+    setOperation({ type, amount: '', idempotencyKey: crypto.randomUUID() });
+    setOperationError('');
+    setOperationMessage('');
+  };
+
+  const submitOperation = async () => {
+    if (!operation || !transaction) return;
+
+    setSubmitting(true);
+    setOperationError('');
+    try {
+      const response = await fetch(`/api/transactions/${encodeURIComponent(transaction.id)}/operations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': operation.idempotencyKey,
+        },
+        body: JSON.stringify({
+          type: operation.type,
+          ...(operation.amount.trim() && { amount: Number(operation.amount) }),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        if (result.rejected) {
+          // The stored answer for this key is final; trying again is a new request
+          setOperation({ ...operation, idempotencyKey: crypto.randomUUID() });
+        }
+        throw new Error(result.error || `Failed to ${operation.type.toLowerCase()} transaction`);
+      }
+
+      setOperationMessage(`${operation.type} ${result.operation.paysafeStatus || 'submitted'} for ${formatCurrency(result.operation.amount, result.operation.currency)}`);
+      setOperation(null);
+      await loadTransaction();
+    } catch (err) {
+      setOperationError(err instanceof Error ? err.message : 'Operation failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const availableOperations: OperationType[] = !transaction || transaction.transactionType !== 'PAYMENT'
+    ? []
+    : transaction.status === 'PENDING'
+      ? ['CAPTURE', 'VOID']
+      : transaction.status === 'COMPLETED' && (transaction.refundSummary?.netCapturedAmount ?? 0) > 0
+        ? ['REFUND']
+        : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Transaction {transactionId}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="p-6 text-sm text-gray-600">Loading transaction...</div>
+        ) : error ? (
+          <div className="p-6 flex items-center space-x-2 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        ) : transaction && (
+          <div className="p-6 space-y-6">
+            <dl className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-600">Reference</dt>
+                <dd className="text-gray-900">{transaction.merchantRefNum}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-600">Amount</dt>
+                <dd className="text-gray-900 font-medium">{formatCurrency(transaction.amount, transaction.currency)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-600">Type</dt>
+                <dd className="text-gray-900">{transaction.transactionType}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-600">Status</dt>
+                <dd>
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(transaction.status)}`}>
+                    {transaction.status}
+                  </span>
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-600">Payment Method</dt>
+                <dd className="text-gray-900">{transaction.paymentMethod}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-600">Transaction Time</dt>
+                <dd className="text-gray-900">{formatDateTime(transaction.transactionTime)}</dd>
+              </div>
+              {transaction.refundSummary && (
+                <div>
+                  <dt className="text-gray-600">Net Captured</dt>
+                  <dd className="text-gray-900 font-medium">
+                    {formatCurrency(transaction.refundSummary.netCapturedAmount, transaction.currency)}
+                    {transaction.refundSummary.refundState !== 'NONE' && (
+                      <span className="ml-2 text-xs text-orange-700">
+                        {transaction.refundSummary.refundState === 'FULL' ? 'Refunded' : 'Partially refunded'}
+                      </span>
+                    )}
+                  </dd>
+                </div>
+              )}
+              {transaction.parent && (
+                <div>
+                  <dt className="text-gray-600">Original Payment</dt>
+                  <dd className="text-gray-900 font-mono">{transaction.parent.externalId}</dd>
+                </div>
+              )}
+            </dl>
+
+            {canManagePayments && availableOperations.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-3">Actions</h4>
+                {operation ? (
+                  <div className="border rounded-lg p-3 space-y-3 text-sm">
+                    <p className="text-gray-900">
+                      {operation.type === 'VOID'
+                        ? `Void the authorization of ${formatCurrency(transaction.amount, transaction.currency)}?`
+                        : operation.type === 'CAPTURE'
+                          ? 'Capture this authorization'
+                          : 'Refund this payment'}
+                    </p>
+                    {operation.type !== 'VOID' && (
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        value={operation.amount}
+                        onChange={(e) => setOperation({ ...operation, amount: e.target.value, idempotencyKey: crypto.randomUUID() })}
+                        placeholder={`Full amount (${formatCurrency(
+                          operation.type === 'REFUND' ? transaction.refundSummary?.netCapturedAmount ?? 0 : transaction.amount,
+                          transaction.currency
+                        )})`}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    )}
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={submitOperation}
+                        disabled={submitting}
+                        className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {submitting ? 'Submitting...' : `Confirm ${operation.type.toLowerCase()}`}
+                      </button>
+                      <button
+                        onClick={() => setOperation(null)}
+                        disabled={submitting}
+                        className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex space-x-2">
+                    {availableOperations.map((type) => (
+                      <button
+                        key={type}
+                        onClick={() => startOperation(type)}
+                        className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                      >
+                        {type === 'REFUND' ? 'Refund' : type === 'VOID' ? 'Void' : 'Capture'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {operationError && (
+                  <div className="mt-2 flex items-center space-x-2 text-sm text-red-700">
+                    <AlertCircle className="h-4 w-4" />
+                    <span>{operationError}</span>
+                  </div>
+                )}
+                {operationMessage && <p className="mt-2 text-sm text-green-700">{operationMessage}</p>}
+              </div>
+            )}
+
+            {transaction.children.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-3">Refunds &amp; Chargebacks</h4>
+                <div className="border rounded-lg divide-y divide-gray-200 text-sm">
+                  {transaction.children.map((child) => (
+                    <div key={child.id} className="p-2 flex items-center justify-between">
+                      <span className="text-gray-900">{child.transactionType}</span>
+                      <span className="text-gray-600 font-mono">{child.externalId}</span>
+                      <span className="text-gray-900">{formatCurrency(child.amount, child.currency)}</span>
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${getStatusColor(child.status)}`}>
+                        {child.status}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-3">Status Timeline</h4>
+              {transaction.statusHistory.length === 0 ? (
+                <p className="text-sm text-gray-600">No status changes recorded</p>
+              ) : (
+                <ol className="relative border-l border-gray-200 ml-2">
+                  {transaction.statusHistory.map((entry) => (
+                    <li key={entry.id} className="mb-6 ml-4">
+                      <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white" />
+                      <div className="flex items-center space-x-2">
+                        {entry.fromStatus && (
+                          <>
+                            <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${getStatusColor(entry.fromStatus)}`}>
+                              {entry.fromStatus}
+                            </span>
+                            <span className="text-gray-500">→</span>
+                          </>
+                        )}
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${getStatusColor(entry.toStatus)}`}>
+                          {entry.toStatus}
+                        </span>
+                        {entry.rawStatus && entry.rawStatus !== entry.toStatus && (
+                          <span className="text-xs text-gray-600 font-mono">{entry.rawStatus}</span>
+                        )}
+                      </div>
+                      <p className="mt-1 text-xs text-gray-600">
+                        {formatDateTime(entry.eventTime)}
+                        {entry.eventType && ` · ${entry.eventType}`}
+                        {entry.source === 'poll' && ' · polled from the Paysafe API'}
+                        {entry.source === 'dashboard' && ' · issued from the dashboard'}
+                        {entry.source === 'backfill' && ' · imported from the Paysafe API'}
+                      </p>
+                      {entry.webhookEventId && (
+                        <p className="text-xs text-gray-500 font-mono">Webhook event {entry.webhookEventId}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
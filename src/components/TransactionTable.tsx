@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { Transaction } from '@/types/paysafe';
 import { formatCurrency, formatDateTime, getStatusColor, exportToCSV, exportToJSON } from '@/lib/utils';
 import { Download, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import { TransactionDetail } from './TransactionDetail';
 
 interface TransactionTableProps {
   transactions: Transaction[];
@@ -15,6 +16,7 @@ export function TransactionTable({ transactions, onExport }: TransactionTablePro
   const [currentPage, setCurrentPage] = useState(1);
   const [sortField, setSortField] = useState<keyof Transaction>('createdAt');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const itemsPerPage = 10;
 
   const filteredTransactions = transactions.filter(transaction =>
@@ -121,6 +123,12 @@ export function TransactionTable({ transactions, onExport }: TransactionTablePro
               >
                 Amount
               </th>
+              <th
+                className="px-6 py-3 text-left text-xs font-medium text-gray-800 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                onClick={() => handleSort('netCapturedAmount')}
+              >
+                Net Captured
+              </th>
               <th
                 className="px-6 py-3 text-left text-xs font-medium text-gray-800 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
                 onClick={() => handleSort('status')}
@@ -146,7 +154,11 @@ export function TransactionTable({ transactions, onExport }: TransactionTablePro
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {paginatedTransactions.map((transaction) => (
-              <tr key={transaction.id} className="hover:bg-gray-50">
+              <tr
+                key={transaction.id}
+                className="hover:bg-gray-50 cursor-pointer"
+                onClick={() => setSelectedId(transaction.id)}
+              >
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
                   {transaction.id}
                 </td>
@@ -156,6 +168,19 @@ export function TransactionTable({ transactions, onExport }: TransactionTablePro
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                   {formatCurrency(transaction.amount, transaction.currency)}
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {transaction.netCapturedAmount !== undefined ? (
+                    <>
+                      <div>{formatCurrency(transaction.netCapturedAmount, transaction.currency)}</div>
+                      {transaction.refundState && transaction.refundState !== 'NONE' && (
+                        <div className="text-xs text-orange-700">
+                          {transaction.refundState === 'FULL' ? 'Refunded' : 'Partially refunded'}
+                          {' '}({formatCurrency(transaction.refundedAmount || 0, transaction.currency)})
+                        </div>
+                      )}
+                    </>
+                  ) : '—'}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(transaction.status)}`}>
                     {transaction.status}
@@ -204,6 +229,10 @@ export function TransactionTable({ transactions, onExport }: TransactionTablePro
           </div>
         </div>
       )}
+
+      {selectedId && (
+        <TransactionDetail transactionId={selectedId} onClose={() => setSelectedId(null)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
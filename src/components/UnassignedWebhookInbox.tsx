@@ -0,0 +1,311 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, AlertCircle, ChevronDown, ChevronRight, Building2, DatabaseZap } from 'lucide-react';
+import { formatDateTime } from '@/lib/utils';
+
+interface UnassignedEvent {
+  id: string;
+  timestamp: string;
+  eventType: string;
+  source: string;
+  tenantReference: string | null;
+  payload: Record<string, unknown>;
+}
+
+interface CompanyOption {
+  id: string;
+  name: string;
+}
+
+interface BackfillResult {
+  scanned: number;
+  assigned: number;
+  unassigned: number;
+  transactions: number;
+  disputes: number;
+  accounts: number;
+  dryRun: boolean;
+  nextCursor: string | null;
+}
+
+export function UnassignedWebhookInbox() {
+  const [events, setEvents] = useState<UnassignedEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [companies, setCompanies] = useState<CompanyOption[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [companyId, setCompanyId] = useState('');
+  const [linkAccounts, setLinkAccounts] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/webhooks/unassigned?limit=100', { cache: 'no-cache' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setEvents(data.events);
+      setTotal(data.total);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load unassigned events');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  useEffect(() => {
+    const loadCompanies = async () => {
+      try {
+        const response = await fetch('/api/companies');
+        const data = await response.json();
+        if (response.ok) {
+          setCompanies(data.companies);
+        }
+      } catch (err) {
+        console.error('Failed to load companies:', err);
+      }
+    };
+
+    loadCompanies();
+  }, []);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const assignSelected = async () => {
+    if (!companyId || selected.size === 0) return;
+
+    setWorking(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await fetch('/api/webhooks/unassigned/assign', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventIds: Array.from(selected), companyId, linkAccounts }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setNotice(
+        `Assigned ${data.events} event(s), ${data.transactions} transaction(s), ${data.disputes} dispute(s)` +
+        (linkAccounts ? ` and ${data.accounts} account(s)` : '')
+      );
+      await loadEvents();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign events');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const runBackfill = async (dryRun: boolean) => {
+    setWorking(true);
+    setError('');
+    setNotice('');
+
+    try {
+      let cursor: string | null = null;
+      let totals: BackfillResult | null = null;
+
+      // The route is bounded per call; keep going until every event has been scanned
+      do {
+        const response: Response = await fetch('/api/webhooks/unassigned/backfill', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ dryRun, cursor }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || `HTTP ${response.status}`);
+        }
+
+        const result: BackfillResult = data.result;
+        totals = totals
+          ? {
+              ...result,
+              scanned: totals.scanned + result.scanned,
+              assigned: totals.assigned + result.assigned,
+              unassigned: totals.unassigned + result.unassigned,
+              transactions: totals.transactions + result.transactions,
+              disputes: totals.disputes + result.disputes,
+              accounts: totals.accounts + result.accounts,
+            }
+          : result;
+        cursor = result.nextCursor;
+      } while (cursor);
+
+      if (totals) {
+        setNotice(
+          `${dryRun ? 'Dry run: would assign' : 'Assigned'} ${totals.assigned} of ${totals.scanned} event(s) ` +
+          `(${totals.unassigned} left unassigned, ${totals.accounts} account(s)` +
+          (dryRun ? ')' : `, ${totals.transactions} transaction(s), ${totals.disputes} dispute(s))`)
+        );
+      }
+      if (!dryRun) {
+        await loadEvents();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Backfill failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Unassigned Webhooks</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Events that matched no company by webhook URL, account number or partner id. Assign them to a company.
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => runBackfill(true)}
+            disabled={working}
+            className="inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <DatabaseZap className="h-4 w-4" />
+            <span>Backfill (dry run)</span>
+          </button>
+          <button
+            onClick={() => runBackfill(false)}
+            disabled={working}
+            className="inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <DatabaseZap className="h-4 w-4" />
+            <span>Run backfill</span>
+          </button>
+          <button
+            onClick={loadEvents}
+            className="inline-flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-4 w-4 text-red-500" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      {notice && !error && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">{notice}</div>
+      )}
+
+      {/* Assignment */}
+      <div className="flex items-center space-x-3">
+        <select
+          value={companyId}
+          onChange={(e) => setCompanyId(e.target.value)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white"
+        >
+          <option value="">Select company...</option>
+          {companies.map(company => (
+            <option key={company.id} value={company.id}>{company.name}</option>
+          ))}
+        </select>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={linkAccounts}
+            onChange={(e) => setLinkAccounts(e.target.checked)}
+            className="h-4 w-4"
+          />
+          <span>Also assign matching accounts</span>
+        </label>
+        <button
+          onClick={assignSelected}
+          disabled={working || !companyId || selected.size === 0}
+          className="inline-flex items-center space-x-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <Building2 className="h-4 w-4" />
+          <span>Assign selected ({selected.size})</span>
+        </button>
+        <span className="text-sm text-gray-600">{total} unassigned</span>
+      </div>
+
+      {/* Events */}
+      <div className="bg-white rounded-lg shadow-sm border divide-y divide-gray-200">
+        {events.length === 0 ? (
+          <div className="p-8 text-center text-gray-700">
+            {loading ? 'Loading...' : 'No unassigned webhook events.'}
+          </div>
+        ) : (
+          events.map(event => (
+            <div key={event.id} className="p-4">
+              <div className="flex items-center space-x-4">
+                <input
+                  type="checkbox"
+                  checked={selected.has(event.id)}
+                  onChange={() => toggleSelected(event.id)}
+                  className="h-4 w-4"
+                />
+                <button
+                  onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  {expandedId === event.id ? <ChevronDown className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-3">
+                    <span className="font-medium text-gray-900">{event.eventType}</span>
+                    <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">{event.source}</span>
+                    <span className="text-xs text-gray-500 font-mono">{event.id}</span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {event.tenantReference
+                      ? <>Reference <span className="font-mono">{event.tenantReference}</span></>
+                      : 'No account number or partner id in payload'}
+                  </p>
+                </div>
+                <div className="text-right text-xs text-gray-600">{formatDateTime(event.timestamp)}</div>
+              </div>
+
+              {expandedId === event.id && (
+                <pre className="mt-4 ml-9 bg-gray-50 p-4 rounded-lg text-xs text-gray-800 overflow-x-auto">
+                  {JSON.stringify(event.payload, null, 2)}
+                </pre>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Copy, Check, ExternalLink, Zap, Trash2, Key, Save, AlertCircle } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Copy, Check, ExternalLink, Zap, Trash2, Key, Save, AlertCircle, ShieldAlert, Filter, RotateCcw, Play } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { SignaturePolicy, SchemaPolicy, WebhookFilterRule, WebhookSubscription } from '@/types/webhook';
 
 interface WebhookConfigProps {
   onGenerateTest: (eventType?: string, count?: number) => void;
@@ -15,6 +17,77 @@ interface WebhookSecretData {
   hasSecret: boolean;
   lastUsedAt?: string;
   usageCount?: number;
+  keyVersion?: number;
+  // Set while a staged key rotation still accepts the previous key
+  previousKeyVersion?: number;
+  previousKeyExpiresAt?: string;
+  signaturePolicy: SignaturePolicy;
+  schemaPolicy: SchemaPolicy;
+  quarantinedCount: number;
+}
+
+// Editable form of a WebhookSubscription; FIELD_EQUALS rules are API-managed and kept as-is
+interface SubscriptionDraft {
+  configured: boolean;
+  events: string;
+  ignoreTestMode: boolean;
+  minAmount: string;
+  minAmountCurrency: string;
+  otherFilters: WebhookFilterRule[];
+}
+
+interface CompanyOption {
+  id: string;
+  name: string;
+}
+
+interface SimulatorScenario {
+  name: string;
+  description?: string;
+  steps: Array<{ name: string; endpoint: string }>;
+}
+
+interface SimulationSummary {
+  scenario: string;
+  durationMs: number;
+  summary: {
+    sent: number;
+    accepted: number;
+    rejected: number;
+    duplicatesSent: number;
+    byStatus: Record<string, number>;
+  };
+  deliveries: Array<{
+    iteration: number;
+    step: string;
+    eventType?: string;
+    duplicate: boolean;
+    signed: boolean;
+    status: number | null;
+    durationMs: number;
+    error?: string;
+  }>;
+}
+
+interface SignatureMonitoringEndpoint {
+  endpoint: string;
+  policy: SignaturePolicy;
+  schemaPolicy: SchemaPolicy;
+  quarantinedCount: number;
+}
+
+function toDraft(subscription?: WebhookSubscription): SubscriptionDraft {
+  const minAmountRule = subscription?.filters.find(
+    (rule): rule is Extract<WebhookFilterRule, { type: 'MIN_AMOUNT' }> => rule.type === 'MIN_AMOUNT'
+  );
+  return {
+    configured: !!subscription,
+    events: subscription?.events.join(', ') || '',
+    ignoreTestMode: !!subscription?.filters.some(rule => rule.type === 'IGNORE_TEST_MODE'),
+    minAmount: minAmountRule ? String(minAmountRule.minAmount) : '',
+    minAmountCurrency: minAmountRule?.currency || '',
+    otherFilters: subscription?.filters.filter(rule => rule.type === 'FIELD_EQUALS') || [],
+  };
 }
 
 export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProps) {
@@ -32,6 +105,29 @@ export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProp
   const [secretDescription, setSecretDescription] = useState('');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
+  const [monitoringWindowDays, setMonitoringWindowDays] = useState(7);
+  const [policyError, setPolicyError] = useState('');
+
+  // Per-company event subscription state
+  const { user } = useAuth();
+  const isSuperAdmin = user?.role === 'SUPER_ADMIN';
+  const [companies, setCompanies] = useState<CompanyOption[]>([]);
+  const [subscriptionCompanyId, setSubscriptionCompanyId] = useState(user?.companyId || '');
+  const [subscriptionDrafts, setSubscriptionDrafts] = useState<Record<string, SubscriptionDraft>>({});
+  const [subscriptionSaving, setSubscriptionSaving] = useState('');
+  const [subscriptionError, setSubscriptionError] = useState('');
+
+  // Scenario simulator state (super admins)
+  const [scenarios, setScenarios] = useState<SimulatorScenario[]>([]);
+  const [simulatorScenario, setSimulatorScenario] = useState('');
+  const [customScenario, setCustomScenario] = useState('');
+  const [simulatorIterations, setSimulatorIterations] = useState(1);
+  const [simulatorOrder, setSimulatorOrder] = useState('SCRIPTED');
+  const [simulatorDuplicateRate, setSimulatorDuplicateRate] = useState(0);
+  const [simulatorSign, setSimulatorSign] = useState(true);
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<SimulationSummary | null>(null);
+  const [simulatorError, setSimulatorError] = useState('');
 
   useEffect(() => {
     // Get the current domain for webhook URL
@@ -48,10 +144,10 @@ export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProp
   const loadWebhookSecrets = async () => {
     // Initialize with default endpoint options
     const secretsData: WebhookSecretData[] = [
-      { endpoint: 'netbanx', name: 'Credit Card Payments', description: 'Primary Netbanx webhook endpoint', hasSecret: false },
-      { endpoint: 'account-status', name: 'Account Status Updates', description: 'Account onboarding and status changes', hasSecret: false },
-      { endpoint: 'direct-debit', name: 'Direct Debit Payments', description: 'Direct debit transactions and mandates', hasSecret: false },
-      { endpoint: 'alternate-payments', name: 'Alternate Payments', description: 'Digital wallets and alternative payment methods', hasSecret: false },
+      { endpoint: 'netbanx', name: 'Credit Card Payments', description: 'Primary Netbanx webhook endpoint', hasSecret: false, signaturePolicy: 'MONITOR', schemaPolicy: 'MONITOR', quarantinedCount: 0 },
+      { endpoint: 'account-status', name: 'Account Status Updates', description: 'Account onboarding and status changes', hasSecret: false, signaturePolicy: 'MONITOR', schemaPolicy: 'MONITOR', quarantinedCount: 0 },
+      { endpoint: 'direct-debit', name: 'Direct Debit Payments', description: 'Direct debit transactions and mandates', hasSecret: false, signaturePolicy: 'MONITOR', schemaPolicy: 'MONITOR', quarantinedCount: 0 },
+      { endpoint: 'alternate-payments', name: 'Alternate Payments', description: 'Digital wallets and alternative payment methods', hasSecret: false, signaturePolicy: 'ENFORCE', schemaPolicy: 'MONITOR', quarantinedCount: 0 },
     ];
 
     try {
@@ -66,6 +162,24 @@ export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProp
             endpointData.hasSecret = true;
             endpointData.lastUsedAt = secret.lastUsedAt;
             endpointData.usageCount = secret.usageCount;
+            endpointData.keyVersion = secret.keyVersion;
+            if (secret.previousKeyExpiresAt && new Date(secret.previousKeyExpiresAt) > new Date()) {
+              endpointData.previousKeyVersion = secret.previousKeyVersion;
+              endpointData.previousKeyExpiresAt = secret.previousKeyExpiresAt;
+            }
+          }
+        });
+      }
+
+      // Policy in effect and requests that would have been rejected under ENFORCE
+      if (data.signatureMonitoring) {
+        setMonitoringWindowDays(data.signatureMonitoring.windowDays);
+        data.signatureMonitoring.endpoints.forEach((monitoring: SignatureMonitoringEndpoint) => {
+          const endpointData = secretsData.find(s => s.endpoint === monitoring.endpoint);
+          if (endpointData) {
+            endpointData.signaturePolicy = monitoring.policy;
+            endpointData.schemaPolicy = monitoring.schemaPolicy;
+            endpointData.quarantinedCount = monitoring.quarantinedCount;
           }
         });
       }
@@ -126,6 +240,236 @@ export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProp
     }
   };
 
+  // End a staged key rotation early, once Paysafe signs with the new key
+  const retirePreviousKey = async (endpoint: string) => {
+    setPolicyError('');
+    try {
+      const response = await fetch(`/api/webhook-secrets/${endpoint}/rotation`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        setPolicyError(data.error || 'Failed to retire previous key');
+        return;
+      }
+      await loadWebhookSecrets();
+    } catch (error) {
+      setPolicyError('Failed to retire previous key');
+      console.error('Error retiring previous key:', error);
+    }
+  };
+
+  // Change the signature verification or payload schema policy for an endpoint
+  const updatePolicy = async (
+    endpoint: string,
+    policy: { signaturePolicy: SignaturePolicy } | { schemaPolicy: SchemaPolicy }
+  ) => {
+    setPolicyError('');
+
+    try {
+      const response = await fetch(`/api/webhook-secrets/${endpoint}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(policy),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        await loadWebhookSecrets();
+      } else {
+        setPolicyError(data.error || 'Failed to update policy');
+      }
+    } catch (error) {
+      setPolicyError('Failed to update policy');
+      console.error('Error updating policy:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!isSuperAdmin) return;
+
+    const loadCompanies = async () => {
+      try {
+        const response = await fetch('/api/companies');
+        const data = await response.json();
+        if (response.ok) {
+          setCompanies(data.companies);
+        }
+      } catch (error) {
+        console.error('Error loading companies:', error);
+      }
+    };
+
+    loadCompanies();
+  }, [isSuperAdmin]);
+
+  useEffect(() => {
+    if (!isSuperAdmin) return;
+
+    const loadScenarios = async () => {
+      try {
+        const response = await fetch('/api/webhooks/simulator');
+        const data = await response.json();
+        if (response.ok) {
+          setScenarios(data.scenarios);
+          setSimulatorScenario(current => current || data.scenarios[0]?.name || '');
+        }
+      } catch (error) {
+        console.error('Error loading simulator scenarios:', error);
+      }
+    };
+
+    loadScenarios();
+  }, [isSuperAdmin]);
+
+  // Load the selected company's subscriptions; endpoints without one process every event
+  const loadSubscriptions = useCallback(async () => {
+    if (!subscriptionCompanyId) return;
+    setSubscriptionError('');
+
+    try {
+      const response = await fetch(`/api/companies/${subscriptionCompanyId}/webhook-subscriptions`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSubscriptionError(data.error || 'Failed to load subscriptions');
+        return;
+      }
+
+      const drafts: Record<string, SubscriptionDraft> = {};
+      data.endpoints.forEach((endpoint: string) => {
+        drafts[endpoint] = toDraft(data.subscriptions.find((s: WebhookSubscription) => s.endpoint === endpoint));
+      });
+      setSubscriptionDrafts(drafts);
+    } catch (error) {
+      setSubscriptionError('Failed to load subscriptions');
+      console.error('Error loading subscriptions:', error);
+    }
+  }, [subscriptionCompanyId]);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  const updateDraft = (endpoint: string, changes: Partial<SubscriptionDraft>) => {
+    setSubscriptionDrafts(prev => ({ ...prev, [endpoint]: { ...prev[endpoint], ...changes } }));
+  };
+
+  const saveSubscription = async (endpoint: string) => {
+    const draft = subscriptionDrafts[endpoint];
+    const filters: WebhookFilterRule[] = [...draft.otherFilters];
+    if (draft.ignoreTestMode) {
+      filters.push({ type: 'IGNORE_TEST_MODE' });
+    }
+    if (draft.minAmount.trim()) {
+      filters.push({
+        type: 'MIN_AMOUNT',
+        minAmount: Number(draft.minAmount),
+        ...(draft.minAmountCurrency.trim() && { currency: draft.minAmountCurrency.trim().toUpperCase() }),
+      });
+    }
+
+    setSubscriptionSaving(endpoint);
+    setSubscriptionError('');
+
+    try {
+      const response = await fetch(`/api/companies/${subscriptionCompanyId}/webhook-subscriptions/${endpoint}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          events: draft.events.split(',').map(type => type.trim()).filter(Boolean),
+          filters,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSubscriptionDrafts(prev => ({ ...prev, [endpoint]: toDraft(data.subscription) }));
+      } else {
+        setSubscriptionError(data.error || 'Failed to save subscription');
+      }
+    } catch (error) {
+      setSubscriptionError('Failed to save subscription');
+      console.error('Error saving subscription:', error);
+    } finally {
+      setSubscriptionSaving('');
+    }
+  };
+
+  const resetSubscription = async (endpoint: string) => {
+    setSubscriptionSaving(endpoint);
+    setSubscriptionError('');
+
+    try {
+      const response = await fetch(`/api/companies/${subscriptionCompanyId}/webhook-subscriptions/${endpoint}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSubscriptionDrafts(prev => ({ ...prev, [endpoint]: toDraft() }));
+      } else {
+        setSubscriptionError(data.error || 'Failed to reset subscription');
+      }
+    } catch (error) {
+      setSubscriptionError('Failed to reset subscription');
+      console.error('Error resetting subscription:', error);
+    } finally {
+      setSubscriptionSaving('');
+    }
+  };
+
+  // Run a built-in scenario, or the pasted scenario JSON when one is given
+  const runSimulation = async () => {
+    let scenario: unknown = simulatorScenario;
+    if (customScenario.trim()) {
+      try {
+        scenario = JSON.parse(customScenario);
+      } catch {
+        setSimulatorError('Custom scenario is not valid JSON');
+        return;
+      }
+    }
+
+    setSimulating(true);
+    setSimulatorError('');
+    setSimulation(null);
+
+    try {
+      const response = await fetch('/api/webhooks/simulator', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          scenario,
+          iterations: simulatorIterations,
+          order: simulatorOrder,
+          duplicateRate: simulatorDuplicateRate,
+          sign: simulatorSign,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSimulation(data.result);
+      } else {
+        setSimulatorError(data.error || 'Simulation failed');
+      }
+    } catch (error) {
+      setSimulatorError('Simulation failed');
+      console.error('Error running simulation:', error);
+    } finally {
+      setSimulating(false);
+    }
+  };
+
   // Open secret form for specific endpoint
   const openSecretForm = (endpoint: string) => {
     const endpointData = webhookSecrets.find(s => s.endpoint === endpoint);
@@ -330,6 +674,7 @@ export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProp
               />
               <p className="text-xs text-gray-500 mt-1">
                 Key will be encrypted and stored securely. Minimum 32 characters required.
+                Replacing an existing key keeps the old one valid for an overlap window (72 hours by default).
               </p>
             </div>
 
@@ -373,6 +718,13 @@ export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProp
           </div>
         )}
 
+        {policyError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-500" />
+            <span className="text-sm text-red-700">{policyError}</span>
+          </div>
+        )}
+
         {/* Existing Secrets Display */}
         <div className="space-y-3">
           {webhookSecrets.map(secret => (
@@ -391,6 +743,9 @@ export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProp
                   <p className="text-sm text-gray-600 mt-1">{secret.description}</p>
                   {secret.hasSecret && (
                     <div className="text-xs text-gray-500 mt-2">
+                      {secret.keyVersion !== undefined && (
+                        <span className="mr-4">Key v{secret.keyVersion}</span>
+                      )}
                       {secret.usageCount !== undefined && (
                         <span className="mr-4">Used: {secret.usageCount} times</span>
                       )}
@@ -399,7 +754,55 @@ export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProp
                       )}
                     </div>
                   )}
+                  {secret.previousKeyExpiresAt && (
+                    <div className="flex items-center space-x-2 text-xs mt-2 text-blue-700">
+                      <Key className="h-3 w-3" />
+                      <span>
+                        Rotating: key v{secret.previousKeyVersion} is also accepted until {new Date(secret.previousKeyExpiresAt).toLocaleString()}
+                      </span>
+                      <button
+                        onClick={() => retirePreviousKey(secret.endpoint)}
+                        className="underline hover:text-blue-900"
+                      >
+                        Retire now
+                      </button>
+                    </div>
+                  )}
+                  {secret.signaturePolicy !== 'DISABLED' && (
+                    <div className={`flex items-center space-x-1 text-xs mt-2 ${
+                      secret.quarantinedCount > 0 ? 'text-orange-700' : 'text-gray-500'
+                    }`}>
+                      <ShieldAlert className="h-3 w-3" />
+                      <span>
+                        {secret.signaturePolicy === 'ENFORCE'
+                          ? `${secret.quarantinedCount} quarantined before enforcement (last ${monitoringWindowDays} days)`
+                          : `${secret.quarantinedCount} requests would have been rejected under enforce (last ${monitoringWindowDays} days)`}
+                      </span>
+                    </div>
+                  )}
                 </div>
+                <select
+                  value={secret.signaturePolicy}
+                  onChange={(e) => updatePolicy(secret.endpoint, { signaturePolicy: e.target.value as SignaturePolicy })}
+                  disabled={!secret.hasSecret}
+                  title={secret.hasSecret ? 'Signature verification policy' : 'Configure a secret before changing the policy'}
+                  className="mr-2 px-2 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white disabled:bg-gray-100 disabled:cursor-not-allowed"
+                >
+                  <option value="ENFORCE">Enforce</option>
+                  <option value="MONITOR">Monitor only</option>
+                  <option value="DISABLED">Disabled</option>
+                </select>
+                <select
+                  value={secret.schemaPolicy}
+                  onChange={(e) => updatePolicy(secret.endpoint, { schemaPolicy: e.target.value as SchemaPolicy })}
+                  disabled={!secret.hasSecret}
+                  title={secret.hasSecret ? 'Payload schema validation policy' : 'Configure a secret before changing the policy'}
+                  className="mr-2 px-2 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white disabled:bg-gray-100 disabled:cursor-not-allowed"
+                >
+                  <option value="ENFORCE">Schema: reject</option>
+                  <option value="MONITOR">Schema: flag</option>
+                  <option value="DISABLED">Schema: off</option>
+                </select>
                 <button
                   onClick={() => openSecretForm(secret.endpoint)}
                   className="inline-flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
@@ -413,6 +816,287 @@ export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProp
         </div>
       </div>
 
+      {/* Event Subscriptions */}
+      <div className="bg-white p-6 rounded-lg shadow-sm border">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Event Subscriptions</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Unsubscribed or filtered events are stored, but not processed into transactions, notified or forwarded.
+            </p>
+          </div>
+          {isSuperAdmin && (
+            <select
+              value={subscriptionCompanyId}
+              onChange={(e) => setSubscriptionCompanyId(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white"
+            >
+              <option value="">Select company...</option>
+              {companies.map(company => (
+                <option key={company.id} value={company.id}>{company.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {subscriptionError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-500" />
+            <span className="text-sm text-red-700">{subscriptionError}</span>
+          </div>
+        )}
+
+        {!subscriptionCompanyId ? (
+          <p className="text-sm text-gray-600">Select a company to manage its event subscriptions.</p>
+        ) : (
+          <div className="space-y-3">
+            {Object.entries(subscriptionDrafts).map(([endpoint, draft]) => (
+              <div key={endpoint} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="flex items-center space-x-3">
+                  <Filter className="h-4 w-4 text-gray-500" />
+                  <span className="text-sm font-mono text-gray-900">/{endpoint}</span>
+                  {draft.configured ? (
+                    <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">CUSTOM</span>
+                  ) : (
+                    <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded">ALL EVENTS</span>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Event types (comma separated, PREFIX_* allowed; empty = all)
+                    </label>
+                    <input
+                      type="text"
+                      value={draft.events}
+                      onChange={(e) => updateDraft(endpoint, { events: e.target.value })}
+                      placeholder="PAYMENT_COMPLETED, REFUND_*"
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 font-mono"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Ignore amounts below (minor units)
+                    </label>
+                    <div className="flex space-x-2">
+                      <input
+                        type="number"
+                        min="0"
+                        value={draft.minAmount}
+                        onChange={(e) => updateDraft(endpoint, { minAmount: e.target.value })}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900"
+                      />
+                      <input
+                        type="text"
+                        maxLength={3}
+                        value={draft.minAmountCurrency}
+                        onChange={(e) => updateDraft(endpoint, { minAmountCurrency: e.target.value })}
+                        placeholder="Any"
+                        title="Only apply to this currency"
+                        className="w-20 px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 uppercase"
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={draft.ignoreTestMode}
+                        onChange={(e) => updateDraft(endpoint, { ignoreTestMode: e.target.checked })}
+                        className="h-4 w-4"
+                      />
+                      <span>Ignore test mode events</span>
+                    </label>
+                    {draft.otherFilters.length > 0 && (
+                      <span className="text-xs text-gray-500">+{draft.otherFilters.length} field rule(s) managed via API</span>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    {draft.configured && (
+                      <button
+                        onClick={() => resetSubscription(endpoint)}
+                        disabled={subscriptionSaving === endpoint}
+                        className="inline-flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                        <span>Reset</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => saveSubscription(endpoint)}
+                      disabled={subscriptionSaving === endpoint}
+                      className="inline-flex items-center space-x-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                    >
+                      <Save className="h-4 w-4" />
+                      <span>{subscriptionSaving === endpoint ? 'Saving...' : 'Save'}</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Scenario Simulator */}
+      {isSuperAdmin && (
+        <div className="bg-white p-6 rounded-lg shadow-sm border">
+          <h3 className="text-lg font-medium text-gray-900">Scenario Simulator</h3>
+          <p className="text-sm text-gray-600 mt-1 mb-4">
+            Sends scripted payment lifecycles to our own webhook endpoints, signed with the stored secrets, through the full pipeline.
+          </p>
+
+          {simulatorError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-500" />
+              <span className="text-sm text-red-700">{simulatorError}</span>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Scenario</label>
+                <select
+                  value={simulatorScenario}
+                  onChange={(e) => setSimulatorScenario(e.target.value)}
+                  disabled={!!customScenario.trim()}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 disabled:bg-gray-100"
+                >
+                  {scenarios.map(scenario => (
+                    <option key={scenario.name} value={scenario.name}>{scenario.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {scenarios.find(scenario => scenario.name === simulatorScenario)?.steps
+                    .map(step => `${step.name} (${step.endpoint})`).join(' → ')}
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Iterations</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="500"
+                  value={simulatorIterations}
+                  onChange={(e) => setSimulatorIterations(parseInt(e.target.value) || 1)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Delivery order</label>
+                <select
+                  value={simulatorOrder}
+                  onChange={(e) => setSimulatorOrder(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                >
+                  <option value="SCRIPTED">As scripted</option>
+                  <option value="SHUFFLED">Shuffled</option>
+                  <option value="REVERSED">Reversed</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-6">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <span>Duplicate deliveries</span>
+                <select
+                  value={simulatorDuplicateRate}
+                  onChange={(e) => setSimulatorDuplicateRate(Number(e.target.value))}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+                >
+                  <option value={0}>None</option>
+                  <option value={0.1}>10%</option>
+                  <option value={0.25}>25%</option>
+                  <option value={0.5}>50%</option>
+                  <option value={1}>Every event</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={simulatorSign}
+                  onChange={(e) => setSimulatorSign(e.target.checked)}
+                  className="h-4 w-4"
+                />
+                <span>Sign with stored secrets</span>
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Custom scenario JSON (optional, replaces the selected scenario)
+              </label>
+              <textarea
+                value={customScenario}
+                onChange={(e) => setCustomScenario(e.target.value)}
+                rows={4}
+                placeholder='{"name": "my-scenario", "steps": [{"name": "payment", "endpoint": "netbanx", "body": {...}}]}'
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 font-mono"
+              />
+            </div>
+
+            <button
+              onClick={runSimulation}
+              disabled={simulating || (!simulatorScenario && !customScenario.trim())}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              <Play className="h-4 w-4" />
+              <span>{simulating ? 'Running...' : 'Run Scenario'}</span>
+            </button>
+
+            {simulation && (
+              <div className="border border-gray-200 rounded-lg p-4">
+                <div className="flex flex-wrap gap-4 text-sm text-gray-700 mb-3">
+                  <span>Sent: <strong>{simulation.summary.sent}</strong></span>
+                  <span className="text-green-700">Accepted: <strong>{simulation.summary.accepted}</strong></span>
+                  <span className={simulation.summary.rejected > 0 ? 'text-red-700' : ''}>
+                    Rejected: <strong>{simulation.summary.rejected}</strong>
+                  </span>
+                  <span>Duplicates sent: <strong>{simulation.summary.duplicatesSent}</strong></span>
+                  <span className="text-gray-500">
+                    {Object.entries(simulation.summary.byStatus).map(([status, count]) => `${status}: ${count}`).join(', ')}
+                    {' '}in {simulation.durationMs}ms
+                  </span>
+                </div>
+                <div className="max-h-64 overflow-y-auto">
+                  <table className="min-w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1 pr-3">#</th>
+                        <th className="py-1 pr-3">Step</th>
+                        <th className="py-1 pr-3">Event type</th>
+                        <th className="py-1 pr-3">Status</th>
+                        <th className="py-1 pr-3">Time</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {simulation.deliveries.map((delivery, index) => (
+                        <tr key={index} className="border-t border-gray-100 text-gray-900">
+                          <td className="py-1 pr-3">{delivery.iteration}</td>
+                          <td className="py-1 pr-3">
+                            {delivery.step}
+                            {delivery.duplicate && <span className="ml-1 text-orange-700">(duplicate)</span>}
+                            {!delivery.signed && <span className="ml-1 text-gray-500">(unsigned)</span>}
+                          </td>
+                          <td className="py-1 pr-3 font-mono">{delivery.eventType}</td>
+                          <td className={`py-1 pr-3 ${delivery.status !== null && delivery.status < 300 ? 'text-green-700' : 'text-red-700'}`}>
+                            {delivery.status ?? delivery.error}
+                          </td>
+                          <td className="py-1 pr-3">{delivery.durationMs}ms</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Webhook Testing */}
       <div className="bg-white p-6 rounded-lg shadow-sm border">
         <h3 className="text-lg font-medium text-gray-900 mb-4">Test Webhook Events</h3>
@@ -526,7 +1210,8 @@ export function WebhookConfig({ onGenerateTest, onClearData }: WebhookConfigProp
           <div>
             <h4 className="font-medium text-gray-900 mb-2">3. Security</h4>
             <ul className="list-disc pl-5 space-y-1">
-              <li>Webhook signatures are validated when provided</li>
+              <li>Each endpoint has a signature policy: Enforce rejects unsigned or invalid requests with 401, Monitor only accepts them as quarantined events, Disabled skips verification</li>
+              <li>Keep an endpoint on Monitor only until its quarantined count stays at zero, then switch it to Enforce</li>
               <li>All webhook data is processed and stored temporarily</li>
               <li>Use HTTPS endpoints in production</li>
               <li>Monitor webhook logs for security issues</li>
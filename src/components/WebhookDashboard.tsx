@@ -10,8 +10,10 @@ import { Charts } from './Charts';
 import { LoadingSpinner } from './LoadingSpinner';
 import { WebhookEventsList } from './WebhookEventsList';
 import { WebhookConfig } from './WebhookConfig';
+import { useDataMode } from '@/contexts/DataModeContext';
 
 export function WebhookDashboard() {
+  const { mode } = useDataMode();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [summary, setSummary] = useState<PaymentSummary | null>(null);
   const [webhookEvents, setWebhookEvents] = useState<WebhookEvent[]>([]);
@@ -28,8 +30,8 @@ export function WebhookDashboard() {
       console.log('Fetching webhook data...');
 
       const [transactionsResponse, webhooksResponse] = await Promise.all([
-        fetch('/api/data?type=transactions'),
-        fetch('/api/data?type=webhooks&limit=50')
+        fetch(`/api/data?type=transactions&mode=${mode}`),
+        fetch(`/api/data?type=webhooks&limit=50&mode=${mode}`)
       ]);
 
       console.log('Response status:', {
@@ -91,7 +93,7 @@ export function WebhookDashboard() {
     const interval = setInterval(fetchData, 30000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [mode]);
 
   const generateTestWebhook = async (eventType: string = 'random', count: number = 1) => {
     try {
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { WebhookEvent, WebhookStats } from '@/types/webhook';
 import { formatDateTime, getStatusColor } from '@/lib/utils';
-import { ChevronDown, ChevronRight, AlertCircle, CheckCircle, Search } from 'lucide-react';
+import { ChevronDown, ChevronRight, AlertCircle, CheckCircle, Search, Eye } from 'lucide-react';
 
 interface WebhookEventsListProps {
   events: WebhookEvent[];
@@ -15,6 +15,9 @@ export function WebhookEventsList({ events, stats, onRefresh }: WebhookEventsLis
   const [expandedEvent, setExpandedEvent] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterEventType, setFilterEventType] = useState('');
+  // Payloads with their PII tokens revealed, by event id
+  const [revealedPayloads, setRevealedPayloads] = useState<Record<string, unknown>>({});
+  const [revealError, setRevealError] = useState<string | null>(null);
 
   const filteredEvents = events.filter(event => {
     // Safely access merchantRefNum with proper null checks
@@ -32,6 +35,31 @@ export function WebhookEventsList({ events, stats, onRefresh }: WebhookEventsLis
 
   const toggleExpanded = (eventId: string) => {
     setExpandedEvent(expandedEvent === eventId ? null : eventId);
+    setRevealError(null);
+  };
+
+  const hasPiiTokens = (event: WebhookEvent) => /"pii_[0-9a-f]{24}"/.test(JSON.stringify(event.payload));
+
+  const revealPii = async (eventId: string) => {
+    const reason = window.prompt('Why do you need the original values? (recorded in the audit log)');
+    if (!reason?.trim()) return;
+
+    setRevealError(null);
+    try {
+      const response = await fetch('/api/webhooks/pii/reveal', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ webhookEventId: eventId, reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setRevealError(data.error || 'Failed to reveal protected fields');
+        return;
+      }
+      setRevealedPayloads(previous => ({ ...previous, [eventId]: data.payload }));
+    } catch {
+      setRevealError('Failed to reveal protected fields');
+    }
   };
 
   return (
@@ -141,12 +169,20 @@ export function WebhookEventsList({ events, stats, onRefresh }: WebhookEventsLis
                     {event.payload?.eventData?.merchantRefNum && (
                       <span>{event.payload.eventData.merchantRefNum}</span>
                     )}
+                    {event.quarantined && (
+                      <span
+                        className="px-2 py-1 rounded-full text-xs bg-orange-100 text-orange-800"
+                        title="Failed signature verification while the endpoint was in monitor mode"
+                      >
+                        Quarantined
+                      </span>
+                    )}
                     <span className={`px-2 py-1 rounded-full text-xs ${
                       event.processed && !event.error 
                         ? 'bg-green-100 text-green-800' 
                         : 'bg-red-100 text-red-800'
                     }`}>
-                      {event.error ? 'Failed' : 'Processed'}
+                      {event.eventType === 'REPLAY_REJECTED' ? 'Replay Rejected' : event.error ? 'Failed' : 'Processed'}
                     </span>
                   </div>
                 </div>
@@ -154,9 +190,23 @@ export function WebhookEventsList({ events, stats, onRefresh }: WebhookEventsLis
                 {expandedEvent === event.id && (
                   <div className="mt-4 ml-9">
                     <div className="bg-gray-50 p-4 rounded-lg">
-                      <h4 className="font-medium text-gray-900 mb-2">Event Data</h4>
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="font-medium text-gray-900">Event Data</h4>
+                        {hasPiiTokens(event) && !revealedPayloads[event.id] && (
+                          <button
+                            onClick={() => revealPii(event.id)}
+                            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            <Eye className="w-4 h-4" />
+                            Reveal protected fields
+                          </button>
+                        )}
+                      </div>
+                      {revealError && (
+                        <p className="text-sm text-red-600 mb-2">{revealError}</p>
+                      )}
                       <pre className="text-sm text-gray-800 overflow-x-auto">
-                        {JSON.stringify(event.payload, null, 2)}
+                        {JSON.stringify(revealedPayloads[event.id] ?? event.payload, null, 2)}
                       </pre>
                       {event.error && (
                         <div className="mt-2 p-2 bg-red-50 rounded border border-red-200">
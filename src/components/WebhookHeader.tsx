@@ -2,6 +2,7 @@
 
 import { RefreshCw, Zap, Trash2, BarChart3, Webhook, Settings } from 'lucide-react';
 import { WebhookStats } from '@/types/webhook';
+import { useDataMode } from '@/contexts/DataModeContext';
 
 interface WebhookHeaderProps {
   onRefresh: () => void;
@@ -22,6 +23,8 @@ export function WebhookHeader({
   activeTab,
   onTabChange
 }: WebhookHeaderProps) {
+  const { mode, setMode } = useDataMode();
+
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -29,7 +32,9 @@ export function WebhookHeader({
           <div className="flex items-center space-x-4">
             <div>
               <h1 className="text-2xl font-bold text-gray-900">Netbanx Webhook Dashboard</h1>
-              <p className="text-sm text-gray-500">Real-time webhook data processing</p>
+              <p className="text-sm text-gray-500">
+                Real-time webhook data processing{mode === 'test' && ' · showing test data'}
+              </p>
             </div>
             {webhookStats && (
               <div className="flex items-center space-x-4 text-sm">
@@ -49,6 +54,28 @@ export function WebhookHeader({
           </div>
           
           <div className="flex items-center space-x-4">
+            {/* Live / test toggle, applies to every dashboard view */}
+            <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden" role="group" aria-label="Data mode">
+              <button
+                onClick={() => setMode('live')}
+                aria-pressed={mode === 'live'}
+                className={`px-3 py-2 text-sm font-medium ${
+                  mode === 'live' ? 'bg-green-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                Live
+              </button>
+              <button
+                onClick={() => setMode('test')}
+                aria-pressed={mode === 'test'}
+                className={`px-3 py-2 text-sm font-medium border-l border-gray-300 ${
+                  mode === 'test' ? 'bg-amber-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                Test
+              </button>
+            </div>
+
             <button
               onClick={onRefresh}
               disabled={isLoading}
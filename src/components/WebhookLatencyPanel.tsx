@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { Timer, AlertTriangle } from 'lucide-react';
+
+interface LatencyPercentiles {
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+  max: number | null;
+}
+
+interface LatencyGroup {
+  source: string;
+  eventType: string;
+  count: number;
+  deliveryLag: LatencyPercentiles;
+  queueWait: LatencyPercentiles;
+  processingLag: LatencyPercentiles;
+}
+
+interface LatencyBucket {
+  bucket: string;
+  count: number;
+  deliveryP50: number | null;
+  deliveryP95: number | null;
+  processingP50: number | null;
+  processingP95: number | null;
+}
+
+interface LatencyData {
+  thresholds: {
+    deliveryLagMs: number;
+    processingLagMs: number;
+    windowMinutes: number;
+  };
+  groups: LatencyGroup[];
+  series: LatencyBucket[];
+}
+
+const RANGES = [
+  { label: '6h', hours: 6 },
+  { label: '24h', hours: 24 },
+  { label: '7d', hours: 168 },
+];
+
+// Milliseconds as the largest sensible unit
+function formatLag(ms: number | null): string {
+  if (ms === null) return '—';
+  const abs = Math.abs(ms);
+  if (abs < 1000) return `${ms}ms`;
+  if (abs < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  if (abs < 3600000) return `${(ms / 60000).toFixed(1)}m`;
+  return `${(ms / 3600000).toFixed(1)}h`;
+}
+
+interface WebhookLatencyPanelProps {
+  refreshKey?: Date | null; // Changes whenever the parent dashboard refreshes
+}
+
+export default function WebhookLatencyPanel({ refreshKey }: WebhookLatencyPanelProps) {
+  const [data, setData] = useState<LatencyData | null>(null);
+  const [hours, setHours] = useState(24);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLatency = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/monitoring/webhook-latency?hours=${hours}`, { cache: 'no-cache' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      setData(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhook latency');
+      console.error('Failed to fetch webhook latency:', err);
+    }
+  }, [hours]);
+
+  useEffect(() => {
+    fetchLatency();
+  }, [fetchLatency, refreshKey]);
+
+  const chartData = (data?.series || []).map(bucket => ({
+    ...bucket,
+    label: format(parseISO(bucket.bucket), hours > 48 ? 'MMM d HH:mm' : 'HH:mm'),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Timer className="h-5 w-5" />
+            <span>Webhook Delivery Latency</span>
+          </CardTitle>
+          <div className="flex items-center space-x-1">
+            {RANGES.map(range => (
+              <button
+                key={range.hours}
+                onClick={() => setHours(range.hours)}
+                className={`px-2 py-1 text-xs rounded ${hours === range.hours ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="flex items-center space-x-2 text-sm text-red-600 mb-4">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {data && (
+          <>
+            <div className="text-xs text-gray-600 mb-3">
+              Delivery lag is the provider event time to receipt; processing lag is receipt to processing complete.
+              Alerts fire when the p95 over {data.thresholds.windowMinutes} minutes exceeds{' '}
+              {formatLag(data.thresholds.deliveryLagMs)} (delivery) or {formatLag(data.thresholds.processingLagMs)} (processing).
+            </div>
+
+            {chartData.length === 0 ? (
+              <div className="text-sm text-gray-500 text-center py-8">No processed webhooks in this period</div>
+            ) : (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis tickFormatter={(value: number) => formatLag(value)} />
+                    <Tooltip formatter={(value: number) => formatLag(value)} />
+                    <Legend />
+                    <Line type="monotone" dataKey="deliveryP50" stroke="#3B82F6" strokeWidth={2} name="Delivery p50" dot={false} />
+                    <Line type="monotone" dataKey="deliveryP95" stroke="#1E3A8A" strokeWidth={2} name="Delivery p95" dot={false} />
+                    <Line type="monotone" dataKey="processingP50" stroke="#10B981" strokeWidth={2} name="Processing p50" dot={false} />
+                    <Line type="monotone" dataKey="processingP95" stroke="#F59E0B" strokeWidth={2} name="Processing p95" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {data.groups.length > 0 && (
+              <div className="mt-4 overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b">
+                      <th className="py-2 pr-4">Source</th>
+                      <th className="py-2 pr-4">Event type</th>
+                      <th className="py-2 pr-4 text-right">Events</th>
+                      <th className="py-2 pr-4 text-right">Delivery p50</th>
+                      <th className="py-2 pr-4 text-right">Delivery p95</th>
+                      <th className="py-2 pr-4 text-right">Delivery p99</th>
+                      <th className="py-2 pr-4 text-right">Queue p95</th>
+                      <th className="py-2 pr-4 text-right">Processing p50</th>
+                      <th className="py-2 pr-4 text-right">Processing p95</th>
+                      <th className="py-2 text-right">Processing p99</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.groups.map(group => {
+                      const deliveryBreach = (group.deliveryLag.p95 ?? 0) > data.thresholds.deliveryLagMs;
+                      const processingBreach = (group.processingLag.p95 ?? 0) > data.thresholds.processingLagMs;
+                      return (
+                        <tr key={`${group.source}:${group.eventType}`} className="border-b last:border-0">
+                          <td className="py-2 pr-4">{group.source}</td>
+                          <td className="py-2 pr-4 font-mono text-xs">{group.eventType}</td>
+                          <td className="py-2 pr-4 text-right">{group.count}</td>
+                          <td className="py-2 pr-4 text-right">{formatLag(group.deliveryLag.p50)}</td>
+                          <td className="py-2 pr-4 text-right">
+                            {deliveryBreach
+                              ? <Badge variant="destructive">{formatLag(group.deliveryLag.p95)}</Badge>
+                              : formatLag(group.deliveryLag.p95)}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{formatLag(group.deliveryLag.p99)}</td>
+                          <td className="py-2 pr-4 text-right">{formatLag(group.queueWait.p95)}</td>
+                          <td className="py-2 pr-4 text-right">{formatLag(group.processingLag.p50)}</td>
+                          <td className="py-2 pr-4 text-right">
+                            {processingBreach
+                              ? <Badge variant="destructive">{formatLag(group.processingLag.p95)}</Badge>
+                              : formatLag(group.processingLag.p95)}
+                          </td>
+                          <td className="py-2 text-right">{formatLag(group.processingLag.p99)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
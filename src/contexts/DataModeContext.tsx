@@ -0,0 +1,43 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import { DataMode } from '@/types/webhook';
+
+interface DataModeContextType {
+  mode: DataMode;
+  setMode: (mode: DataMode) => void;
+}
+
+const DataModeContext = createContext<DataModeContextType | undefined>(undefined);
+
+// Remembered across pages and reloads; dashboards show live data until switched
+const STORAGE_KEY = 'data_mode';
+
+export function DataModeProvider({ children }: { children: React.ReactNode }) {
+  const [mode, setModeState] = useState<DataMode>('live');
+
+  useEffect(() => {
+    if (localStorage.getItem(STORAGE_KEY) === 'test') {
+      setModeState('test');
+    }
+  }, []);
+
+  const setMode = useCallback((next: DataMode) => {
+    setModeState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+  }, []);
+
+  return (
+    <DataModeContext.Provider value={{ mode, setMode }}>
+      {children}
+    </DataModeContext.Provider>
+  );
+}
+
+export function useDataMode() {
+  const context = useContext(DataModeContext);
+  if (context === undefined) {
+    throw new Error('useDataMode must be used within a DataModeProvider');
+  }
+  return context;
+}
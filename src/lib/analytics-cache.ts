@@ -1,5 +1,6 @@
 import { DatabaseService, redis, redisForBull } from '@/lib/database';
 import { RedisConnectionManager } from '@/lib/redis-config';
+import { DataMode } from '@/types/webhook';
 import Queue from 'bull';
 
 // Analytics cache configuration
@@ -45,9 +46,10 @@ export class AnalyticsCacheManager {
    */
   static async getAnalytics(
     timeRange: 'hour' | 'day' | 'week' | 'month',
-    companyId?: string
+    companyId?: string,
+    mode: DataMode = 'live'
   ): Promise<any> {
-    const cacheKey = this.generateCacheKey(timeRange, companyId);
+    const cacheKey = this.generateCacheKey(timeRange, companyId, mode);
     
     try {
       // Try to get from cache first
@@ -61,7 +63,7 @@ export class AnalyticsCacheManager {
       console.log(`Analytics cache MISS for ${timeRange}${companyId ? ` (company: ${companyId})` : ''}`);
       
       // Cache miss - compute fresh data
-      const analytics = await DatabaseService.getAnalytics(timeRange);
+      const analytics = await DatabaseService.getAnalytics(timeRange, mode);
       
       // Cache the result
       await this.setCachedAnalytics(cacheKey, analytics, timeRange, companyId);
@@ -71,7 +73,7 @@ export class AnalyticsCacheManager {
       console.error('Error getting cached analytics:', error);
       
       // Fallback to direct database query
-      return await DatabaseService.getAnalytics(timeRange);
+      return await DatabaseService.getAnalytics(timeRange, mode);
     }
   }
 
@@ -149,12 +151,13 @@ export class AnalyticsCacheManager {
   }
 
   /**
-   * Generate cache key for analytics
+   * Generate cache key for analytics (pre-computed and refreshed entries are live)
    */
-  private static generateCacheKey(timeRange: string, companyId?: string): string {
+  private static generateCacheKey(timeRange: string, companyId?: string, mode: DataMode = 'live'): string {
+    const range = mode === 'test' ? `${timeRange}:test` : timeRange;
     return companyId 
-      ? `${this.CACHE_PREFIX}:${timeRange}:company:${companyId}`
-      : `${this.CACHE_PREFIX}:${timeRange}:global`;
+      ? `${this.CACHE_PREFIX}:${range}:company:${companyId}`
+      : `${this.CACHE_PREFIX}:${range}:global`;
   }
 
   /**
@@ -2,6 +2,7 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { db } from './database';
 import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
 
 export interface AuthUser {
   id: string;
@@ -190,6 +191,16 @@ export class AuthService {
     }
   }
 
+  // Resolve the session user from the session cookie or a Bearer token
+  static async getUserFromRequest(request: NextRequest): Promise<AuthUser | null> {
+    const cookieToken = request.cookies.get('session_token')?.value;
+    const authHeader = request.headers.get('authorization');
+    const bearerToken = authHeader?.startsWith('Bearer ') ? authHeader.replace('Bearer ', '') : null;
+
+    const token = cookieToken || bearerToken;
+    return token ? this.verifySession(token) : null;
+  }
+
   // Logout user
   static async logout(token: string): Promise<void> {
     try {
@@ -407,11 +418,17 @@ export class AuthService {
       case 'read:webhooks':
       case 'read:analytics':
       case 'read:accounts':
+      case 'read:disputes':
         return ['COMPANY_ADMIN', 'COMPANY_USER', 'READONLY'].includes(user.role);
       
+      case 'manage:disputes':
+        return ['COMPANY_ADMIN', 'COMPANY_USER'].includes(user.role);
+      
       case 'write:webhooks':
       case 'manage:notifications':
       case 'manage:api-tokens':
+      case 'reveal:pii':
+      case 'manage:payments': // Refunds, voids and captures move money
         return ['COMPANY_ADMIN'].includes(user.role);
       
       case 'manage:users':
@@ -419,6 +436,8 @@ export class AuthService {
         return ['SUPER_ADMIN', 'COMPANY_ADMIN'].includes(user.role);
       
       case 'manage:all-companies':
+      case 'manage:webhook-queue':
+      case 'manage:webhook-secrets': // Signing keys and signature policy of the inbound endpoints
         return user.role === 'SUPER_ADMIN';
       
       default:
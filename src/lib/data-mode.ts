@@ -0,0 +1,55 @@
+import { withDatabase } from '@/lib/database';
+import { DataMode } from '@/types/webhook';
+
+/**
+ * LIVE / TEST MODE SEPARATION
+ *
+ * Paysafe sends sandbox traffic to the same endpoints as production. The mode
+ * is detected once at ingest (isTestModeEvent) and stored on WebhookEvent,
+ * Transaction and Account, so dashboards, analytics and the v1 API can show
+ * one mode at a time - live unless test is asked for.
+ *
+ * Test data is only useful while an integration is being exercised, so it is
+ * deleted after TEST_DATA_RETENTION_DAYS instead of the regular retention.
+ */
+
+/**
+ * Mode from a query parameter or payload field; anything but "test" is live.
+ */
+export function parseDataMode(value: unknown): DataMode {
+  return typeof value === 'string' && value.toLowerCase() === 'test' ? 'test' : 'live';
+}
+
+export interface TestDataCleanupResult {
+  webhookEvents: number;
+  transactions: number;
+  accounts: number;
+}
+
+export class TestDataRetention {
+  private readonly retentionDays = parseInt(process.env.TEST_DATA_RETENTION_DAYS || '7');
+
+  /**
+   * Delete test-mode events, transactions and accounts older than the retention window.
+   * Status history and anomalies cascade with their transaction or account.
+   */
+  async cleanupExpired(): Promise<TestDataCleanupResult> {
+    const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+
+    return withDatabase(async (db) => {
+      const [webhookEvents, transactions, accounts] = await Promise.all([
+        db.webhookEvent.deleteMany({ where: { mode: 'test', timestamp: { lt: cutoff } } }),
+        db.transaction.deleteMany({ where: { mode: 'test', updatedAt: { lt: cutoff } } }),
+        db.account.deleteMany({ where: { mode: 'test', updatedAt: { lt: cutoff } } }),
+      ]);
+
+      return {
+        webhookEvents: webhookEvents.count,
+        transactions: transactions.count,
+        accounts: accounts.count,
+      };
+    }, { operationName: 'test_data_cleanup', timeout: 30000 });
+  }
+}
+
+export const testDataRetention = new TestDataRetention();
@@ -7,6 +7,8 @@
 
 import { PrismaClient } from '@prisma/client';
 import { withDatabase } from './database';
+import { applyTransactionEvent } from './transaction-lifecycle';
+import { piiRedactor } from './pii-redaction';
 
 export interface DatabaseOperationOptions {
   retries?: number;
@@ -79,7 +81,8 @@ export class ServerlessDatabaseOperations {
   }
 
   /**
-   * Store or update transaction from webhook data
+   * Store or update transaction from webhook data.
+   * Status changes follow the transaction lifecycle, ordered by eventTime.
    */
   static async upsertTransaction(
     transactionData: {
@@ -92,6 +95,10 @@ export class ServerlessDatabaseOperations {
       paymentMethod: string;
       description?: string;
       transactionTime: Date;
+      eventTime?: Date; // Defaults to transactionTime
+      eventType?: string;
+      rawStatus?: string;
+      parentReferences?: string[]; // Parent payment ids for refunds/chargebacks
       metadata?: any;
       companyId?: string;
       webhookEventId?: string;
@@ -100,16 +107,7 @@ export class ServerlessDatabaseOperations {
   ) {
     return withDatabase(async (db) => {
       try {
-        const transaction = await db.transaction.upsert({
-          where: { externalId: transactionData.externalId },
-          update: {
-            status: transactionData.status,
-            transactionType: transactionData.transactionType,
-            paymentMethod: transactionData.paymentMethod,
-            description: transactionData.description,
-            metadata: transactionData.metadata,
-            updatedAt: new Date(),
-          },
+        const { transaction, outcome } = await applyTransactionEvent(db, {
           create: {
             externalId: transactionData.externalId,
             merchantRefNum: transactionData.merchantRefNum,
@@ -124,9 +122,19 @@ export class ServerlessDatabaseOperations {
             companyId: transactionData.companyId,
             webhookEventId: transactionData.webhookEventId,
           },
+          update: {
+            transactionType: transactionData.transactionType,
+            paymentMethod: transactionData.paymentMethod,
+            description: transactionData.description,
+            metadata: transactionData.metadata,
+          },
+          eventTime: transactionData.eventTime || transactionData.transactionTime,
+          eventType: transactionData.eventType,
+          rawStatus: transactionData.rawStatus,
+          parentReferences: transactionData.parentReferences,
         });
         
-        console.log(`Upserted transaction: ${transaction.id} (${transaction.externalId})`);
+        console.log(`Upserted transaction: ${transaction.id} (${transaction.externalId}) - ${outcome}`);
         return transaction;
       } catch (error: any) {
         console.error('Failed to upsert transaction:', error);
@@ -159,6 +167,7 @@ export class ServerlessDatabaseOperations {
       metadata?: any;
       companyId?: string;
       webhookEventId?: string;
+      mode?: string;
     },
     options: DatabaseOperationOptions = {}
   ) {
@@ -197,9 +206,20 @@ export class ServerlessDatabaseOperations {
             metadata: accountData.metadata,
             companyId: accountData.companyId,
             webhookEventId: accountData.webhookEventId,
+            mode: accountData.mode,
           },
         });
         
+        // Claim unassigned accounts for the company the event was routed to; never reassign
+        if (accountData.companyId && !account.companyId) {
+          const claimed = await db.account.update({
+            where: { id: account.id },
+            data: { companyId: accountData.companyId },
+          });
+          console.log(`Upserted account: ${claimed.id} (${claimed.externalId}), assigned to company ${accountData.companyId}`);
+          return claimed;
+        }
+
         console.log(`Upserted account: ${account.id} (${account.externalId})`);
         return account;
       } catch (error: any) {
@@ -348,7 +368,7 @@ export class ServerlessDatabaseOperations {
             title: alertData.title,
             message: alertData.message,
             source: alertData.source || 'webhook-processor',
-            metadata: alertData.metadata,
+            metadata: piiRedactor.mask(alertData.metadata),
           },
         });
         
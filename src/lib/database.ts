@@ -1,7 +1,11 @@
-import { PrismaClient } from '@prisma/client';
-import Redis from 'ioredis';
+import { Prisma, PrismaClient } from '@prisma/client';
+import Redis, { RedisOptions } from 'ioredis';
 import { DatabasePerformanceMonitor } from './database-performance-monitor';
 import { RedisConnectionManager } from './redis-config';
+import { applyTransactionEvent } from './transaction-lifecycle';
+import { summarizeRefunds } from './transaction-linker';
+import { piiRedactor } from './pii-redaction';
+import type { DataMode } from '@/types/webhook';
 
 declare global {
   var __db: PrismaClient | undefined;
@@ -671,6 +675,19 @@ if (process.env.NODE_ENV !== 'production') {
   global.__redis = redisForBull as Redis;
 }
 
+// Connection options for Bull queues. Bull opens its own client, subscriber and
+// blocking connections from these, so pass the options rather than the client.
+// The command timeout would cut off Bull's blocking reads.
+export const bullRedisOptions: RedisOptions = { ...redisForBull.options, commandTimeout: undefined };
+
+// Transaction row plus the event it came from, as queued by the webhook store
+type TransactionEventRow = Prisma.TransactionUncheckedCreateInput & {
+  eventTime?: Date;
+  eventType?: string;
+  rawStatus?: string;
+  parentReferences?: string[];
+};
+
 // Database utilities for high-performance operations
 export class DatabaseService {
   // High-performance batch insert webhook events
@@ -691,42 +708,70 @@ export class DatabaseService {
     }, { timeout: 10000, operationName: 'batch_insert_webhook_events' });
   }
 
-  // High-performance batch upsert transactions with conflict resolution
-  static async batchUpsertTransactions(transactions: any[]) {
+  // Apply a batch of transaction events through the lifecycle. Events for the
+  // same transaction are applied one at a time in event-time order, each in its
+  // own database transaction: on Postgres a failed statement aborts the
+  // transaction it runs in, so events sharing one would be lost together.
+  static async batchUpsertTransactions(transactions: TransactionEventRow[]) {
     if (transactions.length === 0) return [];
-    
-    return withDatabase(async (client) => {
-      const results = [];
-      const BATCH_SIZE = 10; // Process in smaller batches for better performance
-      
-      for (let i = 0; i < transactions.length; i += BATCH_SIZE) {
-        const batch = transactions.slice(i, i + BATCH_SIZE);
-        
-        const batchResults = await client.$transaction(async (tx) => {
-          const promises = batch.map(transaction => 
-            tx.transaction.upsert({
-              where: { externalId: transaction.externalId },
-              update: {
-                status: transaction.status,
-                updatedAt: new Date(),
-                metadata: transaction.metadata,
-              },
-              create: transaction,
-            }).catch(error => {
-              console.error(`Failed to upsert transaction ${transaction.externalId}:`, error);
-              return null;
-            })
-          );
-          
-          return Promise.all(promises);
-        });
-        
-        results.push(...batchResults.filter(Boolean));
+
+    const byExternalId = new Map<string, TransactionEventRow[]>();
+    for (const transaction of transactions) {
+      const events = byExternalId.get(transaction.externalId) || [];
+      events.push(transaction);
+      byExternalId.set(transaction.externalId, events);
+    }
+
+    const results = [];
+    const failed = new Set<string>();
+    const eventTimeOf = (row: TransactionEventRow) => new Date(row.eventTime || row.transactionTime || 0).getTime();
+
+    for (const events of byExternalId.values()) {
+      events.sort((a, b) => eventTimeOf(a) - eventTimeOf(b));
+      for (const event of events) {
+        try {
+          results.push(await DatabaseService.applyTransactionEventRow(event));
+        } catch (error) {
+          console.error(`Failed to upsert transaction ${event.externalId} from event ${event.webhookEventId}:`, error);
+          failed.add(event.externalId);
+        }
       }
-      
-      console.log(`Batch upserted ${results.length}/${transactions.length} transactions`);
-      return results;
-    }, { timeout: 20000, retries: 2, operationName: 'batch_upsert_transactions' });
+    }
+
+    console.log(`Batch upserted ${results.length}/${transactions.length} transactions`);
+    if (failed.size > 0) {
+      throw new Error(`Failed to upsert ${transactions.length - results.length} of ${transactions.length} transaction events (${[...failed].join(', ')})`);
+    }
+    return results;
+  }
+
+  // A unique violation means another writer created the row first; the
+  // transaction was rolled back, so it runs once more against that row
+  private static async applyTransactionEventRow({ eventTime, eventType, rawStatus, parentReferences, ...transaction }: TransactionEventRow) {
+    const input = {
+      create: transaction,
+      update: {
+        metadata: transaction.metadata,
+        webhookEventId: transaction.webhookEventId,
+        ...(transaction.companyId && { companyId: transaction.companyId }), // Late tenant resolution
+      },
+      eventTime: eventTime || new Date(transaction.transactionTime || Date.now()),
+      eventType,
+      rawStatus,
+      parentReferences,
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await withDatabase(async (client) => {
+          return client.$transaction(async (tx) => (await applyTransactionEvent(tx, input)).transaction);
+        }, { timeout: 10000, operationName: 'upsert_transaction_event' });
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'P2002' || attempt >= 2) {
+          throw error;
+        }
+      }
+    }
   }
 
   // Get transactions with pagination and caching
@@ -739,6 +784,7 @@ export class DatabaseService {
       startDate?: Date;
       endDate?: Date;
       currency?: string;
+      mode?: DataMode; // Defaults to live
     }
   ) {
     const cacheKey = `transactions:${page}:${limit}:${JSON.stringify(filters || {})}`;
@@ -751,7 +797,7 @@ export class DatabaseService {
       }
       
       // Build where clause
-      const where: any = {};
+      const where: any = { mode: filters?.mode || 'live' };
       if (filters?.status) where.status = filters.status;
       if (filters?.paymentMethod) where.paymentMethod = filters.paymentMethod;
       if (filters?.currency) where.currency = filters.currency;
@@ -761,16 +807,25 @@ export class DatabaseService {
         if (filters.endDate) where.transactionTime.lte = filters.endDate;
       }
       
-      const [transactions, total] = await Promise.all([
+      const [rows, total] = await Promise.all([
         db.transaction.findMany({
           where,
           orderBy: { transactionTime: 'desc' },
           skip: (page - 1) * limit,
           take: limit,
+          include: {
+            children: { select: { amount: true, status: true, transactionType: true } },
+          },
         }),
         db.transaction.count({ where }),
       ]);
       
+      // Net captured amount per payment after refunds and chargebacks
+      const transactions = rows.map(({ children, ...transaction }) => ({
+        ...transaction,
+        refundSummary: summarizeRefunds(transaction, children),
+      }));
+      
       const result = {
         transactions,
         pagination: {
@@ -792,8 +847,8 @@ export class DatabaseService {
   }
 
   // Optimized real-time analytics with single aggregation queries (no N+1)
-  static async getAnalytics(timeRange: 'hour' | 'day' | 'week' | 'month' = 'day') {
-    const cacheKey = `analytics:${timeRange}`;
+  static async getAnalytics(timeRange: 'hour' | 'day' | 'week' | 'month' = 'day', mode: DataMode = 'live') {
+    const cacheKey = `analytics:${timeRange}:${mode}`;
     
     try {
       const cached = await RedisConnectionManager.get(cacheKey);
@@ -825,7 +880,7 @@ export class DatabaseService {
           // Single aggregation query for all transaction metrics
           client.transaction.groupBy({
             by: ['status'],
-            where: { transactionTime: { gte: startDate } },
+            where: { mode, transactionTime: { gte: startDate } },
             _count: { id: true },
             _sum: { amount: true },
           }),
@@ -833,7 +888,7 @@ export class DatabaseService {
           // Single aggregation query for all webhook metrics  
           client.webhookEvent.groupBy({
             by: ['processed'],
-            where: { timestamp: { gte: startDate } },
+            where: { mode, timestamp: { gte: startDate } },
             _count: { id: true },
           }),
         ]);
@@ -854,6 +909,7 @@ export class DatabaseService {
         // Get error count with separate optimized query
         const errorCount = await client.webhookEvent.count({
           where: {
+            mode,
             timestamp: { gte: startDate },
             error: { not: null }
           }
@@ -867,6 +923,7 @@ export class DatabaseService {
             failed: errorCount,
           },
           timeRange,
+          mode,
           generatedAt: now,
         };
         
@@ -969,7 +1026,7 @@ export class DatabaseService {
           type,
           title,
           message,
-          metadata,
+          metadata: piiRedactor.mask(metadata),
           source: 'webhook-dashboard',
         },
       });
@@ -1090,12 +1147,16 @@ export class DatabaseService {
     companyId?: string;
     limit?: number;
     timeRange?: 'hour' | 'day' | 'week' | 'month';
+    mode?: DataMode;
   }) {
-    const { companyId, limit = 500, timeRange = 'day' } = filters || {};
+    const { companyId, limit = 500, timeRange = 'day', mode = 'live' } = filters || {};
     
     return withDatabase(async (client) => {
-      const where = companyId ? { companyId } : {};
-      const webhookWhere = companyId ? { companyId } : {};
+      const where = companyId ? { companyId, mode } : { mode };
+      const webhookWhere = companyId ? { companyId, mode } : { mode };
+      const modeFilter = companyId
+        ? Prisma.sql`WHERE mode = ${mode} AND "companyId" = ${companyId}`
+        : Prisma.sql`WHERE mode = ${mode}`;
       
       // Calculate time range for recent data
       const now = new Date();
@@ -1168,7 +1229,7 @@ export class DatabaseService {
               COALESCE(AVG(amount), 0) as avg_amount,
               COUNT(CASE WHEN "transactionTime" >= ${recentThreshold} THEN 1 END) as recent_count
             FROM "Transaction"
-            ${companyId ? Prisma.sql`WHERE "companyId" = ${companyId}` : Prisma.empty}
+            ${modeFilter}
             GROUP BY status
             ORDER BY count DESC
           `,
@@ -1186,7 +1247,7 @@ export class DatabaseService {
               COUNT(*) as count,
               COUNT(CASE WHEN timestamp >= ${recentThreshold} THEN 1 END) as recent_count
             FROM "WebhookEvent"
-            ${companyId ? Prisma.sql`WHERE "companyId" = ${companyId}` : Prisma.empty}
+            ${modeFilter}
             GROUP BY processed, (error IS NOT NULL)
           `,
 
@@ -1268,6 +1329,7 @@ export class DatabaseService {
         },
         metadata: {
           timeRange,
+          mode,
           companyId: companyId || null,
           queriesExecuted: 6,
           databaseRoundtrips: 1, // All in one transaction!
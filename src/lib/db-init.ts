@@ -59,6 +59,14 @@ async function performInitialization(): Promise<boolean> {
           "algorithm" TEXT NOT NULL DEFAULT 'sha256',
           "keyVersion" INTEGER NOT NULL DEFAULT 1,
           "isActive" BOOLEAN NOT NULL DEFAULT true,
+          "previousEncryptedKey" TEXT,
+          "previousAlgorithm" TEXT,
+          "previousKeyVersion" INTEGER,
+          "previousKeyExpiresAt" TIMESTAMP(3),
+          "rotatedAt" TIMESTAMP(3),
+          "rotationAlertedAt" TIMESTAMP(3),
+          "signaturePolicy" TEXT NOT NULL DEFAULT 'MONITOR',
+          "schemaPolicy" TEXT NOT NULL DEFAULT 'MONITOR',
           "companyId" TEXT,
           "lastUsedAt" TIMESTAMP(3),
           "usageCount" INTEGER NOT NULL DEFAULT 0,
@@ -0,0 +1,393 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { withDatabase } from '@/lib/database';
+import { createAlert } from '@/lib/database-serverless';
+import { extractParentReferences } from '@/lib/transaction-linker';
+
+/**
+ * DISPUTE CASE MANAGEMENT
+ *
+ * Chargeback webhooks open a Dispute against the original transaction.
+ * Merchants work the case from the dashboard (notes, evidence files, status)
+ * and the deadline check raises alerts as the response due date gets close.
+ */
+
+export type DisputeStatus = 'OPEN' | 'EVIDENCE_SUBMITTED' | 'WON' | 'LOST';
+
+export const DISPUTE_STATUSES: DisputeStatus[] = ['OPEN', 'EVIDENCE_SUBMITTED', 'WON', 'LOST'];
+
+const DISPUTE_TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  OPEN: ['EVIDENCE_SUBMITTED', 'WON', 'LOST'],
+  EVIDENCE_SUBMITTED: ['WON', 'LOST'],
+  WON: [],
+  LOST: [],
+};
+
+export interface DisputeActionResult {
+  success: boolean;
+  error?: string;
+  notFound?: boolean;
+}
+
+export interface EvidenceUpload {
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+interface ChargebackEvent {
+  id: string;
+  eventType: string;
+  payload: {
+    eventDate?: string;
+    links?: Array<{ rel: string; href: string }>;
+    eventData?: {
+      id?: string;
+      originalTransactionId?: string;
+      settlementId?: string;
+      paymentId?: string;
+      reasonCode?: string;
+      reason?: string;
+      amount?: number;
+      currencyCode?: string;
+      dueDate?: string;
+      responseDueDate?: string;
+    };
+  };
+  companyId?: string | null;
+}
+
+const EVIDENCE_DIR = process.env.DISPUTE_EVIDENCE_DIR || path.join(process.cwd(), 'storage', 'dispute-evidence');
+const MAX_EVIDENCE_BYTES = parseInt(process.env.DISPUTE_EVIDENCE_MAX_BYTES || String(10 * 1024 * 1024));
+const DEFAULT_RESPONSE_DAYS = parseInt(process.env.DISPUTE_RESPONSE_DAYS || '10');
+const DEADLINE_WARNING_DAYS = parseInt(process.env.DISPUTE_DEADLINE_WARNING_DAYS || '3');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Company filter for a user: undefined for super admins (all companies), null when the user has no company
+export function disputeCompanyScope(user: { role: string; companyId?: string }): string | undefined | null {
+  if (user.role === 'SUPER_ADMIN') {
+    return undefined;
+  }
+  return user.companyId || null;
+}
+
+export class DisputeManager {
+  isChargebackEvent(eventType: string): boolean {
+    return eventType.toUpperCase().includes('CHARGEBACK');
+  }
+
+  /**
+   * Open or update the dispute for a chargeback webhook.
+   * CHARGEBACK_WON / CHARGEBACK_REVERSED and CHARGEBACK_LOST close the case.
+   */
+  async recordChargebackEvent(event: ChargebackEvent) {
+    const eventData = event.payload.eventData;
+    const chargebackId = eventData?.id;
+    if (!eventData || !chargebackId) {
+      console.warn(`Chargeback event ${event.id} has no chargeback id, no dispute recorded`);
+      return null;
+    }
+
+    const upperEventType = event.eventType.toUpperCase();
+    const outcome: DisputeStatus | undefined =
+      upperEventType.includes('WON') || upperEventType.includes('REVERSED') ? 'WON' :
+      upperEventType.includes('LOST') ? 'LOST' :
+      undefined;
+
+    const references = extractParentReferences(event.payload);
+    const originalExternalId = references[0];
+    const dueDateValue = eventData.responseDueDate || eventData.dueDate;
+    const dueDate = dueDateValue && !isNaN(new Date(dueDateValue).getTime())
+      ? new Date(dueDateValue)
+      : new Date(Date.now() + DEFAULT_RESPONSE_DAYS * DAY_MS);
+
+    return withDatabase(async (db) => {
+      const original = references.length > 0
+        ? await db.transaction.findFirst({
+            where: { externalId: { in: references }, transactionType: 'PAYMENT' },
+            select: { id: true, companyId: true },
+          })
+        : null;
+
+      const dispute = await db.dispute.upsert({
+        where: { externalId: chargebackId },
+        create: {
+          externalId: chargebackId,
+          transactionId: original?.id,
+          originalExternalId,
+          reasonCode: eventData.reasonCode,
+          reasonDescription: eventData.reason,
+          amount: eventData.amount || 0,
+          currency: eventData.currencyCode || 'USD',
+          dueDate,
+          status: outcome || 'OPEN',
+          resolvedAt: outcome ? new Date() : undefined,
+          webhookEventId: event.id,
+          companyId: event.companyId || original?.companyId,
+        },
+        update: {
+          ...(original && { transactionId: original.id }),
+          ...(outcome && { status: outcome, resolvedAt: new Date() }),
+          webhookEventId: event.id,
+        },
+      });
+
+      console.log(`Recorded dispute ${dispute.id} (${dispute.externalId}) - ${dispute.status}`);
+      return dispute;
+    }, { operationName: 'dispute_record_chargeback' });
+  }
+
+  async listDisputes(options: { status?: DisputeStatus; companyId?: string; limit?: number; offset?: number } = {}) {
+    const { status, companyId, limit = 50, offset = 0 } = options;
+
+    return withDatabase(async (db) => {
+      const where: Prisma.DisputeWhereInput = {
+        ...(status && { status }),
+        ...(companyId && { companyId }),
+      };
+
+      const [disputes, total, counts] = await Promise.all([
+        db.dispute.findMany({
+          where,
+          orderBy: [{ dueDate: 'asc' }],
+          take: Math.min(limit, 200),
+          skip: offset,
+          include: {
+            transaction: { select: { id: true, externalId: true, merchantRefNum: true, amount: true, currency: true } },
+            _count: { select: { evidence: true, notes: true } },
+          },
+        }),
+        db.dispute.count({ where }),
+        db.dispute.groupBy({
+          by: ['status'],
+          where: companyId ? { companyId } : undefined,
+          _count: { _all: true },
+        }),
+      ]);
+
+      const stats = Object.fromEntries(DISPUTE_STATUSES.map(s => [s, 0])) as Record<DisputeStatus, number>;
+      counts.forEach(row => {
+        stats[row.status as DisputeStatus] = row._count._all;
+      });
+
+      return { disputes, total, stats };
+    }, { operationName: 'dispute_list' });
+  }
+
+  async getDispute(id: string, companyId?: string) {
+    return withDatabase(async (db) => {
+      const dispute = await db.dispute.findFirst({
+        where: { id, ...(companyId && { companyId }) },
+        include: {
+          transaction: true,
+          notes: { orderBy: { createdAt: 'asc' } },
+          evidence: { orderBy: { createdAt: 'asc' } },
+        },
+      });
+
+      // Link the original transaction once it has arrived
+      if (dispute && !dispute.transactionId && dispute.originalExternalId) {
+        const original = await db.transaction.findUnique({ where: { externalId: dispute.originalExternalId } });
+        if (original) {
+          await db.dispute.update({ where: { id }, data: { transactionId: original.id } });
+          return { ...dispute, transactionId: original.id, transaction: original };
+        }
+      }
+
+      return dispute;
+    }, { operationName: 'dispute_get' });
+  }
+
+  async updateStatus(id: string, status: DisputeStatus, userId: string, companyId?: string): Promise<DisputeActionResult> {
+    return withDatabase(async (db) => {
+      const dispute = await db.dispute.findFirst({
+        where: { id, ...(companyId && { companyId }) },
+        include: { _count: { select: { evidence: true } } },
+      });
+      if (!dispute) {
+        return { success: false, notFound: true, error: `Dispute ${id} not found` };
+      }
+
+      const current = dispute.status as DisputeStatus;
+      if (current === status) {
+        return { success: true };
+      }
+      if (!DISPUTE_TRANSITIONS[current]?.includes(status)) {
+        return { success: false, error: `Dispute cannot move from ${current} to ${status}` };
+      }
+      if (status === 'EVIDENCE_SUBMITTED' && dispute._count.evidence === 0) {
+        return { success: false, error: 'Attach at least one evidence file before submitting' };
+      }
+
+      await db.dispute.update({
+        where: { id },
+        data: {
+          status,
+          ...(status === 'EVIDENCE_SUBMITTED' && { evidenceSubmittedAt: new Date() }),
+          ...((status === 'WON' || status === 'LOST') && { resolvedAt: new Date() }),
+          notes: {
+            create: { body: `Status changed from ${current} to ${status}`, authorId: userId },
+          },
+        },
+      });
+
+      return { success: true };
+    }, { operationName: 'dispute_update_status' });
+  }
+
+  async updateDueDate(id: string, dueDate: Date, userId: string, companyId?: string): Promise<DisputeActionResult> {
+    return withDatabase(async (db) => {
+      const updated = await db.dispute.updateMany({
+        where: { id, ...(companyId && { companyId }) },
+        data: { dueDate, deadlineAlertLevel: null }, // New deadline, alert again
+      });
+      if (updated.count === 0) {
+        return { success: false, notFound: true, error: `Dispute ${id} not found` };
+      }
+
+      await db.disputeNote.create({
+        data: { disputeId: id, body: `Due date set to ${dueDate.toISOString()}`, authorId: userId },
+      });
+      return { success: true };
+    }, { operationName: 'dispute_update_due_date' });
+  }
+
+  async addNote(id: string, body: string, userId: string, companyId?: string) {
+    return withDatabase(async (db) => {
+      const dispute = await db.dispute.findFirst({ where: { id, ...(companyId && { companyId }) }, select: { id: true } });
+      if (!dispute) {
+        return null;
+      }
+      return db.disputeNote.create({ data: { disputeId: id, body, authorId: userId } });
+    }, { operationName: 'dispute_add_note' });
+  }
+
+  async addEvidence(id: string, upload: EvidenceUpload, userId: string, companyId?: string) {
+    if (upload.data.length > MAX_EVIDENCE_BYTES) {
+      throw new Error(`Evidence files are limited to ${Math.round(MAX_EVIDENCE_BYTES / 1024 / 1024)}MB`);
+    }
+
+    const dispute = await withDatabase(async (db) => {
+      return db.dispute.findFirst({ where: { id, ...(companyId && { companyId }) }, select: { id: true } });
+    }, { operationName: 'dispute_evidence_lookup' });
+    if (!dispute) {
+      return null;
+    }
+
+    const safeName = path.basename(upload.fileName).replace(/[^a-zA-Z0-9._-]/g, '_') || 'evidence';
+    const storagePath = path.join(id, `${Date.now()}-${safeName}`);
+
+    await fs.mkdir(path.join(EVIDENCE_DIR, id), { recursive: true });
+    await fs.writeFile(path.join(EVIDENCE_DIR, storagePath), upload.data);
+
+    try {
+      return await withDatabase(async (db) => {
+        return db.disputeEvidence.create({
+          data: {
+            disputeId: id,
+            fileName: safeName,
+            mimeType: upload.mimeType || 'application/octet-stream',
+            size: upload.data.length,
+            storagePath,
+            uploadedBy: userId,
+          },
+        });
+      }, { operationName: 'dispute_evidence_create' });
+    } catch (error) {
+      await fs.unlink(path.join(EVIDENCE_DIR, storagePath)).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async readEvidence(id: string, evidenceId: string, companyId?: string) {
+    const evidence = await withDatabase(async (db) => {
+      return db.disputeEvidence.findFirst({
+        where: { id: evidenceId, disputeId: id, ...(companyId && { dispute: { companyId } }) },
+      });
+    }, { operationName: 'dispute_evidence_get' });
+    if (!evidence) {
+      return null;
+    }
+
+    const data = await fs.readFile(path.join(EVIDENCE_DIR, evidence.storagePath));
+    return { evidence, data };
+  }
+
+  async deleteEvidence(id: string, evidenceId: string, companyId?: string): Promise<DisputeActionResult> {
+    return withDatabase(async (db) => {
+      const evidence = await db.disputeEvidence.findFirst({
+        where: { id: evidenceId, disputeId: id, ...(companyId && { dispute: { companyId } }) },
+        include: { dispute: { select: { status: true } } },
+      });
+      if (!evidence) {
+        return { success: false, notFound: true, error: `Evidence ${evidenceId} not found` };
+      }
+      if (evidence.dispute.status !== 'OPEN') {
+        return { success: false, error: 'Evidence can only be removed while the dispute is open' };
+      }
+
+      await db.disputeEvidence.delete({ where: { id: evidenceId } });
+      await fs.unlink(path.join(EVIDENCE_DIR, evidence.storagePath)).catch(error => {
+        console.error(`Failed to remove evidence file ${evidence.storagePath}:`, error);
+      });
+      return { success: true };
+    }, { operationName: 'dispute_evidence_delete' });
+  }
+
+  /**
+   * Raise a WARNING when an open dispute is within DISPUTE_DEADLINE_WARNING_DAYS
+   * of its due date and an ERROR in the last day or once overdue. Each level
+   * is raised once per due date.
+   */
+  async checkDeadlines(): Promise<{ warnings: number; errors: number }> {
+    const now = Date.now();
+
+    const disputes = await withDatabase(async (db) => {
+      return db.dispute.findMany({
+        where: {
+          status: 'OPEN',
+          dueDate: { lte: new Date(now + DEADLINE_WARNING_DAYS * DAY_MS) },
+          OR: [{ deadlineAlertLevel: null }, { deadlineAlertLevel: 'WARNING' }],
+        },
+      });
+    }, { operationName: 'dispute_deadline_scan' });
+
+    let warnings = 0;
+    let errors = 0;
+
+    for (const dispute of disputes) {
+      const msLeft = dispute.dueDate.getTime() - now;
+      const level = msLeft <= DAY_MS ? 'ERROR' : 'WARNING';
+      if (dispute.deadlineAlertLevel === level) {
+        continue;
+      }
+
+      const due = msLeft <= 0
+        ? `was due ${dispute.dueDate.toISOString()}`
+        : `is due in ${Math.ceil(msLeft / (60 * 60 * 1000))} hours`;
+
+      await createAlert({
+        type: level,
+        title: level === 'ERROR' ? 'Dispute Response Deadline Imminent' : 'Dispute Response Deadline Approaching',
+        message: `Dispute ${dispute.externalId} (${dispute.reasonCode || 'no reason code'}) ${due}`,
+        source: 'disputes',
+        metadata: { disputeId: dispute.id, dueDate: dispute.dueDate.toISOString(), companyId: dispute.companyId },
+      });
+
+      await withDatabase(async (db) => {
+        await db.dispute.update({ where: { id: dispute.id }, data: { deadlineAlertLevel: level } });
+      }, { operationName: 'dispute_deadline_mark' });
+
+      if (level === 'ERROR') {
+        errors++;
+      } else {
+        warnings++;
+      }
+    }
+
+    return { warnings, errors };
+  }
+}
+
+export const disputeManager = new DisputeManager();
@@ -1,6 +1,7 @@
 import nodemailer from 'nodemailer';
 import { db } from './database';
 import { formatCurrency, formatDateTime } from './utils';
+import { piiRedactor } from './pii-redaction';
 
 export interface EmailConfig {
   host: string;
@@ -22,6 +23,7 @@ export interface NotificationContext {
   companyId: string;
   eventType: string;
   data?: any;
+  secrets?: string[]; // Values sent in the email but kept out of the email log (passwords, reset tokens)
 }
 
 export class EmailService {
@@ -49,17 +51,20 @@ export class EmailService {
   ): Promise<void> {
     try {
       const toArray = Array.isArray(to) ? to : [to];
+      const loggedContent = (context?.secrets || [])
+        .filter(Boolean)
+        .reduce((content, secret) => content.split(secret).join('[REDACTED]'), html);
       
       // Create email log entry
       const emailLog = await db.emailLog.create({
         data: {
           to: toArray,
           subject,
-          content: html,
+          content: loggedContent,
           status: 'PENDING',
           companyId: context?.companyId,
           eventType: context?.eventType,
-          metadata: context?.data,
+          metadata: piiRedactor.mask(context?.data),
         },
       });
 
@@ -265,7 +270,12 @@ export class EmailService {
         template.subject,
         template.html,
         template.text,
-        { companyId: company?.id, eventType: 'USER_WELCOME', data: { userId: user.id } }
+        {
+          companyId: company?.id,
+          eventType: 'USER_WELCOME',
+          data: { userId: user.id },
+          secrets: temporaryPassword ? [temporaryPassword] : [],
+        }
       );
 
     } catch (error) {
@@ -283,7 +293,12 @@ export class EmailService {
         template.subject,
         template.html,
         template.text,
-        { companyId: user.companyId, eventType: 'PASSWORD_RESET', data: { userId: user.id } }
+        {
+          companyId: user.companyId,
+          eventType: 'PASSWORD_RESET',
+          data: { userId: user.id },
+          secrets: [resetToken],
+        }
       );
 
     } catch (error) {
@@ -7,16 +7,25 @@ const IV_LENGTH = 16;  // 128 bits
 const SALT_LENGTH = 64; // 512 bits
 const ITERATIONS = 100000; // PBKDF2 iterations
 
+// Derived key, cached per master key (PBKDF2 is deliberately slow)
+let derivedKey: { masterKey: string; key: Buffer } | null = null;
+
 // Get encryption key from environment variable
 function getEncryptionKey(): Buffer {
   const masterKey = process.env.WEBHOOK_ENCRYPTION_KEY;
   if (!masterKey) {
     throw new Error('WEBHOOK_ENCRYPTION_KEY environment variable is required');
   }
+
+  if (derivedKey?.masterKey === masterKey) {
+    return derivedKey.key;
+  }
   
   // Use PBKDF2 to derive a key from the master key
   const salt = Buffer.from('webhook-secrets-salt-v1', 'utf8');
-  return crypto.pbkdf2Sync(masterKey, salt, ITERATIONS, KEY_LENGTH, 'sha256');
+  const key = crypto.pbkdf2Sync(masterKey, salt, ITERATIONS, KEY_LENGTH, 'sha256');
+  derivedKey = { masterKey, key };
+  return key;
 }
 
 // Encrypt HMAC secret key
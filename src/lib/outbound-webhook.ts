@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * OUTBOUND WEBHOOK CLIENT
+ *
+ * Signs and sends one forwarded event to a company's endpoint. Kept free of
+ * database and queue dependencies so receivers (and tests) can reuse the
+ * signing scheme on their own.
+ *
+ * Signature: HMAC-SHA256 over `${timestamp}.${body}` with the company's
+ * signing secret, sent as `X-Webhook-Signature: sha256=<hex>` alongside
+ * `X-Webhook-Timestamp` (unix seconds).
+ *
+ * Endpoints are chosen by company users, so they must resolve to public
+ * addresses: checkOutboundEndpoint() runs when an endpoint is saved and again
+ * before every delivery, so the server cannot be pointed at its own network.
+ */
+
+export const OUTBOUND_HEADERS = {
+  signature: 'X-Webhook-Signature',
+  timestamp: 'X-Webhook-Timestamp',
+  deliveryId: 'X-Webhook-Delivery',
+  eventType: 'X-Webhook-Event-Type',
+} as const;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const RESPONSE_SNIPPET_LENGTH = 500;
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface OutboundRequest {
+  url: string;
+  body: string;
+  secret: string;
+  deliveryId: string;
+  eventType: string;
+  timeoutMs?: number;
+  allowPrivateNetwork?: boolean; // Local test receivers only; never set for company endpoints
+}
+
+export interface OutboundResult {
+  success: boolean;
+  statusCode: number | null;
+  latencyMs: number;
+  responseSnippet: string | null;
+  error: string | null;
+}
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+];
+const BLOCKED_IPV6: Array<[string, number]> = [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+];
+
+const blockedNetworks = new net.BlockList();
+BLOCKED_IPV4.forEach(([network, prefix]) => blockedNetworks.addSubnet(network, prefix, 'ipv4'));
+BLOCKED_IPV6.forEach(([network, prefix]) => blockedNetworks.addSubnet(network, prefix, 'ipv6'));
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  // IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+  return blockedNetworks.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why an endpoint cannot receive forwarded events, or null when it can.
+ * Requires https in production and every address the host resolves to to be
+ * public.
+ */
+export async function checkOutboundEndpoint(
+  value: string,
+  options: { allowPrivateNetwork?: boolean } = {}
+): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Endpoint is not a valid URL';
+  }
+
+  const allowedProtocols = process.env.NODE_ENV === 'production' ? ['https:'] : ['https:', 'http:'];
+  if (!allowedProtocols.includes(url.protocol)) {
+    return `Endpoint must use ${allowedProtocols.map(protocol => protocol.slice(0, -1)).join(' or ')}`;
+  }
+  if (options.allowPrivateNetwork) {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host)
+      ? [host]
+      : (await dns.promises.lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch {
+    return `Endpoint host ${host} could not be resolved`;
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return `Endpoint host ${host} resolves to a private or reserved address`;
+  }
+  return null;
+}
+
+export function generateSigningSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+export function signOutboundPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`, 'utf8').digest('hex');
+  return `sha256=${digest}`;
+}
+
+// Receiver-side check, constant-time and bounded by a timestamp tolerance
+export function verifyOutboundSignature(
+  secret: string,
+  body: string,
+  signature: string | null,
+  timestamp: string | null,
+  toleranceSeconds: number = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  if (!signature || !timestamp) {
+    return false;
+  }
+
+  const ts = parseInt(timestamp, 10);
+  if (!Number.isFinite(ts) || Math.abs(Math.floor(Date.now() / 1000) - ts) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signOutboundPayload(secret, ts, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+// Matches Bull's exponential backoff: delay * 2^(attemptsMade - 1)
+export function retryDelayMs(baseDelayMs: number, attemptsMade: number): number {
+  return baseDelayMs * Math.pow(2, Math.max(0, attemptsMade - 1));
+}
+
+export async function sendOutboundWebhook(request: OutboundRequest): Promise<OutboundResult> {
+  const rejection = await checkOutboundEndpoint(request.url, { allowPrivateNetwork: request.allowPrivateNetwork });
+  if (rejection) {
+    return { success: false, statusCode: null, latencyMs: 0, responseSnippet: null, error: rejection };
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const startTime = Date.now();
+
+  try {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Netbanx-Dashboard-Webhooks/1.0',
+        [OUTBOUND_HEADERS.signature]: signOutboundPayload(request.secret, timestamp, request.body),
+        [OUTBOUND_HEADERS.timestamp]: String(timestamp),
+        [OUTBOUND_HEADERS.deliveryId]: request.deliveryId,
+        [OUTBOUND_HEADERS.eventType]: request.eventType,
+      },
+      body: request.body,
+      signal: controller.signal,
+      redirect: 'manual',
+    });
+
+    const text = await response.text().catch(() => '');
+
+    return {
+      success: response.ok,
+      statusCode: response.status,
+      latencyMs: Date.now() - startTime,
+      responseSnippet: text ? text.slice(0, RESPONSE_SNIPPET_LENGTH) : null,
+      error: response.ok ? null : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'AbortError';
+    return {
+      success: false,
+      statusCode: null,
+      latencyMs: Date.now() - startTime,
+      responseSnippet: null,
+      error: timedOut ? 'Request timed out' : (error instanceof Error ? error.message : String(error)),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
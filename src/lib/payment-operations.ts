@@ -0,0 +1,561 @@
+import { PaymentOperation, Prisma, Transaction } from '@prisma/client';
+import { withDatabase } from '@/lib/database';
+import { PaysafeAPI, PaysafeOperationKind, PaysafeOperationResult, createPlatformPaysafeApi } from '@/lib/paysafe-api';
+import { PaysafeApiError, toPaysafeError } from '@/lib/paysafe-errors';
+import { mapPaysafeStatus } from '@/lib/pending-reconciliation';
+import { applyApiTransactionEvent } from '@/lib/paysafe-api-events';
+import { summarizeRefunds } from '@/lib/transaction-linker';
+
+/**
+ * PAYMENT OPERATIONS
+ *
+ * Refunds, voids and captures issued from the dashboard. Each request carries
+ * an idempotency key: the first request with a key is sent to Paysafe and
+ * stored as a PaymentOperation, repeating it returns the stored result, and
+ * reusing the key for a different operation is rejected.
+ *
+ * The Paysafe response is applied to the local transaction straight away
+ * and recorded in the event log (applyApiTransactionEvent, status history
+ * source "dashboard"), so a projection rebuild replays it; the webhooks that
+ * follow update it like any other event. Every operation sent to Paysafe is
+ * written to the audit log, whether it succeeded or not.
+ *
+ * Operations keep the payment's external id: a transactions projection
+ * rebuild clears their link to the row and the replay restores it, while the
+ * idempotency keys and UNKNOWN operations stay in place.
+ *
+ * Only a 4xx answer proves Paysafe did not act on a request. After a timeout,
+ * network error or 5xx the operation is UNKNOWN: it is looked up by its
+ * merchantRefNum (the operation id) on replay and by reconcileUnknown(), and
+ * settled as SUCCEEDED, or FAILED once Paysafe has no record of it.
+ */
+
+export type PaymentOperationType = 'REFUND' | 'VOID' | 'CAPTURE';
+
+export const PAYMENT_OPERATION_TYPES: PaymentOperationType[] = ['REFUND', 'VOID', 'CAPTURE'];
+
+export interface PaymentOperationRequest {
+  transactionId: string; // Transaction ID or provider (external) ID
+  type: PaymentOperationType;
+  amount?: number; // Refunds and captures default to the full remaining amount
+  idempotencyKey: string;
+}
+
+export interface PaymentOperationContext {
+  user: { id: string; companyId?: string };
+  companyId?: string; // Company scope; undefined for super admins
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface PaymentOperationResult {
+  success: boolean;
+  error?: string;
+  notFound?: boolean;
+  conflict?: boolean; // Key reused for another operation, or the first request is still running
+  rejected?: boolean; // Paysafe declined the request
+  unknown?: boolean; // Paysafe did not answer; the outcome is reconciled later
+  replayed?: boolean; // Stored result of an earlier request with the same key
+  operation?: PaymentOperation;
+  transaction?: Transaction;
+}
+
+export interface UnknownOperationSummary {
+  checked: number;
+  succeeded: number;
+  failed: number;
+  stillUnknown: number;
+  errors: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const OPERATION_KINDS: Record<PaymentOperationType, PaysafeOperationKind> = {
+  REFUND: 'refunds',
+  VOID: 'voidauths',
+  CAPTURE: 'settlements',
+};
+
+// Only a 4xx answer proves the request was not acted on
+const isDefiniteRejection = (error: PaysafeApiError) =>
+  error.status !== undefined && error.status >= 400 && error.status < 500;
+
+// Statuses the payment must be in for each operation; authorizations are stored as PENDING
+const REQUIRED_STATUS: Record<PaymentOperationType, string> = {
+  REFUND: 'COMPLETED',
+  VOID: 'PENDING',
+  CAPTURE: 'PENDING',
+};
+
+// Sent to Paysafe without a final answer yet; they may still move money
+const IN_FLIGHT_STATUSES = ['PROCESSING', 'UNKNOWN'];
+
+// Paysafe card type codes and the card names payments are stored under
+const CARD_PAYMENT_METHODS = new Set([
+  'CARD', 'VI', 'VISA', 'VD', 'VE', 'MC', 'MASTERCARD', 'MD', 'MAESTRO',
+  'AM', 'AMEX', 'DI', 'DISCOVER', 'DC', 'DINERS', 'JC', 'JCB',
+]);
+
+type OperationTarget = Pick<Transaction, 'amount' | 'status' | 'transactionType' | 'paymentMethod'> & {
+  children: Array<Pick<Transaction, 'amount' | 'status' | 'transactionType'>>;
+  statusHistory?: Array<{ rawStatus: string | null; eventType: string | null }>; // Newest first
+  operations?: Array<Pick<PaymentOperation, 'type' | 'amount'>>; // In flight
+};
+
+/**
+ * Id a refund is sent against. Once a card authorization has been captured
+ * from the dashboard, Paysafe refunds the settlement, not the authorization.
+ */
+export function refundTargetId(
+  transaction: Pick<Transaction, 'externalId'>,
+  operations: Array<Pick<PaymentOperation, 'type' | 'status' | 'paysafeId' | 'createdAt'>>
+): string {
+  const capture = operations
+    .filter(operation => operation.type === 'CAPTURE' && operation.status === 'SUCCEEDED' && operation.paysafeId)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  return capture?.paysafeId || transaction.externalId;
+}
+
+// Only card payments are authorized and captured separately; other PENDING payments are just in progress
+function isCardAuthorization(transaction: OperationTarget): boolean {
+  const latest = transaction.statusHistory?.[0];
+  const authorized = latest?.rawStatus?.toUpperCase() === 'AUTHORIZED' ||
+    Boolean(latest?.eventType?.toUpperCase().includes('AUTHORIZED'));
+  return authorized && CARD_PAYMENT_METHODS.has(transaction.paymentMethod.toUpperCase());
+}
+
+export class PaymentOperations {
+  private readonly unknownMinutes = parseInt(process.env.PAYMENT_OPERATION_UNKNOWN_MINUTES || '60');
+
+  constructor(private readonly createApi: () => PaysafeAPI | null = createPlatformPaysafeApi) {}
+
+  async execute(request: PaymentOperationRequest, context: PaymentOperationContext): Promise<PaymentOperationResult> {
+    const transaction = await withDatabase(async (db) => {
+      return db.transaction.findFirst({
+        where: {
+          OR: [{ id: request.transactionId }, { externalId: request.transactionId }],
+          ...(context.companyId && { companyId: context.companyId }),
+        },
+      });
+    }, { operationName: 'payment_operation_get_transaction' });
+
+    if (!transaction) {
+      return { success: false, notFound: true, error: `Transaction ${request.transactionId} not found` };
+    }
+
+    const existing = await this.findByKey(context.user.id, request.idempotencyKey);
+    if (existing) {
+      return this.replay(existing, transaction, request);
+    }
+
+    const api = this.createApi();
+    if (!api) {
+      return { success: false, error: 'Paysafe API credentials are not configured' };
+    }
+
+    let operation: PaymentOperation;
+    try {
+      const created = await withDatabase(async (db) => {
+        // Locking the payment row serializes operations on it, so concurrent requests cannot both pass validation
+        return db.$transaction(async (tx) => {
+          await tx.$queryRaw`SELECT id FROM transactions WHERE id = ${transaction.id} FOR UPDATE`;
+          const current = await tx.transaction.findUniqueOrThrow({
+            where: { id: transaction.id },
+            include: {
+              children: { select: { amount: true, status: true, transactionType: true } },
+              statusHistory: {
+                orderBy: [{ eventTime: 'desc' }, { timestamp: 'desc' }],
+                take: 1,
+                select: { rawStatus: true, eventType: true },
+              },
+              operations: {
+                where: { status: { in: IN_FLIGHT_STATUSES } },
+                select: { type: true, amount: true },
+              },
+            },
+          });
+
+          const validation = this.validate(current, request);
+          if ('error' in validation) {
+            return validation;
+          }
+
+          return tx.paymentOperation.create({
+            data: {
+              idempotencyKey: request.idempotencyKey,
+              requestedBy: context.user.id,
+              companyId: transaction.companyId,
+              transactionId: transaction.id,
+              transactionExternalId: transaction.externalId,
+              type: request.type,
+              amount: validation.amount,
+              currency: transaction.currency,
+            },
+          });
+        });
+      }, { operationName: 'payment_operation_create', retries: 0 });
+
+      if ('error' in created) {
+        return { success: false, error: created.error };
+      }
+      operation = created;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'P2002') {
+        return { success: false, conflict: true, error: 'A request with this idempotency key is already in progress' };
+      }
+      throw error;
+    }
+
+    let response: PaysafeOperationResult;
+    try {
+      response = await this.send(api, transaction, operation);
+    } catch (error) {
+      const apiError = toPaysafeError(error);
+      const errorCode = apiError.code || (apiError.status ? String(apiError.status) : null);
+
+      if (!isDefiniteRejection(apiError)) {
+        const unknown = await withDatabase(async (db) => {
+          return db.paymentOperation.update({
+            where: { id: operation.id },
+            data: { status: 'UNKNOWN', errorCode, errorMessage: apiError.message },
+          });
+        }, { operationName: 'payment_operation_unknown' });
+        await this.audit(unknown, transaction, context);
+        return {
+          success: false,
+          unknown: true,
+          error: `Paysafe did not confirm the ${operation.type.toLowerCase()}; it will be reconciled by its reference ${operation.id}`,
+          operation: unknown,
+          transaction,
+        };
+      }
+
+      const failed = await this.complete(operation, { status: 'FAILED', errorCode, errorMessage: apiError.message });
+      await this.audit(failed, transaction, context);
+      return { success: false, rejected: true, error: apiError.message, operation: failed, transaction };
+    }
+
+    return this.succeed(operation, transaction, response, context);
+  }
+
+  /**
+   * Look up an UNKNOWN operation by its merchantRefNum and settle it.
+   * Stays UNKNOWN while Paysafe has no record of it and it is younger than
+   * PAYMENT_OPERATION_UNKNOWN_MINUTES.
+   */
+  async reconcile(operation: PaymentOperation, api: PaysafeAPI | null = this.createApi()): Promise<PaymentOperationResult> {
+    const transaction = await withDatabase(async (db) => {
+      return db.transaction.findFirstOrThrow({ where: { externalId: operation.transactionExternalId } });
+    }, { operationName: 'payment_operation_reconcile_transaction' });
+    const context: PaymentOperationContext = { user: { id: operation.requestedBy } };
+    const unknown: PaymentOperationResult = {
+      success: false,
+      unknown: true,
+      error: `The outcome of ${operation.type.toLowerCase()} ${operation.id} is not known yet`,
+      operation,
+      transaction,
+    };
+
+    if (operation.status !== 'UNKNOWN' || !api) {
+      return unknown;
+    }
+
+    const found = await api.findOperation(OPERATION_KINDS[operation.type as PaymentOperationType], operation.id);
+    if (found && mapPaysafeStatus(found.status) !== 'FAILED') {
+      return this.succeed(operation, transaction, found, context);
+    }
+
+    const ageMinutes = (Date.now() - operation.createdAt.getTime()) / 60000;
+    if (!found && ageMinutes < this.unknownMinutes) {
+      return unknown;
+    }
+
+    const failed = await this.complete(operation, found
+      ? { status: 'FAILED', paysafeId: found.id, paysafeStatus: found.status, errorMessage: `Paysafe reported ${found.status}` }
+      : { status: 'FAILED', errorMessage: 'Paysafe has no record of the operation' });
+    await this.audit(failed, transaction, context);
+    return { success: false, rejected: true, error: failed.errorMessage || undefined, operation: failed, transaction };
+  }
+
+  /**
+   * Settle operations left UNKNOWN by lost responses, oldest first (run by the reconciliation cron)
+   */
+  async reconcileUnknown(limit = 50): Promise<UnknownOperationSummary> {
+    const summary: UnknownOperationSummary = { checked: 0, succeeded: 0, failed: 0, stillUnknown: 0, errors: 0 };
+    const api = this.createApi();
+    if (!api) {
+      return summary;
+    }
+
+    const operations = await withDatabase(async (db) => {
+      return db.paymentOperation.findMany({
+        where: { status: 'UNKNOWN' },
+        orderBy: { createdAt: 'asc' },
+        take: limit,
+      });
+    }, { operationName: 'payment_operation_find_unknown' });
+
+    for (const operation of operations) {
+      summary.checked++;
+      try {
+        const result = await this.reconcile(operation, api);
+        if (result.success) summary.succeeded++;
+        else if (result.rejected) summary.failed++;
+        else summary.stillUnknown++;
+      } catch (error) {
+        summary.errors++;
+        console.error(`Failed to reconcile payment operation ${operation.id}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  async listForTransaction(externalId: string) {
+    return withDatabase(async (db) => {
+      return db.paymentOperation.findMany({
+        where: { transactionExternalId: externalId },
+        orderBy: { createdAt: 'desc' },
+      });
+    }, { operationName: 'payment_operation_list' });
+  }
+
+  /**
+   * Amount the operation is for, or why it cannot be issued.
+   * Refunds are limited to what has been captured and not yet refunded,
+   * counting refunds that are still pending or in flight. Voids and captures
+   * are only for card authorizations with no other operation in flight.
+   */
+  validate(
+    transaction: OperationTarget,
+    request: Pick<PaymentOperationRequest, 'type' | 'amount'>
+  ): { amount: number } | { error: string } {
+    if (transaction.transactionType !== 'PAYMENT') {
+      return { error: `${request.type} is only available for payments, not ${transaction.transactionType}` };
+    }
+    if (transaction.status !== REQUIRED_STATUS[request.type]) {
+      return { error: `Cannot ${request.type.toLowerCase()} a ${transaction.status} payment` };
+    }
+
+    const inFlight = transaction.operations || [];
+    if (request.type !== 'REFUND') {
+      if (!isCardAuthorization(transaction)) {
+        return { error: `Only card authorizations can be ${request.type === 'VOID' ? 'voided' : 'captured'}` };
+      }
+      if (inFlight.length > 0) {
+        return { error: 'Another operation on this payment is still in progress' };
+      }
+    }
+
+    let available = transaction.amount;
+    if (request.type === 'REFUND') {
+      const pendingRefunds = transaction.children
+        .filter(child => child.transactionType === 'REFUND' && child.status === 'PENDING')
+        .reduce((total, child) => total + child.amount, 0);
+      const inFlightRefunds = inFlight
+        .filter(operation => operation.type === 'REFUND')
+        .reduce((total, operation) => total + operation.amount, 0);
+      available = roundAmount((summarizeRefunds(transaction, transaction.children)?.netCapturedAmount ?? 0) - pendingRefunds - inFlightRefunds);
+    }
+
+    if (request.amount === undefined) {
+      return available > 0 ? { amount: available } : { error: 'Nothing left to refund' };
+    }
+    if (request.type === 'VOID' && request.amount !== transaction.amount) {
+      return { error: 'Authorizations can only be voided in full' };
+    }
+
+    const amount = roundAmount(request.amount);
+    if (!(amount > 0)) {
+      return { error: 'Amount must be greater than zero' };
+    }
+    if (amount > available) {
+      return { error: `Amount ${amount} exceeds the ${available} available to ${request.type.toLowerCase()}` };
+    }
+    return { amount };
+  }
+
+  private async findByKey(userId: string, idempotencyKey: string) {
+    return withDatabase(async (db) => {
+      return db.paymentOperation.findUnique({
+        where: { requestedBy_idempotencyKey: { requestedBy: userId, idempotencyKey } },
+      });
+    }, { operationName: 'payment_operation_find_key' });
+  }
+
+  private async replay(existing: PaymentOperation, transaction: Transaction, request: PaymentOperationRequest): Promise<PaymentOperationResult> {
+    const sameRequest = existing.transactionExternalId === transaction.externalId &&
+      existing.type === request.type &&
+      (request.amount === undefined || roundAmount(request.amount) === existing.amount);
+
+    if (!sameRequest) {
+      return { success: false, conflict: true, error: 'This idempotency key was already used for a different operation' };
+    }
+    if (existing.status === 'PROCESSING') {
+      return { success: false, conflict: true, error: 'A request with this idempotency key is already in progress' };
+    }
+    if (existing.status === 'UNKNOWN') {
+      // Never resend: the first request may have gone through
+      const reconciled = await this.reconcile(existing);
+      return { ...reconciled, replayed: true };
+    }
+
+    return {
+      success: existing.status === 'SUCCEEDED',
+      rejected: existing.status === 'FAILED',
+      error: existing.errorMessage || undefined,
+      replayed: true,
+      operation: existing,
+      transaction,
+    };
+  }
+
+  private async send(api: PaysafeAPI, transaction: Transaction, operation: PaymentOperation): Promise<PaysafeOperationResult> {
+    const body = { merchantRefNum: operation.id, amount: operation.amount };
+    switch (operation.type) {
+      case 'CAPTURE':
+        return api.capturePayment(transaction.externalId, body);
+      case 'VOID':
+        return api.voidAuthorization(transaction.externalId, body);
+      default: {
+        const captures = await withDatabase(async (db) => {
+          return db.paymentOperation.findMany({
+            where: { transactionExternalId: transaction.externalId, type: 'CAPTURE', status: 'SUCCEEDED' },
+            select: { type: true, status: true, paysafeId: true, createdAt: true },
+          });
+        }, { operationName: 'payment_operation_get_captures' });
+        return api.refundPayment(refundTargetId(transaction, captures), body);
+      }
+    }
+  }
+
+  private async succeed(
+    operation: PaymentOperation,
+    transaction: Transaction,
+    response: PaysafeOperationResult,
+    context: PaymentOperationContext
+  ): Promise<PaymentOperationResult> {
+    const succeeded = await this.complete(operation, {
+      status: 'SUCCEEDED',
+      paysafeId: response.id,
+      paysafeStatus: response.status,
+      errorCode: null,
+      errorMessage: null,
+    });
+    const updated = await this.applyLocally(transaction, succeeded, response);
+    await this.audit(succeeded, transaction, context);
+
+    return { success: true, operation: succeeded, transaction: updated };
+  }
+
+  private async complete(operation: PaymentOperation, data: Prisma.PaymentOperationUpdateInput): Promise<PaymentOperation> {
+    return withDatabase(async (db) => {
+      return db.paymentOperation.update({
+        where: { id: operation.id },
+        data: { ...data, completedAt: new Date() },
+      });
+    }, { operationName: 'payment_operation_complete' });
+  }
+
+  /**
+   * Reflect a successful operation in the local transactions: a capture moves
+   * the payment to the settlement's status (a partial capture lowers the
+   * amount to what was captured), a completed void cancels it, and a refund is
+   * created as a child REFUND transaction of the payment.
+   */
+  private async applyLocally(transaction: Transaction, operation: PaymentOperation, response: PaysafeOperationResult): Promise<Transaction> {
+    const eventTime = new Date(response.updatedTime || response.txnTime || Date.now());
+    const mapped = mapPaysafeStatus(response.status) || 'PENDING';
+
+    try {
+      return await withDatabase(async (db) => {
+        if (operation.type === 'REFUND') {
+          await applyApiTransactionEvent(db, {
+            create: {
+              externalId: response.id,
+              merchantRefNum: response.merchantRefNum || operation.id,
+              amount: operation.amount,
+              currency: operation.currency,
+              status: mapped,
+              transactionType: 'REFUND',
+              paymentMethod: transaction.paymentMethod,
+              transactionTime: eventTime,
+              companyId: transaction.companyId,
+              mode: transaction.mode,
+              metadata: { paymentOperationId: operation.id },
+            },
+            update: {},
+            eventTime,
+            eventType: 'REFUND',
+            rawStatus: response.status,
+            parentReferences: [transaction.externalId],
+            source: 'dashboard',
+          });
+          return db.transaction.findUniqueOrThrow({ where: { id: transaction.id } });
+        }
+
+        const status = operation.type === 'VOID'
+          ? (mapped === 'COMPLETED' ? 'CANCELLED' : mapped)
+          : mapped;
+        const amount = operation.type === 'CAPTURE' && status === 'COMPLETED' ? operation.amount : transaction.amount;
+
+        const { transaction: updated } = await applyApiTransactionEvent(db, {
+          create: {
+            externalId: transaction.externalId,
+            merchantRefNum: transaction.merchantRefNum,
+            amount,
+            currency: transaction.currency,
+            status,
+            transactionType: transaction.transactionType,
+            paymentMethod: transaction.paymentMethod,
+            transactionTime: transaction.transactionTime,
+            companyId: transaction.companyId,
+            mode: transaction.mode,
+          },
+          update: { amount },
+          eventTime,
+          eventType: operation.type,
+          rawStatus: response.status,
+          source: 'dashboard',
+        });
+        return updated;
+      }, { operationName: 'payment_operation_apply' });
+    } catch (error) {
+      // Paysafe has already accepted the operation; the webhooks will bring the local state up to date
+      console.error(`Failed to apply ${operation.type} ${operation.id} to transaction ${transaction.externalId}:`, error);
+      return transaction;
+    }
+  }
+
+  private async audit(operation: PaymentOperation, transaction: Transaction, context: PaymentOperationContext): Promise<void> {
+    await withDatabase(async (db) => {
+      await db.auditLog.create({
+        data: {
+          action: `PAYMENT_${operation.type}`,
+          resource: 'TRANSACTION',
+          resourceId: transaction.id,
+          userId: context.user.id,
+          companyId: transaction.companyId || context.user.companyId,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          details: {
+            operationId: operation.id,
+            idempotencyKey: operation.idempotencyKey,
+            externalId: transaction.externalId,
+            amount: operation.amount,
+            currency: operation.currency,
+            status: operation.status,
+            paysafeId: operation.paysafeId,
+            paysafeStatus: operation.paysafeStatus,
+            errorCode: operation.errorCode,
+            errorMessage: operation.errorMessage,
+          },
+        },
+      });
+    }, { operationName: 'payment_operation_audit' }).catch(error => {
+      console.error(`Failed to audit payment operation ${operation.id}:`, error);
+    });
+  }
+}
+
+export const paymentOperations = new PaymentOperations();
@@ -0,0 +1,129 @@
+import { Prisma } from '@prisma/client';
+import { applyTransactionEvent, TransactionEventInput, TransactionEventResult } from '@/lib/transaction-lifecycle';
+
+/**
+ * PAYSAFE API EVENTS
+ *
+ * Statuses read from the Paysafe API instead of a webhook (pending
+ * reconciliation polls, the historical backfill, the answers to dashboard
+ * refunds, voids and captures) are recorded in
+ * webhook_events with source "paysafe-api". webhook_events is the log the
+ * projections are rebuilt from (webhook-projections.ts); without the event a
+ * rebuild would drop the imported row or undo the correction.
+ *
+ * The payload is the transaction input that was applied, so replaying it goes
+ * through applyTransactionEvent exactly as the original write did.
+ */
+
+export const API_EVENT_SOURCE = 'paysafe-api';
+export const ACCOUNT_BACKFILL_EVENT = 'ACCOUNT_BACKFILL';
+
+export interface ApiTransactionEventPayload {
+  create: Prisma.TransactionUncheckedCreateInput;
+  update: Prisma.TransactionUncheckedUpdateInput;
+  eventTime: string;
+  rawStatus?: string;
+  parentReferences?: string[];
+  source?: string;
+}
+
+/**
+ * Record an API-sourced event in the event log and return its id
+ */
+export async function recordApiEvent(
+  db: Prisma.TransactionClient,
+  event: { eventType: string; payload: unknown; companyId?: string | null; mode?: string }
+): Promise<string> {
+  const created = await db.webhookEvent.create({
+    data: {
+      eventType: event.eventType,
+      source: API_EVENT_SOURCE,
+      processed: true,
+      payload: JSON.parse(JSON.stringify(event.payload)) as Prisma.InputJsonValue,
+      companyId: event.companyId || null,
+      ...(event.mode && { mode: event.mode }),
+    },
+    select: { id: true },
+  });
+  return created.id;
+}
+
+/**
+ * Apply a transaction status read from the Paysafe API and keep it in the event
+ * log. The event is written first so no row exists without one; a stale
+ * status changed nothing, so its event is removed again.
+ */
+export async function applyApiTransactionEvent(
+  db: Prisma.TransactionClient,
+  input: TransactionEventInput & { eventType: string }
+): Promise<TransactionEventResult> {
+  const payload: ApiTransactionEventPayload = {
+    create: input.create,
+    update: input.update,
+    eventTime: input.eventTime.toISOString(),
+    rawStatus: input.rawStatus,
+    parentReferences: input.parentReferences,
+    source: input.source,
+  };
+  const webhookEventId = await recordApiEvent(db, {
+    eventType: input.eventType,
+    payload,
+    companyId: input.create.companyId,
+    mode: input.create.mode,
+  });
+
+  try {
+    const result = await applyApiTransactionInput(db, {
+      ...input,
+      create: { ...input.create, webhookEventId },
+    });
+    if (result.outcome === 'STALE') {
+      await db.webhookEvent.delete({ where: { id: webhookEventId } });
+    }
+    return result;
+  } catch (error) {
+    await db.webhookEvent.delete({ where: { id: webhookEventId } }).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Apply a recorded input: the lifecycle rules, then claim an unassigned row
+ * for the event's company (never reassign). Used live and on replay.
+ */
+export async function applyApiTransactionInput(
+  db: Prisma.TransactionClient,
+  input: TransactionEventInput
+): Promise<TransactionEventResult> {
+  const result = await applyTransactionEvent(db, input);
+  const { companyId } = input.create;
+  if (companyId && !result.transaction.companyId) {
+    const transaction = await db.transaction.update({ where: { id: result.transaction.id }, data: { companyId } });
+    return { ...result, transaction };
+  }
+  return result;
+}
+
+/**
+ * The transaction input recorded by applyApiTransactionEvent, for replay
+ */
+export function apiTransactionEventInput(event: {
+  id: string;
+  eventType: string;
+  payload: Prisma.JsonValue;
+}): TransactionEventInput | null {
+  const payload = event.payload as unknown as ApiTransactionEventPayload | null;
+  if (!payload?.create?.externalId || !payload.eventTime) {
+    return null;
+  }
+
+  return {
+    create: { ...payload.create, webhookEventId: event.id },
+    update: payload.update || {},
+    eventTime: new Date(payload.eventTime),
+    eventType: event.eventType,
+    rawStatus: payload.rawStatus,
+    parentReferences: payload.parentReferences,
+    source: payload.source,
+  };
+}
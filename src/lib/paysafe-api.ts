@@ -1,16 +1,163 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { PaysafeCredentials, Transaction, Payment, PaymentSummary, ReportFilter } from '@/types/paysafe';
+import { PaysafeApiError, PaysafeNotFoundError, PaysafeRateLimitError, toPaysafeError } from '@/lib/paysafe-errors';
+
+/**
+ * PAYSAFE PAYMENT HUB CLIENT
+ *
+ * List endpoints are paged: iteratePages() follows the response's "next"
+ * link, or steps the offset when the API sends none, and yields one page at a
+ * time so large reports never sit in memory at once. Each page carries the
+ * URL of the next one, so a long import can stop and resume from it.
+ *
+ * Every call goes through request(), which waits out rate limits (Retry-After,
+ * X-RateLimit-Remaining / X-RateLimit-Reset) and retries idempotent calls on
+ * network errors and 5xx responses with jittered exponential backoff.
+ * Captures, voids and refunds are sent once, with dupCheck on a merchantRefNum
+ * unique to the operation; only rate-limited attempts (never processed) are
+ * repeated, and findOperation looks up the outcome when the response is lost.
+ * Failures surface as the typed errors in paysafe-errors.ts.
+ */
+
+export interface PaysafeClientOptions {
+  pageSize?: number;    // Results requested per page (default 100)
+  maxRetries?: number;  // Retries after the first attempt (default 3)
+  baseDelayMs?: number; // Backoff for the first retry, doubled on each one after (default 500)
+  maxDelayMs?: number;  // Longest single wait; a longer Retry-After fails the call instead (default 30s)
+}
+
+interface RequestOptions {
+  idempotent?: boolean; // Defaults to true for GET; only idempotent calls are retried after a failure
+}
+
+// Payment resource as returned by /paymenthub/v1/payments
+export interface PaysafePaymentResource {
+  id: string;
+  merchantRefNum: string;
+  amount: number;
+  currencyCode: string;
+  status: string;
+  txnTime: string;
+  updatedTime?: string;
+  description?: string;
+  paymentType?: string;
+  paymentHandleToken?: string;
+  card?: {
+    type?: string;
+    holderName?: string;
+    lastDigits?: string;
+    cardExpiry?: { month?: number; year?: number };
+  };
+  billingDetails?: Payment['billingDetails'];
+}
+
+// Refund resource as returned by /paymenthub/v1/refunds
+export interface PaysafeRefundResource {
+  id: string;
+  merchantRefNum: string;
+  amount: number;
+  currencyCode: string;
+  status: string;
+  txnTime: string;
+  updatedTime?: string;
+  settlementId?: string;
+  paymentId?: string;
+  links?: Array<{ rel: string; href: string }>;
+}
+
+// Merchant account as returned by /accountmanagement/v1/accounts
+export interface PaysafeAccountResource {
+  id: string;
+  merchantId?: string;
+  status: string;
+  subStatus?: string;
+  onboardingStage?: string;
+  businessName?: string;
+  businessType?: string;
+  industry?: string;
+  website?: string;
+  email?: string;
+  phone?: string;
+  creditCardId?: string;
+  directDebitId?: string;
+  riskLevel?: string;
+  complianceStatus?: string;
+  createdTime?: string;
+  updatedTime?: string;
+}
+
+export interface PaysafeListResources {
+  payments: PaysafePaymentResource;
+  refunds: PaysafeRefundResource;
+  accounts: PaysafeAccountResource;
+}
+
+export type PaysafeListResource = keyof PaysafeListResources;
+
+export interface PaysafePage<T> {
+  items: T[];
+  url: string;            // Request path of this page
+  nextUrl: string | null; // Request path of the following page; null after the last one
+}
+
+type PaysafeListBody = Partial<Record<PaysafeListResource, unknown[]>> & {
+  links?: Array<{ rel: string; href: string }>;
+};
+
+// Settlement, refund or void authorization created against a payment
+export interface PaysafeOperationResult {
+  id: string;
+  merchantRefNum: string;
+  amount: number;
+  status: string;
+  txnTime?: string;
+  updatedTime?: string;
+}
+
+// List endpoints for settlements, void authorizations and refunds, and the body key holding the items
+export type PaysafeOperationKind = 'settlements' | 'voidauths' | 'refunds';
+
+const OPERATION_LIST_KEYS: Record<PaysafeOperationKind, string> = {
+  settlements: 'settlements',
+  voidauths: 'voidAuths',
+  refunds: 'refunds',
+};
+
+export interface PaysafeOperationRequest {
+  merchantRefNum: string; // Unique per operation; with dupCheck Paysafe rejects a second request using it
+  amount: number;
+}
+
+const PAYMENTS_PATH = '/paymenthub/v1/payments';
+const SETTLEMENTS_PATH = '/paymenthub/v1/settlements';
+
+const LIST_PATHS: Record<PaysafeListResource, string> = {
+  payments: PAYMENTS_PATH,
+  refunds: '/paymenthub/v1/refunds',
+  accounts: '/accountmanagement/v1/accounts',
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 export class PaysafeAPI {
   private client: AxiosInstance;
   private credentials: PaysafeCredentials;
+  private options: Required<PaysafeClientOptions>;
+  private rateLimitedUntil = 0; // Set when the API reports an exhausted quota
 
-  constructor(credentials: PaysafeCredentials) {
+  constructor(credentials: PaysafeCredentials, options: PaysafeClientOptions = {}) {
     this.credentials = credentials;
+    this.options = {
+      pageSize: 100,
+      maxRetries: 3,
+      baseDelayMs: 500,
+      maxDelayMs: 30000,
+      ...options,
+    };
     
-    const baseURL = credentials.environment === 'production' 
-      ? 'https://api.paysafe.com' 
-      : 'https://api.test.paysafe.com';
+    const baseURL = credentials.baseUrl || (credentials.environment === 'production'
+      ? 'https://api.paysafe.com'
+      : 'https://api.test.paysafe.com');
 
     this.client = axios.create({
       baseURL,
@@ -22,86 +169,112 @@ export class PaysafeAPI {
     });
   }
 
+  /**
+   * Every payment matching the filter, fetched a page at a time as the caller consumes them.
+   */
+  async *iterateTransactions(filter?: ReportFilter): AsyncGenerator<Transaction> {
+    for await (const page of this.iteratePages('payments', filter)) {
+      for (const payment of page.items) {
+        yield this.toTransaction(payment);
+      }
+    }
+  }
+
+  /**
+   * Pages of a list endpoint, starting from fromUrl (a nextUrl handed out
+   * earlier, e.g. a stored checkpoint) or from the first page of the filter.
+   */
+  async *iteratePages<R extends PaysafeListResource>(
+    resource: R,
+    filter?: ReportFilter,
+    fromUrl?: string
+  ): AsyncGenerator<PaysafePage<PaysafeListResources[R]>> {
+    let url: string | null = fromUrl || this.listUrl(resource, filter);
+    let previousFirstId: string | undefined;
+    const visited = new Set<string>();
+
+    while (url) {
+      visited.add(url);
+      const page: PaysafePage<PaysafeListResources[R]> = await this.listPage(resource, url);
+
+      // An API that ignores the offset would hand back the same page forever
+      if (page.items.length > 0 && page.items[0].id === previousFirstId) {
+        console.warn(`Paysafe API returned the same ${resource} page twice (${url}); stopping pagination`);
+        return;
+      }
+      previousFirstId = page.items[0]?.id;
+
+      if (page.nextUrl && visited.has(page.nextUrl)) {
+        page.nextUrl = null;
+      }
+      yield page;
+      url = page.nextUrl;
+    }
+  }
+
   async getTransactions(filter?: ReportFilter): Promise<Transaction[]> {
     try {
-      const params = new URLSearchParams();
-      
-      if (filter) {
-        if (filter.startDate) params.append('startDate', filter.startDate);
-        if (filter.endDate) params.append('endDate', filter.endDate);
-        if (filter.status?.length) {
-          filter.status.forEach(status => params.append('status', status));
-        }
-        if (filter.currency) params.append('currency', filter.currency);
-        if (filter.minAmount) params.append('minAmount', filter.minAmount.toString());
-        if (filter.maxAmount) params.append('maxAmount', filter.maxAmount.toString());
+      const transactions: Transaction[] = [];
+      for await (const transaction of this.iterateTransactions(filter)) {
+        transactions.push(transaction);
       }
-
-      const response = await this.client.get(`/paymenthub/v1/payments?${params.toString()}`);
-      
-      return response.data.payments?.map((payment: any) => ({
-        id: payment.id,
-        merchantRefNum: payment.merchantRefNum,
-        amount: payment.amount,
-        currency: payment.currencyCode,
-        status: payment.status,
-        transactionType: 'PAYMENT',
-        paymentMethod: payment.card?.type || payment.paymentType || 'UNKNOWN',
-        createdAt: payment.txnTime,
-        updatedAt: payment.updatedTime || payment.txnTime,
-        description: payment.description,
-      })) || [];
+      return transactions;
     } catch (error) {
       console.error('Error fetching transactions:', error);
-      throw new Error('Failed to fetch transactions');
+      throw toPaysafeError(error);
     }
   }
 
+  // Aggregated while paging, so the summary of a large period needs one page in memory
   async getPaymentSummary(filter?: ReportFilter): Promise<PaymentSummary> {
     try {
-      const transactions = await this.getTransactions(filter);
-      
-      const totalTransactions = transactions.length;
-      const totalAmount = transactions.reduce((sum, t) => sum + t.amount, 0);
-      const successfulTransactions = transactions.filter(t => t.status === 'COMPLETED').length;
-      const failedTransactions = transactions.filter(t => t.status === 'FAILED').length;
-      const pendingTransactions = transactions.filter(t => t.status === 'PENDING').length;
-      
-      return {
-        totalTransactions,
-        totalAmount,
-        successfulTransactions,
-        failedTransactions,
-        pendingTransactions,
+      const summary: PaymentSummary = {
+        totalTransactions: 0,
+        totalAmount: 0,
+        successfulTransactions: 0,
+        failedTransactions: 0,
+        pendingTransactions: 0,
         currency: filter?.currency || 'USD',
         period: filter ? `${filter.startDate} - ${filter.endDate}` : 'All time',
       };
+
+      for await (const transaction of this.iterateTransactions(filter)) {
+        summary.totalTransactions++;
+        summary.totalAmount += transaction.amount;
+        if (transaction.status === 'COMPLETED') summary.successfulTransactions++;
+        if (transaction.status === 'FAILED') summary.failedTransactions++;
+        if (transaction.status === 'PENDING') summary.pendingTransactions++;
+      }
+
+      return summary;
     } catch (error) {
       console.error('Error getting payment summary:', error);
-      throw new Error('Failed to get payment summary');
+      throw toPaysafeError(error);
     }
   }
 
   async getPaymentDetails(paymentId: string): Promise<Payment> {
     try {
-      const response = await this.client.get(`/paymenthub/v1/payments/${paymentId}`);
-      const payment = response.data;
+      const payment = await this.request<PaysafePaymentResource>({
+        method: 'GET',
+        url: `${PAYMENTS_PATH}/${encodeURIComponent(paymentId)}`,
+      });
       
       return {
         id: payment.id,
         merchantRefNum: payment.merchantRefNum,
         amount: payment.amount,
         currency: payment.currencyCode,
-        status: payment.status,
+        status: payment.status as Payment['status'],
         paymentHandleToken: payment.paymentHandleToken,
         card: payment.card ? {
-          holderName: payment.card.holderName,
+          holderName: payment.card.holderName || '',
           cardNum: payment.card.lastDigits ? `****${payment.card.lastDigits}` : '****',
           cardExpiry: {
             month: payment.card.cardExpiry?.month || 0,
             year: payment.card.cardExpiry?.year || 0,
           },
-          cardType: payment.card.type,
+          cardType: payment.card.type || 'UNKNOWN',
         } : undefined,
         billingDetails: payment.billingDetails,
         createdAt: payment.txnTime,
@@ -109,19 +282,224 @@ export class PaysafeAPI {
       };
     } catch (error) {
       console.error('Error fetching payment details:', error);
-      throw new Error('Failed to fetch payment details');
+      throw toPaysafeError(error);
+    }
+  }
+
+  /**
+   * Capture (settle) an authorized payment, fully or partially.
+   */
+  async capturePayment(paymentId: string, operation: PaysafeOperationRequest): Promise<PaysafeOperationResult> {
+    return this.createOperation(`${PAYMENTS_PATH}/${encodeURIComponent(paymentId)}/settlements`, operation);
+  }
+
+  /**
+   * Release an authorization that has not been captured.
+   */
+  async voidAuthorization(paymentId: string, operation: PaysafeOperationRequest): Promise<PaysafeOperationResult> {
+    return this.createOperation(`${PAYMENTS_PATH}/${encodeURIComponent(paymentId)}/voidauths`, operation);
+  }
+
+  /**
+   * Refund a settled payment, fully or partially. Payments settled with the
+   * authorization are refunded through their own id as the settlement id.
+   */
+  async refundPayment(settlementId: string, operation: PaysafeOperationRequest): Promise<PaysafeOperationResult> {
+    return this.createOperation(`${SETTLEMENTS_PATH}/${encodeURIComponent(settlementId)}/refunds`, operation);
+  }
+
+  /**
+   * The settlement, void authorization or refund created with a merchantRefNum,
+   * or null when Paysafe has none. Settles operations whose response was lost.
+   */
+  async findOperation(kind: PaysafeOperationKind, merchantRefNum: string): Promise<PaysafeOperationResult | null> {
+    try {
+      const body = await this.request<Record<string, unknown>>({
+        method: 'GET',
+        url: `/paymenthub/v1/${kind}?merchantRefNum=${encodeURIComponent(merchantRefNum)}`,
+      });
+      const items = (body[OPERATION_LIST_KEYS[kind]] || []) as PaysafeOperationResult[];
+      return items[0] || null;
+    } catch (error) {
+      if (error instanceof PaysafeNotFoundError) {
+        return null;
+      }
+      console.error(`Error looking up Paysafe ${kind} ${merchantRefNum}:`, error);
+      throw toPaysafeError(error);
     }
   }
 
   async testConnection(): Promise<boolean> {
     try {
-      await this.client.get('/paymenthub/v1/payments?limit=1');
+      // Fail fast: only a rate limit is waited out
+      await this.request({ method: 'GET', url: `${PAYMENTS_PATH}?limit=1` }, { idempotent: false });
       return true;
     } catch (error) {
       console.error('Connection test failed:', error);
       return false;
     }
   }
+
+  /**
+   * Fetch one page. The next page is the response's "next" link, or the
+   * following offset when the API sends none and this page was full.
+   */
+  private async listPage<R extends PaysafeListResource>(resource: R, url: string): Promise<PaysafePage<PaysafeListResources[R]>> {
+    const body = await this.request<PaysafeListBody>({ method: 'GET', url });
+    const items = (body[resource] || []) as PaysafeListResources[R][];
+
+    let nextUrl = body.links?.find(link => link.rel === 'next')?.href || null;
+    if (!nextUrl && items.length >= this.options.pageSize) {
+      const [path, query = ''] = url.split('?');
+      const params = new URLSearchParams(query);
+      params.set('offset', String(Number(params.get('offset') || 0) + items.length));
+      nextUrl = `${path}?${params.toString()}`;
+    }
+
+    return { items, url, nextUrl };
+  }
+
+  private listUrl(resource: PaysafeListResource, filter?: ReportFilter): string {
+    const params = this.buildFilterParams(filter);
+    params.set('limit', String(this.options.pageSize));
+    return `${LIST_PATHS[resource]}?${params.toString()}`;
+  }
+
+  // Not retried after a timeout or 5xx: the first request may have moved the money, and dupCheck
+  // would reject the retry and hide that. Callers reconcile such outcomes with findOperation.
+  private async createOperation(url: string, operation: PaysafeOperationRequest): Promise<PaysafeOperationResult> {
+    try {
+      return await this.request<PaysafeOperationResult>(
+        { method: 'POST', url, data: { ...operation, dupCheck: true } },
+        { idempotent: false }
+      );
+    } catch (error) {
+      console.error(`Paysafe operation ${url} failed:`, error);
+      throw toPaysafeError(error);
+    }
+  }
+
+  /**
+   * Send a request, waiting out rate limits and retrying failures worth repeating.
+   */
+  private async request<T>(config: AxiosRequestConfig, options: RequestOptions = {}): Promise<T> {
+    const idempotent = options.idempotent ?? (config.method || 'GET').toUpperCase() === 'GET';
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit();
+
+      try {
+        const response = await this.client.request<T>(config);
+        this.trackRateLimit(response.headers);
+        return response.data;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response) {
+          this.trackRateLimit(error.response.headers);
+        }
+
+        const apiError = toPaysafeError(error);
+        const delay = this.retryDelay(apiError, attempt, idempotent);
+        if (delay === null) {
+          throw apiError;
+        }
+
+        console.warn(`Paysafe API ${config.method || 'GET'} ${config.url} failed (${apiError.message}); retry ${attempt + 1} in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private retryDelay(error: PaysafeApiError, attempt: number, idempotent: boolean): number | null {
+    if (attempt >= this.options.maxRetries) {
+      return null;
+    }
+
+    // A rate-limited request was never processed, so repeating it is safe whatever the method
+    if (error instanceof PaysafeRateLimitError) {
+      if (error.retryAfterMs === undefined) {
+        return this.backoff(attempt);
+      }
+      return error.retryAfterMs <= this.options.maxDelayMs ? error.retryAfterMs : null;
+    }
+
+    return idempotent && error.retryable ? this.backoff(attempt) : null;
+  }
+
+  // Full jitter: anywhere between zero and the exponential ceiling, so clients do not retry in step
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  // X-RateLimit-Reset is either seconds until the reset or its epoch time in seconds
+  private trackRateLimit(headers: Record<string, unknown>): void {
+    const remaining = Number(headers['x-ratelimit-remaining']);
+    const reset = Number(headers['x-ratelimit-reset']);
+    if (remaining !== 0 || isNaN(reset)) {
+      return;
+    }
+
+    const now = Date.now();
+    this.rateLimitedUntil = reset > 1e9 ? reset * 1000 : now + reset * 1000;
+  }
+
+  private async waitForRateLimit(): Promise<void> {
+    const wait = this.rateLimitedUntil - Date.now();
+    if (wait > 0) {
+      await sleep(Math.min(wait, this.options.maxDelayMs));
+    }
+  }
+
+  private buildFilterParams(filter?: ReportFilter): URLSearchParams {
+    const params = new URLSearchParams();
+    
+    if (filter) {
+      if (filter.accountId) params.append('accountId', filter.accountId);
+      if (filter.startDate) params.append('startDate', filter.startDate);
+      if (filter.endDate) params.append('endDate', filter.endDate);
+      if (filter.status?.length) {
+        filter.status.forEach(status => params.append('status', status));
+      }
+      if (filter.currency) params.append('currency', filter.currency);
+      if (filter.minAmount) params.append('minAmount', filter.minAmount.toString());
+      if (filter.maxAmount) params.append('maxAmount', filter.maxAmount.toString());
+    }
+
+    return params;
+  }
+
+  private toTransaction(payment: PaysafePaymentResource): Transaction {
+    return {
+      id: payment.id,
+      merchantRefNum: payment.merchantRefNum,
+      amount: payment.amount,
+      currency: payment.currencyCode,
+      status: payment.status as Transaction['status'],
+      transactionType: 'PAYMENT',
+      paymentMethod: payment.card?.type || payment.paymentType || 'UNKNOWN',
+      createdAt: payment.txnTime,
+      updatedAt: payment.updatedTime || payment.txnTime,
+      description: payment.description,
+    };
+  }
+}
+
+/**
+ * Platform Paysafe API client from PAYSAFE_API_KEY / PAYSAFE_API_SECRET, or null when not configured.
+ */
+export function createPlatformPaysafeApi(): PaysafeAPI | null {
+  const apiKey = process.env.PAYSAFE_API_KEY;
+  const apiSecret = process.env.PAYSAFE_API_SECRET;
+  if (!apiKey || !apiSecret) {
+    return null;
+  }
+
+  return new PaysafeAPI({
+    apiKey,
+    apiSecret,
+    environment: process.env.PAYSAFE_ENVIRONMENT === 'production' ? 'production' : 'sandbox',
+    baseUrl: process.env.PAYSAFE_API_BASE_URL || undefined,
+  });
 }
 
 export const createMockData = (): Transaction[] => {
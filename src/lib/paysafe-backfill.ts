@@ -0,0 +1,511 @@
+import Queue from 'bull';
+import { BackfillRun, Prisma } from '@prisma/client';
+import { withDatabase, bullRedisOptions } from '@/lib/database';
+import {
+  PaysafeAPI,
+  PaysafeAccountResource,
+  PaysafeListResource,
+  PaysafePaymentResource,
+  PaysafeRefundResource,
+  createPlatformPaysafeApi,
+} from '@/lib/paysafe-api';
+import { buildAccountData } from '@/lib/webhook-adapters';
+import { mapPaysafeStatus } from '@/lib/pending-reconciliation';
+import { ACCOUNT_BACKFILL_EVENT, applyApiTransactionEvent, recordApiEvent } from '@/lib/paysafe-api-events';
+import { extractParentReferences } from '@/lib/transaction-linker';
+import { DataMode } from '@/types/webhook';
+
+/**
+ * PAYSAFE HISTORICAL BACKFILL
+ *
+ * Fills a new company's dashboard from the Paysafe API instead of waiting for
+ * webhooks: pages through payments, then refunds, then accounts for a date
+ * range and upserts them into Transaction and Account with the company set.
+ *
+ * - Rows go through the same rules as webhooks (applyTransactionEvent, newest
+ *   account status wins), recorded with source "backfill"; a webhook newer
+ *   than the imported status is never overwritten
+ * - Every imported status is kept in the event log (paysafe-api-events.ts),
+ *   so a projection rebuild replays it
+ * - Rows already assigned to another company are left alone; unassigned rows
+ *   are claimed
+ * - The run checkpoints the stage and next page URL after every page. A failed
+ *   attempt is retried from the checkpoint, and a run that failed for good can
+ *   be resumed from the dashboard
+ */
+
+export type BackfillStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+export type BackfillStage = PaysafeListResource | 'done';
+type ImportOutcome = 'created' | 'updated' | 'skipped';
+
+export interface BackfillStageReport {
+  fetched: number;
+  created: number;
+  updated: number;
+  skipped: number; // Older than the stored status, an unknown status, or another company's row
+  errors: number;
+}
+
+export type BackfillReport = Record<PaysafeListResource, BackfillStageReport>;
+
+export interface BackfillRequest {
+  startDate: Date;
+  endDate: Date;
+  accountId?: string;
+}
+
+const STAGES: PaysafeListResource[] = ['payments', 'refunds', 'accounts'];
+const MAX_ATTEMPTS = 3;
+const SOURCE = 'backfill';
+
+const emptyReport = (): BackfillReport => ({
+  payments: { fetched: 0, created: 0, updated: 0, skipped: 0, errors: 0 },
+  refunds: { fetched: 0, created: 0, updated: 0, skipped: 0, errors: 0 },
+  accounts: { fetched: 0, created: 0, updated: 0, skipped: 0, errors: 0 },
+});
+
+// The platform credentials decide which Paysafe environment the data comes from
+const importMode = (): DataMode => process.env.PAYSAFE_ENVIRONMENT === 'production' ? 'live' : 'test';
+
+const toDate = (...candidates: Array<string | undefined>): Date => {
+  for (const candidate of candidates) {
+    const parsed = candidate ? new Date(candidate) : null;
+    if (parsed && !isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+  return new Date();
+};
+
+// Locking the company row serializes starts and resumes, so a company never has two active runs
+async function lockCompany(tx: Prisma.TransactionClient, companyId: string): Promise<boolean> {
+  const rows = await tx.$queryRaw<Array<{ id: string }>>`SELECT id FROM companies WHERE id = ${companyId} FOR UPDATE`;
+  return rows.length > 0;
+}
+
+async function findActiveRun(tx: Prisma.TransactionClient, companyId: string) {
+  return tx.backfillRun.findFirst({
+    where: { companyId, status: { in: ['QUEUED', 'RUNNING'] } },
+    select: { id: true },
+  });
+}
+
+export const backfillQueue = new Queue<{ runId: string }>('paysafe backfill', {
+  redis: bullRedisOptions,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 50,
+    attempts: MAX_ATTEMPTS, // Each attempt continues from the run's checkpoint
+    backoff: { type: 'exponential', delay: 60000 },
+  },
+});
+
+export class PaysafeBackfill {
+  constructor(private readonly createApi: () => PaysafeAPI | null = createPlatformPaysafeApi) {}
+
+  /**
+   * Queue an import for a company. Only one run per company at a time.
+   */
+  async start(companyId: string, request: BackfillRequest, userId?: string) {
+    if (isNaN(request.startDate.getTime()) || isNaN(request.endDate.getTime()) || request.startDate >= request.endDate) {
+      return { success: false as const, error: 'startDate must be before endDate' };
+    }
+    if (!this.createApi()) {
+      return { success: false as const, error: 'Paysafe API credentials are not configured' };
+    }
+
+    const result = await withDatabase(async (db) => {
+      return db.$transaction(async (tx) => {
+        if (!(await lockCompany(tx, companyId))) {
+          return { notFound: true, error: `Company ${companyId} not found` };
+        }
+
+        const active = await findActiveRun(tx, companyId);
+        if (active) {
+          return { conflict: true, error: `Backfill ${active.id} is already in progress for this company` };
+        }
+
+        const run = await tx.backfillRun.create({
+          data: {
+            companyId,
+            accountId: request.accountId || null,
+            startDate: request.startDate,
+            endDate: request.endDate,
+            report: emptyReport() as unknown as Prisma.InputJsonValue,
+            requestedBy: userId,
+          },
+        });
+        return { run };
+      });
+    }, { operationName: 'backfill_start', retries: 0 });
+
+    if (!result.run) {
+      return { success: false as const, notFound: !!result.notFound, conflict: !!result.conflict, error: result.error };
+    }
+
+    await backfillQueue.add({ runId: result.run.id });
+    console.log(`Queued Paysafe backfill ${result.run.id} for company ${companyId}`);
+    return { success: true as const, run: result.run };
+  }
+
+  /**
+   * Queue a failed run again; it continues from its checkpoint. Refused
+   * while another run for the company is active.
+   */
+  async resume(runId: string, companyId: string) {
+    const claimed = await withDatabase(async (db) => {
+      return db.$transaction(async (tx) => {
+        await lockCompany(tx, companyId);
+        const active = await findActiveRun(tx, companyId);
+        if (active) {
+          return { count: 0, error: `Backfill ${active.id} is already in progress for this company` };
+        }
+        return tx.backfillRun.updateMany({
+          where: { id: runId, companyId, status: 'FAILED' },
+          data: { status: 'QUEUED' },
+        });
+      });
+    }, { operationName: 'backfill_resume', retries: 0 });
+
+    if ('error' in claimed) {
+      return { success: false as const, notFound: false, error: claimed.error };
+    }
+    if (claimed.count === 0) {
+      const run = await this.getRun(runId, companyId);
+      return run
+        ? { success: false as const, notFound: false, error: `Backfill ${runId} is ${run.status.toLowerCase()}, only failed runs can be resumed` }
+        : { success: false as const, notFound: true, error: `Backfill ${runId} not found` };
+    }
+
+    await backfillQueue.add({ runId });
+    console.log(`Resumed Paysafe backfill ${runId}`);
+    return { success: true as const };
+  }
+
+  async listRuns(companyId: string, limit = 20) {
+    return withDatabase(async (db) => {
+      return db.backfillRun.findMany({
+        where: { companyId },
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(limit, 100),
+      });
+    }, { operationName: 'backfill_list' });
+  }
+
+  async getRun(runId: string, companyId?: string) {
+    return withDatabase(async (db) => {
+      return db.backfillRun.findFirst({ where: { id: runId, ...(companyId && { companyId }) } });
+    }, { operationName: 'backfill_get' });
+  }
+
+  /**
+   * Import from the run's checkpoint to the end of the last stage. Called by the
+   * backfill queue worker; finalAttempt marks the run FAILED instead of QUEUED
+   * for Bull's next retry when it throws.
+   */
+  async run(runId: string, finalAttempt = true): Promise<void> {
+    // RUNNING as well: Bull re-runs a job whose worker died mid-run
+    const claimed = await withDatabase(async (db) => {
+      const updated = await db.backfillRun.updateMany({
+        where: { id: runId, status: { in: ['QUEUED', 'RUNNING'] } },
+        data: { status: 'RUNNING', attempts: { increment: 1 } },
+      });
+      if (updated.count === 0) {
+        return null;
+      }
+      return db.backfillRun.update({
+        where: { id: runId },
+        data: { startedAt: new Date() },
+      });
+    }, { operationName: 'backfill_claim' });
+
+    if (!claimed) {
+      console.log(`Backfill ${runId} is not queued, skipping`);
+      return;
+    }
+    let run = claimed;
+
+    const api = this.createApi();
+    if (!api) {
+      await this.fail(run, 'Paysafe API credentials are not configured', true);
+      return;
+    }
+
+    console.log(`Running Paysafe backfill ${run.id} for company ${run.companyId} from stage ${run.stage}`);
+
+    try {
+      while (run.stage !== 'done') {
+        run = await this.importStage(api, run, run.stage as PaysafeListResource);
+      }
+
+      await withDatabase(async (db) => {
+        await db.backfillRun.update({
+          where: { id: runId },
+          data: { status: 'COMPLETED', completedAt: new Date() },
+        });
+      }, { operationName: 'backfill_complete' });
+
+      console.log(`Paysafe backfill ${run.id} completed:`, run.report);
+    } catch (error) {
+      await this.fail(run, error instanceof Error ? error.message : 'Unknown error', finalAttempt);
+      throw error;
+    }
+  }
+
+  // Page through one resource from the checkpoint, saving it after every page
+  private async importStage(api: PaysafeAPI, run: BackfillRun, stage: PaysafeListResource): Promise<BackfillRun> {
+    const filter = {
+      startDate: run.startDate.toISOString(),
+      endDate: run.endDate.toISOString(),
+      accountId: run.accountId || undefined,
+    };
+    let current = run;
+
+    for await (const page of api.iteratePages(stage, filter, run.nextPageUrl || undefined)) {
+      const counts: BackfillStageReport = { fetched: page.items.length, created: 0, updated: 0, skipped: 0, errors: 0 };
+      let lastError: string | undefined;
+
+      for (const item of page.items) {
+        try {
+          counts[await this.importItem(stage, item, current.companyId)]++;
+        } catch (error) {
+          counts.errors++;
+          lastError = `${stage} ${item.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          console.error(`Backfill ${current.id} failed to import ${stage} ${item.id}:`, error);
+        }
+      }
+
+      const report = (current.report as unknown as BackfillReport) || emptyReport();
+      const stageReport = report[stage];
+      (Object.keys(counts) as Array<keyof BackfillStageReport>).forEach(key => {
+        stageReport[key] += counts[key];
+      });
+
+      const finished = !page.nextUrl;
+      current = await withDatabase(async (db) => {
+        return db.backfillRun.update({
+          where: { id: current.id },
+          data: {
+            report: report as unknown as Prisma.InputJsonValue,
+            pagesFetched: { increment: 1 },
+            stage: finished ? this.nextStage(stage) : stage,
+            nextPageUrl: finished ? null : page.nextUrl,
+            ...(lastError && { lastError }),
+          },
+        });
+      }, { operationName: 'backfill_checkpoint' });
+
+      if (finished) {
+        return current;
+      }
+    }
+
+    // The iterator ended without a final page (empty first page or a repeated page)
+    return withDatabase(async (db) => {
+      return db.backfillRun.update({
+        where: { id: current.id },
+        data: { stage: this.nextStage(stage), nextPageUrl: null },
+      });
+    }, { operationName: 'backfill_checkpoint' });
+  }
+
+  private nextStage(stage: PaysafeListResource): BackfillStage {
+    return STAGES[STAGES.indexOf(stage) + 1] || 'done';
+  }
+
+  private async importItem(stage: PaysafeListResource, item: unknown, companyId: string): Promise<ImportOutcome> {
+    switch (stage) {
+      case 'payments':
+        return this.importPayment(item as PaysafePaymentResource, companyId);
+      case 'refunds':
+        return this.importRefund(item as PaysafeRefundResource, companyId);
+      default:
+        return this.importAccount(item as PaysafeAccountResource, companyId);
+    }
+  }
+
+  private async importPayment(payment: PaysafePaymentResource, companyId: string): Promise<ImportOutcome> {
+    return this.importTransaction(companyId, {
+      externalId: payment.id,
+      merchantRefNum: payment.merchantRefNum,
+      amount: payment.amount,
+      currency: payment.currencyCode,
+      rawStatus: payment.status,
+      transactionType: 'PAYMENT',
+      paymentMethod: payment.card?.type || payment.paymentType || 'UNKNOWN',
+      description: payment.description,
+      txnTime: payment.txnTime,
+      updatedTime: payment.updatedTime,
+    });
+  }
+
+  private async importRefund(refund: PaysafeRefundResource, companyId: string): Promise<ImportOutcome> {
+    return this.importTransaction(companyId, {
+      externalId: refund.id,
+      merchantRefNum: refund.merchantRefNum,
+      amount: refund.amount,
+      currency: refund.currencyCode,
+      rawStatus: refund.status,
+      transactionType: 'REFUND',
+      paymentMethod: 'UNKNOWN',
+      txnTime: refund.txnTime,
+      updatedTime: refund.updatedTime,
+      parentReferences: extractParentReferences({
+        eventData: { settlementId: refund.settlementId, paymentId: refund.paymentId },
+        links: refund.links,
+      }),
+    });
+  }
+
+  private async importTransaction(companyId: string, item: {
+    externalId: string;
+    merchantRefNum: string;
+    amount: number;
+    currency: string;
+    rawStatus: string;
+    transactionType: string;
+    paymentMethod: string;
+    description?: string;
+    txnTime: string;
+    updatedTime?: string;
+    parentReferences?: string[];
+  }): Promise<ImportOutcome> {
+    const status = mapPaysafeStatus(item.rawStatus);
+    if (!status) {
+      return 'skipped';
+    }
+
+    return withDatabase(async (db) => {
+      const existing = await db.transaction.findUnique({
+        where: { externalId: item.externalId },
+        select: { companyId: true },
+      });
+      if (existing?.companyId && existing.companyId !== companyId) {
+        return 'skipped';
+      }
+
+      const { outcome } = await applyApiTransactionEvent(db, {
+        create: {
+          externalId: item.externalId,
+          merchantRefNum: item.merchantRefNum,
+          amount: item.amount,
+          currency: item.currency,
+          status,
+          transactionType: item.transactionType,
+          paymentMethod: item.paymentMethod,
+          description: item.description,
+          transactionTime: toDate(item.txnTime),
+          companyId,
+          mode: importMode(),
+          metadata: { source: SOURCE },
+        },
+        update: {},
+        eventTime: toDate(item.updatedTime, item.txnTime),
+        eventType: `${item.transactionType}_BACKFILL`,
+        rawStatus: item.rawStatus,
+        parentReferences: item.parentReferences,
+        source: SOURCE,
+      });
+
+      if (outcome === 'CREATED') {
+        return 'created';
+      }
+      return outcome === 'APPLIED' ? 'updated' : 'skipped';
+    }, { operationName: 'backfill_import_transaction' });
+  }
+
+  private async importAccount(resource: PaysafeAccountResource, companyId: string): Promise<ImportOutcome> {
+    if (!resource.id || !resource.status) {
+      return 'skipped';
+    }
+
+    const eventTime = toDate(resource.updatedTime, resource.createdTime);
+    // Replayed by the accounts projection, which reads the event time from eventDate
+    const payload = { ...resource, accountId: resource.id, eventType: ACCOUNT_BACKFILL_EVENT, eventDate: eventTime.toISOString() };
+    const data = buildAccountData(payload, undefined, companyId, importMode());
+
+    return withDatabase(async (db) => {
+      const existing = await db.account.findUnique({ where: { externalId: data.externalId } });
+      if (existing?.companyId && existing.companyId !== companyId) {
+        return 'skipped';
+      }
+      // The newest status wins, as for webhooks
+      if (existing?.statusEventTime && eventTime <= existing.statusEventTime) {
+        return 'skipped';
+      }
+
+      const webhookEventId = await recordApiEvent(db, {
+        eventType: ACCOUNT_BACKFILL_EVENT,
+        payload,
+        companyId,
+        mode: importMode(),
+      });
+
+      try {
+        const metadata = data.metadata as unknown as Prisma.InputJsonValue;
+        const account = existing
+          ? await db.account.update({
+              where: { id: existing.id },
+              data: {
+                status: data.status,
+                subStatus: data.subStatus,
+                onboardingStage: data.onboardingStage,
+                creditCardId: data.creditCardId,
+                directDebitId: data.directDebitId,
+                riskLevel: data.riskLevel,
+                complianceStatus: data.complianceStatus,
+                metadata,
+                webhookEventId,
+                statusEventTime: eventTime,
+                companyId,
+              },
+            })
+          : await db.account.create({
+              data: { ...data, metadata, webhookEventId, statusEventTime: eventTime },
+            });
+
+        if (existing?.status !== account.status) {
+          await db.accountStatusHistory.create({
+            data: {
+              accountId: account.id,
+              fromStatus: existing?.status,
+              toStatus: account.status,
+              subStatus: data.subStatus,
+              stage: data.onboardingStage,
+              reason: ACCOUNT_BACKFILL_EVENT,
+              description: 'Status imported from the Paysafe API',
+              changedBy: 'paysafe-backfill',
+              metadata: { webhookEventId },
+              timestamp: eventTime,
+            },
+          });
+        }
+
+        return existing ? 'updated' : 'created';
+      } catch (error) {
+        await db.webhookEvent.delete({ where: { id: webhookEventId } }).catch(() => undefined);
+        throw error;
+      }
+    }, { operationName: 'backfill_import_account' });
+  }
+
+  private async fail(run: BackfillRun, message: string, finalAttempt: boolean): Promise<void> {
+    console.error(`Paysafe backfill ${run.id} failed${finalAttempt ? '' : ', will retry from its checkpoint'}: ${message}`);
+
+    await withDatabase(async (db) => {
+      await db.backfillRun.update({
+        where: { id: run.id },
+        data: { status: finalAttempt ? 'FAILED' : 'QUEUED', lastError: message },
+      });
+    }, { operationName: 'backfill_fail' }).catch(error => {
+      console.error(`Failed to record failure of backfill ${run.id}:`, error);
+    });
+  }
+}
+
+export const paysafeBackfill = new PaysafeBackfill();
+
+// One import at a time; runs share the platform API rate limit
+backfillQueue.process(1, async (job) => {
+  await paysafeBackfill.run(job.data.runId, job.attemptsMade + 1 >= (job.opts.attempts || 1));
+});
@@ -0,0 +1,149 @@
+import axios from 'axios';
+
+/**
+ * PAYSAFE API ERRORS
+ *
+ * Paysafe reports failures as { error: { code, message, details, fieldErrors } }
+ * alongside the HTTP status. toPaysafeError maps both onto one class per kind
+ * of failure, so callers can tell a rejected request from an outage without
+ * parsing messages. `retryable` marks failures worth repeating for idempotent calls.
+ */
+
+interface PaysafeErrorBody {
+  error?: {
+    code?: string;
+    message?: string;
+    details?: string[];
+    fieldErrors?: PaysafeFieldError[];
+  };
+}
+
+export interface PaysafeFieldError {
+  field: string;
+  error: string;
+}
+
+interface PaysafeErrorOptions {
+  status?: number;
+  code?: string;
+  details?: string[];
+  retryable?: boolean;
+}
+
+export class PaysafeApiError extends Error {
+  readonly status?: number;
+  readonly code?: string; // Paysafe error code, e.g. "5279"
+  readonly details: string[];
+  readonly retryable: boolean;
+
+  constructor(message: string, options: PaysafeErrorOptions = {}) {
+    super(message);
+    this.name = 'PaysafeApiError';
+    this.status = options.status;
+    this.code = options.code;
+    this.details = options.details || [];
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+// 401/403: bad credentials or an account without access to the API
+export class PaysafeAuthenticationError extends PaysafeApiError {
+  constructor(message: string, options: PaysafeErrorOptions = {}) {
+    super(message, options);
+    this.name = 'PaysafeAuthenticationError';
+  }
+}
+
+export class PaysafeNotFoundError extends PaysafeApiError {
+  constructor(message: string, options: PaysafeErrorOptions = {}) {
+    super(message, options);
+    this.name = 'PaysafeNotFoundError';
+  }
+}
+
+// 400/409/422: the request itself was rejected; repeating it will not help
+export class PaysafeValidationError extends PaysafeApiError {
+  readonly fieldErrors: PaysafeFieldError[];
+
+  constructor(message: string, options: PaysafeErrorOptions & { fieldErrors?: PaysafeFieldError[] } = {}) {
+    super(message, options);
+    this.name = 'PaysafeValidationError';
+    this.fieldErrors = options.fieldErrors || [];
+  }
+}
+
+// 429: the request was not processed; retryAfterMs comes from the Retry-After header
+export class PaysafeRateLimitError extends PaysafeApiError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: PaysafeErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, { ...options, retryable: true });
+    this.name = 'PaysafeRateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class PaysafeServerError extends PaysafeApiError {
+  constructor(message: string, options: PaysafeErrorOptions = {}) {
+    super(message, { ...options, retryable: options.retryable ?? true });
+    this.name = 'PaysafeServerError';
+  }
+}
+
+// No response at all: connection refused or reset, DNS failure, timeout
+export class PaysafeNetworkError extends PaysafeApiError {
+  constructor(message: string, options: PaysafeErrorOptions = {}) {
+    super(message, { ...options, retryable: true });
+    this.name = 'PaysafeNetworkError';
+  }
+}
+
+/**
+ * Retry-After as milliseconds; the header is either seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function toPaysafeError(error: unknown): PaysafeApiError {
+  if (error instanceof PaysafeApiError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new PaysafeApiError(error instanceof Error ? error.message : 'Unknown Paysafe API error');
+  }
+
+  if (!error.response) {
+    return new PaysafeNetworkError(`Paysafe API unreachable: ${error.code || error.message}`, { code: error.code });
+  }
+
+  const { status, data, headers } = error.response;
+  const body = (data as PaysafeErrorBody | undefined)?.error;
+  const message = body?.message || `Paysafe API responded with ${status}`;
+  const options = { status, code: body?.code, details: body?.details };
+
+  if (status === 401 || status === 403) {
+    return new PaysafeAuthenticationError(message, options);
+  }
+  if (status === 404) {
+    return new PaysafeNotFoundError(message, options);
+  }
+  if (status === 429) {
+    return new PaysafeRateLimitError(message, { ...options, retryAfterMs: parseRetryAfter(headers['retry-after']) });
+  }
+  if (status === 408 || status >= 500) {
+    return new PaysafeServerError(message, options);
+  }
+  if (status >= 400) {
+    return new PaysafeValidationError(message, { ...options, fieldErrors: body?.fieldErrors });
+  }
+  return new PaysafeApiError(message, options);
+}
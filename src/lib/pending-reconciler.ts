@@ -0,0 +1,185 @@
+import { Transaction } from '@prisma/client';
+import { withDatabase } from '@/lib/database';
+import { createAlert } from '@/lib/database-serverless';
+import { PaysafeAPI, createPlatformPaysafeApi } from '@/lib/paysafe-api';
+import { applyApiTransactionEvent } from '@/lib/paysafe-api-events';
+import {
+  isStalePending,
+  pendingThresholds,
+  planReconciliation,
+  pollPaymentStatus,
+} from '@/lib/pending-reconciliation';
+
+/**
+ * PENDING RECONCILER
+ *
+ * Scheduled job for payments whose final webhook never arrived: polls the
+ * Paysafe API for payments stuck in PENDING past their payment method's
+ * threshold (see pending-reconciliation.ts) and applies the reported status
+ * through applyTransactionEvent, recorded in the status history with source
+ * "poll". Each poll is also kept in the event log (paysafe-api-events.ts), so
+ * a projection rebuild replays the correction.
+ *
+ * A payment Paysafe still reports as pending is polled again after
+ * PENDING_RECONCILE_REPOLL_MINUTES.
+ */
+
+export interface ReconcileSummary {
+  skipped?: string;
+  checked: number;
+  corrected: number;
+  stillPending: number;
+  stale: number;
+  illegal: number;
+  unknownStatus: number;
+  errors: number;
+}
+
+export class PendingTransactionReconciler {
+  private readonly batchSize = parseInt(process.env.PENDING_RECONCILE_BATCH_SIZE || '50');
+  private readonly repollMinutes = parseInt(process.env.PENDING_RECONCILE_REPOLL_MINUTES || '60');
+
+  /**
+   * Platform Paysafe API client from PAYSAFE_API_KEY / PAYSAFE_API_SECRET, or null when not configured.
+   */
+  createApi(): PaysafeAPI | null {
+    return createPlatformPaysafeApi();
+  }
+
+  async run(options: { api?: PaysafeAPI; now?: Date } = {}): Promise<ReconcileSummary> {
+    const summary: ReconcileSummary = {
+      checked: 0,
+      corrected: 0,
+      stillPending: 0,
+      stale: 0,
+      illegal: 0,
+      unknownStatus: 0,
+      errors: 0,
+    };
+
+    const api = options.api || this.createApi();
+    if (!api) {
+      summary.skipped = 'Paysafe API credentials are not configured';
+      console.warn(`Pending reconciliation skipped: ${summary.skipped}`);
+      return summary;
+    }
+
+    const now = options.now || new Date();
+    const candidates = await this.findStalePending(now);
+
+    for (const transaction of candidates) {
+      summary.checked++;
+      try {
+        const polled = await pollPaymentStatus(api, transaction.externalId, now);
+        const decision = planReconciliation(transaction, polled);
+
+        if (decision.outcome === 'UNKNOWN_STATUS') {
+          console.warn(`Pending reconciliation of ${transaction.externalId}: ${decision.reason}`);
+          summary.unknownStatus++;
+        } else if (decision.outcome === 'STILL_PENDING') {
+          summary.stillPending++;
+        } else if (polled.status) {
+          const { outcome } = await this.applyPolledStatus(transaction, polled.status, polled.rawStatus, polled.eventTime);
+          if (outcome === 'APPLIED' || outcome === 'CREATED') {
+            summary.corrected++;
+            console.log(`Pending reconciliation corrected ${transaction.externalId}: PENDING -> ${polled.status} (${polled.rawStatus})`);
+          } else if (outcome === 'STALE') {
+            summary.stale++;
+          } else {
+            summary.illegal++;
+          }
+        }
+      } catch (error) {
+        summary.errors++;
+        console.error(`Pending reconciliation failed for transaction ${transaction.externalId}:`, error);
+      }
+
+      await withDatabase(async (db) => {
+        await db.transaction.update({ where: { id: transaction.id }, data: { lastPolledAt: now } });
+      }, { operationName: 'pending_reconcile_mark_polled' }).catch(error => {
+        console.error(`Failed to record poll time for transaction ${transaction.externalId}:`, error);
+      });
+    }
+
+    console.log('Pending reconciliation completed:', summary);
+    await this.alert(summary);
+    return summary;
+  }
+
+  // Oldest first; the per-method threshold is applied after the query with the shortest threshold as a floor
+  private async findStalePending(now: Date): Promise<Transaction[]> {
+    const thresholds = pendingThresholds();
+    const shortest = Math.min(...Object.values(thresholds));
+    const cutoff = new Date(now.getTime() - shortest * 60 * 1000);
+    const repollCutoff = new Date(now.getTime() - this.repollMinutes * 60 * 1000);
+
+    const rows = await withDatabase(async (db) => {
+      return db.transaction.findMany({
+        where: {
+          status: 'PENDING',
+          transactionType: 'PAYMENT',
+          AND: [
+            {
+              OR: [
+                { statusEventTime: { lt: cutoff } },
+                { statusEventTime: null, transactionTime: { lt: cutoff } },
+              ],
+            },
+            { OR: [{ lastPolledAt: null }, { lastPolledAt: { lt: repollCutoff } }] },
+          ],
+        },
+        orderBy: { transactionTime: 'asc' },
+        take: this.batchSize * 4,
+      });
+    }, { operationName: 'pending_reconcile_candidates' });
+
+    return rows.filter(row => isStalePending(row, now, thresholds)).slice(0, this.batchSize);
+  }
+
+  private async applyPolledStatus(transaction: Transaction, status: string, rawStatus: string, eventTime: Date) {
+    return withDatabase(async (db) => {
+      return applyApiTransactionEvent(db, {
+        create: {
+          externalId: transaction.externalId,
+          merchantRefNum: transaction.merchantRefNum,
+          amount: transaction.amount,
+          currency: transaction.currency,
+          status,
+          transactionType: transaction.transactionType,
+          paymentMethod: transaction.paymentMethod,
+          transactionTime: transaction.transactionTime,
+          companyId: transaction.companyId,
+          mode: transaction.mode,
+        },
+        update: {},
+        eventTime,
+        eventType: 'STATUS_POLL',
+        rawStatus,
+        source: 'poll',
+      });
+    }, { operationName: 'pending_reconcile_apply' });
+  }
+
+  private async alert(summary: ReconcileSummary): Promise<void> {
+    if (summary.corrected > 0) {
+      await createAlert({
+        type: 'INFO',
+        title: 'Missed Webhooks Reconciled',
+        message: `${summary.corrected} pending payment(s) were updated from the Paysafe API because their final webhook never arrived`,
+        source: 'pending-reconciler',
+        metadata: { ...summary },
+      });
+    }
+    if (summary.errors > 0) {
+      await createAlert({
+        type: 'WARNING',
+        title: 'Pending Reconciliation Errors',
+        message: `${summary.errors} of ${summary.checked} stale pending payment(s) could not be checked against the Paysafe API`,
+        source: 'pending-reconciler',
+        metadata: { ...summary },
+      });
+    }
+  }
+}
+
+export const pendingReconciler = new PendingTransactionReconciler();
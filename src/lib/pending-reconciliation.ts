@@ -0,0 +1,155 @@
+import { PaysafeAPI } from '@/lib/paysafe-api';
+import { evaluateTransition, TransitionDecision } from '@/lib/transaction-lifecycle';
+
+/**
+ * PENDING TRANSACTION RECONCILIATION
+ *
+ * Decides when a PENDING payment has waited too long for its final webhook,
+ * asks the Paysafe API for its status and evaluates that status with the same
+ * lifecycle rules as webhooks. Kept free of database dependencies so it can be
+ * tested against a stand-in API; the scheduled job is pending-reconciler.ts.
+ *
+ * Thresholds are minutes per payment method. Cards settle in minutes, bank
+ * debits take days; PENDING_RECONCILE_THRESHOLDS (JSON) overrides any of them.
+ */
+
+export const DEFAULT_PENDING_THRESHOLDS: Record<string, number> = {
+  DEFAULT: 24 * 60,
+  // Cards
+  CARD: 60,
+  VISA: 60,
+  MASTERCARD: 60,
+  AMEX: 60,
+  DISCOVER: 60,
+  DINERS: 60,
+  JCB: 60,
+  MAESTRO: 60,
+  // Wallets and vouchers
+  APPLEPAY: 60,
+  GOOGLEPAY: 60,
+  PAYPAL: 4 * 60,
+  SKRILL: 4 * 60,
+  NETELLER: 4 * 60,
+  PAYSAFECARD: 4 * 60,
+  // Bank debits and transfers
+  DIRECT_DEBIT: 5 * 24 * 60,
+  SEPA: 5 * 24 * 60,
+  BACS: 5 * 24 * 60,
+  ACH: 5 * 24 * 60,
+  EFT: 5 * 24 * 60,
+};
+
+// Paysafe payment statuses; anything else is left alone
+const PAYSAFE_STATUS_MAP: Record<string, string> = {
+  RECEIVED: 'PENDING',
+  INITIATED: 'PENDING',
+  PENDING: 'PENDING',
+  PROCESSING: 'PENDING',
+  HELD: 'PENDING',
+  AUTHORIZED: 'PENDING',
+  COMPLETED: 'COMPLETED',
+  SETTLED: 'COMPLETED',
+  FAILED: 'FAILED',
+  DECLINED: 'FAILED',
+  EXPIRED: 'FAILED',
+  ERROR: 'FAILED',
+  CANCELLED: 'CANCELLED',
+  VOIDED: 'CANCELLED',
+};
+
+export interface PendingTransaction {
+  externalId: string;
+  status: string;
+  transactionType: string;
+  paymentMethod: string;
+  transactionTime: Date;
+  statusEventTime: Date | null;
+}
+
+export interface PolledStatus {
+  status: string | null; // Mapped status, null when Paysafe reported one we do not know
+  rawStatus: string;
+  eventTime: Date;
+}
+
+export type ReconcileDecision =
+  | { outcome: 'UNKNOWN_STATUS' | 'STILL_PENDING'; reason?: string }
+  | TransitionDecision;
+
+/**
+ * Thresholds in minutes, with PENDING_RECONCILE_THRESHOLDS applied over the defaults.
+ */
+export function pendingThresholds(): Record<string, number> {
+  const configured = process.env.PENDING_RECONCILE_THRESHOLDS;
+  if (!configured) {
+    return DEFAULT_PENDING_THRESHOLDS;
+  }
+
+  try {
+    const overrides = JSON.parse(configured) as Record<string, unknown>;
+    const valid = Object.entries(overrides)
+      .filter(([, minutes]) => typeof minutes === 'number' && minutes > 0)
+      .map(([method, minutes]) => [method.toUpperCase(), minutes as number]);
+    return { ...DEFAULT_PENDING_THRESHOLDS, ...Object.fromEntries(valid) };
+  } catch (error) {
+    console.warn('Invalid PENDING_RECONCILE_THRESHOLDS, using defaults:', error);
+    return DEFAULT_PENDING_THRESHOLDS;
+  }
+}
+
+export function thresholdMinutes(paymentMethod: string, thresholds = pendingThresholds()): number {
+  return thresholds[paymentMethod.toUpperCase()] ?? thresholds.DEFAULT ?? DEFAULT_PENDING_THRESHOLDS.DEFAULT;
+}
+
+/**
+ * A payment is stale once it has been PENDING for longer than its payment method's threshold,
+ * counted from the event that set the status (or the transaction time when that is unknown).
+ */
+export function isStalePending(transaction: PendingTransaction, now = new Date(), thresholds = pendingThresholds()): boolean {
+  if (transaction.status !== 'PENDING' || transaction.transactionType !== 'PAYMENT') {
+    return false;
+  }
+  const since = transaction.statusEventTime || transaction.transactionTime;
+  return now.getTime() - since.getTime() > thresholdMinutes(transaction.paymentMethod, thresholds) * 60 * 1000;
+}
+
+export function mapPaysafeStatus(rawStatus: string | undefined): string | null {
+  return rawStatus ? PAYSAFE_STATUS_MAP[rawStatus.toUpperCase()] ?? null : null;
+}
+
+/**
+ * Current status of a payment according to the Paysafe API. The API's update
+ * time stands in for the event time; the poll time when it has none.
+ */
+export async function pollPaymentStatus(api: PaysafeAPI, externalId: string, now = new Date()): Promise<PolledStatus> {
+  const payment = await api.getPaymentDetails(externalId);
+  const rawStatus = String(payment.status || '');
+  // The client falls back to the transaction time, which would make every polled status look stale
+  const updatedAt = payment.updatedAt && payment.updatedAt !== payment.createdAt ? new Date(payment.updatedAt) : null;
+
+  return {
+    status: mapPaysafeStatus(rawStatus),
+    rawStatus,
+    eventTime: updatedAt && !isNaN(updatedAt.getTime()) ? updatedAt : now,
+  };
+}
+
+/**
+ * What applying the polled status would do, using the webhook lifecycle rules.
+ */
+export function planReconciliation(transaction: PendingTransaction, polled: PolledStatus): ReconcileDecision {
+  if (!polled.status) {
+    return { outcome: 'UNKNOWN_STATUS', reason: `Paysafe reported unknown status ${polled.rawStatus || '(none)'}` };
+  }
+  if (polled.status === transaction.status) {
+    return { outcome: 'STILL_PENDING' };
+  }
+
+  return evaluateTransition(
+    transaction.transactionType,
+    transaction.status,
+    transaction.statusEventTime,
+    polled.status,
+    polled.eventTime
+  );
+}
@@ -0,0 +1,377 @@
+import crypto from 'crypto';
+import { withDatabase } from '@/lib/database';
+import { encryptSecret, decryptSecret } from '@/lib/encryption';
+import type { AuthUser } from '@/lib/auth';
+
+/**
+ * PII REDACTION
+ *
+ * Payment webhooks carry cardholder and payer details that the dashboard
+ * never needs in clear. Before a payload reaches webhook_events, logs,
+ * Alert.metadata or EmailLog the configured fields are either:
+ * - TOKENIZE: replaced by a deterministic token ("pii_..."); the original is
+ *   encrypted into pii_vault_entries and can be revealed by authorized roles
+ * - MASK: replaced by a partial value ("masked:J***", "masked:****1234")
+ *   that cannot be revealed
+ *
+ * Rules match on the end of a field's key path, so "card.holderName" also
+ * matches "eventData.card.holderName"; "*" matches any single key. The
+ * defaults can be replaced with PII_REDACTION_RULES (a JSON array of
+ * { "path", "action" }), and PII_REDACTION_ENABLED=false turns redaction off.
+ *
+ * When no token key is configured or the vault cannot be written, TOKENIZE
+ * falls back to MASK - clear values are never stored.
+ *
+ * The raw webhook archive (webhook-archive.ts) is exempt: it keeps the exact
+ * request bytes for signature disputes.
+ */
+
+export type RedactionAction = 'MASK' | 'TOKENIZE';
+
+export interface RedactionRule {
+  path: string;
+  action: RedactionAction;
+}
+
+export interface RevealResult {
+  values: Record<string, unknown>;
+  // Unknown tokens, or tokens belonging to another company
+  unavailable: string[];
+}
+
+const DEFAULT_RULES: RedactionRule[] = [
+  { path: 'card.holderName', action: 'TOKENIZE' },
+  { path: 'card.cardNum', action: 'MASK' },
+  { path: 'card.cvv', action: 'MASK' },
+  { path: 'billingDetails.street', action: 'TOKENIZE' },
+  { path: 'billingDetails.street2', action: 'TOKENIZE' },
+  { path: 'billingDetails.city', action: 'TOKENIZE' },
+  { path: 'billingDetails.zip', action: 'TOKENIZE' },
+  { path: 'billingDetails.phone', action: 'TOKENIZE' },
+  { path: 'bankAccount.accountNumber', action: 'TOKENIZE' },
+  { path: 'bankAccount.sortCode', action: 'TOKENIZE' },
+  { path: 'bankAccount.accountHolderName', action: 'TOKENIZE' },
+  { path: 'paymentDetails.payerEmail', action: 'TOKENIZE' },
+  { path: 'paymentDetails.payerName', action: 'TOKENIZE' },
+];
+
+// Header values that must never be logged
+const SENSITIVE_HEADERS = new Set([
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-paysafe-signature',
+  'x-netbanx-signature',
+  'x-signature',
+  'signature',
+]);
+
+const TOKEN_PATTERN = /^pii_[0-9a-f]{24}$/;
+// Marks masked values so they are never mistaken for (or masked again as) real data
+const MASK_PREFIX = 'masked:';
+
+interface PendingVaultEntry {
+  token: string;
+  field: string;
+  value: unknown;
+}
+
+export class PiiRedactor {
+  private readonly enabled = process.env.PII_REDACTION_ENABLED !== 'false';
+  private readonly rules: Array<RedactionRule & { segments: string[] }>;
+  private readonly tokenKey = process.env.PII_TOKEN_KEY || process.env.WEBHOOK_ENCRYPTION_KEY;
+  private warnedNoTokenKey = false;
+
+  constructor(rules: RedactionRule[] = PiiRedactor.loadRules()) {
+    this.rules = rules.map(rule => ({ ...rule, segments: rule.path.split('.') }));
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  isToken(value: unknown): value is string {
+    return typeof value === 'string' && TOKEN_PATTERN.test(value);
+  }
+
+  /**
+   * Redact a value for storage. Tokenized originals are written to the vault
+   * under the company the value belongs to. Already-redacted values pass
+   * through unchanged, so this is safe to apply more than once.
+   */
+  async redact<T>(value: T, companyId?: string | null): Promise<T> {
+    if (!this.enabled) {
+      return value;
+    }
+
+    const canTokenize = this.canTokenize();
+    const pending: PendingVaultEntry[] = [];
+    const redacted = this.walk(value, [], (field, original, action) => {
+      if (action === 'TOKENIZE' && canTokenize) {
+        const token = this.tokenFor(field, original, companyId);
+        pending.push({ token, field, value: original });
+        return token;
+      }
+      return this.maskValue(original);
+    });
+
+    if (pending.length === 0) {
+      return redacted;
+    }
+
+    try {
+      await this.storeInVault(pending, companyId);
+      return redacted;
+    } catch (error) {
+      console.error('Failed to write PII vault entries, masking instead:', error);
+      return this.walk(value, [], (_field, original) => this.maskValue(original));
+    }
+  }
+
+  /**
+   * Mask a value for logs, alerts and email logs. Nothing is written to the
+   * vault, so masked values cannot be revealed.
+   */
+  mask<T>(value: T): T {
+    if (!this.enabled) {
+      return value;
+    }
+    return this.walk(value, [], (_field, original) => this.maskValue(original));
+  }
+
+  /**
+   * Mask a raw JSON body for places that keep the body as text (queue jobs
+   * and dead letters); bodies that are not JSON are dropped entirely
+   */
+  maskRawBody(rawBody: string): string {
+    if (!this.enabled) {
+      return rawBody;
+    }
+    try {
+      return JSON.stringify(this.mask(JSON.parse(rawBody)));
+    } catch {
+      return '[REDACTED]';
+    }
+  }
+
+  maskHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name,
+        SENSITIVE_HEADERS.has(name.toLowerCase()) ? '[REDACTED]' : value,
+      ])
+    );
+  }
+
+  /**
+   * Decrypt tokens from the vault. Super admins can reveal any token; other
+   * users only tokens of their own company. Every reveal is audit logged.
+   */
+  async reveal(
+    tokens: string[],
+    user: AuthUser,
+    context: { reason?: string; webhookEventId?: string; ipAddress?: string; userAgent?: string } = {}
+  ): Promise<RevealResult> {
+    const requested = [...new Set(tokens.filter(token => this.isToken(token)))];
+    if (requested.length === 0) {
+      return { values: {}, unavailable: [] };
+    }
+
+    const entries = await withDatabase(async (db) => {
+      return await db.piiVaultEntry.findMany({
+        where: {
+          token: { in: requested },
+          ...(user.role === 'SUPER_ADMIN' ? {} : { companyId: user.companyId ?? '__none__' }),
+        },
+      });
+    }, { operationName: 'pii_vault_reveal' });
+
+    const values: Record<string, unknown> = {};
+    for (const entry of entries) {
+      values[entry.token] = JSON.parse(decryptSecret(entry.encryptedValue));
+    }
+    const unavailable = requested.filter(token => !(token in values));
+
+    await withDatabase(async (db) => {
+      await db.auditLog.create({
+        data: {
+          action: 'REVEAL_PII',
+          resource: 'PII_VAULT',
+          resourceId: context.webhookEventId,
+          userId: user.id,
+          companyId: user.companyId,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          details: {
+            fields: entries.map(entry => entry.field),
+            tokens: Object.keys(values),
+            unavailable,
+            reason: context.reason,
+          },
+        },
+      });
+    }, { operationName: 'pii_vault_reveal_audit' });
+
+    return { values, unavailable };
+  }
+
+  /**
+   * Replace every token in a payload with its revealed value
+   */
+  async revealPayload<T>(
+    payload: T,
+    user: AuthUser,
+    context: { reason?: string; webhookEventId?: string; ipAddress?: string; userAgent?: string } = {}
+  ): Promise<{ payload: T; revealed: number; unavailable: string[] }> {
+    const tokens: string[] = [];
+    this.visitStrings(payload, value => {
+      if (this.isToken(value)) tokens.push(value);
+    });
+
+    const { values, unavailable } = await this.reveal(tokens, user, context);
+    const revealed = this.replaceStrings(payload, value => (value in values ? values[value] : value));
+
+    return { payload: revealed, revealed: Object.keys(values).length, unavailable };
+  }
+
+  private static loadRules(): RedactionRule[] {
+    const configured = process.env.PII_REDACTION_RULES;
+    if (!configured) {
+      return DEFAULT_RULES;
+    }
+
+    try {
+      const rules = JSON.parse(configured);
+      const valid = Array.isArray(rules) && rules.every(rule =>
+        rule && typeof rule.path === 'string' && rule.path.length > 0 &&
+        (rule.action === 'MASK' || rule.action === 'TOKENIZE')
+      );
+      if (!valid) {
+        throw new Error('expected an array of { path, action: "MASK" | "TOKENIZE" }');
+      }
+      return rules;
+    } catch (error) {
+      // Fail towards redacting: a typo must not switch protection off
+      console.error('Invalid PII_REDACTION_RULES, using the default rules:', error);
+      return DEFAULT_RULES;
+    }
+  }
+
+  private matchRule(keyPath: string[]): (RedactionRule & { segments: string[] }) | undefined {
+    return this.rules.find(rule => {
+      if (rule.segments.length > keyPath.length) return false;
+      const tail = keyPath.slice(keyPath.length - rule.segments.length);
+      return rule.segments.every((segment, index) => segment === '*' || segment === tail[index]);
+    });
+  }
+
+  // Copy a value, replacing every field matched by a rule; array indices are not part of key paths
+  private walk<T>(
+    value: T,
+    keyPath: string[],
+    replace: (field: string, original: unknown, action: RedactionAction) => unknown
+  ): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.walk(item, keyPath, replace)) as unknown as T;
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      const childPath = [...keyPath, key];
+      const rule = this.matchRule(childPath);
+      if (rule && child !== null && child !== undefined && !this.isRedacted(child)) {
+        copy[key] = replace(rule.path, child, rule.action);
+      } else {
+        copy[key] = this.walk(child, childPath, replace);
+      }
+    }
+    return copy as T;
+  }
+
+  private visitStrings(value: unknown, visit: (value: string) => void): void {
+    if (typeof value === 'string') {
+      visit(value);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(child => this.visitStrings(child, visit));
+    }
+  }
+
+  private replaceStrings<T>(value: T, replace: (value: string) => unknown): T {
+    if (typeof value === 'string') {
+      return replace(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.replaceStrings(item, replace)) as unknown as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [key, this.replaceStrings(child, replace)])
+      ) as T;
+    }
+    return value;
+  }
+
+  private isRedacted(value: unknown): boolean {
+    return this.isToken(value) || value === '[REDACTED]' || (typeof value === 'string' && value.startsWith(MASK_PREFIX));
+  }
+
+  private maskValue(value: unknown): string {
+    if (typeof value !== 'string' || value.length === 0) {
+      return '[REDACTED]';
+    }
+
+    const email = value.match(/^[^@\s]+@([^@\s]+)$/);
+    if (email) {
+      return `${MASK_PREFIX}${value[0]}***@${email[1]}`;
+    }
+    const digits = value.replace(/[\s-]/g, '');
+    if (/^\d{6,}$/.test(digits)) {
+      return `${MASK_PREFIX}****${digits.slice(-4)}`;
+    }
+    return `${MASK_PREFIX}${value[0]}***`;
+  }
+
+  private canTokenize(): boolean {
+    if (this.tokenKey) {
+      return true;
+    }
+    if (!this.warnedNoTokenKey) {
+      console.warn('No PII_TOKEN_KEY or WEBHOOK_ENCRYPTION_KEY configured - sensitive webhook fields will be masked, not tokenized');
+      this.warnedNoTokenKey = true;
+    }
+    return false;
+  }
+
+  // The same value in the same field of the same company always gets the same token
+  private tokenFor(field: string, value: unknown, companyId?: string | null): string {
+    const digest = crypto
+      .createHmac('sha256', this.tokenKey as string)
+      .update(`${companyId || ''}:${field}:${JSON.stringify(value)}`)
+      .digest('hex');
+    return `pii_${digest.slice(0, 24)}`;
+  }
+
+  private async storeInVault(entries: PendingVaultEntry[], companyId?: string | null): Promise<void> {
+    await withDatabase(async (db) => {
+      await db.piiVaultEntry.createMany({
+        data: entries.map(entry => ({
+          token: entry.token,
+          companyId: companyId || null,
+          field: entry.field,
+          encryptedValue: encryptSecret(JSON.stringify(entry.value)),
+        })),
+        skipDuplicates: true,
+      });
+    }, {
+      timeout: 5000,
+      operationName: 'pii_vault_store',
+      retries: 1
+    });
+  }
+}
+
+export const piiRedactor = new PiiRedactor();
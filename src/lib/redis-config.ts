@@ -456,6 +456,20 @@ export class RedisConnectionManager {
     });
   }
 
+  /**
+   * Atomic SET with expiry only if the key does not exist.
+   * Returns true when the key was written.
+   */
+  static async setnx(key: string, seconds: number, value: string): Promise<boolean> {
+    return await this.circuitBreaker.execute(async () => {
+      const redis = this.getInstance();
+      const result = this.useUpstash
+        ? await (redis as UpstashRedis).set(key, value, { ex: seconds, nx: true })
+        : await (redis as Redis).set(key, value, 'EX', seconds, 'NX');
+      return result === 'OK';
+    });
+  }
+
   static async del(...keys: string[]): Promise<number> {
     return await this.circuitBreaker.execute(async () => {
       const redis = this.getInstance();
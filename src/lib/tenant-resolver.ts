@@ -0,0 +1,409 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { withDatabase } from '@/lib/database';
+import { TenantResolutionMethod } from '@/types/webhook';
+
+/**
+ * TENANT RESOLVER
+ *
+ * Routes each inbound webhook event to a company, in order of preference:
+ * 1. The per-company webhook URL the event was posted to
+ * 2. An account number / resourceId matching Account.externalId
+ * 3. The Paysafe partner id configured on the company
+ * Events that match nothing are marked UNASSIGNED and wait in the admin inbox.
+ */
+
+export interface TenantResolution {
+  companyId: string | null;
+  method: TenantResolutionMethod;
+  reference?: string; // First account number or partner id found in the payload
+}
+
+export interface TenantAssignmentResult {
+  events: number;
+  transactions: number;
+  disputes: number;
+  accounts: number;
+}
+
+export interface TenantBackfillResult {
+  scanned: number;
+  assigned: number;
+  unassigned: number;
+  transactions: number;
+  disputes: number;
+  accounts: number;
+  dryRun: boolean;
+  nextCursor: string | null; // Pass back as cursor to continue; null when every event was scanned
+}
+
+interface CachedCompany {
+  companyId: string;
+  expiresAt: number;
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const BACKFILL_BATCH_SIZE = 200;
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : undefined;
+}
+
+function asReference(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Candidate account ids in a raw or normalized payload, most specific first.
+ * Covers the account-status, direct debit, alternate payment and card payment
+ * formats, plus ".../accounts/{id}/..." links.
+ */
+export function extractAccountReferences(payload: unknown): string[] {
+  const root = asRecord(payload) || {};
+  const inner = asRecord(root.payload);
+  const account = asRecord(root.account);
+  const eventData = asRecord(root.eventData);
+
+  const references = [
+    inner?.accountNumber,
+    account?.id,
+    root.accountId,
+    root.accountNumber,
+    eventData?.accountId,
+    eventData?.accountNumber,
+    root.resourceId,
+    account?.merchantId,
+    root.merchantId,
+  ].map(asReference);
+
+  const links = Array.isArray(root.links) ? root.links : [];
+  links.forEach(link => {
+    const href = asReference(asRecord(link)?.href);
+    const match = href?.match(/\/accounts\/([^/?]+)/);
+    if (match) {
+      references.push(decodeURIComponent(match[1]));
+    }
+  });
+
+  return [...new Set(references.filter((reference): reference is string => !!reference))];
+}
+
+export function extractPartnerId(payload: unknown): string | undefined {
+  const root = asRecord(payload) || {};
+  return asReference(asRecord(root.payload)?.partnerId) || asReference(root.partnerId);
+}
+
+export class TenantResolver {
+  private tokenCache = new Map<string, CachedCompany>();
+  private accountCache = new Map<string, CachedCompany>();
+  private partnerCache = new Map<string, CachedCompany>();
+
+  /**
+   * Company for a per-company webhook URL token, or null when the token is unknown
+   */
+  async resolveWebhookToken(token: string): Promise<string | null> {
+    const cached = this.readCache(this.tokenCache, token);
+    if (cached) return cached;
+
+    const company = await withDatabase(async (db) => {
+      return await db.company.findFirst({
+        where: { webhookToken: token, isActive: true },
+        select: { id: true },
+      });
+    }, { operationName: 'resolve_webhook_token', timeout: 5000, retries: 1 });
+
+    return company ? this.writeCache(this.tokenCache, token, company.id) : null;
+  }
+
+  async resolve(payload: unknown, urlCompanyId?: string): Promise<TenantResolution> {
+    const accountReferences = extractAccountReferences(payload);
+    const partnerId = extractPartnerId(payload);
+    const reference = accountReferences[0] || partnerId;
+
+    if (urlCompanyId) {
+      return { companyId: urlCompanyId, method: 'WEBHOOK_URL', reference };
+    }
+
+    const byAccount = await this.findCompanyByAccount(accountReferences);
+    if (byAccount) {
+      return { companyId: byAccount, method: 'ACCOUNT', reference };
+    }
+
+    const byPartner = partnerId ? await this.findCompanyByPartner(partnerId) : null;
+    if (byPartner) {
+      return { companyId: byPartner, method: 'PARTNER', reference };
+    }
+
+    return { companyId: null, method: 'UNASSIGNED', reference };
+  }
+
+  async listUnassigned(options: { limit?: number; offset?: number; source?: string } = {}) {
+    const where: Prisma.WebhookEventWhereInput = {
+      tenantResolution: 'UNASSIGNED',
+      companyId: null,
+      ...(options.source && { source: options.source }),
+    };
+
+    return withDatabase(async (db) => {
+      const [events, total] = await Promise.all([
+        db.webhookEvent.findMany({
+          where,
+          orderBy: { timestamp: 'desc' },
+          take: Math.min(options.limit || 50, 200),
+          skip: options.offset || 0,
+          select: {
+            id: true,
+            timestamp: true,
+            eventType: true,
+            source: true,
+            tenantReference: true,
+            payload: true,
+          },
+        }),
+        db.webhookEvent.count({ where }),
+      ]);
+
+      return { events, total };
+    }, { operationName: 'list_unassigned_webhook_events', timeout: 10000 });
+  }
+
+  /**
+   * Triage: assign inbox events to a company. The event's transactions and
+   * disputes follow; with linkAccounts, accounts matching the events' account
+   * references are claimed too so future events route automatically.
+   */
+  async assignEvents(eventIds: string[], companyId: string, linkAccounts = false): Promise<TenantAssignmentResult | null> {
+    return withDatabase(async (db) => {
+      const company = await db.company.findUnique({ where: { id: companyId }, select: { id: true } });
+      if (!company) {
+        return null;
+      }
+
+      const events = await db.webhookEvent.findMany({
+        where: { id: { in: eventIds }, companyId: null },
+        select: { id: true, tenantReference: true },
+      });
+      const ids = events.map(event => event.id);
+
+      return await db.$transaction(async (tx) => {
+        const assigned = await this.assignRows(tx, ids, companyId, 'MANUAL');
+
+        let accounts = 0;
+        if (linkAccounts) {
+          const references = events
+            .map(event => event.tenantReference)
+            .filter((reference): reference is string => !!reference);
+          const linked = await tx.account.updateMany({
+            where: { externalId: { in: references }, companyId: null },
+            data: { companyId },
+          });
+          accounts = linked.count;
+          this.accountCache.clear();
+        }
+
+        return { ...assigned, accounts };
+      });
+    }, { operationName: 'assign_webhook_events_to_company', timeout: 30000 });
+  }
+
+  /**
+   * Assign companies to rows stored before tenant routing existed. Runs the
+   * resolver over every event without a company (re-checking the inbox too,
+   * since accounts or partner ids may have been configured since).
+   */
+  async backfill(options: { dryRun?: boolean; maxEvents?: number; cursor?: string } = {}): Promise<TenantBackfillResult> {
+    const dryRun = options.dryRun ?? false;
+    const maxEvents = options.maxEvents ?? Number.MAX_SAFE_INTEGER;
+    const result: TenantBackfillResult = {
+      scanned: 0, assigned: 0, unassigned: 0, transactions: 0, disputes: 0, accounts: 0, dryRun, nextCursor: null,
+    };
+
+    // Accounts first (once per run): account-status events carry the partner id in their metadata
+    if (!options.cursor) {
+      result.accounts = await this.backfillAccounts(dryRun);
+    }
+
+    let cursor = options.cursor;
+    let exhausted = false;
+    while (result.scanned < maxEvents) {
+      const batch = await withDatabase(async (db) => {
+        return await db.webhookEvent.findMany({
+          where: { companyId: null, ...(cursor && { id: { gt: cursor } }) },
+          orderBy: { id: 'asc' },
+          take: Math.min(BACKFILL_BATCH_SIZE, maxEvents - result.scanned),
+          select: { id: true, payload: true, tenantResolution: true },
+        });
+      }, { operationName: 'tenant_backfill_batch', timeout: 10000 });
+
+      if (batch.length === 0) {
+        exhausted = true;
+        break;
+      }
+      cursor = batch[batch.length - 1].id;
+      result.scanned += batch.length;
+
+      const routed = new Map<string, { companyId: string; method: TenantResolutionMethod; ids: string[] }>();
+      const unassigned: Array<{ id: string; reference?: string }> = [];
+
+      for (const event of batch) {
+        const resolution = await this.resolve(event.payload);
+        if (resolution.companyId) {
+          const key = `${resolution.companyId}|${resolution.method}`;
+          const group = routed.get(key) || { companyId: resolution.companyId, method: resolution.method, ids: [] };
+          group.ids.push(event.id);
+          routed.set(key, group);
+          result.assigned++;
+        } else {
+          unassigned.push({ id: event.id, reference: resolution.reference });
+          result.unassigned++;
+        }
+      }
+
+      if (dryRun) continue;
+
+      await withDatabase(async (db) => {
+        await db.$transaction(async (tx) => {
+          for (const group of routed.values()) {
+            const assigned = await this.assignRows(tx, group.ids, group.companyId, group.method);
+            result.transactions += assigned.transactions;
+            result.disputes += assigned.disputes;
+          }
+          for (const event of unassigned) {
+            await tx.webhookEvent.update({
+              where: { id: event.id },
+              data: { tenantResolution: 'UNASSIGNED', tenantReference: event.reference },
+            });
+          }
+        });
+      }, { operationName: 'tenant_backfill_apply', timeout: 30000 });
+
+      console.log(`Tenant backfill: ${result.scanned} events scanned, ${result.assigned} assigned, ${result.unassigned} unassigned`);
+    }
+
+    result.nextCursor = exhausted ? null : cursor || null;
+    return result;
+  }
+
+  private async backfillAccounts(dryRun: boolean): Promise<number> {
+    const accounts = await withDatabase(async (db) => {
+      return await db.account.findMany({
+        where: { companyId: null },
+        select: { id: true, metadata: true },
+      });
+    }, { operationName: 'tenant_backfill_accounts', timeout: 10000 });
+
+    let assigned = 0;
+    for (const account of accounts) {
+      const partnerId = asReference(asRecord(account.metadata)?.partnerId);
+      const companyId = partnerId ? await this.findCompanyByPartner(partnerId) : null;
+      if (!companyId) continue;
+
+      assigned++;
+      if (!dryRun) {
+        await withDatabase(async (db) => {
+          await db.account.update({ where: { id: account.id }, data: { companyId } });
+        }, { operationName: 'tenant_backfill_account' });
+      }
+    }
+
+    this.accountCache.clear();
+    return assigned;
+  }
+
+  // Events plus the transactions and disputes they produced, where not already assigned
+  private async assignRows(
+    tx: Prisma.TransactionClient,
+    eventIds: string[],
+    companyId: string,
+    method: TenantResolutionMethod
+  ): Promise<Omit<TenantAssignmentResult, 'accounts'>> {
+    if (eventIds.length === 0) {
+      return { events: 0, transactions: 0, disputes: 0 };
+    }
+
+    const events = await tx.webhookEvent.updateMany({
+      where: { id: { in: eventIds }, companyId: null },
+      data: { companyId, tenantResolution: method },
+    });
+    const transactions = await tx.transaction.updateMany({
+      where: { webhookEventId: { in: eventIds }, companyId: null },
+      data: { companyId },
+    });
+    const disputes = await tx.dispute.updateMany({
+      where: { webhookEventId: { in: eventIds }, companyId: null },
+      data: { companyId },
+    });
+
+    return { events: events.count, transactions: transactions.count, disputes: disputes.count };
+  }
+
+  private async findCompanyByAccount(references: string[]): Promise<string | null> {
+    if (references.length === 0) return null;
+
+    for (const reference of references) {
+      const cached = this.readCache(this.accountCache, reference);
+      if (cached) return cached;
+    }
+
+    const accounts = await withDatabase(async (db) => {
+      return await db.account.findMany({
+        where: { externalId: { in: references }, companyId: { not: null } },
+        select: { externalId: true, companyId: true },
+      });
+    }, { operationName: 'resolve_tenant_by_account', timeout: 5000, retries: 1 });
+
+    // Keep the payload's order of preference
+    for (const reference of references) {
+      const account = accounts.find(candidate => candidate.externalId === reference);
+      if (account?.companyId) {
+        return this.writeCache(this.accountCache, reference, account.companyId);
+      }
+    }
+    return null;
+  }
+
+  private async findCompanyByPartner(partnerId: string): Promise<string | null> {
+    const cached = this.readCache(this.partnerCache, partnerId);
+    if (cached) return cached;
+
+    const company = await withDatabase(async (db) => {
+      return await db.company.findFirst({
+        where: { paysafePartnerId: partnerId, isActive: true },
+        select: { id: true },
+      });
+    }, { operationName: 'resolve_tenant_by_partner', timeout: 5000, retries: 1 });
+
+    return company ? this.writeCache(this.partnerCache, partnerId, company.id) : null;
+  }
+
+  private readCache(cache: Map<string, CachedCompany>, key: string): string | null {
+    const entry = cache.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt < Date.now()) {
+      cache.delete(key);
+      return null;
+    }
+    return entry.companyId;
+  }
+
+  private writeCache(cache: Map<string, CachedCompany>, key: string, companyId: string): string {
+    cache.set(key, { companyId, expiresAt: Date.now() + CACHE_TTL_MS });
+    return companyId;
+  }
+
+  // Drop cached routes after a company's routing settings change
+  invalidate(): void {
+    this.tokenCache.clear();
+    this.accountCache.clear();
+    this.partnerCache.clear();
+  }
+
+  generateWebhookToken(): string {
+    return crypto.randomBytes(24).toString('hex');
+  }
+}
+
+export const tenantResolver = new TenantResolver();
@@ -0,0 +1,284 @@
+import { Prisma, Transaction } from '@prisma/client';
+import { linkToParent, adoptOrphans } from './transaction-linker';
+
+/**
+ * TRANSACTION LIFECYCLE
+ *
+ * Allowed status transitions per transaction type. Webhooks can arrive out of
+ * order, so transitions are ordered by event time rather than arrival:
+ * - An event older than the stored status is stale and ignored, as is an
+ *   earlier lifecycle status reported at the same event time
+ * - A newer event that breaks the lifecycle is recorded as an anomaly and
+ *   does not change the stored status
+ */
+
+export type TransitionOutcome = 'APPLIED' | 'CREATED' | 'STALE' | 'ILLEGAL';
+
+export interface TransitionDecision {
+  outcome: Exclude<TransitionOutcome, 'CREATED'>;
+  reason?: string;
+}
+
+export interface TransactionEventInput {
+  create: Prisma.TransactionUncheckedCreateInput;
+  update: Prisma.TransactionUncheckedUpdateInput; // Non-status fields refreshed when the event is applied
+  eventTime: Date;
+  eventType?: string;
+  rawStatus?: string; // Provider status before mapping, kept in the status history
+  parentReferences?: string[]; // Candidate parent payment ids for refunds/chargebacks
+  source?: string; // Where the status came from, kept in the status history (default webhook)
+}
+
+export interface TransactionEventResult {
+  transaction: Transaction;
+  outcome: TransitionOutcome;
+  reason?: string;
+}
+
+type Lifecycle = Record<string, string[]>;
+
+const PAYMENT_LIFECYCLE: Lifecycle = {
+  PENDING: ['COMPLETED', 'FAILED', 'CANCELLED'],
+  COMPLETED: [],
+  FAILED: [],
+  CANCELLED: [],
+};
+
+export const TRANSACTION_LIFECYCLES: Record<string, Lifecycle> = {
+  PAYMENT: PAYMENT_LIFECYCLE,
+  REFUND: PAYMENT_LIFECYCLE,
+  PAYOUT: {
+    ...PAYMENT_LIFECYCLE,
+    COMPLETED: ['FAILED'], // Returned by the receiving bank after settlement
+  },
+  CHARGEBACK: {
+    PENDING: ['COMPLETED', 'FAILED', 'CANCELLED'],
+    COMPLETED: ['CANCELLED'], // Chargeback reversed after being upheld
+    FAILED: [],
+    CANCELLED: [],
+  },
+};
+
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * Decide whether a status reported at eventTime may replace the stored status.
+ * Statuses outside the lifecycle are only ordered by time.
+ */
+export function evaluateTransition(
+  transactionType: string,
+  currentStatus: string,
+  currentEventTime: Date | null,
+  nextStatus: string,
+  eventTime: Date
+): TransitionDecision {
+  if (currentEventTime && eventTime < currentEventTime) {
+    return {
+      outcome: 'STALE',
+      reason: `${nextStatus} at ${eventTime.toISOString()} is older than ${currentStatus} at ${currentEventTime.toISOString()}`,
+    };
+  }
+
+  if (currentStatus === nextStatus) {
+    return { outcome: 'APPLIED' };
+  }
+
+  const lifecycle = TRANSACTION_LIFECYCLES[transactionType];
+  const allowed = lifecycle?.[currentStatus];
+  const known = lifecycle?.[nextStatus];
+  if (!allowed || !known || allowed.includes(nextStatus)) {
+    return { outcome: 'APPLIED' };
+  }
+
+  // Events sharing a timestamp (e.g. both fall back to txnTime) carry no order,
+  // so an earlier lifecycle status is the older event rather than a violation
+  if (currentEventTime && eventTime.getTime() === currentEventTime.getTime() &&
+      leadsTo(lifecycle, nextStatus, currentStatus)) {
+    return {
+      outcome: 'STALE',
+      reason: `${nextStatus} precedes ${currentStatus} at the same event time ${eventTime.toISOString()}`,
+    };
+  }
+
+  return {
+    outcome: 'ILLEGAL',
+    reason: `${transactionType} cannot move from ${currentStatus} to ${nextStatus}`,
+  };
+}
+
+// Whether the lifecycle can reach `to` from `from` through allowed transitions
+function leadsTo(lifecycle: Lifecycle, from: string, to: string): boolean {
+  const seen = new Set<string>();
+  const pending = [from];
+  while (pending.length > 0) {
+    const status = pending.pop()!;
+    for (const next of lifecycle[status] || []) {
+      if (next === to) {
+        return true;
+      }
+      if (!seen.has(next)) {
+        seen.add(next);
+        pending.push(next);
+      }
+    }
+  }
+  return false;
+}
+
+// Best available event time from a webhook payload, falling back to arrival
+export function resolveEventTime(webhookData: {
+  eventDate?: string;
+  eventData?: { updatedTime?: string; txnTime?: string };
+}): Date {
+  const candidates = [webhookData.eventData?.updatedTime, webhookData.eventDate, webhookData.eventData?.txnTime];
+
+  for (const candidate of candidates) {
+    if (candidate) {
+      const parsed = new Date(candidate);
+      if (!isNaN(parsed.getTime())) {
+        return parsed;
+      }
+    }
+  }
+
+  return new Date();
+}
+
+/**
+ * Create or update a transaction from a webhook event, enforcing the lifecycle.
+ * The update is conditional on the status read, so a concurrent event is
+ * re-evaluated instead of overwritten.
+ */
+export async function applyTransactionEvent(
+  db: Prisma.TransactionClient,
+  input: TransactionEventInput
+): Promise<TransactionEventResult> {
+  const { create, update, eventTime, eventType, rawStatus, parentReferences, source } = input;
+
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    const existing = await db.transaction.findUnique({ where: { externalId: create.externalId } });
+
+    if (!existing) {
+      try {
+        const created = await db.transaction.create({
+          data: { ...create, statusEventTime: eventTime },
+        });
+        const transaction = await linkToParent(db, created, parentReferences);
+        await adoptOrphans(db, transaction);
+        await recordStatusChange(db, {
+          transactionId: transaction.id,
+          toStatus: transaction.status,
+          rawStatus,
+          eventType,
+          webhookEventId: create.webhookEventId,
+          eventTime,
+          source,
+        });
+        return { transaction, outcome: 'CREATED' };
+      } catch (error) {
+        if ((error as { code?: string }).code === 'P2002') {
+          continue; // Created concurrently; evaluate against it
+        }
+        throw error;
+      }
+    }
+
+    const decision = evaluateTransition(
+      existing.transactionType,
+      existing.status,
+      existing.statusEventTime,
+      create.status,
+      eventTime
+    );
+
+    if (decision.outcome === 'STALE') {
+      console.log(`Ignoring stale status for transaction ${existing.externalId}: ${decision.reason}`);
+      return { transaction: existing, ...decision };
+    }
+
+    if (decision.outcome === 'ILLEGAL') {
+      await recordAnomaly(db, existing, create, eventTime, eventType, decision.reason);
+      return { transaction: existing, ...decision };
+    }
+
+    const updated = await db.transaction.updateMany({
+      where: { id: existing.id, status: existing.status, statusEventTime: existing.statusEventTime },
+      data: { ...update, status: create.status, statusEventTime: eventTime },
+    });
+
+    if (updated.count > 0) {
+      if (existing.status !== create.status) {
+        await recordStatusChange(db, {
+          transactionId: existing.id,
+          fromStatus: existing.status,
+          toStatus: create.status,
+          rawStatus,
+          eventType,
+          webhookEventId: create.webhookEventId,
+          eventTime,
+          source,
+        });
+      }
+      const transaction = await db.transaction.findUniqueOrThrow({ where: { id: existing.id } });
+      return { transaction: await linkToParent(db, transaction, parentReferences), outcome: 'APPLIED' };
+    }
+  }
+
+  throw new Error(`Transaction ${create.externalId} kept changing concurrently, giving up after ${MAX_WRITE_ATTEMPTS} attempts`);
+}
+
+// Append a status change to the transaction's timeline
+export async function recordStatusChange(
+  db: Prisma.TransactionClient,
+  change: {
+    transactionId: string;
+    fromStatus?: string;
+    toStatus: string;
+    rawStatus?: string;
+    eventType?: string;
+    webhookEventId?: string | null;
+    eventTime: Date;
+    source?: string;
+  }
+): Promise<void> {
+  await db.transactionStatusHistory.create({ data: change });
+}
+
+async function recordAnomaly(
+  db: Prisma.TransactionClient,
+  existing: Transaction,
+  create: Prisma.TransactionUncheckedCreateInput,
+  eventTime: Date,
+  eventType?: string,
+  reason?: string
+): Promise<void> {
+  console.warn(`Illegal status transition for transaction ${existing.externalId}: ${reason}`);
+
+  await db.transactionAnomaly.create({
+    data: {
+      transactionId: existing.id,
+      externalId: existing.externalId,
+      transactionType: existing.transactionType,
+      fromStatus: existing.status,
+      toStatus: create.status,
+      eventType,
+      eventTime,
+      webhookEventId: create.webhookEventId,
+    },
+  });
+
+  await db.alert.create({
+    data: {
+      type: 'WARNING',
+      title: 'Illegal Transaction Status Transition',
+      message: `${reason} (transaction ${existing.externalId})`,
+      source: 'transaction-lifecycle',
+      metadata: {
+        transactionId: existing.id,
+        externalId: existing.externalId,
+        eventType: eventType || null,
+        eventTime: eventTime.toISOString(),
+      },
+    },
+  });
+}
@@ -0,0 +1,156 @@
+import { Prisma, Transaction } from '@prisma/client';
+
+/**
+ * TRANSACTION LINKING
+ *
+ * Refunds and chargebacks arrive as their own transactions. They are linked
+ * to the payment they reverse by, in order of preference:
+ * 1. The settlement/payment id in the payload or its links
+ * 2. A unique payment with the same merchantRefNum
+ * Children that arrive before their payment are adopted when it is created.
+ */
+
+export const CHILD_TRANSACTION_TYPES = ['REFUND', 'CHARGEBACK'];
+
+// Link relations that point at the original payment
+const PARENT_LINK_RELS = ['settlement', 'settlements', 'payment', 'payments', 'original_transaction', 'parent'];
+
+export type RefundState = 'NONE' | 'PARTIAL' | 'FULL';
+
+export interface RefundSummary {
+  capturedAmount: number;
+  refundedAmount: number;
+  chargebackAmount: number;
+  netCapturedAmount: number;
+  refundState: RefundState;
+}
+
+interface ParentReferencePayload {
+  eventData?: {
+    settlementId?: string;
+    paymentId?: string;
+    originalTransactionId?: string;
+  };
+  links?: Array<{ rel: string; href: string }>;
+}
+
+// Candidate parent ids from a refund/chargeback payload, most specific first
+export function extractParentReferences(payload: ParentReferencePayload): string[] {
+  const references = [
+    payload.eventData?.originalTransactionId,
+    payload.eventData?.settlementId,
+    payload.eventData?.paymentId,
+  ];
+
+  payload.links?.forEach(link => {
+    if (PARENT_LINK_RELS.includes(link.rel?.toLowerCase())) {
+      const segment = link.href?.split('?')[0].split('/').filter(Boolean).pop();
+      references.push(segment);
+    }
+  });
+
+  return [...new Set(references.filter((reference): reference is string => !!reference))];
+}
+
+/**
+ * Point a refund/chargeback at its payment. Returns the transaction unchanged
+ * when it is not a child type, is already linked, or no parent matches yet.
+ */
+export async function linkToParent(
+  db: Prisma.TransactionClient,
+  transaction: Transaction,
+  parentReferences: string[] = []
+): Promise<Transaction> {
+  if (!CHILD_TRANSACTION_TYPES.includes(transaction.transactionType) || transaction.parentTransactionId) {
+    return transaction;
+  }
+
+  let parent = parentReferences.length > 0
+    ? await db.transaction.findFirst({
+        where: { externalId: { in: parentReferences }, transactionType: 'PAYMENT' },
+        select: { id: true },
+      })
+    : null;
+
+  if (!parent) {
+    const candidates = await db.transaction.findMany({
+      where: {
+        merchantRefNum: transaction.merchantRefNum,
+        transactionType: 'PAYMENT',
+        ...(transaction.companyId && { companyId: transaction.companyId }),
+      },
+      select: { id: true },
+      take: 2,
+    });
+    parent = candidates.length === 1 ? candidates[0] : null; // Ambiguous references are left unlinked
+  }
+
+  if (!parent && parentReferences.length === 0) {
+    return transaction;
+  }
+
+  return db.transaction.update({
+    where: { id: transaction.id },
+    data: {
+      parentTransactionId: parent?.id,
+      parentExternalId: transaction.parentExternalId || parentReferences[0],
+    },
+  });
+}
+
+// Link refunds/chargebacks that arrived before this payment
+export async function adoptOrphans(db: Prisma.TransactionClient, payment: Transaction): Promise<number> {
+  if (payment.transactionType !== 'PAYMENT') {
+    return 0;
+  }
+
+  const sameReference = await db.transaction.count({
+    where: { merchantRefNum: payment.merchantRefNum, transactionType: 'PAYMENT' },
+  });
+
+  const adopted = await db.transaction.updateMany({
+    where: {
+      parentTransactionId: null,
+      transactionType: { in: CHILD_TRANSACTION_TYPES },
+      OR: [
+        { parentExternalId: payment.externalId },
+        ...(sameReference === 1 ? [{ merchantRefNum: payment.merchantRefNum }] : []),
+      ],
+    },
+    data: { parentTransactionId: payment.id },
+  });
+
+  if (adopted.count > 0) {
+    console.log(`Linked ${adopted.count} earlier refund/chargeback transaction(s) to payment ${payment.externalId}`);
+  }
+  return adopted.count;
+}
+
+/**
+ * Net captured amount of a payment after completed refunds and upheld chargebacks.
+ * Returns null for transactions that are not payments.
+ */
+export function summarizeRefunds(
+  payment: Pick<Transaction, 'amount' | 'status' | 'transactionType'>,
+  children: Array<Pick<Transaction, 'amount' | 'status' | 'transactionType'>>
+): RefundSummary | null {
+  if (payment.transactionType !== 'PAYMENT') {
+    return null;
+  }
+
+  const sum = (type: string) => children
+    .filter(child => child.transactionType === type && child.status === 'COMPLETED')
+    .reduce((total, child) => total + child.amount, 0);
+
+  const capturedAmount = payment.status === 'COMPLETED' ? payment.amount : 0;
+  const refundedAmount = sum('REFUND');
+  const chargebackAmount = sum('CHARGEBACK');
+
+  return {
+    capturedAmount,
+    refundedAmount,
+    chargebackAmount,
+    netCapturedAmount: Math.round((capturedAmount - refundedAmount - chargebackAmount) * 100) / 100,
+    refundState: refundedAmount <= 0 ? 'NONE' : refundedAmount >= capturedAmount ? 'FULL' : 'PARTIAL',
+  };
+}
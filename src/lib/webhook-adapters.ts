@@ -0,0 +1,463 @@
+import { DataMode, WebhookEvent, WebhookPayload } from '@/types/webhook';
+import type { WebhookSourceAdapter } from '@/lib/webhook-pipeline';
+import {
+  upsertAccount,
+  recordAccountStatusHistory,
+  createAlert,
+} from '@/lib/database-serverless';
+import { parseDataMode } from '@/lib/data-mode';
+
+/**
+ * WEBHOOK SOURCE ADAPTERS
+ *
+ * One adapter per Paysafe product feed. Each adapter turns the feed's raw
+ * payload into a standard WebhookPayload and optionally dispatches
+ * source-specific processing once the event has been persisted.
+ */
+
+// ---------------------------------------------------------------------------
+// Netbanx card payments (processed asynchronously by the Bull worker)
+// ---------------------------------------------------------------------------
+
+export const netbanxAdapter: WebhookSourceAdapter<WebhookPayload> = {
+  endpoint: 'netbanx',
+  source: 'netbanx',
+  displayName: 'Netbanx',
+  errorEventType: 'WEBHOOK_ERROR',
+  delivery: 'queued',
+
+  normalize(payload, context) {
+    return {
+      providerEventId: payload.id || payload.eventData?.id,
+      eventType: context.headerEventType || payload.eventType || 'UNKNOWN',
+      payload,
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Account status (onboarding & management)
+// ---------------------------------------------------------------------------
+
+interface PaysafeAccountStatusWebhook {
+  id: string; // Unique request ID
+  resourceId: string; // Account number being updated
+  mode: 'live' | 'test'; // Event mode
+  eventDate?: string; // Timestamp of status change
+  eventType: string; // Status change type (e.g., "ACCT_ENABLED")
+  timestamp?: string;
+  payload?: {
+    partnerId?: number;
+    acctStatus?: string; // Current account status
+    accountNumber?: string;
+    creditCardId?: string; // CC ID for approved accounts
+    directDebitId?: string; // DD ID for approved accounts
+    [key: string]: unknown; // Additional fields
+  };
+  // Support for test webhook format
+  account?: {
+    id: string;
+    merchantId: string;
+    status: string;
+    creditCardId?: string;
+    directDebitId?: string;
+    businessName?: string;
+    email?: string;
+    onboardingStage?: string;
+    riskLevel?: string;
+    complianceStatus?: string;
+    [key: string]: unknown;
+  };
+  paymentMethods?: unknown;
+  statusChange?: unknown;
+  metadata?: unknown;
+}
+
+export interface AccountStatusPayload extends WebhookPayload {
+  accountId?: string;
+  merchantId?: string;
+  status?: string;
+  subStatus?: string;
+  onboardingStage?: string;
+  creditCardId?: string;
+  directDebitId?: string;
+  accountNumber?: string;
+  partnerId?: number;
+  businessName?: string;
+  businessType?: string;
+  industry?: string;
+  website?: string;
+  email?: string;
+  phone?: string;
+  riskLevel?: string;
+  complianceStatus?: string;
+  mode?: 'live' | 'test';
+  eventDate?: string;
+  timestamp?: string;
+  paymentMethods?: unknown;
+  statusChange?: unknown;
+  metadata?: unknown;
+  rawPayload?: unknown;
+}
+
+export const accountStatusAdapter: WebhookSourceAdapter<PaysafeAccountStatusWebhook, AccountStatusPayload> = {
+  endpoint: 'account-status',
+  source: 'paysafe-accounts',
+  displayName: 'Account status',
+  errorEventType: 'ACCOUNT_WEBHOOK_ERROR',
+  delivery: 'inline',
+
+  // Normalize payload - handle both Netbanx format and test format
+  normalize(payload, context) {
+    const normalizedPayload = normalizeAccountStatusPayload(payload);
+
+    return {
+      providerEventId: payload.id,
+      eventType: normalizedPayload.eventType || context.headerEventType || 'ACCOUNT_STATUS_UPDATE',
+      payload: normalizedPayload,
+    };
+  },
+
+  async dispatch(event) {
+    await processAccountStatusUpdate(event.payload as AccountStatusPayload, event.id, event.companyId, event.mode);
+  },
+};
+
+function normalizeAccountStatusPayload(payload: PaysafeAccountStatusWebhook): AccountStatusPayload {
+  // If it's already in test format with account field, extract that
+  if (payload.account) {
+    return {
+      id: payload.id,
+      eventType: payload.eventType,
+      accountId: payload.account.id,
+      merchantId: payload.account.merchantId,
+      status: payload.account.status,
+      creditCardId: payload.account.creditCardId,
+      directDebitId: payload.account.directDebitId,
+      businessName: payload.account.businessName,
+      email: payload.account.email,
+      onboardingStage: payload.account.onboardingStage,
+      riskLevel: payload.account.riskLevel,
+      complianceStatus: payload.account.complianceStatus,
+      timestamp: payload.timestamp,
+      paymentMethods: payload.paymentMethods,
+      statusChange: payload.statusChange,
+      metadata: payload.metadata,
+    };
+  }
+
+  // If it's Netbanx format with payload field, extract that
+  if (payload.payload) {
+    return {
+      id: payload.id,
+      eventType: payload.eventType,
+      accountId: payload.resourceId,
+      merchantId: payload.resourceId,
+      status: payload.payload.acctStatus,
+      creditCardId: payload.payload.creditCardId,
+      directDebitId: payload.payload.directDebitId,
+      accountNumber: payload.payload.accountNumber,
+      partnerId: payload.payload.partnerId,
+      mode: payload.mode,
+      eventDate: payload.eventDate,
+      rawPayload: payload.payload,
+    };
+  }
+
+  // If it's already in the expected format or unknown format, return as-is
+  return payload as unknown as AccountStatusPayload;
+}
+
+// Map a normalized account status payload to the Account upsert input
+// (also used by the reprocessing job); the mode detected at ingest wins over the payload's own field
+export function buildAccountData(normalizedPayload: AccountStatusPayload, webhookEventId?: string, companyId?: string, mode?: DataMode) {
+  const accountId = normalizedPayload.accountId as string;
+
+  return {
+    externalId: accountId,
+    merchantId: normalizedPayload.merchantId || accountId,
+    accountName: normalizedPayload.businessName || accountId,
+    businessName: normalizedPayload.businessName,
+    email: normalizedPayload.email || `${accountId}@placeholder.com`,
+    phone: normalizedPayload.phone,
+    status: normalizedPayload.status as string,
+    subStatus: normalizedPayload.subStatus,
+    onboardingStage: normalizedPayload.onboardingStage,
+    creditCardId: normalizedPayload.creditCardId,
+    directDebitId: normalizedPayload.directDebitId,
+    businessType: normalizedPayload.businessType,
+    industry: normalizedPayload.industry,
+    website: normalizedPayload.website,
+    riskLevel: normalizedPayload.riskLevel,
+    complianceStatus: normalizedPayload.complianceStatus,
+    metadata: {
+      eventType: normalizedPayload.eventType,
+      mode: normalizedPayload.mode,
+      eventDate: normalizedPayload.eventDate,
+      partnerId: normalizedPayload.partnerId,
+      originalPayload: normalizedPayload
+    },
+    webhookEventId,
+    companyId,
+    mode: mode || parseDataMode(normalizedPayload.mode),
+  };
+}
+
+// Process account status update with bulletproof database operations
+async function processAccountStatusUpdate(normalizedPayload: AccountStatusPayload, webhookEventId?: string, companyId?: string, mode?: DataMode) {
+  try {
+    console.log('Processing account status update:', {
+      eventType: normalizedPayload.eventType,
+      accountId: normalizedPayload.accountId,
+      merchantId: normalizedPayload.merchantId,
+      status: normalizedPayload.status,
+      creditCardId: normalizedPayload.creditCardId,
+      directDebitId: normalizedPayload.directDebitId,
+      onboardingStage: normalizedPayload.onboardingStage,
+    });
+
+    if (!normalizedPayload.accountId || !normalizedPayload.status) {
+      return;
+    }
+
+    // 1. Upsert account record
+    const account = await upsertAccount(buildAccountData(normalizedPayload, webhookEventId, companyId, mode)).catch(error => {
+      console.error('Failed to upsert account:', error);
+      return null;
+    });
+
+    // 2. Record status history if account was created/updated
+    if (account) {
+      try {
+        await recordAccountStatusHistory({
+          accountId: account.id,
+          toStatus: normalizedPayload.status,
+          subStatus: normalizedPayload.subStatus,
+          stage: normalizedPayload.onboardingStage,
+          reason: normalizedPayload.eventType,
+          description: `Status updated via webhook: ${normalizedPayload.eventType}`,
+          changedBy: 'paysafe-webhook',
+          metadata: {
+            creditCardId: normalizedPayload.creditCardId,
+            directDebitId: normalizedPayload.directDebitId,
+            eventDate: normalizedPayload.eventDate,
+            partnerId: normalizedPayload.partnerId
+          }
+        });
+      } catch (historyError) {
+        console.error('Failed to record account status history:', historyError);
+        // Don't throw - continue processing
+      }
+    }
+
+    console.log('Account status update processed successfully:', {
+      accountDatabaseId: account?.id,
+      externalId: normalizedPayload.accountId,
+      status: normalizedPayload.status,
+      creditCardId: normalizedPayload.creditCardId,
+      directDebitId: normalizedPayload.directDebitId
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error processing account status update:', error);
+
+    // Create alert for failed processing
+    await createAlert({
+      type: 'ERROR',
+      title: 'Account Status Processing Failed',
+      message: `Failed to process account status update: ${message}`,
+      metadata: {
+        accountId: normalizedPayload.accountId,
+        eventType: normalizedPayload.eventType,
+        error: message,
+        payload: normalizedPayload
+      }
+    });
+
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Direct Debit
+// ---------------------------------------------------------------------------
+
+interface DirectDebitWebhook {
+  id?: string; // Unique request ID
+  resourceId?: string; // Direct Debit transaction ID
+  mode?: 'live' | 'test'; // Event mode
+  eventDate?: string; // Timestamp of event
+  eventType?: string; // Event type (e.g., "DD_PAYMENT_COMPLETED", "DD_PAYMENT_FAILED")
+  payload?: {
+    transactionId?: string;
+    directDebitId?: string; // Direct Debit ID
+    accountNumber?: string;
+    amount?: number;
+    currency?: string;
+    status?: string;
+    merchantRefNum?: string;
+    customerId?: string;
+    mandateId?: string;
+    description?: string;
+    reason?: string; // For failures or returns
+    returnCode?: string;
+    bankAccount?: {
+      accountNumber: string;
+      sortCode: string;
+      accountHolderName: string;
+    };
+    [key: string]: unknown; // Additional fields
+  };
+}
+
+export const directDebitAdapter: WebhookSourceAdapter<DirectDebitWebhook> = {
+  endpoint: 'direct-debit',
+  source: 'paysafe-direct-debit',
+  displayName: 'Direct Debit',
+  errorEventType: 'DD_WEBHOOK_ERROR',
+  delivery: 'inline',
+
+  // Convert direct debit webhook to standard format
+  normalize(payload, context) {
+    const eventType = payload.eventType || context.headerEventType || 'DIRECT_DEBIT_UPDATE';
+
+    return {
+      providerEventId: payload.id,
+      eventType,
+      payload: {
+        id: payload.id, // Left unset when missing so idempotency falls back to the body hash
+        eventType,
+        eventData: {
+          id: payload.resourceId || payload.payload?.directDebitId,
+          merchantRefNum: payload.payload?.merchantRefNum || `DD-${Date.now()}`,
+          amount: payload.payload?.amount,
+          currencyCode: payload.payload?.currency,
+          status: payload.payload?.status,
+          txnTime: payload.eventDate || context.receivedAt,
+          paymentHandleToken: payload.payload?.mandateId,
+        },
+      },
+    };
+  },
+
+  async dispatch(event: WebhookEvent, webhook) {
+    const payload: NonNullable<DirectDebitWebhook['payload']> = webhook.payload || {};
+
+    console.log('Processing Direct Debit transaction:', {
+      eventType: event.eventType,
+      transactionId: payload.transactionId,
+      directDebitId: payload.directDebitId,
+      accountNumber: payload.accountNumber,
+      amount: payload.amount,
+      currency: payload.currency,
+      status: payload.status,
+      merchantRefNum: payload.merchantRefNum,
+      mode: webhook.mode,
+    });
+
+    // Transactions are derived from the standard payload by the persistent webhook store
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Alternate payments (digital wallets and local payment methods)
+// ---------------------------------------------------------------------------
+
+interface AlternatePaymentWebhook {
+  id: string; // Unique request ID
+  resourceId: string; // Alternate payment transaction ID
+  mode: 'live' | 'test'; // Event mode
+  eventDate: string; // Timestamp of event
+  eventType: string; // Event type (e.g., "AP_PAYMENT_COMPLETED", "AP_PAYMENT_FAILED")
+  payload: {
+    transactionId: string;
+    alternatePaymentId: string; // Alternate Payment ID
+    accountNumber: string;
+    amount: number;
+    currency: string;
+    status: string;
+    paymentMethod: string; // e.g., "PAYPAL", "APPLE_PAY", "GOOGLE_PAY", "VENMO", "SKRILL"
+    merchantRefNum?: string;
+    customerId?: string;
+    description?: string;
+    reason?: string; // For failures
+    returnUrl?: string;
+    cancelUrl?: string;
+    paymentDetails?: {
+      payerId?: string;
+      payerEmail?: string;
+      payerName?: string;
+      externalTransactionId?: string;
+      walletId?: string;
+    };
+    [key: string]: unknown; // Additional fields
+  };
+}
+
+export const alternatePaymentsAdapter: WebhookSourceAdapter<AlternatePaymentWebhook> = {
+  endpoint: 'alternate-payments',
+  source: 'paysafe-alternate-payments',
+  displayName: 'Alternate Payment',
+  errorEventType: 'AP_WEBHOOK_ERROR',
+  delivery: 'inline',
+  defaultSignaturePolicy: 'ENFORCE',
+
+  // Convert alternate payment webhook to standard format
+  normalize(payload, context) {
+    const eventType = payload.eventType || context.headerEventType || 'ALTERNATE_PAYMENT_UPDATE';
+
+    return {
+      providerEventId: payload.id,
+      eventType,
+      payload: {
+        id: payload.id,
+        eventType,
+        eventData: {
+          id: payload.resourceId || payload.payload?.alternatePaymentId,
+          merchantRefNum: payload.payload?.merchantRefNum || `AP-${Date.now()}`,
+          amount: payload.payload?.amount,
+          currencyCode: payload.payload?.currency,
+          status: payload.payload?.status,
+          txnTime: payload.eventDate || context.receivedAt,
+          paymentHandleToken: payload.payload?.alternatePaymentId,
+          card: {
+            type: payload.payload?.paymentMethod,
+            holderName: payload.payload?.paymentDetails?.payerName,
+          },
+        },
+      },
+    };
+  },
+
+  async dispatch(event: WebhookEvent, webhook) {
+    const { payload } = webhook;
+    if (!payload) {
+      console.warn(`Alternate payment event ${event.id} has no payload, nothing to process`);
+      return;
+    }
+
+    console.log('Processing Alternate Payment transaction:', {
+      eventType: event.eventType,
+      transactionId: payload.transactionId,
+      alternatePaymentId: payload.alternatePaymentId,
+      accountNumber: payload.accountNumber,
+      amount: payload.amount,
+      currency: payload.currency,
+      status: payload.status,
+      paymentMethod: payload.paymentMethod,
+      merchantRefNum: payload.merchantRefNum,
+      mode: webhook.mode,
+    });
+
+    // Transactions are derived from the standard payload by the persistent webhook store
+  },
+};
+
+// All adapters, in pipeline registration order
+export const webhookAdapters: WebhookSourceAdapter[] = [
+  netbanxAdapter,
+  accountStatusAdapter,
+  directDebitAdapter,
+  alternatePaymentsAdapter,
+];
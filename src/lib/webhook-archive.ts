@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { promises as fs } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { withDatabase } from '@/lib/database';
+
+/**
+ * RAW WEBHOOK ARCHIVE
+ *
+ * webhook_events only keeps the parsed payload. To investigate signature
+ * disputes the exact request bytes and headers are archived as well:
+ * - One NDJSON record per inbound request, body base64-encoded so the bytes
+ *   are kept exactly as received
+ * - Files are partitioned by UTC date and hour, one file per endpoint and
+ *   process (so appends never interleave)
+ * - Every record is its own gzip member; the file is a valid .ndjson.gz and a
+ *   single record can be read back from its offset without inflating the rest
+ * - webhook_archive_entries indexes the records by webhook event id
+ *
+ * Archiving never fails a webhook: errors are logged and the request proceeds.
+ */
+
+export interface ArchiveStorage {
+  readonly name: string;
+  // Appends and returns where the data starts
+  append(key: string, data: Buffer): Promise<{ offset: number; length: number }>;
+  read(key: string, offset: number, length: number): Promise<Buffer>;
+  // Date partitions ("YYYY/MM/DD") that hold files
+  listPartitions(): Promise<string[]>;
+  deletePartition(partition: string): Promise<void>;
+}
+
+export interface RawWebhookRequest {
+  endpoint: string;
+  method: string;
+  url: string;
+  receivedAt: string;
+  headers: Record<string, string>;
+  body: Buffer;
+  ipAddress?: string;
+  responseStatus: number;
+  webhookEventId?: string;
+}
+
+export interface ArchivedWebhookRequest {
+  id: string;
+  endpoint: string;
+  method: string;
+  url: string;
+  receivedAt: string;
+  headers: Record<string, string>;
+  body: string;       // UTF-8 view of the body
+  bodyBase64: string; // Exact bytes
+  bodySha256: string;
+  ipAddress?: string;
+  responseStatus: number;
+  webhookEventId?: string;
+}
+
+/**
+ * Default backend: files under WEBHOOK_ARCHIVE_DIR (storage/webhook-archive)
+ */
+export class LocalArchiveStorage implements ArchiveStorage {
+  readonly name = 'local';
+  private writes = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly rootDir: string) {}
+
+  async append(key: string, data: Buffer): Promise<{ offset: number; length: number }> {
+    // Serialize appends per file so each record's offset is the size before it
+    const previous = this.writes.get(key) || Promise.resolve();
+    const write = previous.catch(() => undefined).then(async () => {
+      const filePath = this.resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const offset = await fs.stat(filePath).then(stat => stat.size, () => 0);
+      await fs.appendFile(filePath, data);
+      return { offset, length: data.length };
+    });
+
+    this.writes.set(key, write);
+    try {
+      return await write;
+    } finally {
+      if (this.writes.get(key) === write) {
+        this.writes.delete(key);
+      }
+    }
+  }
+
+  async read(key: string, offset: number, length: number): Promise<Buffer> {
+    const handle = await fs.open(this.resolve(key), 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async listPartitions(): Promise<string[]> {
+    const partitions: string[] = [];
+    for (const year of await this.listDirs(this.rootDir)) {
+      for (const month of await this.listDirs(path.join(this.rootDir, year))) {
+        for (const day of await this.listDirs(path.join(this.rootDir, year, month))) {
+          partitions.push(`${year}/${month}/${day}`);
+        }
+      }
+    }
+    return partitions;
+  }
+
+  async deletePartition(partition: string): Promise<void> {
+    await fs.rm(this.resolve(partition), { recursive: true, force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Archive key escapes the archive directory: ${key}`);
+    }
+    return filePath;
+  }
+
+  private async listDirs(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    return entries.filter(entry => entry.isDirectory() && /^\d+$/.test(entry.name)).map(entry => entry.name).sort();
+  }
+}
+
+export class WebhookArchive {
+  private storage: ArchiveStorage = new LocalArchiveStorage(
+    process.env.WEBHOOK_ARCHIVE_DIR || path.join(process.cwd(), 'storage', 'webhook-archive')
+  );
+  private readonly enabled = process.env.WEBHOOK_ARCHIVE_ENABLED !== 'false';
+  private readonly retentionDays = parseInt(process.env.WEBHOOK_ARCHIVE_RETENTION_DAYS || '90');
+  private readonly instanceId = `${os.hostname()}-${process.pid}`.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+  // Swap the backend (e.g. object storage); entries keep the backend name they were written with
+  useStorage(storage: ArchiveStorage): this {
+    this.storage = storage;
+    return this;
+  }
+
+  /**
+   * Archive one inbound request. Returns the archive entry id, or null when
+   * archiving is disabled or failed.
+   */
+  async archive(request: RawWebhookRequest): Promise<string | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const id = uuidv4();
+    const bodySha256 = crypto.createHash('sha256').update(request.body).digest('hex');
+    const record = {
+      id,
+      endpoint: request.endpoint,
+      method: request.method,
+      url: request.url,
+      receivedAt: request.receivedAt,
+      headers: request.headers,
+      bodyBase64: request.body.toString('base64'),
+      bodySha256,
+      ipAddress: request.ipAddress,
+      responseStatus: request.responseStatus,
+      webhookEventId: request.webhookEventId,
+    };
+
+    try {
+      const storageKey = this.partitionKey(request.endpoint, new Date(request.receivedAt));
+      const member = zlib.gzipSync(Buffer.from(JSON.stringify(record) + '\n'));
+      const { offset, length } = await this.storage.append(storageKey, member);
+
+      await withDatabase(async (db) => {
+        await db.webhookArchiveEntry.create({
+          data: {
+            id,
+            endpoint: request.endpoint,
+            receivedAt: new Date(request.receivedAt),
+            webhookEventId: request.webhookEventId || null,
+            responseStatus: request.responseStatus,
+            storage: this.storage.name,
+            storageKey,
+            byteOffset: offset,
+            byteLength: length,
+            bodySha256,
+            bodyBytes: request.body.length,
+          },
+        });
+      }, {
+        timeout: 5000,
+        operationName: 'webhook_archive_index',
+        retries: 1
+      });
+
+      return id;
+    } catch (error) {
+      console.error(`Failed to archive raw ${request.endpoint} webhook request:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Every archived request that produced the event (the first delivery and
+   * any redeliveries), oldest first
+   */
+  async getEntriesForEvent(webhookEventId: string): Promise<ArchivedWebhookRequest[]> {
+    const entries = await withDatabase(async (db) => {
+      return await db.webhookArchiveEntry.findMany({
+        where: { webhookEventId },
+        orderBy: { receivedAt: 'asc' },
+      });
+    }, { operationName: 'get_webhook_archive_entries' });
+
+    return Promise.all(entries.map(entry => this.readEntry(entry)));
+  }
+
+  async getEntry(id: string): Promise<ArchivedWebhookRequest | null> {
+    const entry = await withDatabase(async (db) => {
+      return await db.webhookArchiveEntry.findUnique({ where: { id } });
+    }, { operationName: 'get_webhook_archive_entry' });
+
+    return entry ? this.readEntry(entry) : null;
+  }
+
+  /**
+   * Drop date partitions and index rows older than the retention window
+   */
+  async cleanupExpired(): Promise<{ partitions: number; entries: number }> {
+    const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+    const cutoffPartition = this.datePartition(cutoff);
+
+    let partitions = 0;
+    for (const partition of await this.storage.listPartitions()) {
+      if (partition < cutoffPartition) {
+        await this.storage.deletePartition(partition);
+        partitions++;
+      }
+    }
+
+    const { count } = await withDatabase(async (db) => {
+      return await db.webhookArchiveEntry.deleteMany({
+        where: { receivedAt: { lt: new Date(`${cutoffPartition.replace(/\//g, '-')}T00:00:00.000Z`) } },
+      });
+    }, {
+      timeout: 10000,
+      operationName: 'webhook_archive_cleanup',
+      retries: 1
+    });
+
+    return { partitions, entries: count };
+  }
+
+  private async readEntry(entry: {
+    storage: string;
+    storageKey: string;
+    byteOffset: number;
+    byteLength: number;
+  }): Promise<ArchivedWebhookRequest> {
+    if (entry.storage !== this.storage.name) {
+      throw new Error(`Archive entry is on the "${entry.storage}" backend, but "${this.storage.name}" is configured`);
+    }
+
+    const member = await this.storage.read(entry.storageKey, entry.byteOffset, entry.byteLength);
+    const record = JSON.parse(zlib.gunzipSync(member).toString('utf8'));
+    const body = Buffer.from(record.bodyBase64, 'base64');
+
+    return {
+      ...record,
+      body: body.toString('utf8'),
+    };
+  }
+
+  private datePartition(date: Date): string {
+    return date.toISOString().slice(0, 10).replace(/-/g, '/');
+  }
+
+  private partitionKey(endpoint: string, receivedAt: Date): string {
+    const hour = receivedAt.toISOString().slice(11, 13);
+    const safeEndpoint = endpoint.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return `${this.datePartition(receivedAt)}/${hour}/${safeEndpoint}.${this.instanceId}.ndjson.gz`;
+  }
+}
+
+export const webhookArchive = new WebhookArchive();
@@ -0,0 +1,385 @@
+import Queue from 'bull';
+import { Prisma } from '@prisma/client';
+import { withDatabase, bullRedisOptions } from '@/lib/database';
+import { createAlert } from '@/lib/database-serverless';
+import { encryptSecret, decryptSecret } from '@/lib/encryption';
+import { generateSigningSecret, retryDelayMs, sendOutboundWebhook, OutboundResult } from '@/lib/outbound-webhook';
+import { WebhookEvent } from '@/types/webhook';
+
+/**
+ * OUTBOUND WEBHOOK FORWARDING
+ *
+ * Re-delivers normalized webhook events to each company's own
+ * webhookEndpoint once they have been persisted:
+ * - Only events routed to a company are forwarded; quarantined and filtered events never are
+ * - Companies pick the event types they receive (none selected = all)
+ * - Every attempt is logged with status code, latency and a response snippet
+ * - Failed deliveries retry with exponential backoff; the final failure raises an alert
+ * - Manual redelivery makes one immediate attempt against the current endpoint
+ */
+
+export type DeliveryStatus = 'PENDING' | 'RETRYING' | 'SUCCEEDED' | 'FAILED';
+
+export interface ForwardingSettings {
+  webhookEndpoint: string | null;
+  eventTypes: string[];
+  hasSigningSecret: boolean;
+}
+
+export interface ForwardingSettingsUpdate {
+  webhookEndpoint?: string | null;
+  eventTypes?: string[];
+  rotateSecret?: boolean;
+}
+
+interface ForwardingJob {
+  deliveryId: string;
+}
+
+interface CompanyForwardingConfig {
+  endpoint: string;
+  eventTypes: string[];
+}
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_FORWARD_MAX_ATTEMPTS || '6', 10);
+const BACKOFF_DELAY_MS = parseInt(process.env.WEBHOOK_FORWARD_BACKOFF_MS || '30000', 10);
+const CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+export const forwardingQueue = new Queue<ForwardingJob>('webhook forwarding', {
+  redis: bullRedisOptions,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 100,
+    attempts: MAX_ATTEMPTS,
+    backoff: {
+      type: 'exponential',
+      delay: BACKOFF_DELAY_MS,
+    },
+  },
+});
+
+export class WebhookForwarder {
+  private configCache = new Map<string, { config: CompanyForwardingConfig | null; expiresAt: number }>();
+
+  /**
+   * Create a delivery for a persisted event and queue its first attempt.
+   * Never throws: forwarding must not fail ingestion.
+   */
+  async enqueueForEvent(event: WebhookEvent): Promise<void> {
+    if (!event.companyId || event.quarantined || event.filterReason) {
+      return;
+    }
+
+    try {
+      const config = await this.getConfig(event.companyId);
+      if (!config) {
+        return;
+      }
+      if (config.eventTypes.length > 0 && !config.eventTypes.includes(event.eventType)) {
+        return;
+      }
+
+      const delivery = await withDatabase(async (db) => {
+        try {
+          return await db.webhookDelivery.create({
+            data: {
+              companyId: event.companyId!,
+              webhookEventId: event.id,
+              eventType: event.eventType,
+              url: config.endpoint,
+              payload: this.buildBody(event) as unknown as Prisma.InputJsonValue,
+            },
+            select: { id: true },
+          });
+        } catch (error) {
+          // A redelivered inbound event (queue retry, reprocessing) is forwarded once
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return null;
+          }
+          throw error;
+        }
+      }, { operationName: 'create_webhook_delivery' });
+
+      if (delivery) {
+        await forwardingQueue.add({ deliveryId: delivery.id }, { jobId: delivery.id });
+      }
+    } catch (error) {
+      console.error(`Failed to queue forwarding for webhook ${event.id}:`, error);
+    }
+  }
+
+  // Bull worker entry point; throwing hands the job back to Bull for the next backoff step
+  async processJob(deliveryId: string, attemptsMade: number): Promise<void> {
+    const result = await this.attempt(deliveryId, { manual: false, attemptsMade });
+    if (result && !result.success) {
+      throw new Error(result.error || 'Delivery failed');
+    }
+  }
+
+  async redeliver(deliveryId: string, companyId: string): Promise<OutboundResult | null> {
+    const delivery = await withDatabase(async (db) => {
+      return await db.webhookDelivery.findFirst({ where: { id: deliveryId, companyId }, select: { id: true } });
+    }, { operationName: 'find_webhook_delivery' });
+
+    if (!delivery) {
+      return null;
+    }
+
+    const result = await this.attempt(deliveryId, { manual: true, attemptsMade: 0 });
+    if (!result) {
+      throw new Error('Company has no webhook endpoint or signing secret configured');
+    }
+    return result;
+  }
+
+  async listDeliveries(
+    companyId: string,
+    options: { status?: DeliveryStatus; eventType?: string; limit?: number; offset?: number } = {}
+  ) {
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      companyId,
+      ...(options.status && { status: options.status }),
+      ...(options.eventType && { eventType: options.eventType }),
+    };
+
+    return await withDatabase(async (db) => {
+      const [deliveries, total] = await Promise.all([
+        db.webhookDelivery.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          take: Math.min(options.limit || 50, 200),
+          skip: options.offset || 0,
+          select: {
+            id: true,
+            webhookEventId: true,
+            eventType: true,
+            url: true,
+            status: true,
+            attemptCount: true,
+            lastStatusCode: true,
+            lastError: true,
+            nextAttemptAt: true,
+            deliveredAt: true,
+            createdAt: true,
+          },
+        }),
+        db.webhookDelivery.count({ where }),
+      ]);
+      return { deliveries, total };
+    }, { operationName: 'list_webhook_deliveries' });
+  }
+
+  async getDelivery(deliveryId: string, companyId: string) {
+    return await withDatabase(async (db) => {
+      return await db.webhookDelivery.findFirst({
+        where: { id: deliveryId, companyId },
+        include: { attempts: { orderBy: { attemptedAt: 'desc' } } },
+      });
+    }, { operationName: 'get_webhook_delivery' });
+  }
+
+  async getSettings(companyId: string): Promise<ForwardingSettings | null> {
+    const company = await withDatabase(async (db) => {
+      return await db.company.findUnique({
+        where: { id: companyId },
+        select: { webhookEndpoint: true, webhookEventTypes: true, webhookSigningSecret: true },
+      });
+    }, { operationName: 'get_webhook_forwarding_settings' });
+
+    return company ? this.toSettings(company) : null;
+  }
+
+  /**
+   * Update endpoint / event types. A signing secret is issued the first time
+   * an endpoint is set, or on rotation; the plaintext is only returned here.
+   */
+  async updateSettings(
+    companyId: string,
+    update: ForwardingSettingsUpdate
+  ): Promise<{ settings: ForwardingSettings; signingSecret: string | null } | null> {
+    const result = await withDatabase(async (db) => {
+      const existing = await db.company.findUnique({
+        where: { id: companyId },
+        select: { webhookSigningSecret: true },
+      });
+      if (!existing) {
+        return null;
+      }
+
+      const needsSecret = update.rotateSecret === true || (!!update.webhookEndpoint && !existing.webhookSigningSecret);
+      const signingSecret = needsSecret ? generateSigningSecret() : null;
+
+      const company = await db.company.update({
+        where: { id: companyId },
+        data: {
+          ...(update.webhookEndpoint !== undefined && { webhookEndpoint: update.webhookEndpoint || null }),
+          ...(update.eventTypes !== undefined && { webhookEventTypes: update.eventTypes }),
+          ...(signingSecret && { webhookSigningSecret: encryptSecret(signingSecret) }),
+        },
+        select: { webhookEndpoint: true, webhookEventTypes: true, webhookSigningSecret: true },
+      });
+
+      return { settings: this.toSettings(company), signingSecret };
+    }, { operationName: 'update_webhook_forwarding_settings' });
+
+    this.configCache.delete(companyId);
+    return result;
+  }
+
+  async getKnownEventTypes(): Promise<string[]> {
+    const rows = await withDatabase(async (db) => {
+      return await db.webhookEvent.findMany({
+        distinct: ['eventType'],
+        select: { eventType: true },
+        orderBy: { eventType: 'asc' },
+        take: 200,
+      });
+    }, { operationName: 'list_forwarding_event_types' });
+
+    return rows.map(row => row.eventType);
+  }
+
+  // One attempt against the company's current endpoint; null when forwarding is not configured
+  private async attempt(
+    deliveryId: string,
+    options: { manual: boolean; attemptsMade: number }
+  ): Promise<OutboundResult | null> {
+    const target = await withDatabase(async (db) => {
+      return await db.webhookDelivery.findUnique({
+        where: { id: deliveryId },
+        select: {
+          id: true,
+          eventType: true,
+          payload: true,
+          status: true,
+          attemptCount: true,
+          company: { select: { id: true, name: true, webhookEndpoint: true, webhookSigningSecret: true } },
+        },
+      });
+    }, { operationName: 'load_webhook_delivery' });
+
+    if (!target) {
+      console.warn(`Webhook delivery ${deliveryId} no longer exists`);
+      return null;
+    }
+
+    // Already delivered by a manual redelivery while this retry was waiting
+    if (!options.manual && target.status === 'SUCCEEDED') {
+      return null;
+    }
+
+    const { company } = target;
+    if (!company.webhookEndpoint || !company.webhookSigningSecret) {
+      await withDatabase(async (db) => {
+        await db.webhookDelivery.update({
+          where: { id: deliveryId },
+          data: { status: 'FAILED', lastError: 'Forwarding is not configured', nextAttemptAt: null },
+        });
+      }, { operationName: 'fail_unconfigured_webhook_delivery' });
+      return null;
+    }
+
+    const result = await sendOutboundWebhook({
+      url: company.webhookEndpoint,
+      body: JSON.stringify(target.payload),
+      secret: decryptSecret(company.webhookSigningSecret),
+      deliveryId,
+      eventType: target.eventType,
+    });
+
+    const attempt = target.attemptCount + 1;
+    const retriesLeft = !options.manual && options.attemptsMade + 1 < MAX_ATTEMPTS;
+    const status: DeliveryStatus = result.success ? 'SUCCEEDED' : retriesLeft ? 'RETRYING' : 'FAILED';
+
+    await withDatabase(async (db) => {
+      await db.$transaction([
+        db.webhookDeliveryAttempt.create({
+          data: {
+            deliveryId,
+            attempt,
+            statusCode: result.statusCode,
+            latencyMs: result.latencyMs,
+            responseSnippet: result.responseSnippet,
+            error: result.error,
+            manual: options.manual,
+          },
+        }),
+        db.webhookDelivery.update({
+          where: { id: deliveryId },
+          data: {
+            url: company.webhookEndpoint!,
+            status,
+            attemptCount: attempt,
+            lastStatusCode: result.statusCode,
+            lastError: result.error,
+            nextAttemptAt: status === 'RETRYING'
+              ? new Date(Date.now() + retryDelayMs(BACKOFF_DELAY_MS, options.attemptsMade + 1))
+              : null,
+            ...(result.success && { deliveredAt: new Date() }),
+          },
+        }),
+      ]);
+    }, { operationName: 'record_webhook_delivery_attempt' });
+
+    if (status === 'FAILED' && !options.manual) {
+      await createAlert({
+        type: 'WARNING',
+        title: 'Webhook forwarding failed',
+        message: `Delivery of ${target.eventType} to ${company.name} failed after ${attempt} attempts: ${result.error}`,
+        source: 'webhook-forwarder',
+        metadata: { deliveryId, companyId: company.id, url: company.webhookEndpoint, statusCode: result.statusCode },
+      });
+    }
+
+    return result;
+  }
+
+  private async getConfig(companyId: string): Promise<CompanyForwardingConfig | null> {
+    const cached = this.configCache.get(companyId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.config;
+    }
+
+    const company = await withDatabase(async (db) => {
+      return await db.company.findUnique({
+        where: { id: companyId },
+        select: { isActive: true, webhookEndpoint: true, webhookEventTypes: true, webhookSigningSecret: true },
+      });
+    }, { operationName: 'get_company_forwarding_config' });
+
+    const config = company?.isActive && company.webhookEndpoint && company.webhookSigningSecret
+      ? { endpoint: company.webhookEndpoint, eventTypes: company.webhookEventTypes }
+      : null;
+
+    this.configCache.set(companyId, { config, expiresAt: Date.now() + CONFIG_CACHE_TTL_MS });
+    return config;
+  }
+
+  private buildBody(event: WebhookEvent) {
+    return {
+      id: event.id,
+      eventType: event.eventType,
+      source: event.source,
+      timestamp: event.timestamp,
+      data: event.payload,
+    };
+  }
+
+  private toSettings(company: {
+    webhookEndpoint: string | null;
+    webhookEventTypes: string[];
+    webhookSigningSecret: string | null;
+  }): ForwardingSettings {
+    return {
+      webhookEndpoint: company.webhookEndpoint,
+      eventTypes: company.webhookEventTypes,
+      hasSigningSecret: !!company.webhookSigningSecret,
+    };
+  }
+}
+
+export const webhookForwarder = new WebhookForwarder();
+
+forwardingQueue.process(5, async (job) => {
+  await webhookForwarder.processJob(job.data.deliveryId, job.attemptsMade);
+});
@@ -0,0 +1,317 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { RedisConnectionManager } from '@/lib/redis-config';
+import { withDatabase } from '@/lib/database';
+import { WebhookEvent } from '@/types/webhook';
+
+/**
+ * WEBHOOK IDEMPOTENCY
+ *
+ * An event is a duplicate only when the same event is delivered again: same
+ * source, payload id, event type and event timestamp. Different events about
+ * the same payment (PENDING then COMPLETED) are distinct and both processed.
+ *
+ * - The webhook_idempotency_keys unique key is the source of truth
+ * - Redis caches claimed keys so repeat deliveries skip the database; when
+ *   Redis is down every claim goes to the database instead of letting
+ *   duplicates through
+ * - Ingest treats any existing claim as a duplicate; the queue worker accepts the
+ *   claim its own event made at ingest (job retry, dead-letter retry)
+ * - Every suppressed duplicate is written to webhook_duplicates for audit
+ */
+
+export type DuplicateDetection = 'REDIS' | 'DATABASE';
+export type DuplicateStage = 'INGEST' | 'WORKER';
+
+export interface EventIdentity {
+  key: string;
+  source: string;
+  payloadId: string;
+  eventType: string;
+  eventTime: string | null;
+}
+
+export interface ClaimOptions {
+  stage: DuplicateStage;
+  raw?: unknown; // Inbound payload, for the event timestamp when normalization dropped it
+  signature?: string;
+  ipAddress?: string;
+}
+
+export type ClaimResult =
+  | { duplicate: false; key: string }
+  | { duplicate: true; key: string; originalEventId: string; detectedBy: DuplicateDetection };
+
+export interface DuplicateFilter {
+  source?: string;
+  eventType?: string;
+  companyId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+function readString(value: unknown, path: string[]): string | undefined {
+  let current: unknown = value;
+  for (const key of path) {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return typeof current === 'string' && current ? current : undefined;
+}
+
+export class WebhookIdempotency {
+  private readonly REDIS_KEY_PREFIX = 'webhook_idem:';
+  private readonly redisTtlSeconds = parseInt(process.env.WEBHOOK_IDEMPOTENCY_REDIS_TTL_SECONDS || '86400');
+  private readonly retentionDays = parseInt(process.env.WEBHOOK_IDEMPOTENCY_RETENTION_DAYS || '30');
+
+  /**
+   * Event identity: payload id + event type + event timestamp (same precedence
+   * as resolveEventTime). When the id or timestamp is missing the body hash
+   * stands in, so only byte-identical redeliveries collapse.
+   */
+  identify(event: WebhookEvent, raw?: unknown): EventIdentity {
+    const payloadId = event.payload.id || event.payload.eventData?.id || readString(raw, ['id']) || '';
+    const eventTime =
+      event.payload.eventData?.updatedTime ||
+      readString(raw, ['eventData', 'updatedTime']) ||
+      readString(raw, ['eventDate']) ||
+      readString(event.payload, ['eventDate']) ||
+      event.payload.eventData?.txnTime ||
+      readString(raw, ['eventData', 'txnTime']) ||
+      null;
+
+    const parts = [event.source, payloadId, event.eventType, eventTime || ''];
+    if (!payloadId || !eventTime) {
+      parts.push(crypto.createHash('sha256').update(JSON.stringify(raw ?? event.payload)).digest('hex'));
+    }
+
+    return {
+      key: crypto.createHash('sha256').update(parts.join('|')).digest('hex'),
+      source: event.source,
+      payloadId,
+      eventType: event.eventType,
+      eventTime,
+    };
+  }
+
+  /**
+   * Claim the event's identity for this webhook event id. Throws when the
+   * database is unavailable: refusing the delivery lets the sender retry,
+   * where guessing would either drop or double-process it.
+   */
+  async claim(event: WebhookEvent, options: ClaimOptions): Promise<ClaimResult> {
+    const identity = this.identify(event, options.raw);
+    // The key computed at ingest (with the raw payload) travels with queued events
+    if (event.idempotencyKey) {
+      identity.key = event.idempotencyKey;
+    }
+    const redisKey = `${this.REDIS_KEY_PREFIX}${identity.key}`;
+
+    let originalEventId = await RedisConnectionManager.get(redisKey).catch(error => {
+      console.warn('Redis idempotency cache unavailable, using database:', error instanceof Error ? error.message : error);
+      return null;
+    });
+    if (originalEventId === event.id && options.stage === 'WORKER') {
+      return { duplicate: false, key: identity.key };
+    }
+
+    let detectedBy: DuplicateDetection = 'REDIS';
+    if (!originalEventId) {
+      detectedBy = 'DATABASE';
+      originalEventId = await this.claimInDatabase(identity, event.id, options.stage);
+      await this.cacheClaim(redisKey, originalEventId || event.id);
+      if (!originalEventId) {
+        return { duplicate: false, key: identity.key };
+      }
+    }
+
+    console.log(`Suppressed duplicate webhook ${event.id} (first seen as ${originalEventId})`, {
+      source: identity.source,
+      payloadId: identity.payloadId,
+      eventType: identity.eventType,
+      eventTime: identity.eventTime,
+      detectedBy,
+      stage: options.stage,
+    });
+
+    await this.recordDuplicate(identity, event, originalEventId, detectedBy, options).catch(error => {
+      console.error(`Failed to record suppressed duplicate ${event.id}:`, error);
+    });
+
+    return { duplicate: true, key: identity.key, originalEventId, detectedBy };
+  }
+
+  /**
+   * Release a claim so the sender's retry is processed (used when processing fails)
+   */
+  async release(key: string, webhookEventId: string): Promise<void> {
+    try {
+      await RedisConnectionManager.del(`${this.REDIS_KEY_PREFIX}${key}`);
+    } catch (error) {
+      console.warn('Failed to release idempotency key in Redis:', error);
+    }
+
+    await withDatabase(async (db) => {
+      await db.webhookIdempotencyKey.deleteMany({ where: { key, webhookEventId } });
+    }, {
+      timeout: 3000,
+      operationName: 'webhook_idempotency_release',
+      retries: 0
+    }).catch(error => {
+      console.warn('Failed to release idempotency key in database:', error);
+    });
+  }
+
+  async listDuplicates(filter: DuplicateFilter = {}) {
+    const where = this.buildWhere(filter);
+
+    return await withDatabase(async (db) => {
+      const [duplicates, total, bySource] = await Promise.all([
+        db.webhookDuplicate.findMany({
+          where,
+          orderBy: { detectedAt: 'desc' },
+          take: Math.min(filter.limit || 50, 200),
+          skip: filter.offset || 0,
+        }),
+        db.webhookDuplicate.count({ where }),
+        db.webhookDuplicate.groupBy({
+          by: ['source', 'detectedBy'],
+          where,
+          _count: { _all: true },
+        }),
+      ]);
+
+      return {
+        duplicates,
+        total,
+        summary: bySource.map(group => ({
+          source: group.source,
+          detectedBy: group.detectedBy,
+          count: group._count._all,
+        })),
+      };
+    }, { operationName: 'list_webhook_duplicates' });
+  }
+
+  /**
+   * Remove expired database keys (Redis expires its own); the duplicate audit log is kept
+   */
+  async cleanupExpiredKeys(): Promise<number> {
+    const result = await withDatabase(async (db) => {
+      return await db.webhookIdempotencyKey.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+    }, {
+      timeout: 10000,
+      operationName: 'webhook_idempotency_cleanup',
+      retries: 1
+    });
+
+    return result.count;
+  }
+
+  // Returns the webhook event id that already holds the key, or null when this event may proceed
+  private async claimInDatabase(
+    identity: EventIdentity,
+    webhookEventId: string,
+    stage: DuplicateStage
+  ): Promise<string | null> {
+    return withDatabase(async (db) => {
+      // Expired rows would otherwise block the unique key forever
+      await db.webhookIdempotencyKey.deleteMany({
+        where: { key: identity.key, expiresAt: { lt: new Date() } },
+      });
+
+      try {
+        await db.webhookIdempotencyKey.create({
+          data: {
+            ...identity,
+            webhookEventId,
+            expiresAt: new Date(Date.now() + this.retentionDays * 24 * 60 * 60 * 1000),
+          },
+        });
+        return null;
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+      }
+
+      const existing = await db.webhookIdempotencyKey.findUnique({
+        where: { key: identity.key },
+        select: { webhookEventId: true },
+      });
+      if (!existing) {
+        throw new Error(`Idempotency key ${identity.key} was released during the claim`);
+      }
+      return existing.webhookEventId === webhookEventId && stage === 'WORKER' ? null : existing.webhookEventId;
+    }, {
+      timeout: 5000,
+      operationName: 'webhook_idempotency_claim',
+      retries: 1
+    });
+  }
+
+  private async cacheClaim(redisKey: string, webhookEventId: string): Promise<void> {
+    await RedisConnectionManager.setex(redisKey, this.redisTtlSeconds, webhookEventId).catch(error => {
+      console.warn('Failed to cache idempotency key in Redis:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  private async recordDuplicate(
+    identity: EventIdentity,
+    event: WebhookEvent,
+    originalEventId: string,
+    detectedBy: DuplicateDetection,
+    options: ClaimOptions
+  ): Promise<void> {
+    await withDatabase(async (db) => {
+      await db.$transaction([
+        db.webhookDuplicate.create({
+          data: {
+            idempotencyKey: identity.key,
+            source: identity.source,
+            eventType: identity.eventType,
+            payloadId: identity.payloadId,
+            eventTime: identity.eventTime,
+            originalEventId,
+            duplicateEventId: event.id,
+            companyId: event.companyId || null,
+            detectedBy,
+            stage: options.stage,
+            signature: options.signature || null,
+            ipAddress: options.ipAddress || null,
+          },
+        }),
+        db.webhookIdempotencyKey.updateMany({
+          where: { key: identity.key },
+          data: { duplicateCount: { increment: 1 }, lastSeenAt: new Date() },
+        }),
+      ]);
+    }, {
+      timeout: 5000,
+      operationName: 'webhook_duplicate_record',
+      retries: 1
+    });
+  }
+
+  private buildWhere(filter: DuplicateFilter): Prisma.WebhookDuplicateWhereInput {
+    return {
+      ...(filter.source && { source: filter.source }),
+      ...(filter.eventType && { eventType: filter.eventType }),
+      ...(filter.companyId && { companyId: filter.companyId }),
+      ...((filter.from || filter.to) && {
+        detectedAt: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lte: filter.to }),
+        },
+      }),
+    };
+  }
+}
+
+export const webhookIdempotency = new WebhookIdempotency();
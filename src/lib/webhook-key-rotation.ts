@@ -0,0 +1,341 @@
+import { withDatabase } from '@/lib/database';
+import { createAlert } from '@/lib/database-serverless';
+import { encryptSecret, hashSecretForLogging } from '@/lib/encryption';
+import { invalidateWebhookSecretsCache } from '@/lib/webhook-secret-store-optimized';
+import { webhookAdapters } from '@/lib/webhook-adapters';
+
+/**
+ * STAGED WEBHOOK KEY ROTATION
+ *
+ * Replacing an endpoint's HMAC key outright breaks every request Paysafe has
+ * already signed with the old one. A rotation is staged instead:
+ * 1. rotate() installs the new key as the next keyVersion and keeps the old
+ *    key as the previous version; signatures made with either are accepted
+ *    until the overlap window ends
+ * 2. Every event records the key version that validated it
+ *    (webhook_events.signatureKeyVersion), so the switch-over can be followed
+ * 3. The previous key is retired at the end of the window, or earlier with
+ *    retirePreviousKey() once no traffic uses it
+ *
+ * The hourly check alerts when traffic is still signed with the previous key
+ * close to the end of the window, and retires expired keys.
+ */
+
+export interface KeyRotationStatus {
+  endpoint: string;
+  keyVersion: number;
+  rotation: {
+    previousKeyVersion: number | null;
+    rotatedAt: string | null;
+    previousKeyExpiresAt: string;
+    // Validated events since the rotation, by key version
+    currentKeyEvents: number;
+    previousKeyEvents: number;
+    lastPreviousKeyEventAt: string | null;
+  } | null;
+}
+
+export interface KeyRotationResult {
+  success: boolean;
+  error?: string;
+  notFound?: boolean;
+  status?: KeyRotationStatus;
+}
+
+interface RotatingSecret {
+  endpoint: string;
+  keyVersion: number;
+  previousKeyVersion: number | null;
+  previousKeyExpiresAt: Date | null;
+  rotatedAt: Date | null;
+  rotationAlertedAt: Date | null;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+export class WebhookKeyRotation {
+  readonly defaultOverlapHours = parseInt(process.env.WEBHOOK_KEY_ROTATION_OVERLAP_HOURS || '72');
+  private readonly warningHours = parseInt(process.env.WEBHOOK_KEY_ROTATION_WARNING_HOURS || '12');
+  private readonly maxOverlapHours = 24 * 30;
+
+  /**
+   * Columns that move the current key to the previous slot and install a new
+   * one. Also used by POST /api/webhook-secrets when an existing key is replaced.
+   */
+  stagedRotationData(
+    existing: { encryptedKey: string; algorithm: string; keyVersion: number },
+    encryptedKey: string,
+    overlapHours: number = this.defaultOverlapHours
+  ) {
+    const now = new Date();
+    return {
+      encryptedKey,
+      keyVersion: existing.keyVersion + 1,
+      previousEncryptedKey: existing.encryptedKey,
+      previousAlgorithm: existing.algorithm,
+      previousKeyVersion: existing.keyVersion,
+      previousKeyExpiresAt: new Date(now.getTime() + overlapHours * HOUR),
+      rotatedAt: now,
+      rotationAlertedAt: null,
+    };
+  }
+
+  validateOverlapHours(overlapHours: unknown): string | null {
+    if (overlapHours === undefined) {
+      return null;
+    }
+    if (typeof overlapHours !== 'number' || !Number.isFinite(overlapHours) || overlapHours <= 0 || overlapHours > this.maxOverlapHours) {
+      return `overlapHours must be a number between 0 and ${this.maxOverlapHours}`;
+    }
+    return null;
+  }
+
+  /**
+   * Start a staged rotation. Refused while a previous rotation's window is
+   * still open - retire that key first, so no more than two keys are live.
+   */
+  async rotate(
+    endpoint: string,
+    secretKey: string,
+    options: { algorithm?: string; overlapHours?: number; userId?: string } = {}
+  ): Promise<KeyRotationResult> {
+    const existing = await withDatabase(async (db) => {
+      return await db.webhookSecret.findUnique({ where: { endpoint } });
+    }, { operationName: 'webhook_key_rotation_load' });
+
+    if (!existing || !existing.isActive) {
+      return { success: false, notFound: true, error: `No active webhook secret for ${endpoint}` };
+    }
+    if (existing.previousKeyExpiresAt && existing.previousKeyExpiresAt > new Date()) {
+      return {
+        success: false,
+        error: `Key version ${existing.previousKeyVersion} is still accepted until ${existing.previousKeyExpiresAt.toISOString()}; retire it before rotating again`,
+      };
+    }
+
+    const overlapHours = options.overlapHours ?? this.defaultOverlapHours;
+    await withDatabase(async (db) => {
+      await db.webhookSecret.update({
+        where: { endpoint },
+        data: {
+          ...this.stagedRotationData(existing, encryptSecret(secretKey), overlapHours),
+          algorithm: options.algorithm || existing.algorithm,
+          updatedAt: new Date(),
+        },
+      });
+    }, { operationName: 'webhook_key_rotation_start' });
+
+    console.log(`Started webhook key rotation for ${endpoint}`, {
+      keyVersion: existing.keyVersion + 1,
+      previousKeyVersion: existing.keyVersion,
+      overlapHours,
+      keyHash: hashSecretForLogging(secretKey),
+      userId: options.userId,
+    });
+
+    await invalidateWebhookSecretsCache();
+    return { success: true, status: await this.getStatus(endpoint) || undefined };
+  }
+
+  /**
+   * Stop accepting the previous key (end the overlap window now)
+   */
+  async retirePreviousKey(endpoint: string, userId?: string): Promise<KeyRotationResult> {
+    const existing = await withDatabase(async (db) => {
+      return await db.webhookSecret.findUnique({
+        where: { endpoint },
+        select: { previousKeyVersion: true, previousEncryptedKey: true },
+      });
+    }, { operationName: 'webhook_key_rotation_load' });
+
+    if (!existing) {
+      return { success: false, notFound: true, error: `No webhook secret for ${endpoint}` };
+    }
+    if (!existing.previousEncryptedKey) {
+      return { success: false, error: `No previous key to retire for ${endpoint}` };
+    }
+
+    await this.clearPreviousKey(endpoint);
+    console.log(`Retired webhook key version ${existing.previousKeyVersion} for ${endpoint}`, { userId });
+
+    await invalidateWebhookSecretsCache();
+    return { success: true, status: await this.getStatus(endpoint) || undefined };
+  }
+
+  /**
+   * Key versions per endpoint, with how much traffic each key of an open
+   * rotation validated since it started
+   */
+  async getStatus(endpoint: string): Promise<KeyRotationStatus | null>;
+  async getStatus(): Promise<KeyRotationStatus[]>;
+  async getStatus(endpoint?: string): Promise<KeyRotationStatus | KeyRotationStatus[] | null> {
+    const secrets = await withDatabase(async (db) => {
+      return await db.webhookSecret.findMany({
+        where: endpoint ? { endpoint } : undefined,
+        select: {
+          endpoint: true,
+          keyVersion: true,
+          previousKeyVersion: true,
+          previousKeyExpiresAt: true,
+          rotatedAt: true,
+          rotationAlertedAt: true,
+        },
+        orderBy: { endpoint: 'asc' },
+      });
+    }, { operationName: 'webhook_key_rotation_status' });
+
+    const statuses = await Promise.all(secrets.map(secret => this.describe(secret)));
+    return endpoint ? statuses[0] || null : statuses;
+  }
+
+  /**
+   * Hourly: alert on endpoints still receiving previous-key traffic near the
+   * end of their window, and retire previous keys whose window has ended
+   */
+  async checkRotations(): Promise<{ alerted: number; retired: number }> {
+    const rotating = await withDatabase(async (db) => {
+      return await db.webhookSecret.findMany({
+        where: { previousKeyExpiresAt: { not: null } },
+        select: {
+          endpoint: true,
+          keyVersion: true,
+          previousKeyVersion: true,
+          previousKeyExpiresAt: true,
+          rotatedAt: true,
+          rotationAlertedAt: true,
+        },
+      });
+    }, { operationName: 'webhook_key_rotation_check' });
+
+    let alerted = 0;
+    let retired = 0;
+    const now = Date.now();
+
+    for (const secret of rotating) {
+      const expiresAt = secret.previousKeyExpiresAt!.getTime();
+      const recentPreviousKeyEvents = await this.countEvents(secret.endpoint, secret.previousKeyVersion, new Date(now - this.warningHours * HOUR));
+
+      if (expiresAt <= now) {
+        await this.clearPreviousKey(secret.endpoint);
+        retired++;
+        console.log(`Retired webhook key version ${secret.previousKeyVersion} for ${secret.endpoint} (overlap window ended)`);
+
+        if (recentPreviousKeyEvents > 0) {
+          await createAlert({
+            type: 'ERROR',
+            title: 'Webhook Key Retired While Still In Use',
+            message: `${secret.endpoint}: key version ${secret.previousKeyVersion} was retired, but validated ${recentPreviousKeyEvents} webhook(s) in the last ${this.warningHours}h. Requests still signed with it will now fail verification.`,
+            source: 'webhook-key-rotation',
+            metadata: { endpoint: secret.endpoint, previousKeyVersion: secret.previousKeyVersion, recentPreviousKeyEvents },
+          }).catch(error => console.error('Failed to create key retirement alert:', error));
+          alerted++;
+        }
+        continue;
+      }
+
+      if (!secret.rotationAlertedAt && expiresAt - now <= this.warningHours * HOUR && recentPreviousKeyEvents > 0) {
+        await createAlert({
+          type: 'WARNING',
+          title: 'Webhook Traffic Still Uses The Previous Key',
+          message: `${secret.endpoint}: ${recentPreviousKeyEvents} webhook(s) in the last ${this.warningHours}h were signed with key version ${secret.previousKeyVersion}, which stops being accepted at ${secret.previousKeyExpiresAt!.toISOString()}. Update the key configured in Paysafe before then.`,
+          source: 'webhook-key-rotation',
+          metadata: {
+            endpoint: secret.endpoint,
+            keyVersion: secret.keyVersion,
+            previousKeyVersion: secret.previousKeyVersion,
+            previousKeyExpiresAt: secret.previousKeyExpiresAt!.toISOString(),
+            recentPreviousKeyEvents,
+          },
+        }).catch(error => console.error('Failed to create key rotation alert:', error));
+
+        await withDatabase(async (db) => {
+          await db.webhookSecret.update({
+            where: { endpoint: secret.endpoint },
+            data: { rotationAlertedAt: new Date() },
+          });
+        }, { operationName: 'webhook_key_rotation_alerted' });
+        alerted++;
+      }
+    }
+
+    if (retired > 0) {
+      await invalidateWebhookSecretsCache();
+    }
+
+    return { alerted, retired };
+  }
+
+  private async describe(secret: RotatingSecret): Promise<KeyRotationStatus> {
+    if (!secret.previousKeyExpiresAt) {
+      return { endpoint: secret.endpoint, keyVersion: secret.keyVersion, rotation: null };
+    }
+
+    const since = secret.rotatedAt || new Date(0);
+    const [currentKeyEvents, previousKeyEvents, lastPreviousKeyEvent] = await Promise.all([
+      this.countEvents(secret.endpoint, secret.keyVersion, since),
+      this.countEvents(secret.endpoint, secret.previousKeyVersion, since),
+      this.lastEvent(secret.endpoint, secret.previousKeyVersion, since),
+    ]);
+
+    return {
+      endpoint: secret.endpoint,
+      keyVersion: secret.keyVersion,
+      rotation: {
+        previousKeyVersion: secret.previousKeyVersion,
+        rotatedAt: secret.rotatedAt?.toISOString() || null,
+        previousKeyExpiresAt: secret.previousKeyExpiresAt.toISOString(),
+        currentKeyEvents,
+        previousKeyEvents,
+        lastPreviousKeyEventAt: lastPreviousKeyEvent?.toISOString() || null,
+      },
+    };
+  }
+
+  private async countEvents(endpoint: string, keyVersion: number | null, since: Date): Promise<number> {
+    const source = webhookAdapters.find(adapter => adapter.endpoint === endpoint)?.source;
+    if (!source || keyVersion === null) {
+      return 0;
+    }
+
+    return withDatabase(async (db) => {
+      return await db.webhookEvent.count({
+        where: { source, signatureKeyVersion: keyVersion, timestamp: { gte: since } },
+      });
+    }, { operationName: 'webhook_key_rotation_count_events' });
+  }
+
+  private async lastEvent(endpoint: string, keyVersion: number | null, since: Date): Promise<Date | null> {
+    const source = webhookAdapters.find(adapter => adapter.endpoint === endpoint)?.source;
+    if (!source || keyVersion === null) {
+      return null;
+    }
+
+    const event = await withDatabase(async (db) => {
+      return await db.webhookEvent.findFirst({
+        where: { source, signatureKeyVersion: keyVersion, timestamp: { gte: since } },
+        orderBy: { timestamp: 'desc' },
+        select: { timestamp: true },
+      });
+    }, { operationName: 'webhook_key_rotation_last_event' });
+
+    return event?.timestamp || null;
+  }
+
+  private async clearPreviousKey(endpoint: string): Promise<void> {
+    await withDatabase(async (db) => {
+      await db.webhookSecret.update({
+        where: { endpoint },
+        data: {
+          previousEncryptedKey: null,
+          previousAlgorithm: null,
+          previousKeyVersion: null,
+          previousKeyExpiresAt: null,
+          rotationAlertedAt: null,
+          updatedAt: new Date(),
+        },
+      });
+    }, { operationName: 'webhook_key_rotation_retire' });
+  }
+}
+
+export const webhookKeyRotation = new WebhookKeyRotation();
@@ -0,0 +1,331 @@
+import { Prisma } from '@prisma/client';
+import { withDatabase } from '@/lib/database';
+import { createAlert } from '@/lib/database-serverless';
+import { WebhookEvent } from '@/types/webhook';
+
+/**
+ * WEBHOOK LATENCY
+ *
+ * Records, for every processed webhook, the provider event time from the
+ * payload, when the request was received, when it was queued and when
+ * processing completed. Delivery lag (provider -> us) and processing lag
+ * (received -> done) are reported as percentiles per source and event type.
+ *
+ * checkLag() runs from cron and raises one alert per source/event type and
+ * hour when the p95 of the recent window is over its threshold.
+ */
+
+export interface LatencyFilter {
+  hours?: number;
+  source?: string;
+  eventType?: string;
+}
+
+export interface LatencyPercentiles {
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+  max: number | null;
+}
+
+export interface LatencyGroup {
+  source: string;
+  eventType: string;
+  count: number;
+  deliveryLag: LatencyPercentiles;
+  queueWait: LatencyPercentiles;
+  processingLag: LatencyPercentiles;
+}
+
+export interface LatencyBucket {
+  bucket: string;
+  count: number;
+  deliveryP50: number | null;
+  deliveryP95: number | null;
+  processingP50: number | null;
+  processingP95: number | null;
+}
+
+export interface LagAlert {
+  source: string;
+  eventType: string;
+  metric: 'DELIVERY' | 'PROCESSING';
+  p95: number;
+  thresholdMs: number;
+  count: number;
+}
+
+const MAX_HOURS = 24 * 30;
+
+function readDate(value: unknown, path: string[]): Date | null {
+  let current: unknown = value;
+  for (const key of path) {
+    if (!current || typeof current !== 'object') {
+      return null;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  if (typeof current !== 'string' || !current) {
+    return null;
+  }
+  const parsed = new Date(current);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function toDate(value: Date | string | undefined): Date | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function round(value: number | null): number | null {
+  return value === null || value === undefined ? null : Math.round(Number(value));
+}
+
+export class WebhookLatencyTracker {
+  private readonly deliveryThresholdMs = parseInt(process.env.WEBHOOK_DELIVERY_LAG_ALERT_MS || '300000');
+  private readonly processingThresholdMs = parseInt(process.env.WEBHOOK_PROCESSING_LAG_ALERT_MS || '30000');
+  private readonly windowMinutes = parseInt(process.env.WEBHOOK_LAG_ALERT_WINDOW_MINUTES || '15');
+  private readonly minSamples = parseInt(process.env.WEBHOOK_LAG_ALERT_MIN_SAMPLES || '5');
+  private readonly retentionDays = parseInt(process.env.WEBHOOK_LATENCY_RETENTION_DAYS || '30');
+
+  /**
+   * Record the timings of an event whose processing just completed.
+   * Never throws; timings are not worth failing a webhook over.
+   */
+  async record(
+    event: WebhookEvent,
+    timings: { enqueuedAt?: Date | string; startedAt?: Date; processedAt?: Date } = {}
+  ): Promise<void> {
+    try {
+      const { payload } = event;
+      const eventDate = readDate(payload, ['eventDate']) || readDate(payload, ['timestamp']);
+      const txnTime = readDate(payload, ['eventData', 'txnTime']);
+      const updatedTime = readDate(payload, ['eventData', 'updatedTime']);
+
+      const receivedAt = toDate(event.timestamp) || new Date();
+      const enqueuedAt = toDate(timings.enqueuedAt);
+      const processedAt = timings.processedAt || new Date();
+      const providerTime = eventDate || updatedTime || txnTime;
+
+      const data = {
+        source: event.source,
+        eventType: event.eventType,
+        companyId: event.companyId || null,
+        eventDate,
+        txnTime,
+        updatedTime,
+        receivedAt,
+        enqueuedAt,
+        processedAt,
+        deliveryLagMs: providerTime ? receivedAt.getTime() - providerTime.getTime() : null,
+        queueWaitMs: enqueuedAt && timings.startedAt ? timings.startedAt.getTime() - enqueuedAt.getTime() : null,
+        processingLagMs: processedAt.getTime() - receivedAt.getTime(),
+      };
+
+      // A retried job completes again under the same event id; keep the latest completion
+      await withDatabase(async (db) => {
+        await db.webhookLatency.upsert({
+          where: { webhookEventId: event.id },
+          create: { webhookEventId: event.id, ...data },
+          update: data,
+        });
+      }, { operationName: 'webhook_latency_record', retries: 0 });
+    } catch (error) {
+      console.warn(`Failed to record latency for webhook ${event.id}:`, error);
+    }
+  }
+
+  /**
+   * Delivery lag, queue wait and processing lag percentiles per source and event type.
+   */
+  async getPercentiles(filter: LatencyFilter = {}): Promise<LatencyGroup[]> {
+    const where = this.buildWhere(filter);
+
+    const rows = await withDatabase(async (db) => {
+      return db.$queryRaw<Array<Record<string, unknown> & { source: string; eventType: string; count: number }>>`
+        SELECT
+          source,
+          "eventType",
+          COUNT(*)::int AS count,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY "deliveryLagMs") AS "deliveryP50",
+          percentile_cont(0.9) WITHIN GROUP (ORDER BY "deliveryLagMs") AS "deliveryP90",
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY "deliveryLagMs") AS "deliveryP95",
+          percentile_cont(0.99) WITHIN GROUP (ORDER BY "deliveryLagMs") AS "deliveryP99",
+          MAX("deliveryLagMs") AS "deliveryMax",
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY "queueWaitMs") AS "queueP50",
+          percentile_cont(0.9) WITHIN GROUP (ORDER BY "queueWaitMs") AS "queueP90",
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY "queueWaitMs") AS "queueP95",
+          percentile_cont(0.99) WITHIN GROUP (ORDER BY "queueWaitMs") AS "queueP99",
+          MAX("queueWaitMs") AS "queueMax",
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY "processingLagMs") AS "processingP50",
+          percentile_cont(0.9) WITHIN GROUP (ORDER BY "processingLagMs") AS "processingP90",
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY "processingLagMs") AS "processingP95",
+          percentile_cont(0.99) WITHIN GROUP (ORDER BY "processingLagMs") AS "processingP99",
+          MAX("processingLagMs") AS "processingMax"
+        FROM webhook_latencies
+        ${where}
+        GROUP BY source, "eventType"
+        ORDER BY count DESC
+      `;
+    }, { operationName: 'webhook_latency_percentiles', timeout: 15000 });
+
+    const percentiles = (row: Record<string, unknown>, prefix: string): LatencyPercentiles => ({
+      p50: round(row[`${prefix}P50`] as number | null),
+      p90: round(row[`${prefix}P90`] as number | null),
+      p95: round(row[`${prefix}P95`] as number | null),
+      p99: round(row[`${prefix}P99`] as number | null),
+      max: round(row[`${prefix}Max`] as number | null),
+    });
+
+    return rows.map(row => ({
+      source: row.source,
+      eventType: row.eventType,
+      count: row.count,
+      deliveryLag: percentiles(row, 'delivery'),
+      queueWait: percentiles(row, 'queue'),
+      processingLag: percentiles(row, 'processing'),
+    }));
+  }
+
+  /**
+   * Hourly p50/p95 of delivery and processing lag, for the monitoring chart.
+   */
+  async getTimeSeries(filter: LatencyFilter = {}): Promise<LatencyBucket[]> {
+    const where = this.buildWhere(filter);
+
+    const rows = await withDatabase(async (db) => {
+      return db.$queryRaw<Array<{
+        bucket: Date;
+        count: number;
+        deliveryP50: number | null;
+        deliveryP95: number | null;
+        processingP50: number | null;
+        processingP95: number | null;
+      }>>`
+        SELECT
+          date_trunc('hour', "receivedAt") AS bucket,
+          COUNT(*)::int AS count,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY "deliveryLagMs") AS "deliveryP50",
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY "deliveryLagMs") AS "deliveryP95",
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY "processingLagMs") AS "processingP50",
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY "processingLagMs") AS "processingP95"
+        FROM webhook_latencies
+        ${where}
+        GROUP BY bucket
+        ORDER BY bucket ASC
+      `;
+    }, { operationName: 'webhook_latency_series', timeout: 15000 });
+
+    return rows.map(row => ({
+      bucket: row.bucket.toISOString(),
+      count: row.count,
+      deliveryP50: round(row.deliveryP50),
+      deliveryP95: round(row.deliveryP95),
+      processingP50: round(row.processingP50),
+      processingP95: round(row.processingP95),
+    }));
+  }
+
+  /**
+   * Alert on source/event types whose p95 lag over the recent window exceeds
+   * the threshold. Called by the lag cron.
+   */
+  async checkLag(): Promise<LagAlert[]> {
+    const groups = await this.getPercentiles({ hours: this.windowMinutes / 60 });
+    const breaches: LagAlert[] = [];
+
+    for (const group of groups) {
+      if (group.count < this.minSamples) {
+        continue;
+      }
+
+      const checks = [
+        { metric: 'DELIVERY' as const, p95: group.deliveryLag.p95, thresholdMs: this.deliveryThresholdMs },
+        { metric: 'PROCESSING' as const, p95: group.processingLag.p95, thresholdMs: this.processingThresholdMs },
+      ];
+
+      for (const check of checks) {
+        if (check.p95 === null || check.p95 <= check.thresholdMs) {
+          continue;
+        }
+
+        const breach: LagAlert = {
+          source: group.source,
+          eventType: group.eventType,
+          metric: check.metric,
+          p95: check.p95,
+          thresholdMs: check.thresholdMs,
+          count: group.count,
+        };
+        breaches.push(breach);
+        await this.alert(breach);
+      }
+    }
+
+    return breaches;
+  }
+
+  async cleanupExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await withDatabase(async (db) => {
+      return db.webhookLatency.deleteMany({ where: { receivedAt: { lt: cutoff } } });
+    }, { operationName: 'webhook_latency_cleanup' });
+
+    return result.count;
+  }
+
+  getThresholds() {
+    return {
+      deliveryLagMs: this.deliveryThresholdMs,
+      processingLagMs: this.processingThresholdMs,
+      windowMinutes: this.windowMinutes,
+    };
+  }
+
+  // One alert per source/event type/metric per hour while the lag persists
+  private async alert(breach: LagAlert): Promise<void> {
+    const lagKey = `${breach.metric}:${breach.source}:${breach.eventType}`;
+    const title = breach.metric === 'DELIVERY' ? 'Webhook Delivery Lag' : 'Webhook Processing Lag';
+
+    const recent = await withDatabase(async (db) => {
+      return db.alert.findFirst({
+        where: {
+          source: 'webhook-latency',
+          timestamp: { gte: new Date(Date.now() - 60 * 60 * 1000) },
+          metadata: { path: ['lagKey'], equals: lagKey },
+        },
+        select: { id: true },
+      });
+    }, { operationName: 'webhook_latency_recent_alert' });
+
+    if (recent) {
+      return;
+    }
+
+    const seconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+    await createAlert({
+      type: 'WARNING',
+      title,
+      message: `p95 ${breach.metric === 'DELIVERY' ? 'delivery' : 'processing'} lag for ${breach.source} ${breach.eventType} ` +
+        `is ${seconds(breach.p95)} over the last ${this.windowMinutes} minutes (threshold ${seconds(breach.thresholdMs)}, ${breach.count} events)`,
+      source: 'webhook-latency',
+      metadata: { lagKey, ...breach },
+    });
+  }
+
+  private buildWhere(filter: LatencyFilter): Prisma.Sql {
+    const hours = Math.min(Math.max(filter.hours || 24, 0.1), MAX_HOURS);
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    return Prisma.sql`WHERE "receivedAt" >= ${since}
+      ${filter.source ? Prisma.sql`AND source = ${filter.source}` : Prisma.empty}
+      ${filter.eventType ? Prisma.sql`AND "eventType" = ${filter.eventType}` : Prisma.empty}`;
+  }
+}
+
+export const webhookLatency = new WebhookLatencyTracker();
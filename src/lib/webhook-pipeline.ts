@@ -0,0 +1,604 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  WebhookEvent,
+  WebhookPayload,
+  WebhookSource,
+  SignaturePolicy,
+  SignatureStatus,
+  SchemaPolicy,
+} from '@/types/webhook';
+import { webhookStorePersistent } from '@/lib/webhook-store-persistent';
+import { WebhookQueueManager, signatureValidator } from '@/lib/webhook-queue';
+import { optimizedWebhookSecretStore } from '@/lib/webhook-secret-store-optimized';
+import { webhookReplayGuard, ReplayRejectionReason } from '@/lib/webhook-replay-guard';
+import { webhookSchemaRegistry, SchemaValidationResult } from '@/lib/webhook-schema-registry';
+import { createAlert } from '@/lib/database-serverless';
+import { webhookAdapters } from '@/lib/webhook-adapters';
+import { tenantResolver } from '@/lib/tenant-resolver';
+import { webhookForwarder } from '@/lib/webhook-forwarder';
+import { webhookSubscriptions, isTestModeEvent } from '@/lib/webhook-subscriptions';
+import { webhookIdempotency } from '@/lib/webhook-idempotency';
+import { webhookArchive } from '@/lib/webhook-archive';
+import { piiRedactor } from '@/lib/pii-redaction';
+import { webhookLatency } from '@/lib/webhook-latency';
+
+/**
+ * UNIFIED WEBHOOK INGESTION PIPELINE
+ *
+ * Every inbound Paysafe/Netbanx feed runs through the same stages:
+ *   parse → verify → normalize → validate → route to tenant → redact PII → replay check → idempotency → persist → dispatch → forward
+ *
+ * Source-specific behaviour lives in a WebhookSourceAdapter (see webhook-adapters.ts),
+ * so supporting a new product feed means registering one adapter.
+ *
+ * Every request that reaches an adapter is also archived raw (see webhook-archive.ts),
+ * whatever the outcome.
+ * Completed events record their delivery and processing timings (see webhook-latency.ts).
+ */
+
+// Everything an adapter may need to know about the inbound HTTP request
+export interface WebhookRequestContext {
+  endpoint: string;
+  rawBody: string;
+  rawBytes: Buffer; // Body exactly as received, for the raw archive
+  receivedAt: string;
+  signature?: string;
+  signedTimestamp?: string; // x-webhook-timestamp, covered by the signature when present
+  headerEventType?: string;
+  headers: Record<string, string>;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Output of the normalize stage
+export interface NormalizedWebhook<TPayload extends WebhookPayload = WebhookPayload> {
+  providerEventId?: string; // Sender's id for the event; the stored event always gets a fresh UUID
+  eventType: string;
+  payload: TPayload;
+}
+
+// Output of the verify stage
+export interface SignatureVerification {
+  policy: SignaturePolicy;
+  status: SignatureStatus;
+  keyVersion?: number; // Secret version that matched; the previous one during a staged key rotation
+  quarantined: boolean; // Would have been rejected under ENFORCE
+}
+
+// Output of the validate stage
+export interface SchemaVerification extends SchemaValidationResult {
+  policy: SchemaPolicy;
+}
+
+export interface WebhookHandleOptions {
+  tenantToken?: string; // Set when the event was posted to a per-company webhook URL
+}
+
+// What the raw archive needs to know about a request once it has been handled
+interface ArchiveTrace {
+  context?: WebhookRequestContext;
+  webhookEventId?: string;
+}
+
+export interface WebhookSourceAdapter<TRaw = unknown, TPayload extends WebhookPayload = WebhookPayload> {
+  endpoint: string;        // Route segment and WebhookSecret.endpoint
+  source: WebhookSource;   // Stored as WebhookEvent.source
+  displayName: string;     // Used in logs and responses
+  errorEventType: string;  // Recorded when processing throws
+  delivery: 'inline' | 'queued'; // Queued adapters are persisted and processed by the Bull worker
+  defaultSignaturePolicy?: SignaturePolicy; // Used until a policy is configured on the endpoint's WebhookSecret
+  defaultSchemaPolicy?: SchemaPolicy;       // Same, for payload schema validation
+
+  parse?(rawBody: string): TRaw;
+  normalize(raw: TRaw, context: WebhookRequestContext): NormalizedWebhook<TPayload>;
+  dispatch?(event: WebhookEvent, raw: TRaw, context: WebhookRequestContext): Promise<void>;
+}
+
+export class WebhookIngestionPipeline {
+  private adapters = new Map<string, WebhookSourceAdapter>();
+
+  register(adapter: WebhookSourceAdapter): this {
+    this.adapters.set(adapter.endpoint, adapter);
+    return this;
+  }
+
+  getAdapter(endpoint: string) {
+    return this.adapters.get(endpoint);
+  }
+
+  getEndpoints(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  /**
+   * Run an inbound request through the full pipeline and build the HTTP response
+   */
+  async handle(endpoint: string, request: NextRequest, options: WebhookHandleOptions = {}): Promise<NextResponse> {
+    const adapter = this.adapters.get(endpoint);
+    if (!adapter) {
+      return NextResponse.json(
+        { error: `No webhook adapter registered for endpoint: ${endpoint}` },
+        { status: 404 }
+      );
+    }
+
+    const trace: ArchiveTrace = {};
+    const response = await this.run(adapter, request, options, trace);
+
+    if (trace.context) {
+      await webhookArchive.archive({
+        endpoint,
+        method: request.method,
+        url: request.url,
+        receivedAt: trace.context.receivedAt,
+        headers: trace.context.headers,
+        body: trace.context.rawBytes,
+        ipAddress: trace.context.ipAddress,
+        responseStatus: response.status,
+        webhookEventId: trace.webhookEventId,
+      });
+    }
+
+    return response;
+  }
+
+  private async run(
+    adapter: WebhookSourceAdapter,
+    request: NextRequest,
+    options: WebhookHandleOptions,
+    trace: ArchiveTrace
+  ): Promise<NextResponse> {
+    const { endpoint } = adapter;
+    const startTime = Date.now();
+    let claimedNonce: string | undefined;
+    let claimedEvent: { key: string; webhookEventId: string } | undefined;
+
+    try {
+      const context = await this.buildContext(endpoint, request);
+      trace.context = context;
+
+      const urlCompanyId = options.tenantToken
+        ? await tenantResolver.resolveWebhookToken(options.tenantToken)
+        : undefined;
+      if (urlCompanyId === null) {
+        return NextResponse.json(
+          { error: 'Unknown webhook URL' },
+          { status: 404 }
+        );
+      }
+
+      console.log(`Received ${adapter.displayName} webhook:`, {
+        url: request.url,
+        eventType: context.headerEventType,
+        signature: context.signature ? 'present' : 'missing',
+        bodyLength: context.rawBody.length,
+        timestamp: context.receivedAt,
+        headers: piiRedactor.maskHeaders(context.headers),
+      });
+
+      // 1. Parse
+      let raw: unknown;
+      try {
+        raw = adapter.parse ? adapter.parse(context.rawBody) : JSON.parse(context.rawBody);
+      } catch (error) {
+        console.error('Invalid JSON payload:', error);
+        return NextResponse.json(
+          { error: 'Invalid JSON payload' },
+          { status: 400 }
+        );
+      }
+
+      // 2. Verify
+      const verification = await this.verifySignature(adapter, context);
+      if (verification.policy === 'ENFORCE' && verification.status !== 'VALID') {
+        console.error(`Rejected ${adapter.displayName} webhook: signature ${verification.status.toLowerCase()}`, {
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        });
+        return NextResponse.json(
+          { error: verification.status === 'MISSING' ? 'Missing signature' : 'Invalid signature' },
+          { status: 401 }
+        );
+      }
+
+      // 3. Normalize
+      const normalized = adapter.normalize(raw, context);
+
+      // 4. Validate (the raw payload, against the schema for the normalized event type)
+      const schemaCheck = await this.validateSchema(adapter, raw, normalized);
+      if (schemaCheck.policy === 'ENFORCE' && !schemaCheck.valid) {
+        console.error(`Rejected ${adapter.displayName} webhook: payload does not match ${schemaCheck.schemaVersion}`, {
+          eventType: normalized.eventType,
+          errors: schemaCheck.errors,
+        });
+        await webhookSchemaRegistry.recordFailure({
+          endpoint: adapter.endpoint,
+          source: adapter.source,
+          eventType: normalized.eventType,
+          result: schemaCheck,
+          rejected: true,
+          payload: piiRedactor.mask(raw),
+        }).catch(storeError => {
+          console.error('Failed to store schema validation failure:', storeError);
+        });
+        return NextResponse.json(
+          { error: 'Payload does not match schema', schemaVersion: schemaCheck.schemaVersion, errors: schemaCheck.errors },
+          { status: 422 }
+        );
+      }
+
+      // 5. Route to tenant (and apply that company's event subscription)
+      const tenant = await tenantResolver.resolve(raw, urlCompanyId);
+
+      const webhookEvent: WebhookEvent = {
+        id: uuidv4(), // Provider ids repeat across a payment's status updates
+        providerEventId: normalized.providerEventId,
+        timestamp: context.receivedAt,
+        eventType: normalized.eventType,
+        source: adapter.source,
+        payload: normalized.payload,
+        processed: adapter.delivery === 'inline',
+        signature: context.signature,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        signatureStatus: verification.status,
+        signatureKeyVersion: verification.keyVersion,
+        quarantined: verification.quarantined,
+        schemaVersion: schemaCheck.schemaVersion || undefined,
+        schemaValid: schemaCheck.policy === 'DISABLED' ? undefined : schemaCheck.valid,
+        companyId: tenant.companyId || undefined,
+        tenantResolution: tenant.method,
+        tenantReference: tenant.reference,
+      };
+      trace.webhookEventId = webhookEvent.id;
+
+      // Sandbox traffic is stored apart from live data (see data-mode.ts)
+      webhookEvent.mode = isTestModeEvent(raw, webhookEvent) ? 'test' : 'live';
+
+      const filterReason = await webhookSubscriptions.evaluate(webhookEvent, adapter.endpoint, raw);
+      if (filterReason) {
+        webhookEvent.filterReason = filterReason;
+        console.log(`Storing ${adapter.displayName} webhook ${webhookEvent.id} without processing (${filterReason})`);
+      }
+
+      if (!schemaCheck.valid) {
+        console.warn(`Flagged ${adapter.displayName} webhook: payload does not match ${schemaCheck.schemaVersion} (monitor mode)`, {
+          id: webhookEvent.id,
+          errors: schemaCheck.errors,
+        });
+        await webhookSchemaRegistry.recordFailure({
+          endpoint: adapter.endpoint,
+          source: adapter.source,
+          eventType: webhookEvent.eventType,
+          result: schemaCheck,
+          rejected: false,
+          webhookEventId: webhookEvent.id,
+          payload: piiRedactor.mask(raw),
+        }).catch(storeError => {
+          console.error('Failed to store schema validation failure:', storeError);
+        });
+      }
+
+      // 6. Idempotency (the same event delivered again; later events for the same payment are not duplicates).
+      // Runs before the replay check so a sender's redelivery is acknowledged as a duplicate, not rejected
+      const claim = await webhookIdempotency.claim(webhookEvent, {
+        stage: 'INGEST',
+        raw,
+        signature: context.signature,
+        ipAddress: context.ipAddress,
+      });
+      webhookEvent.idempotencyKey = claim.key;
+
+      if (claim.duplicate) {
+        return NextResponse.json(
+          {
+            success: true,
+            message: 'Webhook already processed (duplicate)',
+            webhookId: webhookEvent.id,
+            originalWebhookId: claim.originalEventId,
+            duplicate: true,
+          },
+          { status: 200 }
+        );
+      }
+      claimedEvent = { key: claim.key, webhookEventId: webhookEvent.id };
+
+      // 7. Replay check (only a valid signature proves the timestamp and nonce are genuine)
+      if (verification.status === 'VALID') {
+        const replay = await webhookReplayGuard.check({
+          endpoint: adapter.endpoint,
+          signature: context.signature,
+          timestamp: context.signedTimestamp,
+        });
+
+        if (!replay.accepted) {
+          // The rejected request must not hold the identity against a genuine delivery
+          await webhookIdempotency.release(claimedEvent.key, claimedEvent.webhookEventId);
+          claimedEvent = undefined;
+          await this.recordReplay(adapter, webhookEvent, context, replay.reason, replay.detail);
+          return NextResponse.json(
+            { error: 'Replay rejected', reason: replay.reason },
+            { status: 409 }
+          );
+        }
+        claimedNonce = replay.nonce;
+      }
+
+      // Everything stored, queued or forwarded from here on carries the redacted payload.
+      // Redacting after the duplicate and replay checks keeps rejected deliveries out of the vault
+      webhookEvent.payload = await piiRedactor.redact(webhookEvent.payload, webhookEvent.companyId);
+
+      if (adapter.delivery === 'queued') {
+        return await this.enqueue(adapter, webhookEvent, context, startTime);
+      }
+
+      // 8. Persist
+      await webhookStorePersistent.addWebhookEvent(webhookEvent);
+
+      // 9. Dispatch
+      if (adapter.dispatch && !webhookEvent.filterReason) {
+        await adapter.dispatch(webhookEvent, raw, context);
+      }
+
+      // 10. Forward to the company's own endpoint
+      await webhookForwarder.enqueueForEvent(webhookEvent);
+
+      await webhookLatency.record(webhookEvent);
+
+      console.log(`Successfully processed ${adapter.displayName} webhook:`, {
+        id: webhookEvent.id,
+        eventType: webhookEvent.eventType,
+        processingTime: Date.now() - startTime,
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: `${adapter.displayName} webhook processed successfully`,
+          webhookId: webhookEvent.id,
+        },
+        { status: 200 }
+      );
+
+    } catch (error) {
+      console.error(`Error processing ${adapter.displayName} webhook:`, error);
+
+      // Let the sender's retry through the replay guard and idempotency check
+      if (claimedNonce) {
+        await webhookReplayGuard.release(claimedNonce);
+      }
+      if (claimedEvent) {
+        await webhookIdempotency.release(claimedEvent.key, claimedEvent.webhookEventId);
+      }
+
+      await this.recordFailure(adapter, error);
+
+      return NextResponse.json(
+        {
+          error: 'Internal server error',
+          processingTime: Date.now() - startTime,
+        },
+        { status: 500 }
+      );
+    }
+  }
+
+  private async buildContext(endpoint: string, request: NextRequest): Promise<WebhookRequestContext> {
+    const rawBytes = Buffer.from(await request.arrayBuffer());
+    const rawBody = rawBytes.toString('utf8');
+    const headers = request.headers;
+
+    // Check multiple possible header names
+    const signature = headers.get('x-paysafe-signature') ||
+                      headers.get('x-netbanx-signature') ||
+                      headers.get('x-signature') ||
+                      headers.get('signature');
+    const headerEventType = headers.get('x-paysafe-event-type') ||
+                            headers.get('x-netbanx-event-type') ||
+                            headers.get('x-event-type');
+
+    return {
+      endpoint,
+      rawBody,
+      rawBytes,
+      receivedAt: new Date().toISOString(),
+      signature: signature || undefined,
+      signedTimestamp: headers.get('x-webhook-timestamp') || undefined,
+      headerEventType: headerEventType || undefined,
+      headers: Object.fromEntries(headers.entries()),
+      ipAddress: headers.get('x-forwarded-for') || headers.get('x-real-ip') || undefined,
+      userAgent: headers.get('user-agent') || undefined,
+    };
+  }
+
+  /**
+   * Apply the endpoint's signature policy. Nothing is trusted based on
+   * request headers - test senders must sign like any other client.
+   */
+  private async verifySignature(
+    adapter: WebhookSourceAdapter,
+    context: WebhookRequestContext
+  ): Promise<SignatureVerification> {
+    const policy = await this.resolveSignaturePolicy(adapter);
+
+    if (policy === 'DISABLED') {
+      return { policy, status: 'SKIPPED', quarantined: false };
+    }
+
+    const { status, keyVersion } = await signatureValidator.verifySignature(
+      context.rawBody,
+      context.signature || null,
+      adapter.endpoint,
+      context.signedTimestamp,
+      { requireConfiguredSecret: policy === 'ENFORCE' }
+    );
+
+    const quarantined = policy === 'MONITOR' && status !== 'VALID';
+    if (quarantined) {
+      console.warn(`Quarantined ${adapter.displayName} webhook: signature ${status.toLowerCase()} (monitor mode)`, {
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      });
+    }
+
+    return { policy, status, keyVersion, quarantined };
+  }
+
+  private async resolveSignaturePolicy(adapter: WebhookSourceAdapter): Promise<SignaturePolicy> {
+    // Global kill switch kept for local development
+    if (process.env.WEBHOOK_SIGNATURE_VALIDATION === 'false') {
+      return 'DISABLED';
+    }
+
+    const configured = await optimizedWebhookSecretStore.getSignaturePolicy(adapter.endpoint);
+    return configured || adapter.defaultSignaturePolicy || 'MONITOR';
+  }
+
+  /**
+   * Apply the endpoint's schema policy. Field paths are recorded for the
+   * drift report whatever the policy.
+   */
+  private async validateSchema(
+    adapter: WebhookSourceAdapter,
+    raw: unknown,
+    normalized: NormalizedWebhook
+  ): Promise<SchemaVerification> {
+    const { eventType } = normalized;
+
+    webhookSchemaRegistry.recordObservedFields(adapter.source, eventType, raw, normalized.providerEventId).catch(error => {
+      console.warn('Failed to record observed webhook fields:', error);
+    });
+
+    const policy = await this.resolveSchemaPolicy(adapter);
+    if (policy === 'DISABLED') {
+      return { policy, schemaVersion: null, valid: true, errors: [] };
+    }
+
+    return { policy, ...webhookSchemaRegistry.validate(adapter.source, eventType, raw) };
+  }
+
+  private async resolveSchemaPolicy(adapter: WebhookSourceAdapter): Promise<SchemaPolicy> {
+    if (process.env.WEBHOOK_SCHEMA_VALIDATION === 'false') {
+      return 'DISABLED';
+    }
+
+    const configured = await optimizedWebhookSecretStore.getSchemaPolicy(adapter.endpoint);
+    return configured || adapter.defaultSchemaPolicy || 'MONITOR';
+  }
+
+  private async enqueue(
+    adapter: WebhookSourceAdapter,
+    webhookEvent: WebhookEvent,
+    context: WebhookRequestContext,
+    startTime: number
+  ): Promise<NextResponse> {
+    // Add to async processing queue (non-blocking)
+    const jobId = await WebhookQueueManager.addWebhookJob(
+      webhookEvent,
+      piiRedactor.maskRawBody(context.rawBody),
+      context.signature,
+      piiRedactor.maskHeaders(context.headers)
+    );
+
+    const processingTime = Date.now() - startTime;
+
+    console.log(`${adapter.displayName} webhook accepted for processing:`, {
+      id: webhookEvent.id,
+      eventType: webhookEvent.eventType,
+      jobId,
+      processingTime,
+      paymentId: webhookEvent.payload.eventData?.id,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Webhook accepted for processing',
+        webhookId: webhookEvent.id,
+        jobId,
+        processingTime,
+      },
+      { status: 200 }
+    );
+  }
+
+  /**
+   * Keep rejected replays visible in the events list and raise an alert
+   */
+  private async recordReplay(
+    adapter: WebhookSourceAdapter,
+    webhookEvent: WebhookEvent,
+    context: WebhookRequestContext,
+    reason: ReplayRejectionReason,
+    detail: string
+  ): Promise<void> {
+    console.warn(`Rejected ${adapter.displayName} webhook replay (${reason}):`, {
+      id: webhookEvent.id,
+      detail,
+      ipAddress: context.ipAddress,
+    });
+
+    const replayEvent: WebhookEvent = {
+      ...webhookEvent,
+      id: uuidv4(), // The original id is already taken by the first delivery
+      eventType: 'REPLAY_REJECTED',
+      payload: piiRedactor.mask(webhookEvent.payload),
+      processed: false,
+      error: `Replay rejected (${reason}): ${detail}`,
+    };
+
+    await webhookStorePersistent.addWebhookEvent(replayEvent).catch(storeError => {
+      console.error('Failed to store rejected replay event:', storeError);
+    });
+
+    await createAlert({
+      type: 'WARNING',
+      title: `${adapter.displayName} Webhook Replay Rejected`,
+      message: `${detail} (original event ${webhookEvent.id}, ${webhookEvent.eventType})`,
+      source: 'webhook-replay-guard',
+      metadata: {
+        endpoint: adapter.endpoint,
+        reason,
+        originalEventId: webhookEvent.id,
+        replayEventId: replayEvent.id,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    }).catch(alertError => {
+      console.error('Failed to create replay alert:', alertError);
+    });
+  }
+
+  private async recordFailure(
+    adapter: WebhookSourceAdapter,
+    error: unknown
+  ): Promise<void> {
+    const failedEvent: WebhookEvent = {
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      eventType: adapter.errorEventType,
+      source: adapter.source,
+      payload: {
+        id: 'error',
+        eventType: adapter.errorEventType,
+        eventData: {
+          id: 'error',
+          merchantRefNum: 'ERROR',
+          status: 'FAILED',
+        },
+      },
+      processed: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+
+    await webhookStorePersistent.addWebhookEvent(failedEvent).catch(storeError => {
+      console.error('Failed to store failed webhook event:', storeError);
+    });
+  }
+}
+
+export const webhookPipeline = webhookAdapters.reduce(
+  (pipeline, adapter) => pipeline.register(adapter),
+  new WebhookIngestionPipeline()
+);
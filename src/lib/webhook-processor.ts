@@ -1,5 +1,8 @@
 import { DatabaseService, db } from './database';
-import { WebhookEvent } from '@/types/webhook';
+import { applyTransactionEvent, resolveEventTime } from './transaction-lifecycle';
+import { disputeManager } from './dispute-manager';
+import { extractParentReferences } from './transaction-linker';
+import { WebhookEvent, WebhookPayload } from '@/types/webhook';
 import { Transaction } from '@/types/paysafe';
 import crypto from 'crypto';
 import winston from 'winston';
@@ -37,6 +40,11 @@ export class WebhookProcessor {
         transactionId = transaction.id;
       }
       
+      // Chargebacks also open or close a dispute case
+      if (disputeManager.isChargebackEvent(webhookData.eventType)) {
+        await disputeManager.recordChargebackEvent({ ...webhookEvent, payload: webhookData });
+      }
+      
       // Mark webhook as processed
       await db.webhookEvent.update({
         where: { id: webhookEvent.id },
@@ -125,7 +133,7 @@ export class WebhookProcessor {
   }
 
   // Check if event type is transaction-related
-  private isTransactionEvent(eventType: string): boolean {
+  isTransactionEvent(eventType: string): boolean {
     const transactionEvents = [
       'PAYMENT_COMPLETED',
       'PAYMENT_FAILED',
@@ -144,45 +152,56 @@ export class WebhookProcessor {
            eventType.toLowerCase().includes('transaction');
   }
 
+  // Map webhook data to transaction format (also used by the reprocessing job)
+  buildTransactionData(webhookData: WebhookPayload, webhookEventId: string) {
+    const eventData = webhookData.eventData;
+    if (!eventData?.id) {
+      throw new Error('Event data ID is required');
+    }
+
+    return {
+      externalId: eventData.id,
+      merchantRefNum: eventData.merchantRefNum || eventData.id, // Some feeds omit it
+      amount: eventData.amount || 0,
+      currency: eventData.currencyCode || 'USD',
+      status: this.mapEventToTransactionStatus(webhookData.eventType, eventData.status),
+      transactionType: this.getTransactionType(webhookData.eventType),
+      paymentMethod: this.getPaymentMethod(eventData),
+      description: `Webhook: ${webhookData.eventType}`,
+      transactionTime: eventData.txnTime ? new Date(eventData.txnTime) : new Date(),
+      metadata: {
+        webhookEventType: webhookData.eventType,
+        originalPayload: eventData,
+      },
+      webhookEventId,
+    };
+  }
+
   // Process transaction-related events
   private async processTransactionEvent(webhookData: any, webhookEventId: string) {
     const eventData = webhookData.eventData;
     
     try {
-      // Map webhook data to transaction format
-      const transaction = {
-        externalId: eventData.id,
-        merchantRefNum: eventData.merchantRefNum,
-        amount: eventData.amount || 0,
-        currency: eventData.currencyCode || 'USD',
-        status: this.mapEventToTransactionStatus(webhookData.eventType, eventData.status),
-        transactionType: this.getTransactionType(webhookData.eventType),
-        paymentMethod: this.getPaymentMethod(eventData),
-        description: `Webhook: ${webhookData.eventType}`,
-        transactionTime: eventData.txnTime ? new Date(eventData.txnTime) : new Date(),
-        metadata: {
-          webhookEventType: webhookData.eventType,
-          originalPayload: eventData,
-        },
-        webhookEventId,
-      };
+      const transaction = this.buildTransactionData(webhookData, webhookEventId);
       
-      // Upsert transaction (create or update)
-      const result = await db.transaction.upsert({
-        where: { externalId: transaction.externalId },
+      // Create or update, ignoring stale and illegal status transitions
+      const { transaction: result, outcome } = await applyTransactionEvent(db, {
+        create: transaction,
         update: {
-          status: transaction.status,
-          updatedAt: new Date(),
           metadata: transaction.metadata,
           webhookEventId,
         },
-        create: transaction,
+        eventTime: resolveEventTime(webhookData),
+        eventType: webhookData.eventType,
+        rawStatus: webhookData.eventData.status || webhookData.eventType,
+        parentReferences: extractParentReferences(webhookData),
       });
       
       logger.debug('Transaction processed', {
         transactionId: result.id,
         externalId: transaction.externalId,
-        status: transaction.status,
+        status: result.status,
+        outcome,
       });
       
       return result;
@@ -237,7 +256,7 @@ export class WebhookProcessor {
   }
 
   // Get transaction type from event
-  private getTransactionType(eventType: string): string {
+  getTransactionType(eventType: string): string {
     const upperEventType = eventType.toUpperCase();
     
     if (upperEventType.includes('REFUND')) {
@@ -0,0 +1,758 @@
+import Queue from 'bull';
+import { Prisma, PrismaClient, ProjectionCheckpoint } from '@prisma/client';
+import { withDatabase, bullRedisOptions } from '@/lib/database';
+import { WebhookProcessor } from '@/lib/webhook-processor';
+import { buildAccountData, AccountStatusPayload } from '@/lib/webhook-adapters';
+import { parseDataMode } from '@/lib/data-mode';
+import { applyTransactionEvent, evaluateTransition, resolveEventTime, TransactionEventInput } from '@/lib/transaction-lifecycle';
+import { extractParentReferences } from '@/lib/transaction-linker';
+import { ACCOUNT_BACKFILL_EVENT, API_EVENT_SOURCE, apiTransactionEventInput, applyApiTransactionInput } from '@/lib/paysafe-api-events';
+
+/**
+ * WEBHOOK PROJECTIONS
+ *
+ * Treats webhook_events as the event log and derives tables from it with
+ * versioned projectors. A projection can be rebuilt from scratch (reset the
+ * tables, replay every stored event in arrival order) or caught up
+ * incrementally from its checkpoint.
+ *
+ * - Applying an event is idempotent, so catching up over events that live
+ *   processing already wrote is safe
+ * - Bumping a projector's version marks its tables as needing a rebuild;
+ *   catch-up refuses to run on top of an older version
+ * - verify() replays the events of a sample of rows in memory and reports
+ *   where the stored rows differ from what the event log implies
+ * - Statuses read from the Paysafe API are in the log too (source
+ *   "paysafe-api", see paysafe-api-events.ts) and replay the input they applied
+ */
+
+export type ProjectionStatus = 'IDLE' | 'QUEUED' | 'REBUILDING' | 'CATCHING_UP' | 'FAILED';
+type ApplyResult = 'APPLIED' | 'SKIPPED';
+
+interface StoredEvent {
+  id: string;
+  timestamp: Date;
+  eventType: string;
+  source: string;
+  payload: Prisma.JsonValue;
+  companyId: string | null;
+  mode: string;
+}
+
+export interface ProjectionMismatch {
+  externalId: string;
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface Projector {
+  name: string;
+  version: number; // Bump whenever the derivation changes
+  tables: string[];
+  dependsOn?: string[]; // Projections whose rows this one references; rebuilt before it
+  events: Prisma.WebhookEventWhereInput;
+  reset(db: PrismaClient): Promise<void>;
+  apply(db: PrismaClient, event: StoredEvent): Promise<ApplyResult>;
+  verify(db: PrismaClient, sampleSize: number): Promise<{ checked: number; mismatches: ProjectionMismatch[] }>;
+}
+
+type TransactionPayload = {
+  eventType?: string;
+  eventDate?: string;
+  eventData?: {
+    id?: string;
+    status?: string;
+    updatedTime?: string;
+    txnTime?: string;
+    settlementId?: string;
+    paymentId?: string;
+    originalTransactionId?: string;
+  };
+  links?: Array<{ rel: string; href: string }>;
+};
+
+const BATCH_SIZE = 100;
+const ACCOUNT_SOURCE = 'paysafe-accounts';
+
+// Failed, rejected and subscription-filtered events never produced state
+const PROJECTED_EVENTS: Prisma.WebhookEventWhereInput = { error: null, filterReason: null };
+
+const EVENT_SELECT = { id: true, timestamp: true, eventType: true, source: true, payload: true, companyId: true, mode: true } as const;
+const EVENT_ORDER: Prisma.WebhookEventOrderByWithRelationInput[] = [{ timestamp: 'asc' }, { id: 'asc' }];
+
+const processor = new WebhookProcessor();
+
+// Event time as live processing saw it, or the arrival time when the payload has none so replays are deterministic
+function transactionEventTime(event: StoredEvent, payload: TransactionPayload): Date {
+  const { eventDate, eventData } = payload;
+  return eventData?.updatedTime || eventDate || eventData?.txnTime ? resolveEventTime(payload) : event.timestamp;
+}
+
+function accountEventTime(event: StoredEvent, payload: AccountStatusPayload): Date {
+  const candidate = payload.eventDate || payload.timestamp;
+  const parsed = candidate ? new Date(candidate) : null;
+  return parsed && !isNaN(parsed.getTime()) ? parsed : event.timestamp;
+}
+
+function transactionPayload(event: StoredEvent): TransactionPayload | null {
+  const payload = event.payload as TransactionPayload | null;
+  return payload?.eventData?.id && processor.isTransactionEvent(event.eventType) ? payload : null;
+}
+
+// What applying the event writes: rebuilt from a webhook payload, or the input recorded with an API event
+function transactionEventInput(event: StoredEvent): TransactionEventInput | null {
+  if (event.source === API_EVENT_SOURCE) {
+    return apiTransactionEventInput(event);
+  }
+
+  const payload = transactionPayload(event);
+  if (!payload) {
+    return null;
+  }
+
+  const data = processor.buildTransactionData({ ...payload, eventType: event.eventType }, event.id);
+  return {
+    create: { ...data, companyId: event.companyId, mode: event.mode },
+    update: {
+      metadata: data.metadata,
+      webhookEventId: event.id,
+    },
+    eventTime: transactionEventTime(event, payload),
+    eventType: event.eventType,
+    rawStatus: payload.eventData?.status || event.eventType,
+    parentReferences: extractParentReferences(payload),
+  };
+}
+
+function accountPayload(event: StoredEvent): AccountStatusPayload | null {
+  const payload = event.payload as unknown as AccountStatusPayload | null;
+  return payload?.accountId && payload.status ? payload : null;
+}
+
+function compareFields(
+  externalId: string,
+  fields: readonly string[],
+  expected: Record<string, unknown>,
+  actual: Record<string, unknown>
+): ProjectionMismatch[] {
+  return fields
+    .filter(field => (expected[field] ?? null) !== (actual[field] ?? null))
+    .map(field => ({ externalId, field, expected: expected[field] ?? null, actual: actual[field] ?? null }));
+}
+
+async function loadEntityEvents(db: PrismaClient, where: Prisma.WebhookEventWhereInput): Promise<StoredEvent[]> {
+  return db.webhookEvent.findMany({
+    where: { ...PROJECTED_EVENTS, ...where },
+    orderBy: EVENT_ORDER,
+    select: EVENT_SELECT,
+  });
+}
+
+const TRANSACTION_FIELDS = ['merchantRefNum', 'amount', 'currency', 'status', 'transactionType', 'paymentMethod'] as const;
+
+const transactionsProjector: Projector = {
+  name: 'transactions',
+  version: 1,
+  tables: ['transactions', 'transaction_status_history', 'transaction_anomalies'],
+  events: { source: { not: ACCOUNT_SOURCE } },
+
+  async reset(db) {
+    await db.$transaction([
+      db.transactionStatusHistory.deleteMany({}),
+      db.transactionAnomaly.deleteMany({}),
+      db.transaction.deleteMany({}), // Disputes and payment operations keep the external id and are relinked on replay
+    ]);
+  },
+
+  async apply(db, event) {
+    const input = transactionEventInput(event);
+    if (!input) {
+      return 'SKIPPED';
+    }
+
+    // Events that changed a status or raised an anomaly left a trace; applying them again would duplicate it
+    const [history, anomaly] = await Promise.all([
+      db.transactionStatusHistory.findFirst({ where: { webhookEventId: event.id }, select: { id: true } }),
+      db.transactionAnomaly.findFirst({ where: { webhookEventId: event.id }, select: { id: true } }),
+    ]);
+    if (history || anomaly) {
+      return 'SKIPPED';
+    }
+
+    const { transaction, outcome } = event.source === API_EVENT_SOURCE
+      ? await applyApiTransactionInput(db, input)
+      : await applyTransactionEvent(db, input);
+
+    if (outcome === 'CREATED') {
+      await db.dispute.updateMany({
+        where: { originalExternalId: transaction.externalId, transactionId: null },
+        data: { transactionId: transaction.id },
+      });
+      await db.paymentOperation.updateMany({
+        where: { transactionExternalId: transaction.externalId, transactionId: null },
+        data: { transactionId: transaction.id },
+      });
+    }
+
+    return outcome === 'STALE' ? 'SKIPPED' : 'APPLIED';
+  },
+
+  async verify(db, sampleSize) {
+    const rows = await db.transaction.findMany({ orderBy: { updatedAt: 'desc' }, take: sampleSize });
+    const mismatches: ProjectionMismatch[] = [];
+
+    for (const row of rows) {
+      const events = await loadEntityEvents(db, {
+        ...this.events,
+        OR: [
+          { payload: { path: ['eventData', 'id'], equals: row.externalId } },
+          { source: API_EVENT_SOURCE, payload: { path: ['create', 'externalId'], equals: row.externalId } },
+        ],
+      });
+
+      // Fold the events the same way applyTransactionEvent does: first event creates, later ones follow the lifecycle
+      let expected: (Record<string, unknown> & { status: string; transactionType: string; statusEventTime: Date }) | null = null;
+      for (const event of events) {
+        const input = transactionEventInput(event);
+        if (!input) {
+          continue;
+        }
+        const { create: data, eventTime } = input;
+
+        if (!expected) {
+          expected = { ...data, statusEventTime: eventTime };
+          continue;
+        }
+        const decision = evaluateTransition(expected.transactionType, expected.status, expected.statusEventTime, data.status, eventTime);
+        if (decision.outcome === 'APPLIED') {
+          expected.status = data.status;
+          expected.statusEventTime = eventTime;
+        }
+      }
+
+      if (!expected) {
+        mismatches.push({ externalId: row.externalId, field: 'row', expected: null, actual: 'present' });
+        continue;
+      }
+      mismatches.push(...compareFields(row.externalId, TRANSACTION_FIELDS, expected, row));
+    }
+
+    return { checked: rows.length, mismatches };
+  },
+};
+
+const ACCOUNT_FIELDS = ['status', 'subStatus', 'onboardingStage', 'creditCardId', 'directDebitId', 'riskLevel', 'complianceStatus'] as const;
+
+const accountsProjector: Projector = {
+  name: 'accounts',
+  version: 1,
+  tables: ['accounts', 'account_status_history'],
+  events: { OR: [{ source: ACCOUNT_SOURCE }, { source: API_EVENT_SOURCE, eventType: ACCOUNT_BACKFILL_EVENT }] },
+
+  async reset(db) {
+    // Payment methods cascade with their accounts; the payment-methods projection is rebuilt afterwards
+    await db.$transaction([
+      db.accountStatusHistory.deleteMany({}),
+      db.account.deleteMany({}),
+    ]);
+  },
+
+  async apply(db, event) {
+    const payload = accountPayload(event);
+    if (!payload) {
+      return 'SKIPPED';
+    }
+
+    const data = buildAccountData(payload, event.id, event.companyId ?? undefined, parseDataMode(event.mode));
+    const eventTime = accountEventTime(event, payload);
+    const existing = await db.account.findUnique({ where: { externalId: data.externalId } });
+
+    // The newest status wins; accounts written by live processing have no event time yet
+    if (existing?.statusEventTime && eventTime < existing.statusEventTime) {
+      return 'SKIPPED';
+    }
+
+    const metadata = data.metadata as unknown as Prisma.InputJsonValue;
+    const account = existing
+      ? await db.account.update({
+          where: { id: existing.id },
+          data: {
+            status: data.status,
+            subStatus: data.subStatus,
+            onboardingStage: data.onboardingStage,
+            creditCardId: data.creditCardId,
+            directDebitId: data.directDebitId,
+            riskLevel: data.riskLevel,
+            complianceStatus: data.complianceStatus,
+            metadata,
+            webhookEventId: event.id,
+            statusEventTime: eventTime,
+            // Claim unassigned accounts, never reassign
+            ...(!existing.companyId && event.companyId && { companyId: event.companyId }),
+          },
+        })
+      : await db.account.create({
+          data: { ...data, metadata, statusEventTime: eventTime },
+        });
+
+    if (existing?.status !== account.status) {
+      await db.accountStatusHistory.create({
+        data: {
+          accountId: account.id,
+          fromStatus: existing?.status,
+          toStatus: account.status,
+          subStatus: data.subStatus,
+          stage: data.onboardingStage,
+          reason: event.eventType,
+          description: `Status updated via webhook: ${event.eventType}`,
+          changedBy: 'paysafe-webhook',
+          metadata: {
+            webhookEventId: event.id,
+            creditCardId: data.creditCardId ?? null,
+            directDebitId: data.directDebitId ?? null,
+            eventDate: payload.eventDate ?? null,
+          },
+          timestamp: eventTime,
+        },
+      });
+    }
+
+    return 'APPLIED';
+  },
+
+  async verify(db, sampleSize) {
+    const rows = await db.account.findMany({ orderBy: { updatedAt: 'desc' }, take: sampleSize });
+    const mismatches: ProjectionMismatch[] = [];
+
+    for (const row of rows) {
+      const events = await loadEntityEvents(db, {
+        ...this.events,
+        payload: { path: ['accountId'], equals: row.externalId },
+      });
+
+      // Newest event time wins; ties go to the later arrival, as in apply()
+      let latest: { data: ReturnType<typeof buildAccountData>; eventTime: Date } | null = null;
+      for (const event of events) {
+        const payload = accountPayload(event);
+        if (!payload) {
+          continue;
+        }
+        const eventTime = accountEventTime(event, payload);
+        if (!latest || eventTime >= latest.eventTime) {
+          latest = { data: buildAccountData(payload, event.id), eventTime };
+        }
+      }
+
+      if (!latest) {
+        mismatches.push({ externalId: row.externalId, field: 'row', expected: null, actual: 'present' });
+        continue;
+      }
+      mismatches.push(...compareFields(row.externalId, ACCOUNT_FIELDS, latest.data, row));
+    }
+
+    return { checked: rows.length, mismatches };
+  },
+};
+
+const PAYMENT_METHOD_TYPES = [
+  { type: 'CREDIT_CARD', field: 'creditCardId', name: 'Credit card', capabilities: ['PAYMENT', 'REFUND', 'RECURRING'] },
+  { type: 'DIRECT_DEBIT', field: 'directDebitId', name: 'Direct debit', capabilities: ['PAYMENT', 'RECURRING'] },
+] as const;
+
+// Payment methods follow the onboarding status of the account that reported them
+function paymentMethodStatus(accountStatus: string): string {
+  switch (accountStatus.toUpperCase()) {
+    case 'APPROVED':
+    case 'ACTIVE':
+    case 'ENABLED':
+      return 'ACTIVE';
+    case 'REJECTED':
+    case 'DECLINED':
+      return 'REJECTED';
+    case 'SUSPENDED':
+    case 'DISABLED':
+    case 'CLOSED':
+      return 'INACTIVE';
+    default:
+      return 'PENDING';
+  }
+}
+
+const paymentMethodsProjector: Projector = {
+  name: 'payment-methods',
+  version: 1,
+  tables: ['payment_methods'],
+  dependsOn: ['accounts'],
+  events: { source: ACCOUNT_SOURCE },
+
+  async reset(db) {
+    await db.paymentMethod.deleteMany({});
+  },
+
+  async apply(db, event) {
+    const payload = accountPayload(event);
+    const methods = PAYMENT_METHOD_TYPES.filter(method => payload?.[method.field]);
+    if (!payload || methods.length === 0) {
+      return 'SKIPPED';
+    }
+
+    const account = await db.account.findUnique({ where: { externalId: payload.accountId }, select: { id: true } });
+    if (!account) {
+      return 'SKIPPED'; // The accounts projection has not seen this account
+    }
+
+    const eventTime = accountEventTime(event, payload);
+    const status = paymentMethodStatus(payload.status as string);
+    let applied = false;
+
+    for (const method of methods) {
+      const externalId = payload[method.field] as string;
+      const existing = await db.paymentMethod.findUnique({
+        where: { accountId_externalId: { accountId: account.id, externalId } },
+      });
+      const existingEventTime = (existing?.metadata as { eventTime?: string } | null)?.eventTime;
+      if (existingEventTime && eventTime < new Date(existingEventTime)) {
+        continue;
+      }
+
+      const metadata = { webhookEventId: event.id, eventTime: eventTime.toISOString() };
+      const activatedAt = existing?.activatedAt ?? (status === 'ACTIVE' ? eventTime : null);
+      await db.paymentMethod.upsert({
+        where: { accountId_externalId: { accountId: account.id, externalId } },
+        update: { status, activatedAt, metadata },
+        create: {
+          accountId: account.id,
+          type: method.type,
+          externalId,
+          name: method.name,
+          status,
+          capabilities: [...method.capabilities],
+          metadata,
+          activatedAt,
+        },
+      });
+      applied = true;
+    }
+
+    return applied ? 'APPLIED' : 'SKIPPED';
+  },
+
+  async verify(db, sampleSize) {
+    const accounts = await db.account.findMany({
+      orderBy: { updatedAt: 'desc' },
+      take: sampleSize,
+      include: { paymentMethods: true },
+    });
+    const mismatches: ProjectionMismatch[] = [];
+
+    for (const account of accounts) {
+      const events = await loadEntityEvents(db, {
+        ...this.events,
+        payload: { path: ['accountId'], equals: account.externalId },
+      });
+
+      const expected = new Map<string, { type: string; status: string; eventTime: Date }>();
+      for (const event of events) {
+        const payload = accountPayload(event);
+        if (!payload) {
+          continue;
+        }
+        const eventTime = accountEventTime(event, payload);
+        for (const method of PAYMENT_METHOD_TYPES) {
+          const externalId = payload[method.field];
+          const current = externalId ? expected.get(externalId) : undefined;
+          if (externalId && (!current || eventTime >= current.eventTime)) {
+            expected.set(externalId, { type: method.type, status: paymentMethodStatus(payload.status as string), eventTime });
+          }
+        }
+      }
+
+      const stored = new Map(account.paymentMethods.map(method => [method.externalId, method]));
+      for (const [externalId, method] of expected) {
+        const row = stored.get(externalId);
+        if (!row) {
+          mismatches.push({ externalId, field: 'row', expected: 'present', actual: null });
+          continue;
+        }
+        mismatches.push(...compareFields(externalId, ['type', 'status'], method, row));
+      }
+      for (const externalId of stored.keys()) {
+        if (!expected.has(externalId)) {
+          mismatches.push({ externalId, field: 'row', expected: null, actual: 'present' });
+        }
+      }
+    }
+
+    return { checked: accounts.length, mismatches };
+  },
+};
+
+export const PROJECTORS: Projector[] = [transactionsProjector, accountsProjector, paymentMethodsProjector];
+
+export const projectionQueue = new Queue<{ name: string; rebuild: boolean }>('webhook projections', {
+  redis: bullRedisOptions,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 50,
+    attempts: 1, // A failed run is continued from its checkpoint by the next catch-up
+  },
+});
+
+export class WebhookProjections {
+  getProjector(name: string): Projector | undefined {
+    return PROJECTORS.find(projector => projector.name === name);
+  }
+
+  /**
+   * Checkpoint of every projection with the number of events not applied yet.
+   */
+  async getStatus() {
+    return withDatabase(async (db) => {
+      const checkpoints = await db.projectionCheckpoint.findMany();
+
+      return Promise.all(PROJECTORS.map(async (projector) => {
+        const checkpoint = checkpoints.find(row => row.name === projector.name) || null;
+        const pendingEvents = await db.webhookEvent.count({
+          where: this.eventWhere(projector, checkpoint),
+        });
+
+        return {
+          name: projector.name,
+          version: projector.version,
+          tables: projector.tables,
+          checkpoint,
+          pendingEvents,
+          needsRebuild: !checkpoint || checkpoint.version !== projector.version,
+        };
+      }));
+    }, { operationName: 'projection_status' });
+  }
+
+  /**
+   * Queue a rebuild from scratch. Projections that depend on this one are
+   * rebuilt once it completes.
+   */
+  async requestRebuild(name: string, userId?: string) {
+    return this.request(name, true, userId);
+  }
+
+  /**
+   * Queue an incremental run from the checkpoint. Requires the tables to have
+   * been built with the current projector version.
+   */
+  async requestCatchUp(name: string, userId?: string) {
+    return this.request(name, false, userId);
+  }
+
+  /**
+   * Queue catch-up for every projection that is idle and on its current version.
+   */
+  async catchUpAll(): Promise<{ queued: string[]; skipped: string[] }> {
+    const queued: string[] = [];
+    const skipped: string[] = [];
+
+    for (const projector of PROJECTORS) {
+      const result = await this.requestCatchUp(projector.name, 'cron');
+      (result.success ? queued : skipped).push(projector.name);
+    }
+
+    return { queued, skipped };
+  }
+
+  async verify(name: string, sampleSize = 100) {
+    const projector = this.getProjector(name);
+    if (!projector) {
+      return { success: false as const, notFound: true, error: `Unknown projection: ${name}` };
+    }
+
+    const result = await withDatabase(async (db) => {
+      return projector.verify(db, Math.min(Math.max(sampleSize, 1), 1000));
+    }, { operationName: 'projection_verify', timeout: 55000, retries: 0 });
+
+    console.log(`Verified ${result.checked} ${name} rows against the event log: ${result.mismatches.length} mismatch(es)`);
+    return { success: true as const, name, ...result };
+  }
+
+  /**
+   * Apply events from the checkpoint to the end of the log. Called by the projection queue worker.
+   */
+  async run(name: string, rebuild: boolean): Promise<void> {
+    const projector = this.getProjector(name);
+    if (!projector) {
+      console.error(`Unknown projection ${name}, skipping`);
+      return;
+    }
+
+    let checkpoint = await withDatabase(async (db) => {
+      const updated = await db.projectionCheckpoint.updateMany({
+        where: { name, status: 'QUEUED' },
+        data: { status: rebuild ? 'REBUILDING' : 'CATCHING_UP' },
+      });
+      if (updated.count === 0) {
+        return null;
+      }
+
+      if (rebuild) {
+        await projector.reset(db);
+        return db.projectionCheckpoint.update({
+          where: { name },
+          data: {
+            version: projector.version,
+            cursorTimestamp: null,
+            cursorEventId: null,
+            eventsApplied: 0,
+            eventsSkipped: 0,
+            errorCount: 0,
+            lastError: null,
+            rebuildStartedAt: new Date(),
+            rebuiltAt: null,
+          },
+        });
+      }
+      return db.projectionCheckpoint.findUniqueOrThrow({ where: { name } });
+    }, { operationName: 'projection_start', timeout: 55000, retries: 0 });
+
+    if (!checkpoint) {
+      console.log(`Projection ${name} is not queued, skipping`);
+      return;
+    }
+
+    console.log(`${rebuild ? 'Rebuilding' : 'Catching up'} projection ${name} v${projector.version}`);
+
+    try {
+      while (true) {
+        const where = this.eventWhere(projector, checkpoint);
+        const events: StoredEvent[] = await withDatabase(async (db) => {
+          return db.webhookEvent.findMany({
+            where,
+            orderBy: EVENT_ORDER,
+            take: BATCH_SIZE,
+            select: EVENT_SELECT,
+          });
+        }, { operationName: 'projection_batch_load' });
+
+        if (events.length === 0) {
+          break;
+        }
+
+        const counts = { applied: 0, skipped: 0, errors: 0 };
+        let lastError: string | undefined;
+
+        for (const event of events) {
+          try {
+            const result = await withDatabase(async (db) => projector.apply(db, event), {
+              operationName: `projection_${name}_apply`,
+            });
+            counts[result === 'APPLIED' ? 'applied' : 'skipped']++;
+          } catch (error) {
+            counts.errors++;
+            lastError = `${event.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            console.error(`Projection ${name} failed to apply event ${event.id}:`, error);
+          }
+        }
+
+        const last = events[events.length - 1];
+        checkpoint = await withDatabase(async (db) => {
+          return db.projectionCheckpoint.update({
+            where: { name },
+            data: {
+              cursorTimestamp: last.timestamp,
+              cursorEventId: last.id,
+              eventsApplied: { increment: counts.applied },
+              eventsSkipped: { increment: counts.skipped },
+              errorCount: { increment: counts.errors },
+              ...(lastError && { lastError }),
+            },
+          });
+        }, { operationName: 'projection_checkpoint' });
+      }
+
+      await withDatabase(async (db) => {
+        await db.projectionCheckpoint.update({
+          where: { name },
+          data: { status: 'IDLE', ...(rebuild && { rebuiltAt: new Date() }) },
+        });
+      }, { operationName: 'projection_complete' });
+
+      console.log(`Projection ${name} is up to date (${checkpoint.eventsApplied} applied, ${checkpoint.errorCount} errors)`);
+
+      if (rebuild) {
+        for (const dependent of PROJECTORS.filter(other => other.dependsOn?.includes(name))) {
+          await this.requestRebuild(dependent.name, checkpoint.requestedBy || undefined);
+        }
+      }
+    } catch (error) {
+      await withDatabase(async (db) => {
+        await db.projectionCheckpoint.update({
+          where: { name },
+          data: { status: 'FAILED', lastError: error instanceof Error ? error.message : 'Unknown error' },
+        });
+      }, { operationName: 'projection_fail' }).catch(updateError => {
+        console.error(`Failed to mark projection ${name} as failed:`, updateError);
+      });
+
+      throw error;
+    }
+  }
+
+  private async request(name: string, rebuild: boolean, userId?: string) {
+    const projector = this.getProjector(name);
+    if (!projector) {
+      return { success: false as const, notFound: true, error: `Unknown projection: ${name}` };
+    }
+
+    const result = await withDatabase(async (db) => {
+      const existing = await db.projectionCheckpoint.findUnique({ where: { name } });
+
+      if (!rebuild && (!existing || existing.version !== projector.version)) {
+        return { error: `Projection ${name} was not built with version ${projector.version}; rebuild it first` };
+      }
+      if (!existing) {
+        await db.projectionCheckpoint.create({
+          data: { name, version: projector.version, status: 'QUEUED', requestedBy: userId },
+        });
+        return {};
+      }
+
+      // Only one run per projection at a time
+      const claimed = await db.projectionCheckpoint.updateMany({
+        where: { name, status: { in: ['IDLE', 'FAILED'] } },
+        data: { status: 'QUEUED', requestedBy: userId },
+      });
+      return claimed.count > 0 ? {} : { error: `Projection ${name} is already ${existing.status.toLowerCase()}` };
+    }, { operationName: 'projection_request' });
+
+    if (result.error) {
+      return { success: false as const, notFound: false, error: result.error };
+    }
+
+    await projectionQueue.add({ name, rebuild });
+    console.log(`Queued ${rebuild ? 'rebuild' : 'catch-up'} of projection ${name}`);
+    return { success: true as const };
+  }
+
+  private eventWhere(projector: Projector, checkpoint: ProjectionCheckpoint | null): Prisma.WebhookEventWhereInput {
+    const cursor = checkpoint?.cursorTimestamp && checkpoint.cursorEventId
+      ? { timestamp: checkpoint.cursorTimestamp, id: checkpoint.cursorEventId }
+      : null;
+
+    return {
+      ...PROJECTED_EVENTS,
+      ...projector.events,
+      ...(cursor && {
+        OR: [
+          { timestamp: { gt: cursor.timestamp } },
+          { timestamp: cursor.timestamp, id: { gt: cursor.id } },
+        ],
+      }),
+    };
+  }
+}
+
+export const webhookProjections = new WebhookProjections();
+
+// One run at a time; rebuilds replay the whole log and should not compete with each other
+projectionQueue.process(1, async (job) => {
+  await webhookProjections.run(job.data.name, job.data.rebuild);
+});
@@ -1,19 +1,44 @@
 import Queue from 'bull';
-import { WebhookEvent } from '@/types/webhook';
+import { Prisma } from '@prisma/client';
+import { WebhookEvent, WebhookPayload, SignatureStatus } from '@/types/webhook';
 import { webhookStorePersistent } from '@/lib/webhook-store-persistent';
-import { redis, redisForBull } from '@/lib/database';
+import { redis, bullRedisOptions, withDatabase } from '@/lib/database';
+import { createAlert } from '@/lib/database-serverless';
 import { RedisConnectionManager } from '@/lib/redis-config';
 import crypto from 'crypto';
-import { optimizedWebhookSecretStore } from '@/lib/webhook-secret-store-optimized';
+import { optimizedWebhookSecretStore, VerificationKey } from '@/lib/webhook-secret-store-optimized';
 import { CacheInvalidator } from '@/lib/api-cache';
+import { disputeManager } from '@/lib/dispute-manager';
+import { webhookForwarder } from '@/lib/webhook-forwarder';
+import { webhookIdempotency } from '@/lib/webhook-idempotency';
+import { webhookLatency } from '@/lib/webhook-latency';
 
 // Define job data interfaces
-interface WebhookJobData {
+export interface WebhookJobData {
   webhookEvent: WebhookEvent;
   rawBody: string;
   signature?: string;
   headers: Record<string, string>;
   timestamp: string;
+  attemptHistory?: DeadLetterAttempt[]; // Appended by the worker on every failed attempt
+  deadLetterId?: string;                // Set when the job is a retry from the dead-letter queue
+}
+
+export interface DeadLetterAttempt {
+  attempt: number;
+  error: string;
+  failedAt: string;
+  processingTime: number;
+  jobId?: string;
+}
+
+export type DeadLetterStatus = 'PENDING' | 'RETRYING' | 'RESOLVED' | 'DISCARDED';
+
+export interface DeadLetterActionResult {
+  id: string;
+  success: boolean;
+  jobId?: string;
+  error?: string;
 }
 
 interface WebhookProcessResult {
@@ -25,7 +50,7 @@ interface WebhookProcessResult {
 
 // Create webhook processing queue with OPTIMIZED production Redis connection
 export const webhookQueue = new Queue<WebhookJobData>('webhook processing', {
-  redis: redisForBull, // Use IORedis instance for Bull.js compatibility
+  redis: bullRedisOptions,
   defaultJobOptions: {
     removeOnComplete: 500,  // Keep more completed jobs for debugging
     removeOnFail: 100,      // Keep more failed jobs for analysis
@@ -44,228 +69,113 @@ export const webhookQueue = new Queue<WebhookJobData>('webhook processing', {
   },
 });
 
-// Enhanced webhook deduplication using multiple identifiers
-class WebhookDeduplicator {
-  private readonly DEDUP_KEY_PREFIX = 'webhook_dedup:';
-  private readonly DEFAULT_TTL = 3600; // 1 hour
-
-  /**
-   * Check if webhook is duplicate using multi-level deduplication strategy
-   * Checks: webhook ID, transaction ID, payload ID, and merchant reference
-   */
-  async isDuplicate(
-    webhookId: string, 
-    payload?: WebhookPayload,
-    signature?: string
-  ): Promise<boolean> {
-    try {
-      // Create all possible deduplication keys
-      const dedupKeys = this.createAllDedupKeys(webhookId, payload, signature);
-      
-      // Check all keys in parallel for better performance
-      const existsPromises = dedupKeys.map(key => 
-        RedisConnectionManager.exists(key).catch(() => 0)
-      );
-      
-      const results = await Promise.all(existsPromises);
-      
-      // If ANY deduplication key exists, it's a duplicate
-      const isDuplicate = results.some(exists => exists === 1);
-      
-      if (isDuplicate) {
-        console.log(`Duplicate detected for webhook ${webhookId}`, {
-          webhookId,
-          payloadId: payload?.id,
-          transactionId: payload?.eventData?.id,
-          merchantRef: payload?.eventData?.merchantRefNum,
-          dedupKeys: dedupKeys.filter((key, index) => results[index] === 1)
-        });
-      }
-      
-      return isDuplicate;
-    } catch (error) {
-      console.warn('Deduplication check failed:', error);
-      return false; // Allow processing if dedup check fails
-    }
-  }
+// Optimized signature validation with caching
+class OptimizedSignatureValidator {
+  private readonly CACHE_KEY_PREFIX = 'webhook_secret:';
+  private readonly CACHE_TTL = 300; // 5 minutes
 
   /**
-   * Mark webhook as processed using all identifiers
+   * Verify a webhook signature against the endpoint's secret.
+   * When a timestamp header is sent it must be signed too, as `${timestamp}.${body}`.
+   * Policy decisions (reject vs quarantine) are made by the ingestion pipeline.
    */
-  async markProcessed(
-    webhookId: string,
-    payload?: WebhookPayload, 
-    signature?: string, 
-    ttlSeconds = this.DEFAULT_TTL
-  ): Promise<void> {
-    try {
-      const dedupKeys = this.createAllDedupKeys(webhookId, payload, signature);
-      const timestamp = Date.now().toString();
-      
-      // Mark all deduplication keys in parallel
-      const setPromises = dedupKeys.map(key =>
-        RedisConnectionManager.setex(key, ttlSeconds, timestamp).catch(error => {
-          console.warn(`Failed to set dedup key ${key}:`, error);
-        })
-      );
-      
-      await Promise.all(setPromises);
-      
-      console.log(`Marked webhook ${webhookId} as processed with ${dedupKeys.length} dedup keys`);
-    } catch (error) {
-      console.warn('Failed to mark webhook as processed:', error);
-    }
+  async checkSignature(
+    body: string,
+    signature: string | null,
+    endpoint: string,
+    timestamp?: string
+  ): Promise<SignatureStatus> {
+    return (await this.verifySignature(body, signature, endpoint, timestamp)).status;
   }
 
   /**
-   * Create all deduplication keys for multi-level checking
+   * Same as checkSignature, plus the version of the key that matched. During a
+   * staged rotation both the current and the previous key are tried. With
+   * requireConfiguredSecret (ENFORCE policy) an endpoint without a secret
+   * fails instead of falling back to the built-in development key.
    */
-  private createAllDedupKeys(
-    webhookId: string,
-    payload?: WebhookPayload,
-    signature?: string
-  ): string[] {
-    const keys: string[] = [];
-    
-    // Primary: webhook ID + signature (original logic)
-    keys.push(this.createDedupKey('webhook', webhookId, signature));
-    
-    if (payload) {
-      // Secondary: transaction ID from eventData
-      if (payload.eventData?.id) {
-        keys.push(this.createDedupKey('transaction', payload.eventData.id));
-      }
-      
-      // Tertiary: payload ID
-      if (payload.id) {
-        keys.push(this.createDedupKey('payload', payload.id));
-      }
-      
-      // Quaternary: merchant reference number
-      if (payload.eventData?.merchantRefNum) {
-        keys.push(this.createDedupKey('merchant_ref', payload.eventData.merchantRefNum));
-      }
-      
-      // Additional: combination of payload ID + transaction ID for extra safety
-      if (payload.id && payload.eventData?.id) {
-        keys.push(this.createDedupKey('composite', `${payload.id}:${payload.eventData.id}`));
-      }
+  async verifySignature(
+    body: string,
+    signature: string | null,
+    endpoint: string,
+    timestamp?: string,
+    options: { requireConfiguredSecret?: boolean } = {}
+  ): Promise<{ status: SignatureStatus; keyVersion?: number }> {
+    if (!signature) {
+      console.warn('No signature provided in webhook request');
+      return { status: 'MISSING' };
     }
-    
-    return keys;
-  }
 
-  /**
-   * Create a single deduplication key with namespace
-   */
-  private createDedupKey(namespace: string, data: string, signature?: string): string {
-    const keyData = signature ? `${data}:${signature}` : data;
-    const hash = crypto.createHash('sha256').update(keyData).digest('hex');
-    return `${this.DEDUP_KEY_PREFIX}${namespace}:${hash}`;
-  }
-
-  /**
-   * Clear deduplication keys for a specific identifier (useful for debugging)
-   */
-  async clearDedupKeys(
-    webhookId?: string,
-    payload?: WebhookPayload,
-    signature?: string
-  ): Promise<number> {
     try {
-      if (!webhookId && !payload) {
-        console.warn('No identifiers provided for clearing dedup keys');
-        return 0;
+      let keys: VerificationKey[] | null = await optimizedWebhookSecretStore.getVerificationKeys(endpoint);
+      if (!keys) {
+        const secret = options.requireConfiguredSecret ? await this.findSecret(endpoint) : await this.resolveSecret(endpoint);
+        keys = secret && [secret];
       }
+      if (!keys) {
+        console.warn(`No secret configured for endpoint ${endpoint}, rejecting signature`);
+        return { status: 'INVALID' };
+      }
+      const signedContent = timestamp ? `${timestamp}.${body}` : body;
 
-      const dedupKeys = this.createAllDedupKeys(
-        webhookId || '',
-        payload,
-        signature
-      );
-
-      let cleared = 0;
-      for (const key of dedupKeys) {
-        const result = await RedisConnectionManager.del(key).catch(() => 0);
-        if (result > 0) cleared++;
+      const match = keys.find(key => this.performValidation(signedContent, signature, key.key, key.algorithm));
+      if (!match) {
+        console.warn('Signature validation failed:', {
+          endpoint,
+          provided: signature,
+          keyVersions: keys.map(key => key.keyVersion),
+        });
+        return { status: 'INVALID' };
       }
 
-      console.log(`Cleared ${cleared} deduplication keys`);
-      return cleared;
+      return { status: 'VALID', keyVersion: match.keyVersion };
     } catch (error) {
-      console.error('Failed to clear dedup keys:', error);
-      return 0;
+      console.error('Signature validation error:', error);
+      return { status: 'INVALID' };
     }
   }
 
   /**
-   * Get deduplication status for debugging
+   * Sign a body with the endpoint's secret (used by internal test senders)
    */
-  async getDedupStatus(
-    webhookId: string,
-    payload?: WebhookPayload,
-    signature?: string
-  ): Promise<{ [key: string]: boolean }> {
-    try {
-      const dedupKeys = this.createAllDedupKeys(webhookId, payload, signature);
-      const status: { [key: string]: boolean } = {};
-
-      for (const key of dedupKeys) {
-        const exists = await RedisConnectionManager.exists(key).catch(() => 0);
-        // Extract readable name from key
-        const keyName = key.replace(this.DEDUP_KEY_PREFIX, '').split(':')[0];
-        status[keyName] = exists === 1;
-      }
-
-      return status;
-    } catch (error) {
-      console.error('Failed to get dedup status:', error);
-      return {};
-    }
+  async signBody(body: string, endpoint: string, timestamp?: string): Promise<string> {
+    const secret = await this.resolveSecret(endpoint);
+    const key = Buffer.from(secret.key, 'base64').toString('utf-8');
+    const signedContent = timestamp ? `${timestamp}.${body}` : body;
+    return crypto.createHmac(secret.algorithm, key).update(signedContent, 'utf8').digest('hex');
   }
-}
 
-export const webhookDeduplicator = new WebhookDeduplicator();
-
-// Optimized signature validation with caching
-class OptimizedSignatureValidator {
-  private readonly CACHE_KEY_PREFIX = 'webhook_secret:';
-  private readonly CACHE_TTL = 300; // 5 minutes
-
-  async validateSignature(
-    body: string,
-    signature: string | null,
-    endpoint: string
-  ): Promise<boolean> {
-    if (!signature) {
-      console.warn('No signature provided in webhook request');
-      return process.env.NODE_ENV !== 'production';
+  private async resolveSecret(endpoint: string): Promise<{ key: string; algorithm: string }> {
+    const secret = await this.findSecret(endpoint);
+    if (secret) {
+      return secret;
     }
 
-    try {
-      // Try cached secret first
-      const cachedSecret = await this.getCachedSecret(endpoint);
-      if (cachedSecret) {
-        return this.performValidation(body, signature, cachedSecret.key, cachedSecret.algorithm);
-      }
-
-      // Use optimized batch loading (eliminates N+1 queries)
-      const secretData = await optimizedWebhookSecretStore.getWebhookSecret(endpoint);
-      if (secretData) {
-        // Cache the secret for future use
-        await this.cacheSecret(endpoint, secretData);
-        return this.performValidation(body, signature, secretData.key, secretData.algorithm);
-      }
+    // Final fallback to hardcoded key
+    console.warn(`No secret found for endpoint ${endpoint}, using fallback`);
+    return {
+      key: 'YzM2ZjA4OGYyMjAxODA3MmRkYjBkZjA1ZmY2MzM2MjNmZmVjZDAzZjFiYWMyMjlkZTc0YTg3MGEyNDg1NjIxNg==',
+      algorithm: 'sha256',
+    };
+  }
 
-      // Final fallback to hardcoded key
-      console.warn(`No secret found for endpoint ${endpoint}, using fallback`);
-      const fallbackSecret = 'YzM2ZjA4OGYyMjAxODA3MmRkYjBkZjA1ZmY2MzM2MjNmZmVjZDAzZjFiYWMyMjlkZTc0YTg3MGEyNDg1NjIxNg==';
-      return this.performValidation(body, signature, fallbackSecret, 'sha256');
+  // The endpoint's configured secret, or null when it has none
+  private async findSecret(endpoint: string): Promise<{ key: string; algorithm: string } | null> {
+    // Try cached secret first
+    const cachedSecret = await this.getCachedSecret(endpoint);
+    if (cachedSecret) {
+      return cachedSecret;
+    }
 
-    } catch (error) {
-      console.error('Signature validation error:', error);
-      return false;
+    // Use optimized batch loading (eliminates N+1 queries)
+    const secretData = await optimizedWebhookSecretStore.getWebhookSecret(endpoint);
+    if (secretData) {
+      // Cache the secret for future use
+      await this.cacheSecret(endpoint, secretData);
+      return secretData;
     }
+
+    return null;
   }
 
   private async getCachedSecret(endpoint: string): Promise<{ key: string; algorithm: string } | null> {
@@ -302,17 +212,7 @@ class OptimizedSignatureValidator {
         `${algorithm.toUpperCase()}=${computedSignature}`,
       ];
 
-      const isValid = expectedFormats.includes(signature);
-      
-      if (!isValid) {
-        console.warn('Signature validation failed:', {
-          provided: signature,
-          computed: computedSignature,
-          algorithm,
-        });
-      }
-
-      return isValid;
+      return expectedFormats.includes(signature);
     } catch (error) {
       console.error('Signature computation error:', error);
       return false;
@@ -325,19 +225,15 @@ export const signatureValidator = new OptimizedSignatureValidator();
 // Queue processing logic with INCREASED CONCURRENCY for faster processing
 webhookQueue.process('*', 5, async (job) => {  // Process 5 jobs concurrently
   const startTime = Date.now();
-  const { webhookEvent, rawBody, signature, headers } = job.data;
+  const { webhookEvent, signature } = job.data;
 
   try {
     console.log(`Processing webhook job: ${job.id} - ${webhookEvent.id}`);
 
-    // Enhanced deduplication: check multiple identifiers
-    const isDuplicate = await webhookDeduplicator.isDuplicate(
-      webhookEvent.id, 
-      webhookEvent.payload,
-      signature
-    );
+    // Claimed at ingest; a retry of the same event passes, another delivery of it does not
+    const claim = await webhookIdempotency.claim(webhookEvent, { stage: 'WORKER', signature });
     
-    if (isDuplicate) {
+    if (claim.duplicate) {
       console.log(`Skipping duplicate webhook: ${webhookEvent.id}`);
       return {
         success: true,
@@ -347,28 +243,17 @@ webhookQueue.process('*', 5, async (job) => {  // Process 5 jobs concurrently
       };
     }
 
-    // Validate signature (if enabled)
-    if (process.env.WEBHOOK_SIGNATURE_VALIDATION !== 'false') {
-      const isValidSignature = await signatureValidator.validateSignature(
-        rawBody,
-        signature,
-        webhookEvent.source
-      );
-      
-      if (!isValidSignature && process.env.NODE_ENV === 'production') {
-        throw new Error('Invalid webhook signature');
-      }
-    }
+    // Signature policy was applied by the ingestion pipeline before the job was queued;
+    // the outcome travels on webhookEvent.signatureStatus / quarantined
 
     // Process the webhook event
     await webhookStorePersistent.addWebhookEvent(webhookEvent);
 
-    // Mark as processed with all identifiers for comprehensive deduplication
-    await webhookDeduplicator.markProcessed(
-      webhookEvent.id,
-      webhookEvent.payload,
-      signature
-    );
+    if (!webhookEvent.filterReason && disputeManager.isChargebackEvent(webhookEvent.eventType)) {
+      await disputeManager.recordChargebackEvent(webhookEvent);
+    }
+
+    await webhookForwarder.enqueueForEvent(webhookEvent);
 
     // Smart cache invalidation based on webhook type
     await performSmartCacheInvalidation(webhookEvent);
@@ -376,6 +261,15 @@ webhookQueue.process('*', 5, async (job) => {  // Process 5 jobs concurrently
     const processingTime = Date.now() - startTime;
     console.log(`Successfully processed webhook ${webhookEvent.id} in ${processingTime}ms`);
 
+    if (job.data.deadLetterId) {
+      await resolveDeadLetter(job.data.deadLetterId);
+    }
+
+    await webhookLatency.record(webhookEvent, {
+      enqueuedAt: job.data.timestamp,
+      startedAt: new Date(startTime),
+    });
+
     // Update processing metrics
     await updateWebhookMetrics('success', processingTime);
 
@@ -404,6 +298,21 @@ webhookQueue.process('*', 5, async (job) => {  // Process 5 jobs concurrently
       console.error('Failed to store failed webhook event:', storeError);
     }
 
+    // Record the attempt so the dead-letter entry carries the full history
+    const attempt: DeadLetterAttempt = {
+      attempt: job.attemptsMade + 1,
+      error: errorMessage,
+      failedAt: new Date().toISOString(),
+      processingTime,
+      jobId: job.id.toString(),
+    };
+    await job.update({
+      ...job.data,
+      attemptHistory: [...(job.data.attemptHistory || []), attempt],
+    }).catch(updateError => {
+      console.warn(`Failed to record attempt history for job ${job.id}:`, updateError);
+    });
+
     // Update processing metrics
     await updateWebhookMetrics('failure', processingTime);
 
@@ -419,8 +328,13 @@ webhookQueue.on('completed', (job, result: WebhookProcessResult) => {
   });
 });
 
-webhookQueue.on('failed', (job, err) => {
+webhookQueue.on('failed', async (job, err) => {
   console.error(`Webhook job ${job.id} failed:`, err.message);
+
+  // Retries exhausted - move to the persistent dead-letter queue
+  if (job.attemptsMade >= (job.opts.attempts || 1)) {
+    await moveToDeadLetter(job, err);
+  }
 });
 
 webhookQueue.on('stalled', (job) => {
@@ -500,6 +414,264 @@ export class WebhookQueueManager {
       webhookQueue.clean(24 * 60 * 60 * 1000, 'failed'),    // Clean failed jobs older than 24 hours
     ]);
   }
+
+  // ---------------------------------------------------------------------------
+  // Dead-letter queue
+  // ---------------------------------------------------------------------------
+
+  static async listDeadLetters(options: {
+    status?: DeadLetterStatus;
+    limit?: number;
+    offset?: number;
+  } = {}) {
+    const { status = 'PENDING', limit = 50, offset = 0 } = options;
+
+    return withDatabase(async (db) => {
+      const where = { status };
+      const [jobs, total] = await Promise.all([
+        db.deadLetterJob.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          take: Math.min(limit, 200),
+          skip: offset,
+          select: {
+            id: true,
+            jobId: true,
+            webhookEventId: true,
+            eventType: true,
+            source: true,
+            lastError: true,
+            totalAttempts: true,
+            status: true,
+            retryCount: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+        }),
+        db.deadLetterJob.count({ where }),
+      ]);
+
+      return { jobs, total };
+    }, { operationName: 'dead_letter_list' });
+  }
+
+  static async getDeadLetter(id: string) {
+    return withDatabase(async (db) => {
+      return db.deadLetterJob.findUnique({ where: { id } });
+    }, { operationName: 'dead_letter_get' });
+  }
+
+  static async getDeadLetterStats(): Promise<Record<DeadLetterStatus, number>> {
+    const counts = await withDatabase(async (db) => {
+      return db.deadLetterJob.groupBy({
+        by: ['status'],
+        _count: { _all: true },
+      });
+    }, { operationName: 'dead_letter_stats' });
+
+    const stats: Record<DeadLetterStatus, number> = { PENDING: 0, RETRYING: 0, RESOLVED: 0, DISCARDED: 0 };
+    counts.forEach(row => {
+      stats[row.status as DeadLetterStatus] = row._count._all;
+    });
+    return stats;
+  }
+
+  /**
+   * Re-queue a dead-lettered job, optionally with an edited event type or payload
+   */
+  static async retryDeadLetter(
+    id: string,
+    edits: { eventType?: string; payload?: WebhookPayload } = {},
+    userId?: string
+  ): Promise<DeadLetterActionResult> {
+    try {
+      const entry = await WebhookQueueManager.getDeadLetter(id);
+      if (!entry) {
+        return { id, success: false, error: 'Dead-letter job not found' };
+      }
+      if (entry.status !== 'PENDING') {
+        return { id, success: false, error: `Dead-letter job is ${entry.status}` };
+      }
+
+      const original = entry.jobData as unknown as WebhookJobData;
+      const webhookEvent: WebhookEvent = {
+        ...original.webhookEvent,
+        ...(edits.eventType && { eventType: edits.eventType }),
+        ...(edits.payload && { payload: edits.payload }),
+        processed: false,
+        error: undefined,
+      };
+
+      // Claim the entry before enqueueing so concurrent retries cannot both re-queue it
+      const claimed = await withDatabase(async (db) => {
+        return db.deadLetterJob.updateMany({
+          where: { id, status: 'PENDING' },
+          data: {
+            status: 'RETRYING',
+            retryCount: { increment: 1 },
+            resolvedBy: userId,
+            ...((edits.payload || edits.eventType) && {
+              editedPayload: {
+                eventType: webhookEvent.eventType,
+                payload: webhookEvent.payload,
+              } as unknown as Prisma.InputJsonValue,
+            }),
+          },
+        });
+      }, { operationName: 'dead_letter_claim_retry' });
+
+      if (claimed.count === 0) {
+        return { id, success: false, error: 'Dead-letter job is no longer pending' };
+      }
+
+      let job: Queue.Job<WebhookJobData>;
+      try {
+        await withDatabase(async (db) => {
+          // Drop the stored failure so the successful retry can be persisted under the same id;
+          // the dead-letter entry keeps the failure history
+          await db.webhookEvent.deleteMany({
+            where: { id: webhookEvent.id, processed: false },
+          });
+        }, { operationName: 'dead_letter_clear_failed_event' });
+
+        job = await webhookQueue.add('process', {
+          ...original,
+          webhookEvent,
+          timestamp: new Date().toISOString(),
+          attemptHistory: [],
+          deadLetterId: id,
+        }, {
+          priority: webhookEvent.eventType.includes('PAYMENT') ? 10 : 5,
+        });
+      } catch (error) {
+        // Hand the entry back so it can be retried again
+        await withDatabase(async (db) => {
+          await db.deadLetterJob.updateMany({
+            where: { id, status: 'RETRYING' },
+            data: { status: 'PENDING', retryCount: { decrement: 1 } },
+          });
+        }, { operationName: 'dead_letter_release_retry' }).catch(releaseError => {
+          console.error(`Failed to release dead-letter job ${id}:`, releaseError);
+        });
+        throw error;
+      }
+
+      await withDatabase(async (db) => {
+        await db.deadLetterJob.update({
+          where: { id },
+          data: { retriedJobId: job.id.toString() },
+        });
+      }, { operationName: 'dead_letter_mark_retrying' });
+
+      console.log(`Re-queued dead-letter job ${id} as job ${job.id}`);
+      return { id, success: true, jobId: job.id.toString() };
+    } catch (error) {
+      console.error(`Failed to retry dead-letter job ${id}:`, error);
+      return { id, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  static async bulkRetryDeadLetters(ids: string[], userId?: string): Promise<DeadLetterActionResult[]> {
+    const results: DeadLetterActionResult[] = [];
+    // Sequential to avoid flooding the queue and the database pool
+    for (const id of ids) {
+      results.push(await WebhookQueueManager.retryDeadLetter(id, {}, userId));
+    }
+    return results;
+  }
+
+  static async discardDeadLetter(id: string, reason?: string, userId?: string): Promise<DeadLetterActionResult> {
+    try {
+      const updated = await withDatabase(async (db) => {
+        return db.deadLetterJob.updateMany({
+          where: { id, status: 'PENDING' },
+          data: {
+            status: 'DISCARDED',
+            discardReason: reason,
+            resolvedAt: new Date(),
+            resolvedBy: userId,
+          },
+        });
+      }, { operationName: 'dead_letter_discard' });
+
+      if (updated.count === 0) {
+        return { id, success: false, error: 'Dead-letter job not found or not pending' };
+      }
+      return { id, success: true };
+    } catch (error) {
+      console.error(`Failed to discard dead-letter job ${id}:`, error);
+      return { id, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
+
+// Persist a job that exhausted its retries; retried dead letters update their existing entry
+async function moveToDeadLetter(job: Queue.Job<WebhookJobData>, error: Error): Promise<void> {
+  const { attemptHistory = [], deadLetterId, ...jobData } = job.data;
+  const { webhookEvent } = jobData;
+
+  try {
+    const entryId = await withDatabase(async (db) => {
+      const existing = deadLetterId
+        ? await db.deadLetterJob.findUnique({ where: { id: deadLetterId } })
+        : null;
+
+      if (existing) {
+        const history = (existing.attemptHistory as unknown as DeadLetterAttempt[]) || [];
+        await db.deadLetterJob.update({
+          where: { id: existing.id },
+          data: {
+            status: 'PENDING',
+            jobId: job.id.toString(),
+            lastError: error.message,
+            attemptHistory: [...history, ...attemptHistory] as unknown as Prisma.InputJsonValue,
+            totalAttempts: { increment: attemptHistory.length },
+          },
+        });
+        return existing.id;
+      }
+
+      const created = await db.deadLetterJob.create({
+        data: {
+          queueName: job.queue.name,
+          jobId: job.id.toString(),
+          webhookEventId: webhookEvent.id,
+          eventType: webhookEvent.eventType,
+          source: webhookEvent.source,
+          jobData: jobData as unknown as Prisma.InputJsonValue,
+          lastError: error.message,
+          attemptHistory: attemptHistory as unknown as Prisma.InputJsonValue,
+          totalAttempts: attemptHistory.length,
+        },
+      });
+      return created.id;
+    }, { operationName: 'dead_letter_insert', retries: 2 });
+
+    console.warn(`Moved webhook ${webhookEvent.id} to dead-letter queue: ${entryId}`);
+
+    await createAlert({
+      type: 'WARNING',
+      title: 'Webhook Moved to Dead-Letter Queue',
+      message: `${webhookEvent.eventType} webhook ${webhookEvent.id} failed after ${job.attemptsMade} attempts: ${error.message}`,
+      source: 'webhook-queue',
+      metadata: { deadLetterId: entryId, webhookEventId: webhookEvent.id, jobId: job.id },
+    });
+  } catch (dlqError) {
+    console.error(`Failed to move job ${job.id} to dead-letter queue:`, dlqError);
+  }
+}
+
+async function resolveDeadLetter(deadLetterId: string): Promise<void> {
+  try {
+    await withDatabase(async (db) => {
+      await db.deadLetterJob.update({
+        where: { id: deadLetterId },
+        data: { status: 'RESOLVED', resolvedAt: new Date() },
+      });
+    }, { operationName: 'dead_letter_resolve' });
+  } catch (error) {
+    console.warn(`Failed to mark dead-letter job ${deadLetterId} resolved:`, error);
+  }
 }
 
 // Smart cache invalidation based on webhook content - OPTIMIZED for performance
@@ -509,7 +681,7 @@ async function performSmartCacheInvalidation(webhookEvent: WebhookEvent): Promis
     const payload = webhookEvent.payload;
     
     // Extract company ID if available
-    const companyId = payload.companyId || payload.eventData?.companyId;
+    const companyId = webhookEvent.companyId || payload.companyId || payload.eventData?.companyId;
     
     // OPTIMIZED: Use selective cache invalidation to reduce overhead
     // Only invalidate specific cache keys instead of entire categories
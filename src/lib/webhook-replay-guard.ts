@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import { RedisConnectionManager } from '@/lib/redis-config';
+import { withDatabase } from '@/lib/database';
+
+/**
+ * WEBHOOK REPLAY GUARD
+ *
+ * An HMAC only proves who produced a request, not when. Two checks stop a
+ * captured signed request from being replayed:
+ * 1. Timestamp tolerance - the signed timestamp header, when the sender
+ *    provides one, must be recent. Paysafe signs no timestamp, and its own
+ *    retries can arrive hours after eventDate, so eventDate is not used
+ * 2. Nonce store - each signature is accepted once; Redis first, database
+ *    fallback when the Redis circuit breaker is open
+ */
+
+export type ReplayRejectionReason = 'STALE_TIMESTAMP' | 'NONCE_REUSED';
+
+export interface ReplayCheckInput {
+  endpoint: string;
+  signature?: string;
+  timestamp?: string; // Signed timestamp header
+}
+
+export type ReplayCheckResult =
+  | { accepted: true; nonce?: string }
+  | { accepted: false; reason: ReplayRejectionReason; detail: string };
+
+export class WebhookReplayGuard {
+  private readonly NONCE_KEY_PREFIX = 'webhook_nonce:';
+  private readonly toleranceSeconds = parseInt(process.env.WEBHOOK_REPLAY_TOLERANCE_SECONDS || '900');
+  private readonly nonceTtlSeconds = parseInt(process.env.WEBHOOK_NONCE_TTL_SECONDS || '86400');
+
+  async check(input: ReplayCheckInput): Promise<ReplayCheckResult> {
+    if (input.timestamp) {
+      const eventTime = this.parseTimestamp(input.timestamp);
+      if (eventTime !== null) {
+        const skewSeconds = Math.abs(Date.now() - eventTime) / 1000;
+        if (skewSeconds > this.toleranceSeconds) {
+          return {
+            accepted: false,
+            reason: 'STALE_TIMESTAMP',
+            detail: `Timestamp ${input.timestamp} is ${Math.round(skewSeconds)}s outside the ${this.toleranceSeconds}s tolerance`,
+          };
+        }
+      }
+    }
+
+    // Unsigned requests carry no nonce; the signature policy decides whether they are allowed
+    if (!input.signature) {
+      return { accepted: true };
+    }
+
+    const nonce = crypto
+      .createHash('sha256')
+      .update(`${input.endpoint}:${input.signature}`)
+      .digest('hex');
+
+    const isFirstUse = await this.claimNonce(nonce, input.endpoint);
+    if (!isFirstUse) {
+      return {
+        accepted: false,
+        reason: 'NONCE_REUSED',
+        detail: 'Signature has already been accepted for this endpoint',
+      };
+    }
+
+    return { accepted: true, nonce };
+  }
+
+  /**
+   * Release a nonce so the sender's retry is accepted (used when processing fails)
+   */
+  async release(nonce: string): Promise<void> {
+    try {
+      await RedisConnectionManager.del(`${this.NONCE_KEY_PREFIX}${nonce}`);
+    } catch (error) {
+      console.warn('Failed to release webhook nonce in Redis:', error);
+    }
+
+    await withDatabase(async (db) => {
+      await db.webhookNonce.deleteMany({ where: { nonce } });
+    }, {
+      timeout: 3000,
+      operationName: 'webhook_nonce_release',
+      retries: 0
+    }).catch(error => {
+      console.warn('Failed to release webhook nonce in database:', error);
+    });
+  }
+
+  private async claimNonce(nonce: string, endpoint: string): Promise<boolean> {
+    try {
+      return await RedisConnectionManager.setnx(
+        `${this.NONCE_KEY_PREFIX}${nonce}`,
+        this.nonceTtlSeconds,
+        Date.now().toString()
+      );
+    } catch (error) {
+      console.warn('Redis nonce store unavailable, falling back to database:', error instanceof Error ? error.message : error);
+      return this.claimNonceInDatabase(nonce, endpoint);
+    }
+  }
+
+  private async claimNonceInDatabase(nonce: string, endpoint: string): Promise<boolean> {
+    return withDatabase(async (db) => {
+      // Expired rows would otherwise block the unique constraint forever
+      await db.webhookNonce.deleteMany({
+        where: { nonce, expiresAt: { lt: new Date() } },
+      });
+
+      try {
+        await db.webhookNonce.create({
+          data: {
+            nonce,
+            endpoint,
+            expiresAt: new Date(Date.now() + this.nonceTtlSeconds * 1000),
+          },
+        });
+        return true;
+      } catch (error) {
+        if ((error as { code?: string }).code === 'P2002') {
+          return false; // Unique constraint: nonce already claimed
+        }
+        throw error;
+      }
+    }, {
+      timeout: 5000,
+      operationName: 'webhook_nonce_claim',
+      retries: 1
+    });
+  }
+
+  /**
+   * Accepts unix seconds, unix milliseconds or ISO 8601
+   */
+  private parseTimestamp(value: string): number | null {
+    if (/^\d+$/.test(value)) {
+      const numeric = parseInt(value);
+      return numeric > 1e12 ? numeric : numeric * 1000;
+    }
+
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  /**
+   * Remove expired database nonces (Redis expires its own keys)
+   */
+  async cleanupExpiredNonces(): Promise<number> {
+    const result = await withDatabase(async (db) => {
+      return await db.webhookNonce.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+    }, {
+      timeout: 10000,
+      operationName: 'webhook_nonce_cleanup',
+      retries: 1
+    });
+
+    return result.count;
+  }
+}
+
+export const webhookReplayGuard = new WebhookReplayGuard();
@@ -0,0 +1,483 @@
+import Queue from 'bull';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { withDatabase, bullRedisOptions } from '@/lib/database';
+import { WebhookProcessor } from '@/lib/webhook-processor';
+import { buildAccountData, AccountStatusPayload } from '@/lib/webhook-adapters';
+import { parseDataMode } from '@/lib/data-mode';
+import { recordStatusChange, resolveEventTime } from '@/lib/transaction-lifecycle';
+
+/**
+ * WEBHOOK REPROCESSING
+ *
+ * Re-runs stored webhook_events through the current processor mappings and
+ * reports what would change in transactions and accounts (DRY_RUN), or
+ * writes those changes (APPLY).
+ *
+ * Safe alongside live traffic:
+ * - The time range is frozen when the job is created, so new arrivals are not picked up
+ * - Only the newest event for a transaction/account may define its state;
+ *   older events are reported as superseded
+ * - Writes are conditional on the row's updatedAt, so a concurrent live update wins
+ */
+
+export type ReprocessMode = 'DRY_RUN' | 'APPLY';
+export type ReprocessStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface ReprocessFilter {
+  from?: string;
+  to?: string;
+  eventTypes?: string[];
+  sources?: string[];
+  companyId?: string;
+}
+
+type ChangeOutcome = 'PREVIEW' | 'APPLIED' | 'CONFLICT';
+type EventResult = 'CHANGED' | 'UNCHANGED' | 'SUPERSEDED' | 'CONFLICT' | 'IGNORED';
+
+interface StoredEvent {
+  id: string;
+  timestamp: Date;
+  eventType: string;
+  source: string;
+  payload: Prisma.JsonValue;
+  companyId: string | null;
+  mode: string;
+}
+
+// Fields the processor derives; only these are compared and written
+const TRANSACTION_FIELDS = ['merchantRefNum', 'amount', 'currency', 'status', 'transactionType', 'paymentMethod'] as const;
+const ACCOUNT_FIELDS = ['status', 'subStatus', 'onboardingStage', 'creditCardId', 'directDebitId', 'riskLevel', 'complianceStatus'] as const;
+
+const BATCH_SIZE = 100;
+
+export const reprocessingQueue = new Queue<{ reprocessingJobId: string }>('webhook reprocessing', {
+  redis: bullRedisOptions,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 50,
+    attempts: 1, // Failed jobs are resumed explicitly from their cursor
+  },
+});
+
+export class WebhookReprocessor {
+  private processor = new WebhookProcessor();
+
+  async createJob(mode: ReprocessMode, filter: ReprocessFilter, userId?: string) {
+    // Freeze the upper bound so events arriving during the run are left to live processing
+    const frozenFilter: ReprocessFilter = {
+      ...filter,
+      to: filter.to || new Date().toISOString(),
+    };
+
+    const job = await withDatabase(async (db) => {
+      const totalEvents = await db.webhookEvent.count({ where: this.buildWhere(frozenFilter) });
+
+      return db.reprocessingJob.create({
+        data: {
+          mode,
+          filter: frozenFilter as Prisma.InputJsonValue,
+          totalEvents,
+          createdBy: userId,
+        },
+      });
+    }, { operationName: 'reprocessing_job_create' });
+
+    await reprocessingQueue.add({ reprocessingJobId: job.id });
+    console.log(`Queued ${mode} reprocessing job ${job.id} for ${job.totalEvents} events`);
+
+    return job;
+  }
+
+  async resumeJob(id: string): Promise<boolean> {
+    const updated = await withDatabase(async (db) => {
+      return db.reprocessingJob.updateMany({
+        where: { id, status: { in: ['FAILED', 'CANCELLED'] } },
+        data: { status: 'QUEUED', completedAt: null },
+      });
+    }, { operationName: 'reprocessing_job_resume' });
+
+    if (updated.count === 0) {
+      return false;
+    }
+
+    await reprocessingQueue.add({ reprocessingJobId: id });
+    return true;
+  }
+
+  async cancelJob(id: string): Promise<boolean> {
+    const updated = await withDatabase(async (db) => {
+      return db.reprocessingJob.updateMany({
+        where: { id, status: { in: ['QUEUED', 'RUNNING'] } },
+        data: { status: 'CANCELLED', completedAt: new Date() },
+      });
+    }, { operationName: 'reprocessing_job_cancel' });
+
+    return updated.count > 0;
+  }
+
+  async getJob(id: string) {
+    return withDatabase(async (db) => {
+      return db.reprocessingJob.findUnique({ where: { id } });
+    }, { operationName: 'reprocessing_job_get' });
+  }
+
+  async listJobs(limit = 20) {
+    return withDatabase(async (db) => {
+      return db.reprocessingJob.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(limit, 100),
+      });
+    }, { operationName: 'reprocessing_job_list' });
+  }
+
+  async getChanges(jobId: string, options: { entity?: 'TRANSACTION' | 'ACCOUNT'; limit?: number; offset?: number } = {}) {
+    const { entity, limit = 100, offset = 0 } = options;
+
+    return withDatabase(async (db) => {
+      const where = { jobId, ...(entity && { entity }) };
+      const [changes, total] = await Promise.all([
+        db.reprocessingChange.findMany({
+          where,
+          orderBy: { createdAt: 'asc' },
+          take: Math.min(limit, 500),
+          skip: offset,
+        }),
+        db.reprocessingChange.count({ where }),
+      ]);
+      return { changes, total };
+    }, { operationName: 'reprocessing_changes_get' });
+  }
+
+  /**
+   * Run (or resume) a job from its cursor. Called by the reprocessing queue worker.
+   */
+  async run(id: string): Promise<void> {
+    const job = await withDatabase(async (db) => {
+      const existing = await db.reprocessingJob.findUnique({ where: { id } });
+      if (!existing || existing.status !== 'QUEUED') {
+        return null;
+      }
+      return db.reprocessingJob.update({
+        where: { id },
+        data: { status: 'RUNNING', startedAt: existing.startedAt || new Date() },
+      });
+    }, { operationName: 'reprocessing_job_start' });
+
+    if (!job) {
+      console.log(`Reprocessing job ${id} is not queued, skipping`);
+      return;
+    }
+
+    const mode = job.mode as ReprocessMode;
+    const baseWhere = this.buildWhere(job.filter as ReprocessFilter);
+    let cursor = job.cursorTimestamp && job.cursorEventId
+      ? { timestamp: job.cursorTimestamp, id: job.cursorEventId }
+      : null;
+
+    try {
+      while (true) {
+        const events: StoredEvent[] = await withDatabase(async (db) => {
+          return db.webhookEvent.findMany({
+            where: {
+              ...baseWhere,
+              ...(cursor && {
+                OR: [
+                  { timestamp: { gt: cursor.timestamp } },
+                  { timestamp: cursor.timestamp, id: { gt: cursor.id } },
+                ],
+              }),
+            },
+            orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+            take: BATCH_SIZE,
+            select: { id: true, timestamp: true, eventType: true, source: true, payload: true, companyId: true, mode: true },
+          });
+        }, { operationName: 'reprocessing_batch_load' });
+
+        if (events.length === 0) {
+          break;
+        }
+
+        const counts = { transactionChanges: 0, accountChanges: 0, skippedEvents: 0, errorCount: 0 };
+        let lastError: string | undefined;
+
+        for (const event of events) {
+          try {
+            const { entity, result } = await this.reprocessEvent(event, mode, id);
+            if (result === 'CHANGED') {
+              counts[entity === 'ACCOUNT' ? 'accountChanges' : 'transactionChanges']++;
+            } else if (result === 'SUPERSEDED' || result === 'CONFLICT') {
+              counts.skippedEvents++;
+            }
+          } catch (error) {
+            counts.errorCount++;
+            lastError = `${event.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            console.error(`Reprocessing failed for event ${event.id}:`, error);
+          }
+        }
+
+        const last = events[events.length - 1];
+        cursor = { timestamp: last.timestamp, id: last.id };
+
+        // Persist progress and pick up cancellation between batches
+        const progress = await withDatabase(async (db) => {
+          return db.reprocessingJob.update({
+            where: { id },
+            data: {
+              processedEvents: { increment: events.length },
+              transactionChanges: { increment: counts.transactionChanges },
+              accountChanges: { increment: counts.accountChanges },
+              skippedEvents: { increment: counts.skippedEvents },
+              errorCount: { increment: counts.errorCount },
+              ...(lastError && { lastError }),
+              cursorTimestamp: last.timestamp,
+              cursorEventId: last.id,
+            },
+            select: { status: true },
+          });
+        }, { operationName: 'reprocessing_progress' });
+
+        if (progress.status === 'CANCELLED') {
+          console.log(`Reprocessing job ${id} cancelled`);
+          return;
+        }
+      }
+
+      await withDatabase(async (db) => {
+        await db.reprocessingJob.updateMany({
+          where: { id, status: 'RUNNING' },
+          data: { status: 'COMPLETED', completedAt: new Date() },
+        });
+      }, { operationName: 'reprocessing_job_complete' });
+
+      console.log(`Reprocessing job ${id} completed`);
+    } catch (error) {
+      await withDatabase(async (db) => {
+        await db.reprocessingJob.update({
+          where: { id },
+          data: {
+            status: 'FAILED',
+            completedAt: new Date(),
+            lastError: error instanceof Error ? error.message : 'Unknown error',
+          },
+        });
+      }, { operationName: 'reprocessing_job_fail' }).catch(updateError => {
+        console.error(`Failed to mark reprocessing job ${id} as failed:`, updateError);
+      });
+
+      throw error;
+    }
+  }
+
+  private async reprocessEvent(
+    event: StoredEvent,
+    mode: ReprocessMode,
+    jobId: string
+  ): Promise<{ entity: 'TRANSACTION' | 'ACCOUNT'; result: EventResult }> {
+    if (event.source === 'paysafe-accounts') {
+      return { entity: 'ACCOUNT', result: await this.reprocessAccountEvent(event, mode, jobId) };
+    }
+    return { entity: 'TRANSACTION', result: await this.reprocessTransactionEvent(event, mode, jobId) };
+  }
+
+  private async reprocessTransactionEvent(event: StoredEvent, mode: ReprocessMode, jobId: string): Promise<EventResult> {
+    const payload = event.payload as {
+      eventType?: string;
+      eventDate?: string;
+      eventData?: { id?: string; status?: string; updatedTime?: string; txnTime?: string };
+    } | null;
+    if (!payload?.eventData?.id || !this.processor.isTransactionEvent(event.eventType)) {
+      return 'IGNORED';
+    }
+
+    const after = this.processor.buildTransactionData({ ...payload, eventType: event.eventType }, event.id);
+    const eventTime = resolveEventTime(payload);
+    const rawStatus = payload.eventData.status || event.eventType;
+
+    return withDatabase(async (db) => {
+      const latestId = await this.findLatestEventId(db, { payload: { path: ['eventData', 'id'], equals: after.externalId } });
+      if (latestId !== event.id) {
+        return 'SUPERSEDED';
+      }
+
+      const current = await db.transaction.findUnique({ where: { externalId: after.externalId } });
+      const changedFields = this.diffFields(TRANSACTION_FIELDS, current, after);
+      if (changedFields.length === 0) {
+        return 'UNCHANGED';
+      }
+
+      let outcome: ChangeOutcome = 'PREVIEW';
+      if (mode === 'APPLY') {
+        outcome = current
+          ? await this.conditionalUpdate(() => db.transaction.updateMany({
+              where: { id: current.id, updatedAt: current.updatedAt },
+              data: {
+                ...this.pick(after, changedFields),
+                ...(changedFields.includes('status') && { statusEventTime: eventTime }),
+              },
+            }))
+          : await this.conditionalCreate(() => db.transaction.create({
+              data: { ...after, companyId: event.companyId, statusEventTime: eventTime, mode: event.mode },
+            }));
+
+        if (outcome === 'APPLIED' && changedFields.includes('status')) {
+          const applied = await db.transaction.findUniqueOrThrow({ where: { externalId: after.externalId } });
+          await recordStatusChange(db, {
+            transactionId: applied.id,
+            fromStatus: current?.status,
+            toStatus: after.status,
+            rawStatus,
+            eventType: event.eventType,
+            webhookEventId: event.id,
+            eventTime,
+          });
+        }
+      }
+
+      await this.recordChange(db, jobId, 'TRANSACTION', after.externalId, event.id, current, after, changedFields, outcome);
+      return outcome === 'CONFLICT' ? 'CONFLICT' : 'CHANGED';
+    }, { operationName: 'reprocessing_transaction_event' });
+  }
+
+  private async reprocessAccountEvent(event: StoredEvent, mode: ReprocessMode, jobId: string): Promise<EventResult> {
+    const payload = event.payload as unknown as AccountStatusPayload | null;
+    if (!payload?.accountId || !payload.status) {
+      return 'IGNORED';
+    }
+
+    const after = buildAccountData(payload, event.id, undefined, parseDataMode(event.mode));
+
+    return withDatabase(async (db) => {
+      const latestId = await this.findLatestEventId(db, {
+        source: 'paysafe-accounts',
+        payload: { path: ['accountId'], equals: after.externalId },
+      });
+      if (latestId !== event.id) {
+        return 'SUPERSEDED';
+      }
+
+      const current = await db.account.findUnique({ where: { externalId: after.externalId } });
+      const changedFields = this.diffFields(ACCOUNT_FIELDS, current, after);
+      if (changedFields.length === 0) {
+        return 'UNCHANGED';
+      }
+
+      let outcome: ChangeOutcome = 'PREVIEW';
+      if (mode === 'APPLY') {
+        outcome = current
+          ? await this.conditionalUpdate(() => db.account.updateMany({
+              where: { id: current.id, updatedAt: current.updatedAt },
+              data: this.pick(after, changedFields),
+            }))
+          : await this.conditionalCreate(() => db.account.create({
+              data: {
+                ...after,
+                metadata: after.metadata as unknown as Prisma.InputJsonValue,
+                companyId: event.companyId,
+              },
+            }));
+      }
+
+      await this.recordChange(db, jobId, 'ACCOUNT', after.externalId, event.id, current, after, changedFields, outcome);
+      return outcome === 'CONFLICT' ? 'CONFLICT' : 'CHANGED';
+    }, { operationName: 'reprocessing_account_event' });
+  }
+
+  // Newest successfully stored event for an entity, including events newer than the job's range
+  private async findLatestEventId(db: PrismaClient, where: Prisma.WebhookEventWhereInput): Promise<string | undefined> {
+    const latest = await db.webhookEvent.findFirst({
+      where: { ...where, error: null },
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      select: { id: true },
+    });
+    return latest?.id;
+  }
+
+  private diffFields<F extends string>(
+    fields: readonly F[],
+    current: Partial<Record<F, unknown>> | null,
+    after: Partial<Record<F, unknown>>
+  ): F[] {
+    if (!current) {
+      return [...fields];
+    }
+    return fields.filter(field => (current[field] ?? null) !== (after[field] ?? null));
+  }
+
+  private pick<T extends object, F extends keyof T>(source: T, fields: F[]): Pick<T, F> {
+    const picked = {} as Pick<T, F>;
+    fields.forEach(field => {
+      picked[field] = source[field];
+    });
+    return picked;
+  }
+
+  // Zero rows means live traffic updated the record since we read it
+  private async conditionalUpdate(update: () => Promise<{ count: number }>): Promise<ChangeOutcome> {
+    const result = await update();
+    return result.count > 0 ? 'APPLIED' : 'CONFLICT';
+  }
+
+  private async conditionalCreate(create: () => Promise<unknown>): Promise<ChangeOutcome> {
+    try {
+      await create();
+      return 'APPLIED';
+    } catch (error) {
+      if ((error as { code?: string }).code === 'P2002') {
+        return 'CONFLICT'; // Created by live traffic in the meantime
+      }
+      throw error;
+    }
+  }
+
+  private async recordChange(
+    db: PrismaClient,
+    jobId: string,
+    entity: 'TRANSACTION' | 'ACCOUNT',
+    externalId: string,
+    webhookEventId: string,
+    current: object | null,
+    after: object,
+    changedFields: string[],
+    outcome: ChangeOutcome
+  ): Promise<void> {
+    const fields = entity === 'ACCOUNT' ? ACCOUNT_FIELDS : TRANSACTION_FIELDS;
+    const snapshot = (record: object) =>
+      Object.fromEntries(fields.map(field => [field, (record as Record<string, unknown>)[field] ?? null]));
+
+    await db.reprocessingChange.create({
+      data: {
+        jobId,
+        entity,
+        externalId,
+        webhookEventId,
+        before: current ? (snapshot(current) as Prisma.InputJsonValue) : Prisma.JsonNull,
+        after: snapshot(after) as Prisma.InputJsonValue,
+        changedFields,
+        outcome,
+      },
+    });
+  }
+
+  private buildWhere(filter: ReprocessFilter): Prisma.WebhookEventWhereInput {
+    return {
+      error: null, // Failed and rejected events never produced state
+      filterReason: null, // Nor did events the company's subscription skipped
+      ...((filter.from || filter.to) && {
+        timestamp: {
+          ...(filter.from && { gte: new Date(filter.from) }),
+          ...(filter.to && { lte: new Date(filter.to) }),
+        },
+      }),
+      ...(filter.eventTypes?.length && { eventType: { in: filter.eventTypes } }),
+      ...(filter.sources?.length && { source: { in: filter.sources } }),
+      ...(filter.companyId && { companyId: filter.companyId }),
+    };
+  }
+}
+
+export const webhookReprocessor = new WebhookReprocessor();
+
+// One job at a time keeps the database load predictable next to live traffic
+reprocessingQueue.process(1, async (job) => {
+  await webhookReprocessor.run(job.data.reprocessingJobId);
+});
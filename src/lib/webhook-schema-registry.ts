@@ -0,0 +1,643 @@
+import { Prisma } from '@prisma/client';
+import { withDatabase } from '@/lib/database';
+import { createAlert } from '@/lib/database-serverless';
+import { WebhookSource } from '@/types/webhook';
+
+/**
+ * WEBHOOK SCHEMA REGISTRY
+ *
+ * Versioned JSON schemas per source and event type. Every inbound payload is
+ * validated against the most specific schema for its event type:
+ *   exact event type → prefix pattern ("CHARGEBACK*") → "*"
+ * Field paths seen in real payloads are recorded so a drift report can list
+ * fields Paysafe sends that the schemas do not describe yet.
+ *
+ * Only the JSON Schema keywords the registered schemas use are supported.
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  pattern?: string;
+  format?: 'date-time';
+  minLength?: number;
+  minimum?: number;
+}
+
+export interface WebhookSchemaDefinition {
+  source: WebhookSource;
+  eventType: string; // Exact type, prefix pattern ending in "*", or "*" for all types
+  version: number;
+  schema: JsonSchema;
+}
+
+export interface SchemaValidationError {
+  path: string; // e.g. "eventData.amount", "links[0].href"; "" for the payload root
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  schemaVersion: string | null; // null when no schema is registered for the source/event type
+  valid: boolean;
+  errors: SchemaValidationError[];
+}
+
+export interface SchemaFailureInput {
+  endpoint: string;
+  source: WebhookSource;
+  eventType: string;
+  result: SchemaValidationResult;
+  rejected: boolean;
+  webhookEventId?: string;
+  payload: unknown;
+}
+
+export interface SchemaDriftEntry {
+  source: string;
+  eventType: string;
+  schemaVersion: string | null;
+  undeclaredFields: Array<{
+    path: string;
+    firstSeenAt: Date;
+    sampleEventId: string | null;
+  }>;
+}
+
+const MAX_OBSERVED_PATHS = 500;
+const MAX_OBSERVED_DEPTH = 10;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, expected: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === expected || (expected === 'number' && actual === 'integer');
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Validate a value against a schema, collecting every error with its field path
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown, path = ''): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+
+  if (schema.type) {
+    const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!expected.some(type => matchesType(value, type))) {
+      errors.push({ path, message: `Expected ${expected.join(' or ')}, got ${typeOf(value)}` });
+      return errors; // Nested keywords are meaningless for the wrong type
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    errors.push({ path, message: `Must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `Must be at least ${schema.minLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `Does not match pattern ${schema.pattern}` });
+    }
+    if (schema.format === 'date-time' && isNaN(Date.parse(value))) {
+      errors.push({ path, message: 'Must be an ISO 8601 date-time' });
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, message: `Must be >= ${schema.minimum}` });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const itemSchema = schema.items;
+    value.forEach((item, index) => {
+      errors.push(...validateAgainstSchema(itemSchema, item, `${path}[${index}]`));
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    schema.required?.forEach(key => {
+      if (record[key] === undefined) {
+        errors.push({ path: childPath(path, key), message: 'Required field is missing' });
+      }
+    });
+
+    Object.entries(record).forEach(([key, fieldValue]) => {
+      if (fieldValue === undefined) return;
+
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateAgainstSchema(propertySchema, fieldValue, childPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath(path, key), message: 'Field is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(schema.additionalProperties, fieldValue, childPath(path, key)));
+      }
+    });
+  }
+
+  return errors;
+}
+
+// Field paths a schema describes, using "[]" for array items
+function collectDeclaredPaths(schema: JsonSchema, path = '', paths = new Set<string>()): Set<string> {
+  if (path) paths.add(path);
+
+  Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+    collectDeclaredPaths(propertySchema, childPath(path, key), paths);
+  });
+  if (schema.items) {
+    collectDeclaredPaths(schema.items, `${path}[]`, paths);
+  }
+
+  return paths;
+}
+
+// Field paths present in a payload, using "[]" for array items
+function collectObservedPaths(value: unknown, path = '', paths = new Set<string>(), depth = 0): Set<string> {
+  if (paths.size >= MAX_OBSERVED_PATHS || depth > MAX_OBSERVED_DEPTH) return paths;
+  if (path) paths.add(path);
+
+  if (Array.isArray(value)) {
+    value.forEach(item => collectObservedPaths(item, `${path}[]`, paths, depth + 1));
+  } else if (typeOf(value) === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, fieldValue]) => {
+      if (fieldValue !== undefined) {
+        collectObservedPaths(fieldValue, childPath(path, key), paths, depth + 1);
+      }
+    });
+  }
+
+  return paths;
+}
+
+// ---------------------------------------------------------------------------
+// Registered schemas
+// ---------------------------------------------------------------------------
+
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+const currencyCode: JsonSchema = { type: 'string', pattern: '^[A-Z]{3}$' };
+const mode: JsonSchema = { type: 'string', enum: ['live', 'test'] };
+
+const links: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['rel', 'href'],
+    properties: {
+      rel: { type: 'string' },
+      href: { type: 'string' },
+    },
+  },
+};
+
+const netbanxEventData: Record<string, JsonSchema> = {
+  id: { type: 'string', minLength: 1 },
+  merchantRefNum: { type: 'string' },
+  amount: { type: 'number', minimum: 0 },
+  currencyCode,
+  status: { type: 'string' },
+  txnTime: dateTime,
+  updatedTime: dateTime,
+  paymentHandleToken: { type: 'string' },
+  paymentType: { type: 'string' },
+  paymentMethod: { type: 'string' },
+  settlementId: { type: 'string' },
+  paymentId: { type: 'string' },
+  originalTransactionId: { type: 'string' },
+  card: {
+    type: 'object',
+    properties: {
+      type: { type: 'string' },
+      lastDigits: { type: 'string' },
+      holderName: { type: 'string' },
+    },
+  },
+  billingDetails: {
+    type: 'object',
+    properties: {
+      street: { type: 'string' },
+      city: { type: 'string' },
+      state: { type: 'string' },
+      country: { type: 'string' },
+      zip: { type: 'string' },
+    },
+  },
+};
+
+const REGISTERED_SCHEMAS: WebhookSchemaDefinition[] = [
+  {
+    source: 'netbanx',
+    eventType: '*',
+    version: 1,
+    schema: {
+      type: 'object',
+      required: ['eventData'],
+      properties: {
+        id: { type: 'string' },
+        eventType: { type: 'string' },
+        eventData: {
+          type: 'object',
+          required: ['id', 'merchantRefNum', 'status'],
+          properties: netbanxEventData,
+        },
+        links,
+      },
+    },
+  },
+  {
+    source: 'netbanx',
+    eventType: 'CHARGEBACK*',
+    version: 1,
+    schema: {
+      type: 'object',
+      required: ['eventData'],
+      properties: {
+        id: { type: 'string' },
+        eventType: { type: 'string' },
+        eventData: {
+          type: 'object',
+          required: ['id', 'amount', 'currencyCode'],
+          properties: {
+            ...netbanxEventData,
+            reasonCode: { type: 'string' },
+            reason: { type: 'string' },
+            responseDueDate: dateTime,
+            dueDate: dateTime,
+          },
+        },
+        links,
+      },
+    },
+  },
+  {
+    source: 'paysafe-accounts',
+    eventType: '*',
+    version: 1,
+    schema: {
+      type: 'object',
+      required: ['id', 'eventType'],
+      properties: {
+        id: { type: 'string' },
+        resourceId: { type: 'string' },
+        mode,
+        eventDate: dateTime,
+        eventType: { type: 'string' },
+        timestamp: dateTime,
+        payload: {
+          type: 'object',
+          properties: {
+            partnerId: { type: 'integer' },
+            acctStatus: { type: 'string' },
+            accountNumber: { type: 'string' },
+            creditCardId: { type: 'string' },
+            directDebitId: { type: 'string' },
+          },
+        },
+        account: {
+          type: 'object',
+          required: ['id', 'status'],
+          properties: {
+            id: { type: 'string' },
+            merchantId: { type: 'string' },
+            status: { type: 'string' },
+            creditCardId: { type: 'string' },
+            directDebitId: { type: 'string' },
+            businessName: { type: 'string' },
+            email: { type: 'string' },
+            onboardingStage: { type: 'string' },
+            riskLevel: { type: 'string' },
+            complianceStatus: { type: 'string' },
+          },
+        },
+        paymentMethods: {},
+        statusChange: {},
+        metadata: {},
+      },
+    },
+  },
+  {
+    source: 'paysafe-direct-debit',
+    eventType: '*',
+    version: 1,
+    schema: {
+      type: 'object',
+      required: ['eventType', 'resourceId', 'payload'],
+      properties: {
+        id: { type: 'string' },
+        resourceId: { type: 'string' },
+        mode,
+        eventDate: dateTime,
+        eventType: { type: 'string' },
+        payload: {
+          type: 'object',
+          required: ['amount', 'currency', 'status'],
+          properties: {
+            transactionId: { type: 'string' },
+            directDebitId: { type: 'string' },
+            accountNumber: { type: 'string' },
+            amount: { type: 'number', minimum: 0 },
+            currency: currencyCode,
+            status: { type: 'string' },
+            merchantRefNum: { type: 'string' },
+            customerId: { type: 'string' },
+            mandateId: { type: 'string' },
+            description: { type: 'string' },
+            reason: { type: 'string' },
+            returnCode: { type: 'string' },
+            bankAccount: {
+              type: 'object',
+              properties: {
+                accountNumber: { type: 'string' },
+                sortCode: { type: 'string' },
+                accountHolderName: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    source: 'paysafe-alternate-payments',
+    eventType: '*',
+    version: 1,
+    schema: {
+      type: 'object',
+      required: ['id', 'resourceId', 'mode', 'eventDate', 'eventType', 'payload'],
+      properties: {
+        id: { type: 'string' },
+        resourceId: { type: 'string' },
+        mode,
+        eventDate: dateTime,
+        eventType: { type: 'string' },
+        payload: {
+          type: 'object',
+          required: ['transactionId', 'alternatePaymentId', 'accountNumber', 'amount', 'currency', 'status', 'paymentMethod'],
+          properties: {
+            transactionId: { type: 'string' },
+            alternatePaymentId: { type: 'string' },
+            accountNumber: { type: 'string' },
+            amount: { type: 'number', minimum: 0 },
+            currency: currencyCode,
+            status: { type: 'string' },
+            paymentMethod: { type: 'string' },
+            merchantRefNum: { type: 'string' },
+            customerId: { type: 'string' },
+            description: { type: 'string' },
+            reason: { type: 'string' },
+            returnUrl: { type: 'string' },
+            cancelUrl: { type: 'string' },
+            paymentDetails: {
+              type: 'object',
+              properties: {
+                payerId: { type: 'string' },
+                payerEmail: { type: 'string' },
+                payerName: { type: 'string' },
+                externalTransactionId: { type: 'string' },
+                walletId: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export class WebhookSchemaRegistry {
+  private schemas: WebhookSchemaDefinition[] = [];
+  private observedPaths = new Set<string>(); // source|eventType|path already written this process
+
+  constructor(definitions: WebhookSchemaDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  register(definition: WebhookSchemaDefinition): this {
+    const duplicate = this.schemas.some(schema =>
+      schema.source === definition.source &&
+      schema.eventType === definition.eventType &&
+      schema.version === definition.version
+    );
+    if (duplicate) {
+      throw new Error(`Schema ${this.schemaId(definition)} is already registered`);
+    }
+
+    this.schemas.push(definition);
+    return this;
+  }
+
+  schemaId(definition: WebhookSchemaDefinition): string {
+    return `${definition.source}/${definition.eventType}@${definition.version}`;
+  }
+
+  list(source?: string): WebhookSchemaDefinition[] {
+    return this.schemas.filter(schema => !source || schema.source === source);
+  }
+
+  /**
+   * Most specific schema for an event type; the latest version unless one is requested
+   */
+  resolve(source: string, eventType: string, version?: number): WebhookSchemaDefinition | null {
+    const candidates = this.schemas.filter(schema =>
+      schema.source === source &&
+      this.matchesEventType(schema.eventType, eventType) &&
+      (version === undefined || schema.version === version)
+    );
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    return candidates.reduce((best, schema) => {
+      const specificity = this.specificity(schema.eventType, eventType);
+      const bestSpecificity = this.specificity(best.eventType, eventType);
+      if (specificity !== bestSpecificity) {
+        return specificity > bestSpecificity ? schema : best;
+      }
+      return schema.version > best.version ? schema : best;
+    });
+  }
+
+  validate(source: string, eventType: string, payload: unknown): SchemaValidationResult {
+    const definition = this.resolve(source, eventType);
+    if (!definition) {
+      return { schemaVersion: null, valid: true, errors: [] };
+    }
+
+    const errors = validateAgainstSchema(definition.schema, payload);
+    return {
+      schemaVersion: this.schemaId(definition),
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Remember field paths seen in a real payload. Only paths this process has
+   * not written yet reach the database.
+   */
+  async recordObservedFields(source: string, eventType: string, payload: unknown, sampleEventId?: string): Promise<void> {
+    const newPaths = Array.from(collectObservedPaths(payload))
+      .filter(path => !this.observedPaths.has(`${source}|${eventType}|${path}`));
+    if (newPaths.length === 0) {
+      return;
+    }
+
+    await withDatabase(async (db) => {
+      await db.webhookSchemaObservation.createMany({
+        data: newPaths.map(path => ({ source, eventType, path, sampleEventId })),
+        skipDuplicates: true,
+      });
+    }, {
+      timeout: 5000,
+      operationName: 'record_webhook_schema_observations',
+      retries: 1
+    });
+
+    newPaths.forEach(path => this.observedPaths.add(`${source}|${eventType}|${path}`));
+  }
+
+  async recordFailure(input: SchemaFailureInput): Promise<void> {
+    const { result } = input;
+
+    await withDatabase(async (db) => {
+      await db.webhookSchemaFailure.create({
+        data: {
+          endpoint: input.endpoint,
+          source: input.source,
+          eventType: input.eventType,
+          schemaVersion: result.schemaVersion || 'none',
+          rejected: input.rejected,
+          webhookEventId: input.webhookEventId,
+          errors: result.errors as unknown as Prisma.InputJsonValue,
+          payload: (input.payload ?? {}) as Prisma.InputJsonValue,
+        },
+      });
+    }, {
+      timeout: 5000,
+      operationName: 'record_webhook_schema_failure',
+      retries: 1
+    });
+
+    if (input.rejected) {
+      await createAlert({
+        type: 'WARNING',
+        title: 'Webhook Rejected by Schema Validation',
+        message: `${input.eventType} payload from ${input.endpoint} failed ${result.schemaVersion}: ` +
+          result.errors.slice(0, 3).map(error => `${error.path || '(root)'} ${error.message}`).join('; '),
+        source: 'webhook-schema-registry',
+        metadata: {
+          endpoint: input.endpoint,
+          eventType: input.eventType,
+          schemaVersion: result.schemaVersion,
+          errorCount: result.errors.length,
+        },
+      });
+    }
+  }
+
+  async listFailures(filter: { source?: string; eventType?: string; rejected?: boolean; limit?: number } = {}) {
+    return withDatabase(async (db) => {
+      return await db.webhookSchemaFailure.findMany({
+        where: {
+          ...(filter.source && { source: filter.source }),
+          ...(filter.eventType && { eventType: filter.eventType }),
+          ...(filter.rejected !== undefined && { rejected: filter.rejected }),
+        },
+        orderBy: { timestamp: 'desc' },
+        take: Math.min(filter.limit || 50, 200),
+      });
+    }, {
+      timeout: 5000,
+      operationName: 'list_webhook_schema_failures',
+      retries: 1
+    });
+  }
+
+  /**
+   * Fields seen in real payloads that the resolved schema does not declare.
+   * Pass a version to check observed payloads against an older or newer schema.
+   */
+  async getDriftReport(filter: { source?: string; eventType?: string; version?: number } = {}): Promise<SchemaDriftEntry[]> {
+    const observations = await withDatabase(async (db) => {
+      return await db.webhookSchemaObservation.findMany({
+        where: {
+          ...(filter.source && { source: filter.source }),
+          ...(filter.eventType && { eventType: filter.eventType }),
+        },
+        orderBy: [{ source: 'asc' }, { eventType: 'asc' }, { path: 'asc' }],
+      });
+    }, {
+      timeout: 10000,
+      operationName: 'webhook_schema_drift_report',
+      retries: 1
+    });
+
+    const report = new Map<string, SchemaDriftEntry>();
+    const declaredPaths = new Map<string, Set<string>>();
+
+    observations.forEach(observation => {
+      const key = `${observation.source}|${observation.eventType}`;
+      let entry = report.get(key);
+      if (!entry) {
+        const definition = this.resolve(observation.source, observation.eventType, filter.version);
+        entry = {
+          source: observation.source,
+          eventType: observation.eventType,
+          schemaVersion: definition ? this.schemaId(definition) : null,
+          undeclaredFields: [],
+        };
+        report.set(key, entry);
+        declaredPaths.set(key, definition ? collectDeclaredPaths(definition.schema) : new Set<string>());
+      }
+
+      if (!declaredPaths.get(key)?.has(observation.path)) {
+        entry.undeclaredFields.push({
+          path: observation.path,
+          firstSeenAt: observation.firstSeenAt,
+          sampleEventId: observation.sampleEventId,
+        });
+      }
+    });
+
+    return Array.from(report.values()).filter(entry => entry.undeclaredFields.length > 0);
+  }
+
+  private matchesEventType(pattern: string, eventType: string): boolean {
+    if (pattern === '*' || pattern === eventType) return true;
+    return pattern.endsWith('*') && eventType.startsWith(pattern.slice(0, -1));
+  }
+
+  // Exact match beats the longest prefix pattern, which beats "*"
+  private specificity(pattern: string, eventType: string): number {
+    if (pattern === eventType) return Number.MAX_SAFE_INTEGER;
+    return pattern.length - 1;
+  }
+}
+
+export const webhookSchemaRegistry = new WebhookSchemaRegistry(REGISTERED_SCHEMAS);
@@ -1,17 +1,31 @@
 import { withDatabase, redis } from '@/lib/database';
 import { decryptSecret } from '@/lib/encryption';
 import { ensureWebhookSecretsTable } from '@/lib/db-init';
+import { SignaturePolicy, SchemaPolicy } from '@/types/webhook';
 
 interface WebhookSecretData {
   key: string;
   algorithm: string;
   endpoint: string;
+  keyVersion?: number;
+  signaturePolicy?: SignaturePolicy;
+  schemaPolicy?: SchemaPolicy;
+  // Set during a staged rotation (see webhook-key-rotation.ts)
+  previousKey?: string;
+  previousAlgorithm?: string;
+  previousKeyVersion?: number;
+  previousKeyExpiresAt?: string;
 }
 
-interface CachedSecret {
+type CachedSecret = Omit<WebhookSecretData, 'endpoint'> & {
+  lastFetched: number;
+};
+
+// A key that incoming signatures may currently be made with
+export interface VerificationKey {
   key: string;
   algorithm: string;
-  lastFetched: number;
+  keyVersion?: number;
 }
 
 /**
@@ -68,6 +82,81 @@ export class OptimizedWebhookSecretStore {
     }
   }
 
+  /**
+   * Every key a signature may currently be made with: the current key and,
+   * during a staged rotation, the previous key until its overlap window ends.
+   * Returns null when the endpoint has no active secret.
+   */
+  async getVerificationKeys(endpoint: string): Promise<VerificationKey[] | null> {
+    try {
+      const cached = this.secretsCache.get(endpoint);
+      const secret = cached && (Date.now() - cached.lastFetched) < this.CACHE_TTL
+        ? cached
+        : (await this.getAllSecretsBatch()).get(endpoint);
+
+      if (!secret) {
+        return null;
+      }
+
+      const keys: VerificationKey[] = [
+        { key: secret.key, algorithm: secret.algorithm, keyVersion: secret.keyVersion },
+      ];
+      // The window is checked here rather than relying on the cache, so it ends on time
+      if (secret.previousKey && secret.previousKeyExpiresAt && new Date(secret.previousKeyExpiresAt).getTime() > Date.now()) {
+        keys.push({
+          key: secret.previousKey,
+          algorithm: secret.previousAlgorithm || secret.algorithm,
+          keyVersion: secret.previousKeyVersion,
+        });
+      }
+      return keys;
+
+    } catch (error) {
+      console.error(`Error fetching verification keys for endpoint ${endpoint}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the signature policy configured alongside the endpoint's secret.
+   * Returns null when the endpoint has no active secret.
+   */
+  async getSignaturePolicy(endpoint: string): Promise<SignaturePolicy | null> {
+    try {
+      const cached = this.secretsCache.get(endpoint);
+      if (cached && (Date.now() - cached.lastFetched) < this.CACHE_TTL) {
+        return cached.signaturePolicy || null;
+      }
+
+      const allSecrets = await this.getAllSecretsBatch();
+      return allSecrets.get(endpoint)?.signaturePolicy || null;
+
+    } catch (error) {
+      console.error(`Error fetching signature policy for endpoint ${endpoint}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the payload schema policy configured alongside the endpoint's secret.
+   * Returns null when the endpoint has no active secret.
+   */
+  async getSchemaPolicy(endpoint: string): Promise<SchemaPolicy | null> {
+    try {
+      const cached = this.secretsCache.get(endpoint);
+      if (cached && (Date.now() - cached.lastFetched) < this.CACHE_TTL) {
+        return cached.schemaPolicy || null;
+      }
+
+      const allSecrets = await this.getAllSecretsBatch();
+      return allSecrets.get(endpoint)?.schemaPolicy || null;
+
+    } catch (error) {
+      console.error(`Error fetching schema policy for endpoint ${endpoint}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Batch load ALL webhook secrets in a single database query
    * Uses multi-level caching strategy for maximum performance
@@ -83,15 +172,7 @@ export class OptimizedWebhookSecretStore {
 
     if (!shouldRefresh && this.secretsCache.size > 0) {
       // Return cached data as Map
-      const result = new Map<string, WebhookSecretData>();
-      this.secretsCache.forEach((cached, endpoint) => {
-        result.set(endpoint, {
-          endpoint,
-          key: cached.key,
-          algorithm: cached.algorithm,
-        });
-      });
-      return result;
+      return this.cachedSecrets();
     }
 
     // Create batch fetch promise
@@ -137,6 +218,13 @@ export class OptimizedWebhookSecretStore {
             endpoint: true,
             encryptedKey: true,
             algorithm: true,
+            keyVersion: true,
+            signaturePolicy: true,
+            schemaPolicy: true,
+            previousEncryptedKey: true,
+            previousAlgorithm: true,
+            previousKeyVersion: true,
+            previousKeyExpiresAt: true,
           }
         });
       }, { 
@@ -156,7 +244,17 @@ export class OptimizedWebhookSecretStore {
             endpoint: secret.endpoint,
             key: decryptedKey,
             algorithm: secret.algorithm,
+            keyVersion: secret.keyVersion,
+            signaturePolicy: secret.signaturePolicy as SignaturePolicy,
+            schemaPolicy: secret.schemaPolicy as SchemaPolicy,
           };
+
+          if (secret.previousEncryptedKey && secret.previousKeyExpiresAt) {
+            secretData.previousKey = decryptSecret(secret.previousEncryptedKey);
+            secretData.previousAlgorithm = secret.previousAlgorithm || undefined;
+            secretData.previousKeyVersion = secret.previousKeyVersion || undefined;
+            secretData.previousKeyExpiresAt = secret.previousKeyExpiresAt.toISOString();
+          }
           
           batchData.push(secretData);
           secretsMap.set(secret.endpoint, secretData);
@@ -186,15 +284,7 @@ export class OptimizedWebhookSecretStore {
       // Return cached data if available, even if stale
       if (this.secretsCache.size > 0) {
         console.log('Using stale webhook secrets cache as fallback');
-        const result = new Map<string, WebhookSecretData>();
-        this.secretsCache.forEach((cached, endpoint) => {
-          result.set(endpoint, {
-            endpoint,
-            key: cached.key,
-            algorithm: cached.algorithm,
-          });
-        });
-        return result;
+        return this.cachedSecrets();
       }
 
       throw error;
@@ -213,17 +303,25 @@ export class OptimizedWebhookSecretStore {
     
     // Update with fresh data
     batchData.forEach(secret => {
-      this.secretsCache.set(secret.endpoint, {
-        key: secret.key,
-        algorithm: secret.algorithm,
-        lastFetched: now,
-      });
-      result.set(secret.endpoint, secret);
+      const { endpoint, ...data } = secret;
+      this.secretsCache.set(endpoint, { ...data, lastFetched: now });
+      result.set(endpoint, secret);
     });
 
     return result;
   }
 
+  /**
+   * Memory cache as batch data
+   */
+  private cachedSecrets(): Map<string, WebhookSecretData> {
+    const result = new Map<string, WebhookSecretData>();
+    this.secretsCache.forEach((cached, endpoint) => {
+      result.set(endpoint, { ...cached, endpoint });
+    });
+    return result;
+  }
+
   /**
    * Pre-warm the cache by loading all secrets
    * Call this during application startup
@@ -249,8 +347,12 @@ export class OptimizedWebhookSecretStore {
       this.secretsCache.clear();
       this.lastBatchFetch = 0;
       
-      // Clear Redis cache
+      // Clear Redis cache, including the signature validator's per-endpoint copies
       await redis.del(this.BATCH_CACHE_KEY);
+      const endpointKeys = await redis.keys('webhook_secret:*');
+      if (endpointKeys.length > 0) {
+        await redis.del(...endpointKeys);
+      }
       
       // Pre-load fresh data
       await this.getAllSecretsBatch();
@@ -0,0 +1,403 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { optimizedWebhookSecretStore } from '@/lib/webhook-secret-store-optimized';
+import cardAuthorizeCapturePartialRefund from '@/lib/webhook-scenarios/card-authorize-capture-partial-refund.json';
+import directDebitPaymentReturned from '@/lib/webhook-scenarios/direct-debit-payment-returned.json';
+import accountOnboardingApproved from '@/lib/webhook-scenarios/account-onboarding-approved.json';
+import cardChargebackLost from '@/lib/webhook-scenarios/card-chargeback-lost.json';
+
+/**
+ * WEBHOOK SCENARIO SIMULATOR
+ *
+ * Replays scripted payment lifecycles against our own webhook endpoints over
+ * HTTP, so they run through the full ingestion pipeline (signature, replay
+ * guard, idempotency, routing) exactly like Paysafe traffic.
+ *
+ * Scenarios are JSON files (see webhook-scenarios/) with templated step bodies:
+ *   {{uuid:name}}    UUID, stable for the name within one iteration
+ *   {{number:name}}  10-digit number, stable the same way
+ *   {{time:+30s}}    Iteration start plus an offset (s, m, h, d)
+ *   {{var:name}}     Scenario variable (overridable per run)
+ *   {{iteration}}    Iteration number, {{runId}} the run id
+ * A token that is the whole string keeps the value's type (numbers stay numbers).
+ *
+ * Requests are signed with the endpoint's stored WebhookSecret; endpoints
+ * without one are sent unsigned.
+ */
+
+export interface WebhookScenarioStep {
+  name: string;
+  endpoint: string; // Pipeline endpoint, e.g. "netbanx"
+  delayMs?: number; // Pause before the step, scripted order only
+  body: unknown;
+}
+
+export interface WebhookScenario {
+  name: string;
+  description?: string;
+  variables?: Record<string, unknown>;
+  steps: WebhookScenarioStep[];
+}
+
+export type DeliveryOrder = 'SCRIPTED' | 'SHUFFLED' | 'REVERSED';
+
+export interface SimulationOptions {
+  baseUrl: string;
+  iterations?: number;    // Independent runs of the scenario, each with fresh ids
+  concurrency?: number;   // Iterations in flight at once
+  order?: DeliveryOrder;  // Delivery order of each iteration's steps
+  duplicateRate?: number; // 0-1, chance a step is delivered a second time (re-signed, like a sender retry)
+  sign?: boolean;
+  variables?: Record<string, unknown>;
+  tenantToken?: string;   // Deliver to the company's own webhook URL
+}
+
+export interface SimulatedDelivery {
+  iteration: number;
+  step: string;
+  endpoint: string;
+  eventType?: string;
+  duplicate: boolean;
+  signed: boolean;
+  status: number | null; // null when the request failed
+  durationMs: number;
+  response?: unknown;
+  error?: string;
+}
+
+export interface SimulationResult {
+  runId: string;
+  scenario: string;
+  startedAt: string;
+  durationMs: number;
+  deliveries: SimulatedDelivery[];
+  summary: {
+    sent: number;
+    accepted: number; // 2xx
+    rejected: number;
+    duplicatesSent: number;
+    byStatus: Record<string, number>;
+  };
+}
+
+const BUILT_IN_SCENARIOS = [
+  cardAuthorizeCapturePartialRefund,
+  directDebitPaymentReturned,
+  accountOnboardingApproved,
+  cardChargebackLost,
+] as WebhookScenario[];
+
+const MAX_DELIVERIES = 2000;
+const MAX_STEP_DELAY_MS = 10000;
+const DELIVERY_ORDERS: DeliveryOrder[] = ['SCRIPTED', 'SHUFFLED', 'REVERSED'];
+const TOKEN_PATTERN = /\{\{\s*([a-zA-Z]+)(?::([^}]+?))?\s*\}\}/g;
+const OFFSET_UNITS_MS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// Values shared by every step of one iteration
+interface IterationContext {
+  runId: string;
+  iteration: number;
+  startedAt: number;
+  variables: Record<string, unknown>;
+  ids: Map<string, string>;
+}
+
+interface PlannedDelivery {
+  step: WebhookScenarioStep;
+  body: string;
+  duplicate: boolean;
+}
+
+export function listScenarios(): WebhookScenario[] {
+  return BUILT_IN_SCENARIOS;
+}
+
+export function getScenario(name: string): WebhookScenario | undefined {
+  return BUILT_IN_SCENARIOS.find(scenario => scenario.name === name);
+}
+
+// Returns a problem description, or null when the scenario is well formed
+export function validateScenario(input: unknown, endpoints: string[]): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'scenario must be an object';
+  }
+
+  const scenario = input as Partial<WebhookScenario>;
+  if (typeof scenario.name !== 'string' || !scenario.name) {
+    return 'scenario.name is required';
+  }
+  if (scenario.variables !== undefined && (typeof scenario.variables !== 'object' || Array.isArray(scenario.variables))) {
+    return 'scenario.variables must be an object';
+  }
+  if (!Array.isArray(scenario.steps) || scenario.steps.length === 0) {
+    return 'scenario.steps must be a non-empty array';
+  }
+
+  for (const [index, step] of scenario.steps.entries()) {
+    if (!step || typeof step !== 'object' || typeof step.name !== 'string' || !step.name) {
+      return `steps[${index}].name is required`;
+    }
+    if (!endpoints.includes(step.endpoint)) {
+      return `steps[${index}].endpoint must be one of: ${endpoints.join(', ')}`;
+    }
+    if (step.delayMs !== undefined && (typeof step.delayMs !== 'number' || step.delayMs < 0)) {
+      return `steps[${index}].delayMs must be a non-negative number`;
+    }
+    if (!step.body || typeof step.body !== 'object') {
+      return `steps[${index}].body must be a JSON object`;
+    }
+  }
+  return null;
+}
+
+export function validateSimulationOptions(options: Partial<SimulationOptions>, stepCount: number): string | null {
+  const iterations = options.iterations ?? 1;
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    return 'iterations must be a positive integer';
+  }
+  if (iterations * stepCount > MAX_DELIVERIES) {
+    return `iterations x steps must not exceed ${MAX_DELIVERIES} deliveries`;
+  }
+  if (options.concurrency !== undefined && (!Number.isInteger(options.concurrency) || options.concurrency < 1 || options.concurrency > 20)) {
+    return 'concurrency must be an integer between 1 and 20';
+  }
+  if (options.order !== undefined && !DELIVERY_ORDERS.includes(options.order)) {
+    return `order must be one of: ${DELIVERY_ORDERS.join(', ')}`;
+  }
+  if (options.duplicateRate !== undefined && (typeof options.duplicateRate !== 'number' || options.duplicateRate < 0 || options.duplicateRate > 1)) {
+    return 'duplicateRate must be between 0 and 1';
+  }
+  return null;
+}
+
+export class WebhookScenarioSimulator {
+  /**
+   * Render the first iteration's steps without sending them. Throws on
+   * unknown tokens or variables, so callers can reject a scenario up front.
+   */
+  preview(scenario: WebhookScenario, variables: Record<string, unknown> = {}) {
+    const context: IterationContext = {
+      runId: 'preview',
+      iteration: 0,
+      startedAt: Date.now(),
+      variables: { ...scenario.variables, ...variables },
+      ids: new Map(),
+    };
+    return scenario.steps.map(step => ({
+      name: step.name,
+      endpoint: step.endpoint,
+      body: this.render(step.body, context),
+    }));
+  }
+
+  async run(scenario: WebhookScenario, options: SimulationOptions): Promise<SimulationResult> {
+    const runId = uuidv4().slice(0, 8);
+    const startedAt = Date.now();
+    const iterations = options.iterations ?? 1;
+    const concurrency = Math.min(options.concurrency ?? 1, iterations);
+    const variables = { ...scenario.variables, ...options.variables };
+    const secrets = new Map<string, Promise<{ key: string; algorithm: string } | null>>();
+    const deliveries: SimulatedDelivery[] = [];
+
+    console.log(`Simulating webhook scenario ${scenario.name}:`, {
+      runId,
+      iterations,
+      concurrency,
+      order: options.order || 'SCRIPTED',
+      duplicateRate: options.duplicateRate || 0,
+    });
+
+    let next = 0;
+    const worker = async () => {
+      while (next < iterations) {
+        const iteration = next++;
+        const context: IterationContext = { runId, iteration, startedAt: Date.now(), variables, ids: new Map() };
+        for (const planned of this.plan(scenario, context, options)) {
+          if (planned.step.delayMs && (options.order || 'SCRIPTED') === 'SCRIPTED' && !planned.duplicate) {
+            await new Promise(resolve => setTimeout(resolve, Math.min(planned.step.delayMs!, MAX_STEP_DELAY_MS)));
+          }
+          deliveries.push(await this.deliver(planned, iteration, options, secrets));
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: concurrency }, worker));
+
+    const byStatus: Record<string, number> = {};
+    deliveries.forEach(delivery => {
+      const key = delivery.status === null ? 'error' : String(delivery.status);
+      byStatus[key] = (byStatus[key] || 0) + 1;
+    });
+    const accepted = deliveries.filter(d => d.status !== null && d.status >= 200 && d.status < 300).length;
+
+    return {
+      runId,
+      scenario: scenario.name,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      deliveries,
+      summary: {
+        sent: deliveries.length,
+        accepted,
+        rejected: deliveries.length - accepted,
+        duplicatesSent: deliveries.filter(d => d.duplicate).length,
+        byStatus,
+      },
+    };
+  }
+
+  // Render one iteration's bodies and arrange them in delivery order
+  private plan(scenario: WebhookScenario, context: IterationContext, options: SimulationOptions): PlannedDelivery[] {
+    const planned: PlannedDelivery[] = [];
+    for (const step of scenario.steps) {
+      const body = JSON.stringify(this.render(step.body, context));
+      planned.push({ step, body, duplicate: false });
+      if (options.duplicateRate && Math.random() < options.duplicateRate) {
+        planned.push({ step, body, duplicate: true });
+      }
+    }
+
+    switch (options.order) {
+      case 'REVERSED':
+        return planned.reverse();
+      case 'SHUFFLED':
+        for (let i = planned.length - 1; i > 0; i--) {
+          const j = Math.floor(Math.random() * (i + 1));
+          [planned[i], planned[j]] = [planned[j], planned[i]];
+        }
+        return planned;
+      default:
+        return planned;
+    }
+  }
+
+  private async deliver(
+    planned: PlannedDelivery,
+    iteration: number,
+    options: SimulationOptions,
+    secrets: Map<string, Promise<{ key: string; algorithm: string } | null>>
+  ): Promise<SimulatedDelivery> {
+    const { step, body, duplicate } = planned;
+    const eventType = (JSON.parse(body) as { eventType?: string }).eventType;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'webhook-scenario-simulator',
+    };
+
+    let signed = false;
+    if (options.sign !== false) {
+      if (!secrets.has(step.endpoint)) {
+        secrets.set(step.endpoint, optimizedWebhookSecretStore.getWebhookSecret(step.endpoint));
+      }
+      const secret = await secrets.get(step.endpoint);
+      if (secret) {
+        // A fresh timestamp per delivery, so redeliveries carry a new signature like a sender retry
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const key = Buffer.from(secret.key, 'base64').toString('utf-8');
+        headers['X-Paysafe-Signature'] = crypto
+          .createHmac(secret.algorithm, key)
+          .update(`${timestamp}.${body}`, 'utf8')
+          .digest('hex');
+        headers['X-Webhook-Timestamp'] = timestamp;
+        signed = true;
+      }
+    }
+
+    const path = options.tenantToken
+      ? `/api/webhooks/tenant/${encodeURIComponent(options.tenantToken)}/${step.endpoint}`
+      : `/api/webhooks/${step.endpoint}`;
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(`${options.baseUrl.replace(/\/$/, '')}${path}`, {
+        method: 'POST',
+        headers,
+        body,
+      });
+      const text = await response.text();
+      let parsed: unknown = text;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        // Keep the raw text
+      }
+
+      return {
+        iteration,
+        step: step.name,
+        endpoint: step.endpoint,
+        eventType,
+        duplicate,
+        signed,
+        status: response.status,
+        durationMs: Date.now() - startTime,
+        response: parsed,
+      };
+    } catch (error) {
+      return {
+        iteration,
+        step: step.name,
+        endpoint: step.endpoint,
+        eventType,
+        duplicate,
+        signed,
+        status: null,
+        durationMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Request failed',
+      };
+    }
+  }
+
+  private render(template: unknown, context: IterationContext): unknown {
+    if (typeof template === 'string') {
+      const whole = template.match(/^\{\{\s*([a-zA-Z]+)(?::([^}]+?))?\s*\}\}$/);
+      if (whole) {
+        return this.resolveToken(whole[1], whole[2], context);
+      }
+      return template.replace(TOKEN_PATTERN, (_, kind: string, arg?: string) => String(this.resolveToken(kind, arg, context)));
+    }
+    if (Array.isArray(template)) {
+      return template.map(item => this.render(item, context));
+    }
+    if (template && typeof template === 'object') {
+      return Object.fromEntries(
+        Object.entries(template).map(([key, value]) => [key, this.render(value, context)])
+      );
+    }
+    return template;
+  }
+
+  private resolveToken(kind: string, arg: string | undefined, context: IterationContext): unknown {
+    switch (kind) {
+      case 'uuid':
+      case 'number': {
+        const key = `${kind}:${arg || ''}`;
+        if (!context.ids.has(key)) {
+          context.ids.set(key, kind === 'uuid'
+            ? uuidv4()
+            : String(crypto.randomInt(1000000000, 10000000000)));
+        }
+        return context.ids.get(key);
+      }
+      case 'time': {
+        const match = (arg || '+0s').trim().match(/^([+-]?\d+)([smhd])$/);
+        if (!match) {
+          throw new Error(`Invalid time offset in scenario: ${arg}`);
+        }
+        return new Date(context.startedAt + parseInt(match[1]) * OFFSET_UNITS_MS[match[2]]).toISOString();
+      }
+      case 'var':
+        if (!arg || !(arg in context.variables)) {
+          throw new Error(`Unknown scenario variable: ${arg}`);
+        }
+        return context.variables[arg];
+      case 'iteration':
+        return context.iteration;
+      case 'runId':
+        return context.runId;
+      default:
+        throw new Error(`Unknown scenario token: ${kind}`);
+    }
+  }
+}
+
+export const webhookSimulator = new WebhookScenarioSimulator();
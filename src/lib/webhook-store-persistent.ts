@@ -1,7 +1,27 @@
 import { Transaction } from '@/types/paysafe';
-import { WebhookEvent, WebhookStats } from '@/types/webhook';
+import { DataMode, WebhookEvent, WebhookStats } from '@/types/webhook';
 import { v4 as uuidv4 } from 'uuid';
 import { withDatabase, DatabaseService, redis } from '@/lib/database';
+import { piiRedactor } from '@/lib/pii-redaction';
+import { WebhookProcessor } from '@/lib/webhook-processor';
+import { extractParentReferences } from '@/lib/transaction-linker';
+
+// Transaction read from a webhook: chargebacks too, not only the types the dashboard lists
+interface WebhookTransaction extends Omit<Transaction, 'transactionType'> {
+  transactionType: string;
+}
+
+// Queued transaction plus the event it came from, for the status history
+interface QueuedTransaction extends WebhookTransaction {
+  parentReferences: string[]; // Payment a refund or chargeback belongs to
+  webhookEventId: string;
+  eventType: string;
+  rawStatus?: string;
+  companyId?: string;
+  mode: DataMode;
+}
+
+const processor = new WebhookProcessor();
 
 interface BatchProcessingOptions {
   batchSize: number;
@@ -11,7 +31,7 @@ interface BatchProcessingOptions {
 
 class PersistentWebhookStore {
   private eventQueue: WebhookEvent[] = [];
-  private transactionQueue: Transaction[] = [];
+  private transactionQueue: QueuedTransaction[] = [];
   private processingBatch = false;
   private batchTimeout: NodeJS.Timeout | null = null;
   
@@ -31,13 +51,24 @@ class PersistentWebhookStore {
    */
   async addWebhookEvent(event: WebhookEvent): Promise<void> {
     try {
+      // The pipeline redacts at ingest; this covers events stored from anywhere else
+      event = { ...event, payload: await piiRedactor.redact(event.payload, event.companyId) };
+
       // Add to queue for batch processing
       this.eventQueue.push(event);
       
-      // Convert to transaction if it's a payment event
-      if (this.isPaymentEvent(event)) {
+      // Convert to transaction if it's a transaction event the company subscribes to
+      if (processor.isTransactionEvent(event.eventType) && !event.filterReason) {
         const transaction = this.convertToTransaction(event);
-        this.transactionQueue.push(transaction);
+        this.transactionQueue.push({
+          ...transaction,
+          parentReferences: extractParentReferences(event.payload),
+          webhookEventId: event.id,
+          eventType: event.eventType,
+          rawStatus: event.payload.eventData?.status || event.eventType,
+          companyId: event.companyId,
+          mode: event.mode || 'live',
+        });
       }
 
       // Trigger batch processing if queue is full
@@ -79,10 +110,10 @@ class PersistentWebhookStore {
   /**
    * OPTIMIZED webhook events retrieval with minimal data transfer
    */
-  async getWebhookEvents(limit: number = 100, companyId?: string): Promise<WebhookEvent[]> {
+  async getWebhookEvents(limit: number = 100, companyId?: string, mode: DataMode = 'live'): Promise<WebhookEvent[]> {
     try {
       // Enhanced cache key with better granularity
-      const cacheKey = `webhook_events:v2:${limit}:${companyId || 'all'}`;
+      const cacheKey = `webhook_events:v2:${limit}:${companyId || 'all'}:${mode}`;
       const cached = await redis.get(cacheKey);
       
       if (cached) {
@@ -92,7 +123,7 @@ class PersistentWebhookStore {
       // OPTIMIZED database query - include payload for actual data display
       const events = await withDatabase(async (db) => {
         return await db.webhookEvent.findMany({
-          where: companyId ? { companyId } : undefined,
+          where: { mode, ...(companyId && { companyId }) },
           orderBy: { timestamp: 'desc' },
           take: Math.min(limit, 200), // Cap at 200 for performance
           // Include payload for actual event data
@@ -103,6 +134,9 @@ class PersistentWebhookStore {
             source: true,
             processed: true,
             error: true,
+            quarantined: true,
+            schemaValid: true,
+            mode: true,
             payload: true,  // CRITICAL: Include payload for event data display
             // Excluded companyId for performance
           }
@@ -122,6 +156,9 @@ class PersistentWebhookStore {
         payload: event.payload || {}, // Include actual payload if available
         processed: event.processed,
         error: event.error || undefined,
+        quarantined: event.quarantined,
+        schemaValid: event.schemaValid ?? undefined,
+        mode: event.mode as DataMode,
       }));
 
       // Extended cache with better TTL strategy
@@ -139,10 +176,10 @@ class PersistentWebhookStore {
   /**
    * Optimized transactions retrieval with eager loading and caching
    */
-  async getTransactions(limit: number = 1000, companyId?: string): Promise<Transaction[]> {
+  async getTransactions(limit: number = 1000, companyId?: string, mode: DataMode = 'live'): Promise<Transaction[]> {
     try {
       // Use optimized pagination with company filtering
-      const filters = companyId ? { companyId } : undefined;
+      const filters = companyId ? { companyId, mode } : { mode };
       const result = await DatabaseService.getTransactionsPaginated(1, limit, filters);
       
       // Transform database format to expected format (already optimized in DatabaseService)
@@ -157,6 +194,9 @@ class PersistentWebhookStore {
         createdAt: t.createdAt.toISOString(),
         updatedAt: t.updatedAt.toISOString(),
         description: t.description || undefined,
+        refundedAmount: t.refundSummary?.refundedAmount,
+        netCapturedAmount: t.refundSummary?.netCapturedAmount,
+        refundState: t.refundSummary?.refundState,
       }));
     } catch (error) {
       console.error('Error getting transactions:', error);
@@ -325,12 +365,22 @@ class PersistentWebhookStore {
         eventType: event.eventType,
         source: event.source,
         processed: event.processed,
+        providerEventId: event.providerEventId || null,
         error: event.error || null,
         payload: event.payload,
-        ipAddress: null,
-        userAgent: null,
-        signature: null,
-        companyId: null,
+        ipAddress: event.ipAddress || null,
+        userAgent: event.userAgent || null,
+        signature: event.signature || null,
+        signatureStatus: event.signatureStatus || null,
+        signatureKeyVersion: event.signatureKeyVersion ?? null,
+        quarantined: event.quarantined || false,
+        schemaVersion: event.schemaVersion || null,
+        schemaValid: event.schemaValid ?? null,
+        tenantResolution: event.tenantResolution || null,
+        tenantReference: event.tenantReference || null,
+        filterReason: event.filterReason || null,
+        mode: event.mode || 'live',
+        companyId: event.companyId || null,
       }));
 
       await withDatabase(async (db) => {
@@ -347,7 +397,7 @@ class PersistentWebhookStore {
     }
   }
 
-  private async persistTransactions(transactions: Transaction[]): Promise<void> {
+  private async persistTransactions(transactions: QueuedTransaction[]): Promise<void> {
     try {
       const dbTransactions = transactions.map(t => ({
         id: uuidv4(),
@@ -360,9 +410,13 @@ class PersistentWebhookStore {
         paymentMethod: t.paymentMethod,
         description: t.description || null,
         transactionTime: new Date(t.createdAt),
-        metadata: null,
-        webhookEventId: null,
-        companyId: null,
+        eventTime: new Date(t.updatedAt), // Status ordering uses the event's own time
+        eventType: t.eventType,
+        rawStatus: t.rawStatus,
+        parentReferences: t.parentReferences,
+        webhookEventId: t.webhookEventId,
+        companyId: t.companyId || null,
+        mode: t.mode,
       }));
 
       await DatabaseService.batchUpsertTransactions(dbTransactions);
@@ -374,20 +428,7 @@ class PersistentWebhookStore {
     }
   }
 
-  private isPaymentEvent(event: WebhookEvent): boolean {
-    const paymentEvents = [
-      'PAYMENT_COMPLETED',
-      'PAYMENT_FAILED', 
-      'PAYMENT_PENDING',
-      'PAYMENT_CANCELLED',
-      'PAYMENT_AUTHORIZED',
-      'PAYMENT_CAPTURED',
-      'PAYMENT_REFUNDED'
-    ];
-    return paymentEvents.some(type => event.eventType.includes(type) || event.eventType.includes('PAYMENT'));
-  }
-
-  private convertToTransaction(event: WebhookEvent): Transaction {
+  private convertToTransaction(event: WebhookEvent): WebhookTransaction {
     const eventData = event.payload.eventData || {};
     
     return {
@@ -396,7 +437,7 @@ class PersistentWebhookStore {
       amount: eventData.amount || 0,
       currency: eventData.currencyCode || 'USD',
       status: this.mapStatus(eventData.status || event.eventType),
-      transactionType: 'PAYMENT',
+      transactionType: processor.getTransactionType(event.eventType),
       paymentMethod: eventData.card?.type || 'UNKNOWN',
       createdAt: eventData.txnTime || event.timestamp,
       updatedAt: eventData.updatedTime || event.timestamp,
@@ -0,0 +1,220 @@
+import { Prisma } from '@prisma/client';
+import { withDatabase } from '@/lib/database';
+import { WebhookEvent, WebhookFilterReason, WebhookFilterRule, WebhookSubscription } from '@/types/webhook';
+
+/**
+ * PER-COMPANY EVENT SUBSCRIPTIONS
+ *
+ * Each company can narrow what an inbound endpoint does for it:
+ * - Subscribed event types (exact, or "PREFIX_*"); no subscription or an empty list = all
+ * - Filter rules that skip otherwise subscribed events (test mode, small amounts, field values)
+ *
+ * Skipped events are still stored with a filterReason, but are not turned
+ * into transactions or account updates, do not raise dispute alerts and are
+ * not forwarded. Events without a company are never filtered.
+ */
+
+const CACHE_TTL_MS = 60 * 1000;
+const FILTER_RULE_TYPES: WebhookFilterRule['type'][] = ['IGNORE_TEST_MODE', 'MIN_AMOUNT', 'FIELD_EQUALS'];
+const PAYSAFE_TEST_HOST = 'api.test.paysafe.com';
+
+function getPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current && typeof current === 'object') {
+      return (current as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, value);
+}
+
+export function matchesEventType(patterns: string[], eventType: string): boolean {
+  return patterns.some(pattern =>
+    pattern.endsWith('*') ? eventType.startsWith(pattern.slice(0, -1)) : pattern === eventType
+  );
+}
+
+// Paysafe marks sandbox traffic inconsistently across products; accept any of the known signals
+export function isTestModeEvent(raw: unknown, event: WebhookEvent): boolean {
+  for (const source of [raw, event.payload]) {
+    for (const path of ['mode', 'eventData.mode', 'environment']) {
+      const mode = getPath(source, path);
+      if (typeof mode === 'string' && ['test', 'sandbox'].includes(mode.toLowerCase())) {
+        return true;
+      }
+    }
+    if (getPath(source, 'liveMode') === false || getPath(source, 'eventData.liveMode') === false) {
+      return true;
+    }
+    if (getPath(source, 'testMode') === true) {
+      return true;
+    }
+
+    const links = getPath(source, 'links');
+    if (Array.isArray(links) && links.some(link => typeof link?.href === 'string' && link.href.includes(PAYSAFE_TEST_HOST))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function matchesFilterRule(rule: WebhookFilterRule, raw: unknown, event: WebhookEvent): boolean {
+  switch (rule.type) {
+    case 'IGNORE_TEST_MODE':
+      return isTestModeEvent(raw, event);
+    case 'MIN_AMOUNT': {
+      const amount = event.payload.eventData?.amount;
+      if (typeof amount !== 'number') {
+        return false;
+      }
+      if (rule.currency && event.payload.eventData?.currencyCode?.toUpperCase() !== rule.currency.toUpperCase()) {
+        return false;
+      }
+      return amount < rule.minAmount;
+    }
+    case 'FIELD_EQUALS': {
+      const value = getPath(raw, rule.path);
+      return value !== undefined && value !== null && String(value) === rule.value;
+    }
+    default:
+      return false;
+  }
+}
+
+// Returns a problem description, or null when the rules are well formed
+export function validateFilterRules(filters: unknown): string | null {
+  if (!Array.isArray(filters)) {
+    return 'filters must be an array';
+  }
+
+  for (const [index, rule] of filters.entries()) {
+    if (!rule || typeof rule !== 'object' || !FILTER_RULE_TYPES.includes(rule.type)) {
+      return `filters[${index}].type must be one of: ${FILTER_RULE_TYPES.join(', ')}`;
+    }
+    if (rule.type === 'MIN_AMOUNT') {
+      if (typeof rule.minAmount !== 'number' || !Number.isFinite(rule.minAmount) || rule.minAmount < 0) {
+        return `filters[${index}].minAmount must be a non-negative number`;
+      }
+      if (rule.currency !== undefined && (typeof rule.currency !== 'string' || !/^[A-Za-z]{3}$/.test(rule.currency))) {
+        return `filters[${index}].currency must be a 3-letter currency code`;
+      }
+    }
+    if (rule.type === 'FIELD_EQUALS' && (typeof rule.path !== 'string' || !rule.path || typeof rule.value !== 'string')) {
+      return `filters[${index}] needs a path and a string value`;
+    }
+  }
+  return null;
+}
+
+export class WebhookSubscriptionManager {
+  private cache = new Map<string, { subscription: WebhookSubscription | null; expiresAt: number }>();
+
+  /**
+   * Why an event should not be processed for its company, or null to process it.
+   * Fails open: a lookup error must not drop events.
+   */
+  async evaluate(event: WebhookEvent, endpoint: string, raw: unknown): Promise<WebhookFilterReason | null> {
+    if (!event.companyId) {
+      return null;
+    }
+
+    try {
+      const subscription = await this.get(event.companyId, endpoint);
+      if (!subscription) {
+        return null;
+      }
+
+      if (subscription.events.length > 0 && !matchesEventType(subscription.events, event.eventType)) {
+        return 'UNSUBSCRIBED';
+      }
+
+      const rule = subscription.filters.find(filter => matchesFilterRule(filter, raw, event));
+      return rule ? rule.type : null;
+    } catch (error) {
+      console.error(`Failed to evaluate webhook subscription for company ${event.companyId}:`, error);
+      return null;
+    }
+  }
+
+  async get(companyId: string, endpoint: string): Promise<WebhookSubscription | null> {
+    const key = `${companyId}:${endpoint}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.subscription;
+    }
+
+    const row = await withDatabase(async (db) => {
+      return await db.webhookSubscription.findUnique({
+        where: { companyId_endpoint: { companyId, endpoint } },
+      });
+    }, { operationName: 'get_webhook_subscription' });
+
+    const subscription = row ? this.toSubscription(row) : null;
+    this.cache.set(key, { subscription, expiresAt: Date.now() + CACHE_TTL_MS });
+    return subscription;
+  }
+
+  async list(companyId: string): Promise<WebhookSubscription[]> {
+    const rows = await withDatabase(async (db) => {
+      return await db.webhookSubscription.findMany({
+        where: { companyId },
+        orderBy: { endpoint: 'asc' },
+      });
+    }, { operationName: 'list_webhook_subscriptions' });
+
+    return rows.map(row => this.toSubscription(row));
+  }
+
+  async upsert(
+    companyId: string,
+    endpoint: string,
+    input: { events: string[]; filters: WebhookFilterRule[] }
+  ): Promise<WebhookSubscription> {
+    const data = {
+      events: Array.from(new Set(input.events.map(type => type.trim()).filter(Boolean))),
+      filters: input.filters as unknown as Prisma.InputJsonValue,
+    };
+
+    const row = await withDatabase(async (db) => {
+      return await db.webhookSubscription.upsert({
+        where: { companyId_endpoint: { companyId, endpoint } },
+        create: { companyId, endpoint, ...data },
+        update: data,
+      });
+    }, { operationName: 'upsert_webhook_subscription' });
+
+    this.invalidate(companyId, endpoint);
+    return this.toSubscription(row);
+  }
+
+  // Back to the default: every event type, no filters
+  async remove(companyId: string, endpoint: string): Promise<boolean> {
+    const { count } = await withDatabase(async (db) => {
+      return await db.webhookSubscription.deleteMany({ where: { companyId, endpoint } });
+    }, { operationName: 'delete_webhook_subscription' });
+
+    this.invalidate(companyId, endpoint);
+    return count > 0;
+  }
+
+  invalidate(companyId: string, endpoint: string): void {
+    this.cache.delete(`${companyId}:${endpoint}`);
+  }
+
+  private toSubscription(row: {
+    companyId: string;
+    endpoint: string;
+    events: string[];
+    filters: Prisma.JsonValue;
+    updatedAt: Date;
+  }): WebhookSubscription {
+    return {
+      companyId: row.companyId,
+      endpoint: row.endpoint,
+      events: row.events,
+      filters: Array.isArray(row.filters) ? (row.filters as unknown as WebhookFilterRule[]) : [],
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const webhookSubscriptions = new WebhookSubscriptionManager();
@@ -0,0 +1,107 @@
+/**
+ * Test script for dashboard payment operations
+ * Checks the validation rules for refunds, voids and captures and the id a
+ * refund is sent against
+ */
+
+import { PaymentOperations, refundTargetId } from '../lib/payment-operations';
+
+let failures = 0;
+
+function check(label: string, condition: boolean) {
+  console.log(`  ${condition ? '✅' : '❌'} ${label}`);
+  if (!condition) failures++;
+}
+
+const operations = new PaymentOperations(() => null);
+
+const authorization = {
+  amount: 100,
+  status: 'PENDING',
+  transactionType: 'PAYMENT',
+  paymentMethod: 'VI',
+  children: [],
+  statusHistory: [{ rawStatus: 'AUTHORIZED', eventType: 'PAYMENT_AUTHORIZED' }],
+  operations: [],
+};
+
+const payment = {
+  amount: 100,
+  status: 'COMPLETED',
+  transactionType: 'PAYMENT',
+  paymentMethod: 'VI',
+  children: [],
+};
+
+const refund = (amount: number, status = 'COMPLETED') => ({ amount, status, transactionType: 'REFUND' });
+
+function amountOf(result: { amount: number } | { error: string }): number | undefined {
+  return 'amount' in result ? result.amount : undefined;
+}
+
+function isError(result: { amount: number } | { error: string }): boolean {
+  return 'error' in result;
+}
+
+async function testPaymentOperations() {
+  console.log('🧪 Testing Payment Operations\n');
+  console.log('=' .repeat(60));
+
+  // Voids and captures
+  console.log('\n💳 Voids and captures:');
+  check('card authorization can be voided', amountOf(operations.validate(authorization, { type: 'VOID' })) === 100);
+  check('card authorization can be captured in full', amountOf(operations.validate(authorization, { type: 'CAPTURE' })) === 100);
+  check('non-card pending payment cannot be voided',
+    isError(operations.validate({ ...authorization, paymentMethod: 'DIRECT_DEBIT' }, { type: 'VOID' })));
+  check('card payment still processing cannot be captured',
+    isError(operations.validate({ ...authorization, statusHistory: [{ rawStatus: 'PROCESSING', eventType: 'PAYMENT_PENDING' }] }, { type: 'CAPTURE' })));
+  check('completed payment cannot be voided', isError(operations.validate(payment, { type: 'VOID' })));
+  check('second capture blocked while one is in flight',
+    isError(operations.validate({ ...authorization, operations: [{ type: 'CAPTURE', amount: 100 }] }, { type: 'CAPTURE' })));
+
+  // Partial captures
+  console.log('\n✂️  Partial captures:');
+  check('partial capture allowed', amountOf(operations.validate(authorization, { type: 'CAPTURE', amount: 40 })) === 40);
+  check('capture above the authorized amount rejected', isError(operations.validate(authorization, { type: 'CAPTURE', amount: 120 })));
+  check('partial void rejected', isError(operations.validate(authorization, { type: 'VOID', amount: 40 })));
+
+  // Refunds
+  console.log('\n💸 Refunds:');
+  check('full refund defaults to the captured amount', amountOf(operations.validate(payment, { type: 'REFUND' })) === 100);
+  check('completed refunds are deducted',
+    amountOf(operations.validate({ ...payment, children: [refund(30)] }, { type: 'REFUND' })) === 70);
+  check('pending refunds are deducted',
+    amountOf(operations.validate({ ...payment, children: [refund(30), refund(20, 'PENDING')] }, { type: 'REFUND' })) === 50);
+  check('failed refunds are not deducted',
+    amountOf(operations.validate({ ...payment, children: [refund(30, 'FAILED')] }, { type: 'REFUND' })) === 100);
+  check('in-flight refund operations are deducted',
+    amountOf(operations.validate({ ...payment, operations: [{ type: 'REFUND', amount: 25 }] }, { type: 'REFUND' })) === 75);
+  check('refund above the remaining amount rejected',
+    isError(operations.validate({ ...payment, children: [refund(80)] }, { type: 'REFUND', amount: 30 })));
+  check('fully refunded payment has nothing left', isError(operations.validate({ ...payment, children: [refund(100)] }, { type: 'REFUND' })));
+  check('pending payment cannot be refunded', isError(operations.validate(authorization, { type: 'REFUND' })));
+  check('refund of a refund rejected', isError(operations.validate({ ...payment, transactionType: 'REFUND' }, { type: 'REFUND' })));
+
+  // Refund target
+  console.log('\n🎯 Refund target:');
+  const createdAt = new Date('2026-03-01T12:00:00Z');
+  check('payment without a dashboard capture is refunded directly', refundTargetId({ externalId: 'pay-1' }, []) === 'pay-1');
+  check('captured authorization is refunded through its settlement',
+    refundTargetId({ externalId: 'auth-1' }, [{ type: 'CAPTURE', status: 'SUCCEEDED', paysafeId: 'settle-1', createdAt }]) === 'settle-1');
+  check('failed capture is ignored',
+    refundTargetId({ externalId: 'auth-1' }, [{ type: 'CAPTURE', status: 'FAILED', paysafeId: 'settle-1', createdAt }]) === 'auth-1');
+
+  console.log('\n' + '=' .repeat(60));
+  if (failures > 0) {
+    console.log(`❌ Payment Operations Test Failed (${failures} check(s))`);
+    process.exit(1);
+  }
+  console.log('✅ Payment Operations Test Complete!');
+  process.exit(0);
+}
+
+// Run test
+testPaymentOperations().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
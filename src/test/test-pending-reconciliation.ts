@@ -0,0 +1,187 @@
+/**
+ * Test script for stale pending payment reconciliation
+ * Polls a local stand-in for the Paysafe payments API and checks thresholds,
+ * status mapping and the lifecycle decision applied to the polled status
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PaysafeAPI } from '../lib/paysafe-api';
+import {
+  DEFAULT_PENDING_THRESHOLDS,
+  PendingTransaction,
+  isStalePending,
+  mapPaysafeStatus,
+  pendingThresholds,
+  planReconciliation,
+  pollPaymentStatus,
+  thresholdMinutes,
+} from '../lib/pending-reconciliation';
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret';
+const now = new Date('2026-03-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+// Payments known to the stand-in API
+const payments: Record<string, { status: string; updatedTime?: string }> = {
+  'pay-completed': { status: 'COMPLETED', updatedTime: minutesAgo(30).toISOString() },
+  'pay-failed': { status: 'FAILED', updatedTime: minutesAgo(10).toISOString() },
+  'pay-processing': { status: 'PROCESSING', updatedTime: minutesAgo(5).toISOString() },
+  'pay-old-update': { status: 'COMPLETED', updatedTime: minutesAgo(600).toISOString() },
+  'pay-no-time': { status: 'CANCELLED' },
+  'pay-odd': { status: 'SOMETHING_NEW', updatedTime: minutesAgo(1).toISOString() },
+};
+
+const requests: Array<{ path: string; authorized: boolean }> = [];
+let failures = 0;
+
+function check(label: string, condition: boolean) {
+  console.log(`  ${condition ? '✅' : '❌'} ${label}`);
+  if (!condition) failures++;
+}
+
+// Stand-in for GET /paymenthub/v1/payments/{id}
+const paysafe = http.createServer((req, res) => {
+  const expectedAuth = `Basic ${Buffer.from(`${API_KEY}:${API_SECRET}`).toString('base64')}`;
+  const authorized = req.headers.authorization === expectedAuth;
+  requests.push({ path: req.url || '', authorized });
+
+  if (!authorized) {
+    res.writeHead(401, { 'Content-Type': 'application/json' }).end('{"error":{"code":"5279","message":"Invalid credentials"}}');
+    return;
+  }
+
+  const match = (req.url || '').match(/^\/paymenthub\/v1\/payments\/([^/?]+)$/);
+  const payment = match ? payments[decodeURIComponent(match[1])] : undefined;
+  if (!match || !payment) {
+    res.writeHead(404, { 'Content-Type': 'application/json' }).end('{"error":{"code":"5269","message":"Not found"}}');
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+    id: match[1],
+    merchantRefNum: `ref-${match[1]}`,
+    amount: 1000,
+    currencyCode: 'USD',
+    status: payment.status,
+    txnTime: minutesAgo(24 * 60).toISOString(),
+    ...(payment.updatedTime && { updatedTime: payment.updatedTime }),
+  }));
+});
+
+function pendingPayment(overrides: Partial<PendingTransaction> = {}): PendingTransaction {
+  return {
+    externalId: 'pay-completed',
+    status: 'PENDING',
+    transactionType: 'PAYMENT',
+    paymentMethod: 'VISA',
+    transactionTime: minutesAgo(120),
+    statusEventTime: minutesAgo(120),
+    ...overrides,
+  };
+}
+
+async function testPendingReconciliation() {
+  console.log('🧪 Testing Pending Payment Reconciliation\n');
+  console.log('=' .repeat(60));
+
+  await new Promise<void>(resolve => paysafe.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(paysafe.address() as AddressInfo).port}`;
+  const api = new PaysafeAPI({ apiKey: API_KEY, apiSecret: API_SECRET, environment: 'sandbox', baseUrl });
+  console.log(`\n📡 Paysafe stand-in listening at ${baseUrl}`);
+
+  // 1. Per-payment-method thresholds
+  console.log('\n⏳ Thresholds:');
+  check('cards wait 60 minutes', thresholdMinutes('visa') === 60);
+  check('direct debit waits 5 days', thresholdMinutes('DIRECT_DEBIT') === 5 * 24 * 60);
+  check('unknown methods use the default', thresholdMinutes('CARRIER_PIGEON') === DEFAULT_PENDING_THRESHOLDS.DEFAULT);
+
+  process.env.PENDING_RECONCILE_THRESHOLDS = JSON.stringify({ visa: 15, SEPA: -1 });
+  const overridden = pendingThresholds();
+  check('override applied case-insensitively', overridden.VISA === 15);
+  check('invalid override ignored', overridden.SEPA === DEFAULT_PENDING_THRESHOLDS.SEPA);
+  process.env.PENDING_RECONCILE_THRESHOLDS = 'not json';
+  check('invalid JSON falls back to defaults', pendingThresholds() === DEFAULT_PENDING_THRESHOLDS);
+  delete process.env.PENDING_RECONCILE_THRESHOLDS;
+
+  // 2. Which payments are stale
+  console.log('\n🔎 Stale detection:');
+  check('card pending for 2 hours is stale', isStalePending(pendingPayment(), now));
+  check('card pending for 30 minutes is not', !isStalePending(pendingPayment({ statusEventTime: minutesAgo(30) }), now));
+  check('direct debit pending for 2 hours is not', !isStalePending(pendingPayment({ paymentMethod: 'DIRECT_DEBIT' }), now));
+  check('direct debit pending for 6 days is', isStalePending(
+    pendingPayment({ paymentMethod: 'DIRECT_DEBIT', statusEventTime: minutesAgo(6 * 24 * 60) }), now
+  ));
+  check('transaction time used without a status event time', isStalePending(
+    pendingPayment({ statusEventTime: null, transactionTime: minutesAgo(90) }), now
+  ));
+  check('completed payments are never stale', !isStalePending(pendingPayment({ status: 'COMPLETED' }), now));
+  check('refunds are not polled', !isStalePending(pendingPayment({ transactionType: 'REFUND' }), now));
+
+  // 3. Status mapping
+  console.log('\n🗺️  Status mapping:');
+  check('COMPLETED -> COMPLETED', mapPaysafeStatus('COMPLETED') === 'COMPLETED');
+  check('PROCESSING -> PENDING', mapPaysafeStatus('processing') === 'PENDING');
+  check('DECLINED -> FAILED', mapPaysafeStatus('DECLINED') === 'FAILED');
+  check('VOIDED -> CANCELLED', mapPaysafeStatus('VOIDED') === 'CANCELLED');
+  check('unknown status -> null', mapPaysafeStatus('SOMETHING_NEW') === null);
+
+  // 4. Polling the API and deciding what to apply
+  console.log('\n📨 Poll and decide:');
+  const completed = await pollPaymentStatus(api, 'pay-completed', now);
+  check('polled status mapped', completed.status === 'COMPLETED' && completed.rawStatus === 'COMPLETED');
+  check('event time taken from updatedTime', completed.eventTime.getTime() === minutesAgo(30).getTime());
+  check('basic auth sent', requests[requests.length - 1].authorized);
+  check('completed payment is corrected', planReconciliation(pendingPayment(), completed).outcome === 'APPLIED');
+
+  const failed = await pollPaymentStatus(api, 'pay-failed', now);
+  check('failed payment is corrected', planReconciliation(pendingPayment({ externalId: 'pay-failed' }), failed).outcome === 'APPLIED');
+
+  const processing = await pollPaymentStatus(api, 'pay-processing', now);
+  check('processing payment stays pending', planReconciliation(pendingPayment(), processing).outcome === 'STILL_PENDING');
+
+  const oldUpdate = await pollPaymentStatus(api, 'pay-old-update', now);
+  check('status older than the stored one is stale', planReconciliation(pendingPayment(), oldUpdate).outcome === 'STALE');
+
+  const noTime = await pollPaymentStatus(api, 'pay-no-time', now);
+  check('poll time used without updatedTime', noTime.eventTime.getTime() === now.getTime());
+  check('cancelled payment is corrected', planReconciliation(pendingPayment(), noTime).outcome === 'APPLIED');
+
+  const odd = await pollPaymentStatus(api, 'pay-odd', now);
+  check('unknown status is left alone', planReconciliation(pendingPayment(), odd).outcome === 'UNKNOWN_STATUS');
+
+  // 5. API errors surface to the caller
+  console.log('\n💥 API errors:');
+  let notFound = false;
+  try {
+    await pollPaymentStatus(api, 'pay-missing', now);
+  } catch {
+    notFound = true;
+  }
+  check('unknown payment throws', notFound);
+
+  let unauthorized = false;
+  try {
+    await pollPaymentStatus(new PaysafeAPI({ apiKey: 'wrong', apiSecret: 'wrong', environment: 'sandbox', baseUrl }), 'pay-completed', now);
+  } catch {
+    unauthorized = true;
+  }
+  check('bad credentials throw', unauthorized && !requests[requests.length - 1].authorized);
+
+  paysafe.close();
+
+  console.log('\n' + '=' .repeat(60));
+  if (failures > 0) {
+    console.log(`❌ Pending Reconciliation Test Failed (${failures} check(s))`);
+    process.exit(1);
+  }
+  console.log('✅ Pending Reconciliation Test Complete!');
+  process.exit(0);
+}
+
+// Run test
+testPendingReconciliation().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
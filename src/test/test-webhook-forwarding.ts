@@ -0,0 +1,197 @@
+/**
+ * Test script for outbound webhook forwarding
+ * Delivers signed events to a local HTTP stand-in receiver and checks
+ * signatures, failure capture, retry scheduling and timeouts
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  OUTBOUND_HEADERS,
+  checkOutboundEndpoint,
+  generateSigningSecret,
+  retryDelayMs,
+  sendOutboundWebhook,
+  signOutboundPayload,
+  verifyOutboundSignature,
+} from '../lib/outbound-webhook';
+
+type ReceiverMode = 'ok' | 'flaky' | 'error' | 'slow' | 'verbose';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  signatureValid: boolean;
+}
+
+const secret = generateSigningSecret();
+const received: ReceivedRequest[] = [];
+let mode: ReceiverMode = 'ok';
+let flakyFailuresLeft = 0;
+let failures = 0;
+
+function check(label: string, condition: boolean) {
+  console.log(`  ${condition ? '✅' : '❌'} ${label}`);
+  if (!condition) failures++;
+}
+
+// Stand-in for a company's endpoint: verifies the signature like a real receiver would
+const receiver = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const signatureValid = verifyOutboundSignature(
+      secret,
+      body,
+      req.headers[OUTBOUND_HEADERS.signature.toLowerCase()] as string,
+      req.headers[OUTBOUND_HEADERS.timestamp.toLowerCase()] as string
+    );
+    received.push({ headers: req.headers, body, signatureValid });
+
+    if (!signatureValid) {
+      res.writeHead(401).end('invalid signature');
+      return;
+    }
+
+    switch (mode) {
+      case 'flaky':
+        if (flakyFailuresLeft > 0) {
+          flakyFailuresLeft--;
+          res.writeHead(503).end('temporarily unavailable');
+          return;
+        }
+        res.writeHead(200).end('{"received":true}');
+        return;
+      case 'error':
+        res.writeHead(500).end('{"error":"boom"}');
+        return;
+      case 'slow':
+        setTimeout(() => res.writeHead(200).end('late'), 500);
+        return;
+      case 'verbose':
+        res.writeHead(200).end('x'.repeat(5000));
+        return;
+      default:
+        res.writeHead(200).end('{"received":true}');
+    }
+  });
+});
+
+async function testWebhookForwarding() {
+  console.log('🧪 Testing Outbound Webhook Forwarding\n');
+  console.log('=' .repeat(60));
+
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/webhooks`;
+  console.log(`\n📡 Receiver listening at ${url}`);
+
+  const body = JSON.stringify({
+    id: 'evt-forward-001',
+    eventType: 'PAYMENT_COMPLETED',
+    source: 'netbanx',
+    timestamp: new Date().toISOString(),
+    data: { id: 'txn-001', amount: 1000, currencyCode: 'USD', status: 'COMPLETED' },
+  });
+  // The receiver is on loopback, which company endpoints may not use
+  const request = { url, body, secret, deliveryId: 'delivery-001', eventType: 'PAYMENT_COMPLETED', allowPrivateNetwork: true };
+
+  // 1. Signed delivery
+  console.log('\n📨 Signed delivery:');
+  mode = 'ok';
+  const ok = await sendOutboundWebhook(request);
+  const last = received[received.length - 1];
+  check('receiver returned 2xx', ok.success && ok.statusCode === 200);
+  check('signature verified by receiver', last.signatureValid);
+  check('body delivered unchanged', last.body === body);
+  check('delivery id header sent', last.headers[OUTBOUND_HEADERS.deliveryId.toLowerCase()] === 'delivery-001');
+  check('event type header sent', last.headers[OUTBOUND_HEADERS.eventType.toLowerCase()] === 'PAYMENT_COMPLETED');
+  check('latency recorded', ok.latencyMs >= 0);
+
+  // 2. Tampering and wrong secrets are rejected
+  console.log('\n🔐 Signature checks:');
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = signOutboundPayload(secret, timestamp, body);
+  check('valid signature accepted', verifyOutboundSignature(secret, body, signature, String(timestamp)));
+  check('tampered body rejected', !verifyOutboundSignature(secret, body + ' ', signature, String(timestamp)));
+  check('other secret rejected', !verifyOutboundSignature(generateSigningSecret(), body, signature, String(timestamp)));
+  check('stale timestamp rejected', !verifyOutboundSignature(
+    secret, body, signOutboundPayload(secret, timestamp - 3600, body), String(timestamp - 3600)
+  ));
+  const wrongSecret = await sendOutboundWebhook({ ...request, secret: generateSigningSecret() });
+  check('receiver rejects delivery signed with another secret', !wrongSecret.success && wrongSecret.statusCode === 401);
+
+  // 3. Failures are captured for the attempt log
+  console.log('\n💥 Receiver error:');
+  mode = 'error';
+  const failed = await sendOutboundWebhook(request);
+  check('non-2xx marked as failed', !failed.success && failed.statusCode === 500);
+  check('error recorded', failed.error === 'HTTP 500');
+  check('response snippet captured', failed.responseSnippet === '{"error":"boom"}');
+
+  mode = 'verbose';
+  const verbose = await sendOutboundWebhook(request);
+  check('response snippet truncated to 500 chars', verbose.responseSnippet?.length === 500);
+
+  // 4. Retries with exponential backoff until the receiver recovers
+  console.log('\n🔁 Retry with backoff:');
+  mode = 'flaky';
+  flakyFailuresLeft = 2;
+  const baseDelay = 10;
+  const delays: number[] = [];
+  let attempts = 0;
+  let result = await sendOutboundWebhook(request);
+  attempts++;
+  while (!result.success && attempts < 6) {
+    const delay = retryDelayMs(baseDelay, attempts);
+    delays.push(delay);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    result = await sendOutboundWebhook(request);
+    attempts++;
+  }
+  check('delivered on third attempt', result.success && attempts === 3);
+  check('backoff doubles between attempts', delays.join(',') === '10,20');
+
+  // 5. Unresponsive receivers time out
+  console.log('\n⏱️  Timeout:');
+  mode = 'slow';
+  const slow = await sendOutboundWebhook({ ...request, timeoutMs: 100 });
+  check('slow receiver times out', !slow.success && slow.error === 'Request timed out' && slow.statusCode === null);
+
+  // 6. Unreachable receivers fail without throwing
+  const unreachable = await sendOutboundWebhook({ ...request, url: 'http://127.0.0.1:1/webhooks' });
+  check('connection error captured', !unreachable.success && unreachable.error !== null);
+
+  // 7. Endpoints on the server's own network are refused
+  console.log('\n🚫 Internal endpoints:');
+  const before = received.length;
+  const internal = await sendOutboundWebhook({ ...request, allowPrivateNetwork: false });
+  check('loopback receiver not contacted', !internal.success && internal.statusCode === null && received.length === before);
+  for (const endpoint of [
+    'http://localhost/webhooks',
+    'http://10.0.0.5/webhooks',
+    'http://192.168.1.10/webhooks',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/webhooks',
+    'http://[::ffff:127.0.0.1]/webhooks',
+  ]) {
+    check(`${endpoint} rejected`, (await checkOutboundEndpoint(endpoint)) !== null);
+  }
+  check('public address accepted', (await checkOutboundEndpoint('https://93.184.216.34/webhooks')) === null);
+  check('non-http scheme rejected', (await checkOutboundEndpoint('ftp://93.184.216.34/webhooks')) !== null);
+
+  receiver.close();
+
+  console.log('\n' + '=' .repeat(60));
+  if (failures > 0) {
+    console.log(`❌ Webhook Forwarding Test Failed (${failures} check(s))`);
+    process.exit(1);
+  }
+  console.log('✅ Webhook Forwarding Test Complete!');
+  process.exit(0);
+}
+
+// Run test
+testWebhookForwarding().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,101 @@
+/**
+ * Test script for refunds arriving through the netbanx ingest path
+ * Sends the card-authorize-capture-partial-refund scenario through the
+ * persistent webhook store and checks the refund is stored as a REFUND child
+ * of its payment and counted against it
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getScenario, webhookSimulator } from '../lib/webhook-simulator';
+import { webhookStorePersistent } from '../lib/webhook-store-persistent';
+import { summarizeRefunds } from '../lib/transaction-linker';
+import { withDatabase } from '../lib/database';
+import { WebhookEvent, WebhookPayload } from '../types/webhook';
+
+let failures = 0;
+
+function check(label: string, condition: boolean) {
+  console.log(`  ${condition ? '✅' : '❌'} ${label}`);
+  if (!condition) failures++;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function findRefund(externalId: string) {
+  return withDatabase(async (db) => {
+    return db.transaction.findFirst({ where: { externalId }, include: { parent: { include: { children: true } } } });
+  });
+}
+
+async function testRefundLinking() {
+  console.log('🧪 Testing Refund Webhooks Through the Persistent Store\n');
+  console.log('=' .repeat(60));
+
+  const scenario = getScenario('card-authorize-capture-partial-refund');
+  if (!scenario) {
+    throw new Error('Scenario card-authorize-capture-partial-refund not found');
+  }
+
+  const steps = webhookSimulator.preview(scenario);
+  const events: WebhookEvent[] = steps.map(step => {
+    const payload = step.body as WebhookPayload;
+    return {
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      eventType: payload.eventType,
+      source: 'netbanx',
+      processed: true,
+      payload,
+      mode: 'test',
+    };
+  });
+  const paymentId = events[0].payload.eventData?.id as string;
+  const refundId = events[2].payload.eventData?.id as string;
+
+  console.log('\n📨 Authorize, capture and partial refund:');
+  for (const event of events) {
+    await webhookStorePersistent.addWebhookEvent(event);
+  }
+
+  // The store writes in batches; wait for the refund to be linked
+  let refund = await findRefund(refundId);
+  for (let attempt = 0; attempt < 20 && !refund?.parent; attempt++) {
+    await sleep(500);
+    refund = await findRefund(refundId);
+  }
+
+  check('refund row created', !!refund);
+  check('stored as a REFUND', refund?.transactionType === 'REFUND');
+  check('linked to its payment', refund?.parent?.externalId === paymentId);
+  check('payment captured', refund?.parent?.status === 'COMPLETED');
+
+  const summary = refund?.parent ? summarizeRefunds(refund.parent, refund.parent.children) : null;
+  check('refund counted against the payment', summary?.refundedAmount === 4000);
+  check('payment partially refunded', summary?.refundState === 'PARTIAL');
+
+  // Clean up test data
+  console.log('\n🧹 Cleaning up test data...');
+  await withDatabase(async (db) => {
+    const rows = await db.transaction.findMany({ where: { externalId: { in: [paymentId, refundId] } }, select: { id: true } });
+    const ids = rows.map(row => row.id);
+    await db.transactionStatusHistory.deleteMany({ where: { transactionId: { in: ids } } });
+    await db.transactionAnomaly.deleteMany({ where: { transactionId: { in: ids } } });
+    await db.transaction.deleteMany({ where: { externalId: refundId } });
+    await db.transaction.deleteMany({ where: { externalId: paymentId } });
+    await db.webhookEvent.deleteMany({ where: { id: { in: events.map(event => event.id) } } });
+  }, { operationName: 'test_refund_linking_cleanup' });
+
+  console.log('\n' + '=' .repeat(60));
+  if (failures > 0) {
+    console.log(`❌ Refund Linking Test Failed (${failures} check(s))`);
+    process.exit(1);
+  }
+  console.log('✅ Refund Linking Test Complete!');
+  process.exit(0);
+}
+
+// Run test
+testRefundLinking().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
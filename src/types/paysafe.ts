@@ -2,6 +2,7 @@ export interface PaysafeCredentials {
   apiKey: string;
   apiSecret: string;
   environment: 'sandbox' | 'production';
+  baseUrl?: string; // Overrides the environment's API host (proxies, local stand-ins)
 }
 
 export interface Transaction {
@@ -15,6 +16,9 @@ export interface Transaction {
   createdAt: string;
   updatedAt: string;
   description?: string;
+  refundedAmount?: number;     // Completed refunds against this payment
+  netCapturedAmount?: number;  // Captured amount less refunds and upheld chargebacks
+  refundState?: 'NONE' | 'PARTIAL' | 'FULL';
 }
 
 export interface Payment {
@@ -55,6 +59,7 @@ export interface PaymentSummary {
 }
 
 export interface ReportFilter {
+  accountId?: string; // Paysafe merchant account; every account the credentials can see when omitted
   startDate: string;
   endDate: string;
   status?: string[];
@@ -1,5 +1,5 @@
 export interface WebhookPayload {
-  id: string;
+  id?: string; // Missing from some direct debit and alternate payment events
   eventType: string;
   eventData?: {
     id?: string;
@@ -10,6 +10,9 @@ export interface WebhookPayload {
     txnTime?: string;
     updatedTime?: string;
     paymentHandleToken?: string;
+    originalTransactionId?: string; // Refunds and chargebacks: the payment they belong to
+    settlementId?: string;
+    paymentId?: string;
     card?: {
       type?: string;
       lastDigits?: string;
@@ -31,22 +34,74 @@ export interface WebhookPayload {
 
 export interface WebhookEvent {
   id: string;
+  providerEventId?: string; // Sender's id for the event; repeats across a payment's status updates
   timestamp: string;
   eventType: string;
-  source: 'netbanx' | 'paysafe';
+  source: WebhookSource;
   payload: WebhookPayload;
   processed: boolean;
   error?: string;
+  signature?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  companyId?: string;
+  signatureStatus?: SignatureStatus;
+  signatureKeyVersion?: number; // Secret version that validated the signature (see webhook-key-rotation.ts)
+  quarantined?: boolean; // Failed verification on a MONITOR endpoint
+  schemaVersion?: string; // Registry schema the payload was validated against
+  schemaValid?: boolean; // false = failed validation on a MONITOR endpoint
+  tenantResolution?: TenantResolutionMethod;
+  tenantReference?: string; // Account number or partner id found in the payload
+  filterReason?: WebhookFilterReason; // Stored only: the company's subscription skipped processing
+  idempotencyKey?: string; // Event identity claimed at ingest (see webhook-idempotency.ts)
+  mode?: DataMode; // Paysafe live or sandbox traffic; stored as "live" when unset
 }
 
+// Live or test (Paysafe sandbox) data, stored on webhook events, transactions and accounts
+export type DataMode = 'live' | 'test';
+
+// How an inbound event was routed to a company (UNASSIGNED events wait in the admin inbox)
+export type TenantResolutionMethod = 'WEBHOOK_URL' | 'ACCOUNT' | 'PARTNER' | 'MANUAL' | 'UNASSIGNED';
+
+// Per-endpoint signature policy, stored on WebhookSecret.signaturePolicy
+export type SignaturePolicy = 'ENFORCE' | 'MONITOR' | 'DISABLED';
+
+// Per-endpoint payload schema policy, stored on WebhookSecret.schemaPolicy
+export type SchemaPolicy = 'ENFORCE' | 'MONITOR' | 'DISABLED';
+
+export type SignatureStatus = 'VALID' | 'INVALID' | 'MISSING' | 'SKIPPED';
+
+export type WebhookSource =
+  | 'netbanx'
+  | 'paysafe'
+  | 'paysafe-accounts'
+  | 'paysafe-direct-debit'
+  | 'paysafe-alternate-payments';
+
 export interface WebhookConfig {
   endpoint: string;
   secret: string;
-  events: string[];
+  events: string[]; // Enforced per company by WebhookSubscription
   isActive: boolean;
   createdAt: string;
 }
 
+// Rule that skips an otherwise subscribed event (see webhook-subscriptions.ts)
+export type WebhookFilterRule =
+  | { type: 'IGNORE_TEST_MODE' }
+  | { type: 'MIN_AMOUNT'; minAmount: number; currency?: string } // Amount in minor units, as sent by Paysafe
+  | { type: 'FIELD_EQUALS'; path: string; value: string }; // Dot path into the raw payload
+
+export type WebhookFilterReason = 'UNSUBSCRIBED' | WebhookFilterRule['type'];
+
+export interface WebhookSubscription {
+  companyId: string;
+  endpoint: string;
+  events: string[]; // Empty = all event types
+  filters: WebhookFilterRule[];
+  updatedAt?: string;
+}
+
 export interface WebhookStats {
   totalReceived: number;
   successfullyProcessed: number;